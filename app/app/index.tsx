@@ -7,184 +7,85 @@ import {
   StyleSheet,
   ActivityIndicator,
   Image,
-  Dimensions,
-  Modal,
-  Animated,
-  Easing,
-  ScrollView,
   KeyboardAvoidingView,
   Platform,
   BackHandler,
 } from 'react-native';
 import { CameraView, useCameraPermissions } from 'expo-camera';
 import * as ImagePicker from 'expo-image-picker';
-import * as VideoThumbnails from 'expo-video-thumbnails';
 import * as MediaLibrary from 'expo-media-library';
 import { Video } from 'expo-av';
 import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context';
+import { router, useFocusEffect } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
-import { useClipStore, type Phase } from '../store/useClipStore';
-import { generateVideo, pollUntilDone, downloadVideo } from '../services/api';
+import {
+  useClipStore,
+  hasContinuityBreak,
+  pathTo,
+  type Clip,
+  type Phase,
+  type ResumeOutcome,
+} from '../store/useClipStore';
+import {
+  useGenerationQueue,
+  type GenerationJob,
+} from '../store/useGenerationQueue';
+import {
+  downloadVideo,
+  archivedVideoId,
+  renderSequence,
+  getQuota,
+  type GenerationSettings,
+  type Quota,
+} from '../services/api';
+import { describeError, type RecoveryAction } from '../services/errors';
+import { cutPoints, firstMismatchedClip } from '../services/sequence';
+import {
+  insertTemplate,
+  placeholders,
+  presetSettings,
+  toClipStyle,
+  unapplyPresetSettings,
+  type ClipStyle,
+  type StylePreset,
+} from '../services/presets';
+import AdvancedSettings from '../components/AdvancedSettings';
+import StylePicker from '../components/StylePicker';
+import ContinuityPanel from '../components/ContinuityPanel';
+import PromptEnhancer from '../components/PromptEnhancer';
+import ClipTimeline from '../components/ClipTimeline';
+import GenerationQueue from '../components/GenerationQueue';
+import BranchTree from '../components/BranchTree';
+import SequencePlayer from '../components/SequencePlayer';
+import FramePicker from '../components/FramePicker';
+import CustomModal, {
+  type ModalButton,
+  type ModalState,
+} from '../components/CustomModal';
 
-const { width: SCREEN_WIDTH } = Dimensions.get('window');
 const MAX_CLIPS = 5;
 
-// ---------------------------------------------------------------------------
-// Custom Modal
-// ---------------------------------------------------------------------------
-type ModalButton = {
-  text: string;
-  onPress: () => void;
-  style?: 'cancel' | 'destructive' | 'default';
-};
-
-type ModalState = {
-  visible: boolean;
-  title: string;
-  message?: string;
-  buttons: ModalButton[];
-};
-
-function CustomModal({ modal, onClose }: { modal: ModalState; onClose: () => void }) {
-  if (!modal.visible) return null;
-  return (
-    <Modal transparent visible animationType="fade" onRequestClose={onClose}>
-      <View style={modalStyles.overlay}>
-        <View style={modalStyles.content}>
-          <Text style={modalStyles.title}>{modal.title}</Text>
-          {modal.message ? (
-            <Text style={modalStyles.message}>{modal.message}</Text>
-          ) : null}
-          <View style={modalStyles.buttonRow}>
-            {modal.buttons.map((btn, i) => (
-              <TouchableOpacity
-                key={i}
-                style={[
-                  modalStyles.button,
-                  btn.style === 'destructive' && modalStyles.buttonDestructive,
-                  btn.style === 'cancel' && modalStyles.buttonCancel,
-                ]}
-                onPress={() => {
-                  onClose();
-                  btn.onPress();
-                }}
-              >
-                <Text
-                  style={[
-                    modalStyles.buttonText,
-                    btn.style === 'cancel' && modalStyles.buttonTextCancel,
-                  ]}
-                >
-                  {btn.text}
-                </Text>
-              </TouchableOpacity>
-            ))}
-          </View>
-        </View>
-      </View>
-    </Modal>
-  );
-}
-
-const modalStyles = StyleSheet.create({
-  overlay: {
-    flex: 1,
-    backgroundColor: 'rgba(0,0,0,0.75)',
-    justifyContent: 'center',
-    alignItems: 'center',
-    padding: 40,
-  },
-  content: {
-    backgroundColor: '#1c1c1e',
-    borderRadius: 20,
-    padding: 24,
-    width: '100%',
-    maxWidth: 320,
-  },
-  title: {
-    color: '#fff',
-    fontSize: 18,
-    fontWeight: '700',
-    textAlign: 'center',
-    marginBottom: 8,
-  },
-  message: {
-    color: '#999',
-    fontSize: 14,
-    textAlign: 'center',
-    marginBottom: 22,
-    lineHeight: 20,
-  },
-  buttonRow: { gap: 10 },
-  button: {
-    backgroundColor: '#6432ff',
-    paddingVertical: 14,
-    borderRadius: 14,
-    alignItems: 'center',
-  },
-  buttonDestructive: { backgroundColor: '#ff3b30' },
-  buttonCancel: { backgroundColor: '#333' },
-  buttonText: { color: '#fff', fontSize: 15, fontWeight: '600' },
-  buttonTextCancel: { color: '#aaa' },
-});
-
-// ---------------------------------------------------------------------------
-// Progress Bar
-// ---------------------------------------------------------------------------
-function ProgressBar() {
-  const anim = useRef(new Animated.Value(0)).current;
-
-  useEffect(() => {
-    const loop = Animated.loop(
-      Animated.sequence([
-        Animated.timing(anim, {
-          toValue: 1,
-          duration: 1200,
-          easing: Easing.inOut(Easing.ease),
-          useNativeDriver: true,
-        }),
-        Animated.timing(anim, {
-          toValue: 0,
-          duration: 1200,
-          easing: Easing.inOut(Easing.ease),
-          useNativeDriver: true,
-        }),
-      ]),
-    );
-    loop.start();
-    return () => loop.stop();
-  }, []);
-
-  const translateX = anim.interpolate({
-    inputRange: [0, 1],
-    outputRange: [-(SCREEN_WIDTH * 0.35), SCREEN_WIDTH * 0.35],
-  });
-
-  return (
-    <View style={progressStyles.track}>
-      <Animated.View
-        style={[progressStyles.bar, { transform: [{ translateX }] }]}
-      />
-    </View>
-  );
+// One line about the tighter of the daily and monthly generation quotas,
+// or null when neither is limited.
+function quotaText(quota: Quota): string | null {
+  const { daily, monthly } = quota;
+  const tighter =
+    daily.remaining === null
+      ? monthly
+      : monthly.remaining === null || daily.remaining <= monthly.remaining
+        ? daily
+        : monthly;
+  if (tighter.remaining === null || tighter.limit === null) return null;
+  const period = tighter === daily ? 'today' : 'this month';
+  if (tighter.remaining === 0) {
+    const hours = Math.max(1, Math.ceil((tighter.resetsAt - Date.now()) / 3600000));
+    return `No generations left ${period} — resets in ${
+      hours < 48 ? `${hours}h` : `${Math.ceil(hours / 24)} days`
+    }`;
+  }
+  return `${tighter.remaining} of ${tighter.limit} generations left ${period}`;
 }
 
-const progressStyles = StyleSheet.create({
-  track: {
-    width: SCREEN_WIDTH * 0.55,
-    height: 4,
-    backgroundColor: 'rgba(255,255,255,0.12)',
-    borderRadius: 2,
-    overflow: 'hidden',
-  },
-  bar: {
-    width: '40%',
-    height: '100%',
-    backgroundColor: '#6432ff',
-    borderRadius: 2,
-  },
-});
-
 // ---------------------------------------------------------------------------
 // Back Button
 // ---------------------------------------------------------------------------
@@ -212,16 +113,29 @@ function BackButton({
 export default function MainScreen() {
   const cameraRef = useRef<CameraView>(null);
   const videoRef = useRef<Video>(null);
-  const abortControllerRef = useRef<AbortController | null>(null);
   const insets = useSafeAreaInsets();
   const [cameraPermission, requestCameraPermission] = useCameraPermissions();
   const [cameraFacing, setCameraFacing] = useState<'front' | 'back'>('back');
   const [prompt, setPrompt] = useState('');
-  const [genStatus, setGenStatus] = useState('Starting...');
   const [currentPlayingIndex, setCurrentPlayingIndex] = useState(0);
   const [playbackKey, setPlaybackKey] = useState(0);
   const [cameraReady, setCameraReady] = useState(false);
   const [isPlaying, setIsPlaying] = useState(true);
+  const [exporting, setExporting] = useState(false);
+  const [showBranches, setShowBranches] = useState(false);
+  const [quota, setQuota] = useState<Quota | null>(null);
+  // Earlier clip the next generation forks from, instead of continuing the
+  // active branch's last clip.
+  const [forkFromId, setForkFromId] = useState<string | null>(null);
+  // Clip whose continuation frame is being picked
+  const [framePickerClip, setFramePickerClip] = useState<Clip | null>(null);
+  // Style preset for the next clip; starts as that of the clip before it
+  const [style, setStyle] = useState<ClipStyle | null>(null);
+  // Settings the picked preset changed, and what they were before
+  const presetPickRef = useRef<{
+    applied: Partial<GenerationSettings>;
+    before: GenerationSettings;
+  } | null>(null);
   const [modal, setModal] = useState<ModalState>({
     visible: false,
     title: '',
@@ -230,19 +144,78 @@ export default function MainScreen() {
 
   const {
     clips,
+    projects,
+    currentProjectId,
     phase,
     selectedImageUri,
+    generationSettings,
     setPhase,
     setSelectedImage,
+    setGenerationSettings,
+    setContinuity,
+    setContinuationFrame,
     addClip,
-    updateClip,
-    getLastClip,
+    moveClip,
+    deleteClip,
+    selectBranch,
+    getBranch,
+    getTipId,
+    getTipClip,
     getContextPrompt,
-    reset,
+    getBranchStyle,
+    getPreviousPrompts,
+    resumeResults,
+    clearResumeResults,
   } = useClipStore();
 
-  const doneClips = clips.filter((c) => c.status === 'done' && c.videoUri);
+  // Finished clips on the active branch — what preview, final playback and
+  // export work on.
+  const doneClips = getBranch().filter((c) => c.videoUri);
   const hasDoneClips = doneClips.length > 0;
+  const branchTipId = doneClips[doneClips.length - 1]?.id ?? null;
+  // Generating clips without a queue job were resumed from the last
+  // session (see resumeGenerations).
+  const jobs = useGenerationQueue((s) => s.jobs);
+  const resumingCount = clips.filter(
+    (c) =>
+      c.status === 'generating' && !jobs.some((j) => j.clipId === c.id),
+  ).length;
+  // Clips on the active branch, counting ones still being generated.
+  const branchLength = pathTo(clips, getTipId()).length;
+
+  // Refresh the generations left each time the user writes a prompt.
+  useEffect(() => {
+    if (phase !== 'prompt') return;
+    const controller = new AbortController();
+    getQuota(controller.signal)
+      .then(setQuota)
+      .catch(() => {});
+    return () => controller.abort();
+  }, [phase]);
+
+  // A fork only applies to the prompt it was started for.
+  useEffect(() => {
+    if (phase === 'camera' || phase === 'preview') setForkFromId(null);
+  }, [phase]);
+
+  // Carry the branch's style on to the clip being written.
+  useEffect(() => {
+    if (phase !== 'prompt') return;
+    setStyle(getBranchStyle(forkFromId ?? useClipStore.getState().getTipId()));
+  }, [phase, forkFromId, getBranchStyle]);
+
+  // Switching projects from the gallery swaps the whole clip list. A project
+  // created on the fly by the first addClip isn't a switch, though.
+  const prevProjectIdRef = useRef(currentProjectId);
+  useEffect(() => {
+    const prev = prevProjectIdRef.current;
+    prevProjectIdRef.current = currentProjectId;
+    if (prev === null || prev === currentProjectId) return;
+    setPrompt('');
+    setCurrentPlayingIndex(0);
+    setPlaybackKey((k) => k + 1);
+    setIsPlaying(true);
+  }, [currentProjectId]);
 
   // ---- Helpers ----
 
@@ -257,6 +230,43 @@ export default function MainScreen() {
     setModal((prev) => ({ ...prev, visible: false }));
   }, []);
 
+  // Tell the user what became of generations interrupted by a restart.
+  useEffect(() => {
+    if (resumeResults.length === 0) return;
+    const count = (outcome: ResumeOutcome) =>
+      resumeResults.filter((r) => r.outcome === outcome).length;
+    const plural = (n: number) => (n === 1 ? '' : 's');
+
+    const lines: string[] = [];
+    const completed = count('completed');
+    const failed = count('failed');
+    const expired = count('expired');
+    const pending = count('pending');
+    if (completed) {
+      lines.push(
+        `${completed} clip${plural(completed)} finished while the app was closed.`,
+      );
+    }
+    if (failed) {
+      lines.push(`${failed} generation${plural(failed)} failed on the server.`);
+    }
+    if (expired) {
+      lines.push(
+        `${expired} generation${plural(expired)} expired on the server before download.`,
+      );
+    }
+    if (pending) {
+      lines.push(
+        `${pending} couldn't be checked right now and will be retried next launch.`,
+      );
+    }
+
+    clearResumeResults();
+    showModal('Unfinished Generations', lines.join('\n\n'), [
+      { text: 'OK', onPress: () => {}, style: 'default' },
+    ]);
+  }, [resumeResults]);
+
   // ---- Permissions ----
 
   useEffect(() => {
@@ -287,13 +297,15 @@ export default function MainScreen() {
     }
   }, []);
 
+  // Continue from the clip the new one will follow. While that clip is
+  // still generating there's no frame to continue from yet.
   const useLastFrame = useCallback(() => {
-    const last = getLastClip();
-    if (last?.lastFrameUri) {
-      setSelectedImage(last.lastFrameUri);
+    const tip = getTipClip();
+    if (tip?.lastFrameUri) {
+      setSelectedImage(tip.lastFrameUri);
       setPhase('prompt');
     }
-  }, [getLastClip]);
+  }, [getTipClip]);
 
   const toggleCameraFacing = useCallback(() => {
     setCameraReady(false);
@@ -302,95 +314,287 @@ export default function MainScreen() {
 
   // ---- Generation ----
 
-  const startGeneration = useCallback(async () => {
+  const startGeneration = useCallback(() => {
     if (!selectedImageUri || !prompt.trim()) return;
 
-    const controller = new AbortController();
-    abortControllerRef.current = controller;
+    // Clips still generating count: the new one goes after them.
+    const parentId = forkFromId ?? getTipId();
+    const fullPrompt = getContextPrompt(prompt.trim(), parentId, style);
+    const settings = generationSettings;
+    const clipId = addClip(
+      selectedImageUri,
+      prompt.trim(),
+      settings,
+      parentId,
+      style,
+    );
+    useGenerationQueue.getState().enqueue({
+      clipId,
+      kind: 'create',
+      imageUri: selectedImageUri,
+      prompt: prompt.trim(),
+      fullPrompt,
+      settings,
+    });
 
-    const fullPrompt = getContextPrompt(prompt.trim());
-    const clipId = addClip(selectedImageUri, prompt.trim());
-    setPhase('generating');
-    setGenStatus('Uploading image...');
+    // Generation carries on in the background.
+    setPrompt('');
+    setPhase(useClipStore.getState().getBranch().length > 0 ? 'preview' : 'camera');
+  }, [
+    selectedImageUri,
+    prompt,
+    forkFromId,
+    style,
+    generationSettings,
+    getTipId,
+    getContextPrompt,
+    addClip,
+  ]);
+
+  // Generate a clip again from its own start image and prompt. The old
+  // video stays in place until the new one is ready.
+  const regenerateClip = useCallback(
+    (clip: Clip) => {
+      useGenerationQueue.getState().enqueue({
+        clipId: clip.id,
+        kind: 'regenerate',
+        imageUri: clip.imageUri,
+        prompt: clip.prompt,
+        fullPrompt: getContextPrompt(clip.prompt, clip.parentId, clip.style),
+        settings: clip.settings,
+      });
+    },
+    [getContextPrompt],
+  );
 
-    try {
-      setGenStatus('Starting generation...');
-      const { taskId } = await generateVideo(
-        selectedImageUri,
-        fullPrompt,
-        controller.signal,
-      );
-      updateClip(clipId, { klingTaskId: taskId });
-
-      setGenStatus('Generating video...');
-      const videoUrl = await pollUntilDone(
-        taskId,
-        (status) => {
-          setGenStatus(
-            status === 'processing' ? 'Generating video...' : status,
-          );
-        },
-        controller.signal,
-      );
+  // Picking a preset also switches to its negative prompt and settings;
+  // clearing it puts back the ones it changed.
+  const selectStyle = useCallback(
+    (preset: StylePreset | null) => {
+      setStyle(preset && toClipStyle(preset));
+      const current = useClipStore.getState().generationSettings;
+      const picked = presetPickRef.current;
+      // Undo the preset being replaced first, so none of its settings
+      // outlive it.
+      const undo = picked
+        ? unapplyPresetSettings(picked.applied, picked.before, current)
+        : {};
+      if (preset) {
+        const applied = presetSettings(preset);
+        presetPickRef.current = { applied, before: picked?.before ?? current };
+        setGenerationSettings({ ...undo, ...applied });
+      } else {
+        presetPickRef.current = null;
+        setGenerationSettings(undo);
+      }
+    },
+    [setGenerationSettings],
+  );
 
-      setGenStatus('Downloading video...');
-      const localVideoUri = await downloadVideo(videoUrl, clipId);
+  // What went wrong with a failed job, with the fix most likely to work as
+  // the main button. Closing the modal leaves the job in the queue.
+  const showJobError = useCallback(
+    (job: GenerationJob) => {
+      if (!job.error) return;
+      const queue = useGenerationQueue.getState();
+      const later: ModalButton = {
+        text: 'Later',
+        onPress: () => {},
+        style: 'cancel',
+      };
+
+      // Back to the prompt, forking from where the clip was, so the new
+      // clip takes its place.
+      const editPrompt = () => {
+        const clip = useClipStore
+          .getState()
+          .clips.find((c) => c.id === job.clipId);
+        queue.dismiss(job.id);
+        setSelectedImage(job.imageUri);
+        setPrompt(job.prompt);
+        setPhase('prompt');
+        setForkFromId(clip?.parentId ?? null);
+      };
+
+      const actions: Record<RecoveryAction, ModalButton[]> = {
+        retry: [
+          later,
+          {
+            text: 'Try Again',
+            onPress: () => queue.retry(job.id),
+            style: 'default',
+          },
+        ],
+        'edit-prompt': [
+          later,
+          { text: 'Edit Description', onPress: editPrompt, style: 'default' },
+        ],
+        'new-photo': [
+          later,
+          {
+            text: 'New Photo',
+            onPress: () => {
+              queue.dismiss(job.id);
+              setPhase('camera');
+            },
+            style: 'default',
+          },
+        ],
+        wait: [{ text: 'OK', onPress: () => {}, style: 'default' }],
+        none: [{ text: 'OK', onPress: () => {}, style: 'default' }],
+      };
 
-      const thumbnail = await VideoThumbnails.getThumbnailAsync(
-        localVideoUri,
-        { time: 4900 },
+      showModal(
+        job.error.title,
+        job.error.message,
+        actions[job.error.recovery],
       );
+    },
+    [showModal, setSelectedImage, setPhase],
+  );
 
-      updateClip(clipId, {
-        videoUri: localVideoUri,
-        lastFrameUri: thumbnail.uri,
-        status: 'done',
-      });
-
-      setPrompt('');
-      const latestDoneClips = useClipStore
-        .getState()
-        .clips.filter((c) => c.status === 'done');
-      setCurrentPlayingIndex(latestDoneClips.length - 1);
-      setIsPlaying(true);
-      setPhase('preview');
-    } catch (error) {
-      updateClip(clipId, { status: 'failed' });
-      if (!controller.signal.aborted) {
-        showModal(
-          'Generation Failed',
-          error instanceof Error
-            ? error.message
-            : 'Something went wrong. Please try again.',
-          [{ text: 'OK', onPress: () => {}, style: 'default' }],
-        );
-      }
-      setPhase('prompt');
-    } finally {
-      abortControllerRef.current = null;
-    }
-  }, [selectedImageUri, prompt, getContextPrompt, addClip, updateClip]);
-
-  const cancelGeneration = useCallback(() => {
-    abortControllerRef.current?.abort();
-  }, []);
+  // Explain each failure once, as it happens — a retried job that fails
+  // again gets a new error. The row stays tappable for another look.
+  const explainedErrorsRef = useRef(new WeakSet<object>());
+  useEffect(() => {
+    if (modal.visible) return;
+    const failed = jobs.find(
+      (j) => j.error && !explainedErrorsRef.current.has(j.error),
+    );
+    if (!failed?.error) return;
+    explainedErrorsRef.current.add(failed.error);
+    showJobError(failed);
+  }, [jobs, modal.visible, showJobError]);
 
   // ---- Preview actions ----
 
   const handleAddNextClip = useCallback(() => {
-    const last = getLastClip();
-    if (last?.lastFrameUri) {
-      setSelectedImage(last.lastFrameUri);
+    const tip = getTipClip();
+    if (tip?.lastFrameUri) {
+      setSelectedImage(tip.lastFrameUri);
       setPhase('prompt');
     } else {
       setPhase('camera');
     }
-  }, [getLastClip]);
+  }, [getTipClip]);
 
   const handleRetry = useCallback(() => {
     setPhase('prompt');
   }, []);
 
+  // ---- Timeline editing ----
+
+  const playClipAt = useCallback((index: number) => {
+    setCurrentPlayingIndex(index);
+    setIsPlaying(true);
+    setPlaybackKey((k) => k + 1);
+  }, []);
+
+  const handleMoveClip = useCallback(
+    (id: string, toIndex: number) => {
+      const playingId = doneClips[currentPlayingIndex]?.id;
+      moveClip(id, toIndex);
+      // Keep the same clip selected at its new position.
+      const reordered = useClipStore.getState().getBranch();
+      const index = reordered.findIndex((c) => c.id === playingId);
+      if (index !== -1) setCurrentPlayingIndex(index);
+    },
+    [doneClips, currentPlayingIndex, moveClip],
+  );
+
+  const confirmDeleteClip = useCallback(
+    (clip: Clip) => {
+      showModal(
+        'Delete Clip?',
+        'The clip and its video will be removed from this project.',
+        [
+          { text: 'Keep', onPress: () => {}, style: 'cancel' },
+          {
+            text: 'Delete',
+            onPress: () => {
+              // A regeneration in flight would have nowhere to land.
+              const queue = useGenerationQueue.getState();
+              queue.jobs
+                .filter((j) => j.clipId === clip.id)
+                .forEach((j) => queue.cancel(j.id));
+              deleteClip(clip.id);
+              const remaining = useClipStore.getState().getBranch();
+              if (remaining.length === 0) {
+                setPhase('camera');
+              } else {
+                playClipAt(Math.min(currentPlayingIndex, remaining.length - 1));
+              }
+            },
+            style: 'destructive',
+          },
+        ],
+      );
+    },
+    [showModal, deleteClip, playClipAt, currentPlayingIndex],
+  );
+
+  // Start a new branch that continues from this clip's last frame.
+  const forkFromClip = useCallback((clip: Clip) => {
+    if (!clip.lastFrameUri) return;
+    setSelectedImage(clip.lastFrameUri);
+    setForkFromId(clip.id);
+    setPhase('prompt');
+  }, []);
+
+  const handleSelectBranch = useCallback(
+    (clipId: string) => {
+      selectBranch(clipId);
+      const branch = useClipStore.getState().getBranch();
+      playClipAt(branch.length - 1);
+    },
+    [selectBranch, playClipAt],
+  );
+
+  const handleClipActions = useCallback(
+    (clip: Clip) => {
+      const index = doneClips.findIndex((c) => c.id === clip.id);
+      const canFork = clip.id !== branchTipId && !!clip.lastFrameUri;
+      showModal(
+        `Clip ${index + 1}`,
+        hasContinuityBreak(doneClips, index)
+          ? 'This clip no longer starts where the previous clip ends.'
+          : undefined,
+        [
+          ...(canFork
+            ? [
+                {
+                  text: 'Fork From Here',
+                  onPress: () => forkFromClip(clip),
+                  style: 'default' as const,
+                },
+              ]
+            : []),
+          ...(clip.videoUri
+            ? [
+                {
+                  text: 'Pick Continuation Frame',
+                  onPress: () => setFramePickerClip(clip),
+                  style: 'default' as const,
+                },
+              ]
+            : []),
+          {
+            text: 'Regenerate Clip',
+            onPress: () => regenerateClip(clip),
+            style: 'default',
+          },
+          {
+            text: 'Delete Clip',
+            onPress: () => confirmDeleteClip(clip),
+            style: 'destructive',
+          },
+          { text: 'Cancel', onPress: () => {}, style: 'cancel' },
+        ],
+      );
+    },
+    [doneClips, branchTipId, showModal, forkFromClip, regenerateClip, confirmDeleteClip],
+  );
+
   const togglePlayPause = useCallback(async () => {
     if (!videoRef.current) return;
     try {
@@ -448,21 +652,89 @@ export default function MainScreen() {
     );
   }, [doneClips, showModal]);
 
-  const handlePreviewBack = useCallback(() => {
+  // Stitch the sequence into one video on the worker and save that, instead
+  // of one gallery entry per clip.
+  const exportSequence = useCallback(
+    async (trimJoins: boolean) => {
+      const videoIds = doneClips.map((c) => archivedVideoId(c.remoteVideoUrl));
+      if (videoIds.some((id) => !id)) {
+        showModal(
+          'Cannot Export',
+          'Some clips are not stored on the server. Save them individually instead.',
+          [{ text: 'OK', onPress: () => {}, style: 'default' }],
+        );
+        return;
+      }
+
+      const { status } = await MediaLibrary.requestPermissionsAsync();
+      if (status !== 'granted') {
+        showModal(
+          'Permission Needed',
+          'Grant media library access to save videos.',
+          [{ text: 'OK', onPress: () => {}, style: 'default' }],
+        );
+        return;
+      }
+
+      setExporting(true);
+      try {
+        const videoUrl = await renderSequence(
+          videoIds as string[],
+          trimJoins,
+          cutPoints(doneClips),
+        );
+        const localUri = await downloadVideo(videoUrl, `sequence_${Date.now()}`);
+        await MediaLibrary.saveToLibraryAsync(localUri);
+        showModal('Exported!', 'Your sequence has been saved to your gallery.', [
+          { text: 'Great', onPress: () => {}, style: 'default' },
+        ]);
+      } catch (err) {
+        const { title, message } = describeError(err);
+        showModal(title, message, [
+          { text: 'OK', onPress: () => {}, style: 'default' },
+        ]);
+      } finally {
+        setExporting(false);
+      }
+    },
+    [doneClips, showModal],
+  );
+
+  const handleExport = useCallback(() => {
+    if (doneClips.length < 2) {
+      saveAllClips();
+      return;
+    }
+    // Clips are joined without re-encoding, so they must all match.
+    const mismatch = firstMismatchedClip(doneClips.map((c) => c.settings));
+    if (mismatch !== null) {
+      showModal(
+        "Clips Can't Be Joined",
+        `Clip ${mismatch + 1} was made with a different model or quality than clip 1, so the clips can't be joined into one video. Save them separately instead?`,
+        [
+          { text: 'Save Clips Separately', onPress: saveAllClips, style: 'default' },
+          { text: 'Cancel', onPress: () => {}, style: 'cancel' },
+        ],
+      );
+      return;
+    }
     showModal(
-      'Leave Sequence?',
-      'This will discard all clips. Do you want to continue?',
+      'Export Sequence',
+      'Join all clips into one video. Each clip starts on the previous clip\'s last frame — trim that duplicate at the joins?',
       [
-        { text: 'Stay', onPress: () => {}, style: 'cancel' },
-        { text: 'Leave', onPress: () => reset(), style: 'destructive' },
+        { text: 'Trim Joins', onPress: () => exportSequence(true), style: 'default' },
+        { text: 'Keep All Frames', onPress: () => exportSequence(false), style: 'default' },
+        { text: 'Save Clips Separately', onPress: saveAllClips, style: 'cancel' },
       ],
     );
-  }, [showModal, reset]);
+  }, [doneClips, showModal, exportSequence, saveAllClips]);
+
+  // The sequence is saved in its project, so leaving just shows the gallery.
+  const handlePreviewBack = useCallback(() => {
+    router.push('/projects');
+  }, []);
 
   const handleDone = useCallback(() => {
-    setCurrentPlayingIndex(0);
-    setPlaybackKey((k) => k + 1);
-    setIsPlaying(true);
     setPhase('finalPlayback');
   }, []);
 
@@ -496,22 +768,6 @@ export default function MainScreen() {
       return true;
     }
 
-    if (phase === 'generating') {
-      showModal(
-        'Cancel Generation?',
-        'The video is still being generated. Do you want to cancel?',
-        [
-          { text: 'Continue', onPress: () => {}, style: 'cancel' },
-          {
-            text: 'Cancel Generation',
-            onPress: cancelGeneration,
-            style: 'destructive',
-          },
-        ],
-      );
-      return true;
-    }
-
     if (phase === 'preview') {
       handlePreviewBack();
       return true;
@@ -524,15 +780,18 @@ export default function MainScreen() {
     }
 
     return false;
-  }, [phase, hasDoneClips, prompt, showModal, cancelGeneration, handlePreviewBack]);
-
-  useEffect(() => {
-    const sub = BackHandler.addEventListener(
-      'hardwareBackPress',
-      handleBackPress,
-    );
-    return () => sub.remove();
-  }, [handleBackPress]);
+  }, [phase, hasDoneClips, prompt, showModal, handlePreviewBack]);
+
+  // Only while focused — the project gallery handles its own back presses.
+  useFocusEffect(
+    useCallback(() => {
+      const sub = BackHandler.addEventListener(
+        'hardwareBackPress',
+        handleBackPress,
+      );
+      return () => sub.remove();
+    }, [handleBackPress]),
+  );
 
   // =======================================================================
   // RENDER
@@ -594,11 +853,18 @@ export default function MainScreen() {
                   ? 'Capture your first scene'
                   : 'Capture next scene'}
               </Text>
-              <View style={styles.cameraTopBtnSpacer} />
+              <TouchableOpacity
+                style={styles.cameraTopBtn}
+                onPress={() => router.push('/projects')}
+                activeOpacity={0.7}
+              >
+                <Ionicons name="albums-outline" size={20} color="#fff" />
+              </TouchableOpacity>
             </View>
+            <GenerationQueue onShowError={showJobError} />
           </SafeAreaView>
 
-          {getLastClip()?.lastFrameUri && (
+          {getTipClip()?.lastFrameUri && (
             <View style={styles.lastFrameFloatingRow}>
               <TouchableOpacity
                 style={styles.lastFrameFloatingBtn}
@@ -643,10 +909,20 @@ export default function MainScreen() {
 
   // ---- Prompt Phase ----
   if (phase === 'prompt') {
-    const lastClip = getLastClip();
+    const quotaLine = quota && quotaText(quota);
+    const outOfQuota =
+      quota?.daily.remaining === 0 || quota?.monthly.remaining === 0;
+    const forkSource = forkFromId
+      ? clips.find((c) => c.id === forkFromId)
+      : undefined;
+    const lastClip = forkSource ?? getTipClip();
     const isFirstClip = doneClips.length === 0;
     const usingLastFrame =
       !isFirstClip && selectedImageUri === lastClip?.lastFrameUri;
+    // Template parts still to fill in
+    const unfilled = placeholders(prompt);
+    const canGenerate = !!prompt.trim() && !outOfQuota && unfilled.length === 0;
+    const continuity = projects.find((p) => p.id === currentProjectId)?.continuity;
 
     return (
       <KeyboardAvoidingView
@@ -669,7 +945,9 @@ export default function MainScreen() {
 
           {usingLastFrame && (
             <View style={[styles.lastFrameBadge, { top: backBtnTop }]}>
-              <Text style={styles.lastFrameBadgeText}>Last frame</Text>
+              <Text style={styles.lastFrameBadgeText}>
+                {forkSource ? 'New branch' : 'Last frame'}
+              </Text>
             </View>
           )}
 
@@ -726,7 +1004,7 @@ export default function MainScreen() {
           <Text style={styles.promptTitle}>
             {isFirstClip
               ? 'Describe the scene'
-              : `Clip ${doneClips.length + 1}`}
+              : `Clip ${branchLength + 1}`}
           </Text>
 
           {!isFirstClip && lastClip?.prompt ? (
@@ -745,69 +1023,71 @@ export default function MainScreen() {
             textAlignVertical="top"
           />
 
+          <PromptEnhancer
+            prompt={prompt}
+            previousPrompts={() =>
+              getPreviousPrompts(forkFromId ?? getTipId())
+            }
+            style={style}
+            disabled={unfilled.length > 0}
+            onAccept={setPrompt}
+            onError={(message) =>
+              showModal("Couldn't Enhance Prompt", message, [
+                { text: 'OK', onPress: () => {}, style: 'default' },
+              ])
+            }
+          />
+
+          <StylePicker
+            style={style}
+            onSelectStyle={selectStyle}
+            onInsertTemplate={(template) =>
+              setPrompt((p) => insertTemplate(p, template))
+            }
+          />
+
+          {continuity && (
+            <ContinuityPanel settings={continuity} onChange={setContinuity} />
+          )}
+
+          <AdvancedSettings
+            settings={generationSettings}
+            onChange={setGenerationSettings}
+          />
+
           <TouchableOpacity
             style={[
               styles.generateBtn,
-              !prompt.trim() && styles.generateBtnDisabled,
+              !canGenerate && styles.generateBtnDisabled,
             ]}
             onPress={startGeneration}
-            disabled={!prompt.trim()}
+            disabled={!canGenerate}
           >
             <Text style={styles.generateBtnText}>Generate Video</Text>
           </TouchableOpacity>
-        </View>
 
-        <CustomModal modal={modal} onClose={hideModal} />
-      </KeyboardAvoidingView>
-    );
-  }
-
-  // ---- Generating Phase ----
-  if (phase === 'generating') {
-    return (
-      <View style={styles.container}>
-        {selectedImageUri && (
-          <Image
-            source={{ uri: selectedImageUri }}
-            style={styles.fullScreenMedia}
-            resizeMode="cover"
-          />
-        )}
-
-        <View style={styles.genOverlay}>
-          <BackButton
-            onPress={() => handleBackPress()}
-            topOffset={backBtnTop}
-          />
-
-          <View style={styles.genCenter}>
-            <Text style={styles.genStatusText}>{genStatus}</Text>
-            <ProgressBar />
-            <Text style={styles.genHintText}>
-              Usually takes 30–90 seconds
+          {unfilled.length > 0 && (
+            <Text style={styles.quotaText}>
+              Fill in {unfilled.map((p) => `{${p}}`).join(', ')} to generate
             </Text>
-          </View>
+          )}
 
-          <SafeAreaView style={styles.genBottom}>
-            <TouchableOpacity
-              style={styles.genCancelBtn}
-              onPress={() => handleBackPress()}
-              activeOpacity={0.7}
+          {quotaLine && (
+            <Text
+              style={[styles.quotaText, outOfQuota && styles.quotaTextEmpty]}
             >
-              <Text style={styles.genCancelBtnText}>Cancel</Text>
-            </TouchableOpacity>
-          </SafeAreaView>
+              {quotaLine}
+            </Text>
+          )}
         </View>
 
         <CustomModal modal={modal} onClose={hideModal} />
-      </View>
+      </KeyboardAvoidingView>
     );
   }
 
   // ---- Final Playback Phase ----
   if (phase === 'finalPlayback') {
-    const currentClip = doneClips[currentPlayingIndex];
-
     return (
       <View style={styles.container}>
         {/* Video fills most of the screen */}
@@ -827,70 +1107,19 @@ export default function MainScreen() {
             <Text style={styles.fpTitle}>Final Preview</Text>
             <TouchableOpacity
               style={styles.pvTopBtn}
-              onPress={saveAllClips}
+              onPress={handleExport}
+              disabled={exporting}
               activeOpacity={0.7}
             >
-              <Ionicons name="arrow-down" size={22} color="#fff" />
+              {exporting ? (
+                <ActivityIndicator size="small" color="#fff" />
+              ) : (
+                <Ionicons name="arrow-down" size={22} color="#fff" />
+              )}
             </TouchableOpacity>
           </View>
 
-          {/* Video player */}
-          <View style={styles.fpVideoContainer}>
-            {currentClip?.videoUri && (
-              <TouchableOpacity
-                activeOpacity={1}
-                onPress={togglePlayPause}
-                style={styles.fpVideoTouchable}
-              >
-                <Video
-                  key={`fp-${currentClip.id}-${playbackKey}`}
-                  ref={videoRef}
-                  source={{ uri: currentClip.videoUri }}
-                  style={styles.fpVideo}
-                  resizeMode={'contain' as any}
-                  shouldPlay
-                  onPlaybackStatusUpdate={(status) => {
-                    if (status.isLoaded) {
-                      if (status.didJustFinish) {
-                        const nextIdx = currentPlayingIndex + 1;
-                        if (nextIdx >= doneClips.length) {
-                          setCurrentPlayingIndex(0);
-                        } else {
-                          setCurrentPlayingIndex(nextIdx);
-                        }
-                        setPlaybackKey((k) => k + 1);
-                      }
-                      setIsPlaying(status.isPlaying);
-                    }
-                  }}
-                />
-                {!isPlaying && (
-                  <View style={styles.fpPauseOverlay}>
-                    <Ionicons name="play" size={56} color="rgba(255,255,255,0.8)" />
-                  </View>
-                )}
-              </TouchableOpacity>
-            )}
-          </View>
-
-          {/* Progress */}
-          <View style={styles.fpBottom}>
-            <Text style={styles.fpProgressText}>
-              Playing clip {currentPlayingIndex + 1} of {doneClips.length}
-            </Text>
-            {/* Dot indicators */}
-            <View style={styles.fpDots}>
-              {doneClips.map((_, i) => (
-                <View
-                  key={i}
-                  style={[
-                    styles.fpDot,
-                    i === currentPlayingIndex && styles.fpDotActive,
-                  ]}
-                />
-              ))}
-            </View>
-          </View>
+          <SequencePlayer clips={doneClips} />
         </SafeAreaView>
 
         <CustomModal modal={modal} onClose={hideModal} />
@@ -914,9 +1143,16 @@ export default function MainScreen() {
             <Ionicons name="chevron-back" size={22} color="#fff" />
           </TouchableOpacity>
 
-          <Text style={styles.pvCounterText}>
-            Clip {currentPlayingIndex + 1} of {doneClips.length}
-          </Text>
+          <View style={styles.pvCounter}>
+            <Text style={styles.pvCounterText}>
+              Clip {currentPlayingIndex + 1} of {doneClips.length}
+            </Text>
+            {resumingCount > 0 && (
+              <Text style={styles.pvResumingText}>
+                Finishing {resumingCount} from last session…
+              </Text>
+            )}
+          </View>
 
           <TouchableOpacity
             style={styles.pvDoneBtn}
@@ -927,6 +1163,8 @@ export default function MainScreen() {
           </TouchableOpacity>
         </View>
 
+        <GenerationQueue onShowError={showJobError} />
+
         {/* Video player */}
         <View style={styles.pvVideoContainer}>
           {currentClip?.videoUri && (
@@ -958,38 +1196,16 @@ export default function MainScreen() {
           )}
         </View>
 
-        {/* Thumbnail strip */}
-        {doneClips.length > 1 && (
-          <ScrollView
-            horizontal
-            style={styles.pvThumbnailStrip}
-            contentContainerStyle={styles.pvThumbnailStripContent}
-            showsHorizontalScrollIndicator={false}
-          >
-            {doneClips.map((clip, idx) => (
-              <TouchableOpacity
-                key={clip.id}
-                onPress={() => {
-                  setCurrentPlayingIndex(idx);
-                  setIsPlaying(true);
-                  setPlaybackKey((k) => k + 1);
-                }}
-                style={[
-                  styles.pvThumb,
-                  idx === currentPlayingIndex && styles.pvThumbActive,
-                ]}
-              >
-                <Image
-                  source={{ uri: clip.imageUri }}
-                  style={styles.pvThumbImage}
-                />
-                <Text style={styles.pvThumbLabel}>{idx + 1}</Text>
-              </TouchableOpacity>
-            ))}
-          </ScrollView>
-        )}
+        {/* Timeline: select, reorder, regenerate, delete */}
+        <ClipTimeline
+          clips={doneClips}
+          activeIndex={currentPlayingIndex}
+          onSelect={playClipAt}
+          onOpenActions={handleClipActions}
+          onMove={handleMoveClip}
+        />
 
-        {/* Action buttons: retry | append | save */}
+        {/* Action buttons: retry | branches | append | save */}
         <View style={styles.pvActionRow}>
           <TouchableOpacity
             style={styles.pvActionBtn}
@@ -999,14 +1215,22 @@ export default function MainScreen() {
             <Ionicons name="refresh" size={22} color="#fff" />
           </TouchableOpacity>
 
+          <TouchableOpacity
+            style={styles.pvActionBtn}
+            onPress={() => setShowBranches(true)}
+            activeOpacity={0.7}
+          >
+            <Ionicons name="git-branch-outline" size={22} color="#fff" />
+          </TouchableOpacity>
+
           <TouchableOpacity
             style={[
               styles.pvActionBtn,
               styles.pvActionBtnAccent,
-              doneClips.length >= MAX_CLIPS && styles.pvActionBtnDisabled,
+              branchLength >= MAX_CLIPS && styles.pvActionBtnDisabled,
             ]}
             onPress={handleAddNextClip}
-            disabled={doneClips.length >= MAX_CLIPS}
+            disabled={branchLength >= MAX_CLIPS}
             activeOpacity={0.7}
           >
             <Ionicons name="add" size={26} color="#fff" />
@@ -1025,6 +1249,28 @@ export default function MainScreen() {
         </View>
       </SafeAreaView>
 
+      <BranchTree
+        visible={showBranches}
+        clips={clips.filter((c) => c.status === 'done')}
+        branchIds={new Set(doneClips.map((c) => c.id))}
+        tipId={branchTipId}
+        onSelect={handleSelectBranch}
+        onClose={() => setShowBranches(false)}
+      />
+      <FramePicker
+        clip={framePickerClip}
+        onPick={(frameUri, timeMs) =>
+          framePickerClip &&
+          setContinuationFrame(framePickerClip.id, frameUri, timeMs)
+        }
+        onClose={() => setFramePickerClip(null)}
+        onError={(message) => {
+          setFramePickerClip(null);
+          showModal("Couldn't Pick Frame", message, [
+            { text: 'OK', onPress: () => {}, style: 'default' },
+          ]);
+        }}
+      />
       <CustomModal modal={modal} onClose={hideModal} />
     </View>
   );
@@ -1291,34 +1537,13 @@ const styles = StyleSheet.create({
   },
   generateBtnDisabled: { opacity: 0.35 },
   generateBtnText: { color: '#fff', fontSize: 16, fontWeight: '700' },
-
-  // -- Generating --
-  fullScreenMedia: {
-    ...StyleSheet.absoluteFillObject,
-    width: '100%',
-    height: '100%',
-  },
-  genOverlay: {
-    ...StyleSheet.absoluteFillObject,
-    backgroundColor: 'rgba(0,0,0,0.5)',
-    justifyContent: 'space-between',
-  },
-  genCenter: {
-    flex: 1,
-    justifyContent: 'center',
-    alignItems: 'center',
-    gap: 14,
-  },
-  genStatusText: { color: '#fff', fontSize: 17, fontWeight: '600' },
-  genHintText: { color: 'rgba(255,255,255,0.45)', fontSize: 13 },
-  genBottom: { alignItems: 'center', paddingBottom: 24 },
-  genCancelBtn: {
-    backgroundColor: 'rgba(255,255,255,0.14)',
-    paddingHorizontal: 44,
-    paddingVertical: 14,
-    borderRadius: 26,
+  quotaText: {
+    color: '#666',
+    fontSize: 12,
+    textAlign: 'center',
+    marginTop: 10,
   },
-  genCancelBtnText: { color: '#fff', fontSize: 15, fontWeight: '600' },
+  quotaTextEmpty: { color: '#ff9500' },
 
   // -- Preview --
   pvContainer: { flex: 1, backgroundColor: '#000' },
@@ -1347,11 +1572,19 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     alignItems: 'center',
   },
+  pvCounter: {
+    alignItems: 'center',
+  },
   pvCounterText: {
     color: '#888',
     fontSize: 14,
     fontWeight: '600',
   },
+  pvResumingText: {
+    color: '#6432ff',
+    fontSize: 11,
+    marginTop: 2,
+  },
   pvVideoContainer: {
     flex: 1,
     marginHorizontal: 12,
@@ -1368,36 +1601,6 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     backgroundColor: 'rgba(0,0,0,0.3)',
   },
-  pvThumbnailStrip: {
-    marginTop: 12,
-    maxHeight: 52,
-    flexGrow: 0,
-  },
-  pvThumbnailStripContent: {
-    gap: 6,
-    paddingHorizontal: 16,
-  },
-  pvThumb: {
-    width: 46,
-    height: 46,
-    borderRadius: 8,
-    overflow: 'hidden',
-    borderWidth: 2,
-    borderColor: 'transparent',
-  },
-  pvThumbActive: { borderColor: '#6432ff' },
-  pvThumbImage: { width: '100%', height: '100%' },
-  pvThumbLabel: {
-    position: 'absolute',
-    bottom: 1,
-    right: 3,
-    color: '#fff',
-    fontSize: 9,
-    fontWeight: '700',
-    textShadowColor: 'rgba(0,0,0,0.8)',
-    textShadowOffset: { width: 0, height: 1 },
-    textShadowRadius: 2,
-  },
   pvActionRow: {
     flexDirection: 'row',
     justifyContent: 'center',
@@ -1434,42 +1637,4 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '700',
   },
-  fpVideoContainer: {
-    flex: 1,
-    marginHorizontal: 8,
-    borderRadius: 16,
-    overflow: 'hidden',
-    backgroundColor: '#111',
-  },
-  fpVideoTouchable: { flex: 1 },
-  fpVideo: { width: '100%', height: '100%' },
-  fpPauseOverlay: {
-    ...StyleSheet.absoluteFillObject,
-    justifyContent: 'center',
-    alignItems: 'center',
-    backgroundColor: 'rgba(0,0,0,0.3)',
-  },
-  fpBottom: {
-    alignItems: 'center',
-    paddingVertical: 20,
-    gap: 10,
-  },
-  fpProgressText: {
-    color: '#888',
-    fontSize: 13,
-    fontWeight: '500',
-  },
-  fpDots: {
-    flexDirection: 'row',
-    gap: 6,
-  },
-  fpDot: {
-    width: 8,
-    height: 8,
-    borderRadius: 4,
-    backgroundColor: '#333',
-  },
-  fpDotActive: {
-    backgroundColor: '#6432ff',
-  },
 });
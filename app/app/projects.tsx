@@ -0,0 +1,448 @@
+import { useCallback, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Image,
+  FlatList,
+  Modal,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router, useFocusEffect } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { useClipStore, type Project } from '../store/useClipStore';
+import CancelledClips from '../components/CancelledClips';
+import CustomModal, {
+  type ModalButton,
+  type ModalState,
+} from '../components/CustomModal';
+
+// Back to the main screen, which shows whatever project is now open.
+function goToEditor() {
+  if (router.canGoBack()) {
+    router.back();
+  } else {
+    router.replace('/');
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Rename Modal
+// ---------------------------------------------------------------------------
+function RenameModal({
+  initialName,
+  onSubmit,
+  onClose,
+}: {
+  initialName: string;
+  onSubmit: (name: string) => void;
+  onClose: () => void;
+}) {
+  const [name, setName] = useState(initialName);
+
+  return (
+    <Modal transparent visible animationType="fade" onRequestClose={onClose}>
+      <KeyboardAvoidingView
+        style={renameStyles.overlay}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <View style={renameStyles.content}>
+          <Text style={renameStyles.title}>Rename Project</Text>
+          <TextInput
+            style={renameStyles.input}
+            value={name}
+            onChangeText={setName}
+            placeholder="Project name"
+            placeholderTextColor="#555"
+            maxLength={60}
+            autoFocus
+            selectTextOnFocus
+          />
+          <View style={renameStyles.buttonRow}>
+            <TouchableOpacity
+              style={[renameStyles.button, renameStyles.buttonCancel]}
+              onPress={onClose}
+            >
+              <Text style={[renameStyles.buttonText, renameStyles.buttonTextCancel]}>
+                Cancel
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[renameStyles.button, !name.trim() && renameStyles.buttonDisabled]}
+              onPress={() => {
+                onSubmit(name);
+                onClose();
+              }}
+              disabled={!name.trim()}
+            >
+              <Text style={renameStyles.buttonText}>Save</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const renameStyles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.75)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 40,
+  },
+  content: {
+    backgroundColor: '#1c1c1e',
+    borderRadius: 20,
+    padding: 24,
+    width: '100%',
+    maxWidth: 320,
+  },
+  title: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: '700',
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  input: {
+    backgroundColor: '#111',
+    color: '#fff',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#333',
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    fontSize: 15,
+    marginBottom: 20,
+  },
+  buttonRow: { flexDirection: 'row', gap: 10 },
+  button: {
+    flex: 1,
+    backgroundColor: '#6432ff',
+    paddingVertical: 14,
+    borderRadius: 14,
+    alignItems: 'center',
+  },
+  buttonCancel: { backgroundColor: '#333' },
+  buttonDisabled: { opacity: 0.4 },
+  buttonText: { color: '#fff', fontSize: 15, fontWeight: '600' },
+  buttonTextCancel: { color: '#aaa' },
+});
+
+// ---------------------------------------------------------------------------
+// Project Card
+// ---------------------------------------------------------------------------
+function ProjectCard({
+  project,
+  isCurrent,
+  onOpen,
+  onMore,
+}: {
+  project: Project;
+  isCurrent: boolean;
+  onOpen: () => void;
+  onMore: () => void;
+}) {
+  const clipCount = project.clips.filter((c) => c.status === 'done').length;
+
+  return (
+    <TouchableOpacity
+      style={[styles.card, isCurrent && styles.cardCurrent]}
+      onPress={onOpen}
+      onLongPress={onMore}
+      activeOpacity={0.8}
+    >
+      {project.coverUri ? (
+        <Image source={{ uri: project.coverUri }} style={styles.cover} />
+      ) : (
+        <View style={[styles.cover, styles.coverEmpty]}>
+          <Ionicons name="film-outline" size={28} color="#444" />
+        </View>
+      )}
+      <View style={styles.cardInfo}>
+        <Text style={styles.cardName} numberOfLines={1}>
+          {project.name}
+        </Text>
+        <Text style={styles.cardMeta}>
+          {clipCount} clip{clipCount === 1 ? '' : 's'} · Edited{' '}
+          {new Date(project.updatedAt).toLocaleDateString()}
+        </Text>
+        <Text style={styles.cardMeta}>
+          Created {new Date(project.createdAt).toLocaleDateString()}
+        </Text>
+      </View>
+      <TouchableOpacity style={styles.moreBtn} onPress={onMore} hitSlop={10}>
+        <Ionicons name="ellipsis-horizontal" size={20} color="#888" />
+      </TouchableOpacity>
+    </TouchableOpacity>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Project Gallery Screen
+// ---------------------------------------------------------------------------
+export default function ProjectsScreen() {
+  const {
+    projects,
+    currentProjectId,
+    createProject,
+    openProject,
+    renameProject,
+    deleteProject,
+    refreshCancelledClips,
+  } = useClipStore();
+
+  const [renaming, setRenaming] = useState<Project | null>(null);
+  const [modal, setModal] = useState<ModalState>({
+    visible: false,
+    title: '',
+    buttons: [],
+  });
+
+  const showModal = useCallback(
+    (title: string, message: string | undefined, buttons: ModalButton[]) => {
+      setModal({ visible: true, title, message, buttons });
+    },
+    [],
+  );
+
+  const hideModal = useCallback(() => {
+    setModal((prev) => ({ ...prev, visible: false }));
+  }, []);
+
+  // Cancelled generations may have finished since the screen was last shown.
+  useFocusEffect(
+    useCallback(() => {
+      refreshCancelledClips();
+    }, [refreshCancelledClips]),
+  );
+
+  const showRecoverError = useCallback(
+    (message: string) =>
+      showModal('Recovery Failed', message, [
+        { text: 'OK', onPress: () => {}, style: 'default' },
+      ]),
+    [showModal],
+  );
+
+  const handleNew = useCallback(() => {
+    createProject();
+    goToEditor();
+  }, [createProject]);
+
+  const handleOpen = useCallback(
+    (id: string) => {
+      if (id !== currentProjectId) openProject(id);
+      goToEditor();
+    },
+    [currentProjectId, openProject],
+  );
+
+  const confirmDelete = useCallback(
+    (project: Project) => {
+      showModal(
+        'Delete Project?',
+        `"${project.name}" and all its clips will be removed from this device.`,
+        [
+          { text: 'Keep', onPress: () => {}, style: 'cancel' },
+          {
+            text: 'Delete',
+            onPress: () => deleteProject(project.id),
+            style: 'destructive',
+          },
+        ],
+      );
+    },
+    [showModal, deleteProject],
+  );
+
+  const handleMore = useCallback(
+    (project: Project) => {
+      showModal(project.name, undefined, [
+        { text: 'Rename', onPress: () => setRenaming(project), style: 'default' },
+        {
+          text: 'Delete',
+          onPress: () => confirmDelete(project),
+          style: 'destructive',
+        },
+        { text: 'Cancel', onPress: () => {}, style: 'cancel' },
+      ]);
+    },
+    [showModal, confirmDelete],
+  );
+
+  // Most recently edited first
+  const sorted = [...projects].sort((a, b) => b.updatedAt - a.updatedAt);
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.topBar}>
+        <TouchableOpacity
+          style={styles.topBtn}
+          onPress={goToEditor}
+          activeOpacity={0.7}
+        >
+          <Ionicons name="chevron-back" size={22} color="#fff" />
+        </TouchableOpacity>
+        <Text style={styles.title}>Projects</Text>
+        <TouchableOpacity
+          style={[styles.topBtn, styles.newBtn]}
+          onPress={handleNew}
+          activeOpacity={0.7}
+        >
+          <Ionicons name="add" size={24} color="#fff" />
+        </TouchableOpacity>
+      </View>
+
+      {sorted.length === 0 ? (
+        <View style={styles.empty}>
+          <Ionicons name="albums-outline" size={48} color="#333" />
+          <Text style={styles.emptyTitle}>No projects yet</Text>
+          <Text style={styles.emptyText}>
+            Each project keeps its own sequence of clips.
+          </Text>
+          <TouchableOpacity style={styles.emptyBtn} onPress={handleNew}>
+            <Text style={styles.emptyBtnText}>Start a Project</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <FlatList
+          data={sorted}
+          keyExtractor={(p) => p.id}
+          contentContainerStyle={styles.list}
+          ListHeaderComponent={<CancelledClips onError={showRecoverError} />}
+          renderItem={({ item }) => (
+            <ProjectCard
+              project={item}
+              isCurrent={item.id === currentProjectId}
+              onOpen={() => handleOpen(item.id)}
+              onMore={() => handleMore(item)}
+            />
+          )}
+        />
+      )}
+
+      {renaming && (
+        <RenameModal
+          initialName={renaming.name}
+          onSubmit={(name) => renameProject(renaming.id, name)}
+          onClose={() => setRenaming(null)}
+        />
+      )}
+      <CustomModal modal={modal} onClose={hideModal} />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000',
+  },
+  topBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  topBtn: {
+    width: 42,
+    height: 42,
+    borderRadius: 21,
+    backgroundColor: '#1c1c1e',
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#333',
+  },
+  newBtn: {
+    backgroundColor: '#6432ff',
+    borderColor: '#6432ff',
+  },
+  title: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  list: {
+    padding: 16,
+    gap: 12,
+  },
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#111',
+    borderRadius: 16,
+    padding: 10,
+    borderWidth: 1,
+    borderColor: '#222',
+  },
+  cardCurrent: {
+    borderColor: '#6432ff',
+  },
+  cover: {
+    width: 72,
+    height: 72,
+    borderRadius: 10,
+    backgroundColor: '#1c1c1e',
+  },
+  coverEmpty: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  cardInfo: {
+    flex: 1,
+    marginLeft: 14,
+  },
+  cardName: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  cardMeta: {
+    color: '#777',
+    fontSize: 12,
+    marginTop: 2,
+  },
+  moreBtn: {
+    padding: 8,
+  },
+  empty: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+  },
+  emptyTitle: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: '700',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptyText: {
+    color: '#777',
+    fontSize: 14,
+    textAlign: 'center',
+    marginBottom: 24,
+  },
+  emptyBtn: {
+    backgroundColor: '#6432ff',
+    paddingVertical: 14,
+    paddingHorizontal: 32,
+    borderRadius: 14,
+  },
+  emptyBtnText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
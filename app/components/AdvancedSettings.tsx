@@ -0,0 +1,228 @@
+import { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  StyleSheet,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import {
+  VIDEO_MODELS,
+  type GenerationSettings,
+  type VideoDuration,
+  type VideoMode,
+} from '../services/api';
+
+const DURATION_OPTIONS: { value: VideoDuration; label: string }[] = [
+  { value: 5, label: '5s' },
+  { value: 10, label: '10s' },
+];
+
+const MODE_OPTIONS: { value: VideoMode; label: string }[] = [
+  { value: 'std', label: 'Standard' },
+  { value: 'pro', label: 'Pro' },
+];
+
+const CFG_STEP = 0.1;
+
+// ---------------------------------------------------------------------------
+// Chip row — a single-choice segmented control
+// ---------------------------------------------------------------------------
+export function ChipRow<T extends string | number>({
+  options,
+  value,
+  onChange,
+}: {
+  options: { value: T; label: string }[];
+  value: T;
+  onChange: (value: T) => void;
+}) {
+  return (
+    <View style={styles.chipRow}>
+      {options.map((opt) => (
+        <TouchableOpacity
+          key={String(opt.value)}
+          style={[styles.chip, opt.value === value && styles.chipActive]}
+          onPress={() => onChange(opt.value)}
+          activeOpacity={0.7}
+        >
+          <Text
+            style={[styles.chipText, opt.value === value && styles.chipTextActive]}
+          >
+            {opt.label}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Advanced Settings Panel
+// ---------------------------------------------------------------------------
+export default function AdvancedSettings({
+  settings,
+  onChange,
+}: {
+  settings: GenerationSettings;
+  onChange: (updates: Partial<GenerationSettings>) => void;
+}) {
+  const [expanded, setExpanded] = useState(false);
+
+  const stepCfg = (delta: number) => {
+    // Round to one decimal so repeated steps don't drift (0.30000000000000004)
+    const next = Math.round((settings.cfgScale + delta) * 10) / 10;
+    onChange({ cfgScale: Math.min(1, Math.max(0, next)) });
+  };
+
+  return (
+    <View style={styles.container}>
+      <TouchableOpacity
+        style={styles.header}
+        onPress={() => setExpanded((e) => !e)}
+        activeOpacity={0.7}
+      >
+        <Ionicons name="options-outline" size={15} color="#aaa" />
+        <Text style={styles.headerText}>Advanced settings</Text>
+        <Text style={styles.headerSummary} numberOfLines={1}>
+          {settings.duration}s · {settings.mode === 'pro' ? 'Pro' : 'Std'}
+        </Text>
+        <Ionicons
+          name={expanded ? 'chevron-up' : 'chevron-down'}
+          size={16}
+          color="#aaa"
+        />
+      </TouchableOpacity>
+
+      {expanded && (
+        <ScrollView
+          style={styles.body}
+          contentContainerStyle={styles.bodyContent}
+          keyboardShouldPersistTaps="handled"
+        >
+          <Text style={styles.label}>Duration</Text>
+          <ChipRow
+            options={DURATION_OPTIONS}
+            value={settings.duration}
+            onChange={(duration) => onChange({ duration })}
+          />
+
+          <Text style={styles.label}>Quality</Text>
+          <ChipRow
+            options={MODE_OPTIONS}
+            value={settings.mode}
+            onChange={(mode) => onChange({ mode })}
+          />
+
+          <Text style={styles.label}>Prompt adherence</Text>
+          <View style={styles.stepper}>
+            <TouchableOpacity
+              style={styles.stepperBtn}
+              onPress={() => stepCfg(-CFG_STEP)}
+              disabled={settings.cfgScale <= 0}
+            >
+              <Ionicons name="remove" size={18} color="#fff" />
+            </TouchableOpacity>
+            <Text style={styles.stepperValue}>
+              {settings.cfgScale.toFixed(1)}
+            </Text>
+            <TouchableOpacity
+              style={styles.stepperBtn}
+              onPress={() => stepCfg(CFG_STEP)}
+              disabled={settings.cfgScale >= 1}
+            >
+              <Ionicons name="add" size={18} color="#fff" />
+            </TouchableOpacity>
+          </View>
+
+          <Text style={styles.label}>Model</Text>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+            <ChipRow
+              options={VIDEO_MODELS.map((m) => ({ value: m as string, label: m }))}
+              value={settings.model}
+              onChange={(model) => onChange({ model })}
+            />
+          </ScrollView>
+
+          <Text style={styles.label}>Negative prompt</Text>
+          <TextInput
+            style={styles.input}
+            placeholder="What to avoid, e.g. blur, distortion..."
+            placeholderTextColor="#555"
+            value={settings.negativePrompt}
+            onChangeText={(negativePrompt) => onChange({ negativePrompt })}
+            multiline
+            textAlignVertical="top"
+          />
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { marginBottom: 12 },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 6,
+  },
+  headerText: { color: '#aaa', fontSize: 13, fontWeight: '600' },
+  headerSummary: { flex: 1, color: '#555', fontSize: 12, textAlign: 'right' },
+  body: { maxHeight: 220 },
+  bodyContent: { paddingTop: 6, paddingBottom: 4 },
+  label: {
+    color: '#777',
+    fontSize: 12,
+    fontWeight: '600',
+    marginTop: 10,
+    marginBottom: 6,
+  },
+  chipRow: { flexDirection: 'row', gap: 8 },
+  chip: {
+    backgroundColor: '#151515',
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#2a2a2a',
+  },
+  chipActive: {
+    backgroundColor: 'rgba(100,50,255,0.3)',
+    borderColor: '#6432ff',
+  },
+  chipText: { color: '#aaa', fontSize: 13, fontWeight: '500' },
+  chipTextActive: { color: '#fff' },
+  stepper: { flexDirection: 'row', alignItems: 'center', gap: 14 },
+  stepperBtn: {
+    width: 34,
+    height: 34,
+    borderRadius: 17,
+    backgroundColor: '#1c1c1e',
+    borderWidth: 1,
+    borderColor: '#333',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  stepperValue: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+    minWidth: 28,
+    textAlign: 'center',
+  },
+  input: {
+    backgroundColor: '#151515',
+    color: '#fff',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 14,
+    minHeight: 56,
+    borderWidth: 1,
+    borderColor: '#2a2a2a',
+  },
+});
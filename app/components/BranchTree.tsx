@@ -0,0 +1,181 @@
+import type { ReactNode } from 'react';
+import {
+  View,
+  Text,
+  Image,
+  TouchableOpacity,
+  ScrollView,
+  Modal,
+  StyleSheet,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import type { Clip } from '../store/useClipStore';
+
+const INDENT = 18;
+
+// ---------------------------------------------------------------------------
+// Branch tree — every clip in the project, laid out by parent
+// ---------------------------------------------------------------------------
+// A chain of single children stays in one column; the children of a fork
+// are indented under it. Tapping a clip selects the branch ending there,
+// which is what preview, final playback and export then show.
+// ---------------------------------------------------------------------------
+export default function BranchTree({
+  visible,
+  clips,
+  branchIds,
+  tipId,
+  onSelect,
+  onClose,
+}: {
+  visible: boolean;
+  // Finished clips of the project
+  clips: Clip[];
+  // Clips on the active branch
+  branchIds: Set<string>;
+  tipId: string | null;
+  onSelect: (clipId: string) => void;
+  onClose: () => void;
+}) {
+  if (!visible) return null;
+
+  const ids = new Set(clips.map((c) => c.id));
+  const childrenOf = (id: string | null) =>
+    clips.filter((c) =>
+      id === null ? !c.parentId || !ids.has(c.parentId) : c.parentId === id,
+    );
+
+  const rows: ReactNode[] = [];
+  const seen = new Set<string>();
+  const visit = (clip: Clip, depth: number) => {
+    if (seen.has(clip.id)) return;
+    seen.add(clip.id);
+
+    const onBranch = branchIds.has(clip.id);
+    rows.push(
+      <TouchableOpacity
+        key={clip.id}
+        style={[
+          styles.row,
+          { marginLeft: depth * INDENT },
+          onBranch && styles.rowOnBranch,
+        ]}
+        onPress={() => {
+          onSelect(clip.id);
+          onClose();
+        }}
+        activeOpacity={0.7}
+      >
+        {depth > 0 && <View style={styles.forkLine} />}
+        <Image source={{ uri: clip.imageUri }} style={styles.thumb} />
+        <Text style={styles.prompt} numberOfLines={2}>
+          {clip.prompt}
+        </Text>
+        {clip.id === tipId && (
+          <Ionicons name="play-circle" size={18} color="#6432ff" />
+        )}
+      </TouchableOpacity>,
+    );
+
+    const children = childrenOf(clip.id);
+    for (const child of children) {
+      visit(child, children.length > 1 ? depth + 1 : depth);
+    }
+  };
+
+  const roots = childrenOf(null);
+  for (const root of roots) {
+    visit(root, roots.length > 1 ? 1 : 0);
+  }
+
+  return (
+    <Modal transparent visible animationType="slide" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <TouchableOpacity style={styles.backdrop} onPress={onClose} />
+        <View style={styles.sheet}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Branches</Text>
+            <TouchableOpacity onPress={onClose} hitSlop={10}>
+              <Ionicons name="close" size={22} color="#888" />
+            </TouchableOpacity>
+          </View>
+          <Text style={styles.hint}>
+            Tap a clip to play the branch that ends with it.
+          </Text>
+          <ScrollView contentContainerStyle={styles.list}>{rows}</ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0,0,0,0.6)',
+  },
+  backdrop: {
+    flex: 1,
+  },
+  sheet: {
+    backgroundColor: '#1c1c1e',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    paddingTop: 18,
+    paddingHorizontal: 16,
+    maxHeight: '70%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  title: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  hint: {
+    color: '#777',
+    fontSize: 12,
+    marginTop: 4,
+    marginBottom: 12,
+  },
+  list: {
+    paddingBottom: 32,
+    gap: 6,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    padding: 6,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: 'transparent',
+  },
+  rowOnBranch: {
+    borderColor: '#6432ff',
+    backgroundColor: 'rgba(100,50,255,0.12)',
+  },
+  forkLine: {
+    position: 'absolute',
+    left: -INDENT / 2,
+    top: 0,
+    bottom: 0,
+    width: 2,
+    backgroundColor: '#333',
+  },
+  thumb: {
+    width: 40,
+    height: 40,
+    borderRadius: 6,
+    backgroundColor: '#000',
+  },
+  prompt: {
+    flex: 1,
+    color: '#ddd',
+    fontSize: 13,
+  },
+});
@@ -0,0 +1,139 @@
+import { useState } from 'react';
+import {
+  View,
+  Text,
+  Image,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useClipStore, type CancelledClip } from '../store/useClipStore';
+
+// ---------------------------------------------------------------------------
+// Cancelled clips — generations the provider finished after all
+// ---------------------------------------------------------------------------
+// Some providers can't stop a task once it has started, so a cancelled
+// generation may still produce (and bill for) a video. Each one is offered
+// here to add back to its project, or to discard.
+// ---------------------------------------------------------------------------
+
+type Props = {
+  onError: (message: string) => void;
+};
+
+function CancelledRow({
+  entry,
+  projectName,
+  onError,
+}: Props & { entry: CancelledClip; projectName: string }) {
+  const { recoverCancelledClip, discardCancelledClip } = useClipStore();
+  const [recovering, setRecovering] = useState(false);
+
+  const handleRecover = async () => {
+    setRecovering(true);
+    try {
+      await recoverCancelledClip(entry.taskId);
+    } catch (err) {
+      console.warn(`Could not recover task ${entry.taskId}`, err);
+      onError('The video could not be downloaded. Check your connection and try again.');
+    } finally {
+      setRecovering(false);
+    }
+  };
+
+  return (
+    <View style={styles.row}>
+      <Image source={{ uri: entry.clip.imageUri }} style={styles.thumb} />
+      <View style={styles.info}>
+        <Text style={styles.prompt} numberOfLines={2}>
+          {entry.kind === 'regenerate' ? 'Regenerated: ' : ''}
+          {entry.clip.prompt}
+        </Text>
+        <Text style={styles.meta} numberOfLines={1}>
+          {projectName}
+        </Text>
+      </View>
+      {recovering ? (
+        <ActivityIndicator color="#fff" style={styles.iconBtn} />
+      ) : (
+        <>
+          <TouchableOpacity
+            style={[styles.iconBtn, styles.recoverBtn]}
+            onPress={handleRecover}
+            hitSlop={8}
+          >
+            <Ionicons name="download-outline" size={18} color="#fff" />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.iconBtn}
+            onPress={() => discardCancelledClip(entry.taskId)}
+            hitSlop={8}
+          >
+            <Ionicons name="trash-outline" size={18} color="#888" />
+          </TouchableOpacity>
+        </>
+      )}
+    </View>
+  );
+}
+
+export default function CancelledClips({ onError }: Props) {
+  const { cancelledClips, projects } = useClipStore();
+  const ready = cancelledClips.filter((c) => c.videoUrl);
+  if (ready.length === 0) return null;
+
+  return (
+    <View style={styles.panel}>
+      <Text style={styles.title}>Finished after cancelling</Text>
+      <Text style={styles.subtitle}>
+        The provider completed {ready.length === 1 ? 'this clip' : 'these clips'}{' '}
+        anyway. Add {ready.length === 1 ? 'it' : 'them'} back to the project, or
+        discard.
+      </Text>
+      {ready.map((entry) => (
+        <CancelledRow
+          key={entry.taskId}
+          entry={entry}
+          projectName={
+            projects.find((p) => p.id === entry.projectId)?.name ??
+            'Deleted project'
+          }
+          onError={onError}
+        />
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  panel: {
+    backgroundColor: '#111',
+    borderRadius: 16,
+    padding: 12,
+    borderWidth: 1,
+    borderColor: '#6432ff',
+    gap: 10,
+  },
+  title: { color: '#fff', fontSize: 15, fontWeight: '700' },
+  subtitle: { color: '#888', fontSize: 12, lineHeight: 17 },
+  row: { flexDirection: 'row', alignItems: 'center' },
+  thumb: {
+    width: 48,
+    height: 48,
+    borderRadius: 8,
+    backgroundColor: '#1c1c1e',
+  },
+  info: { flex: 1, marginHorizontal: 10 },
+  prompt: { color: '#fff', fontSize: 13 },
+  meta: { color: '#777', fontSize: 11, marginTop: 3 },
+  iconBtn: {
+    width: 34,
+    height: 34,
+    borderRadius: 17,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginLeft: 6,
+  },
+  recoverBtn: { backgroundColor: '#6432ff' },
+});
@@ -0,0 +1,209 @@
+import { useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  Image,
+  TouchableOpacity,
+  ScrollView,
+  Animated,
+  PanResponder,
+  StyleSheet,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { hasContinuityBreak, type Clip } from '../store/useClipStore';
+
+const THUMB_SIZE = 46;
+const GAP = 8;
+const SLOT = THUMB_SIZE + GAP;
+
+type Drag = { id: string; from: number };
+
+// ---------------------------------------------------------------------------
+// Clip timeline — tap to play, hold and drag to reorder
+// ---------------------------------------------------------------------------
+// Clips that no longer continue from the clip before them get a broken-link
+// badge. Tapping the clip that is already selected asks for its actions.
+// ---------------------------------------------------------------------------
+export default function ClipTimeline({
+  clips,
+  activeIndex,
+  onSelect,
+  onOpenActions,
+  onMove,
+}: {
+  clips: Clip[];
+  activeIndex: number;
+  onSelect: (index: number) => void;
+  onOpenActions: (clip: Clip) => void;
+  onMove: (id: string, toIndex: number) => void;
+}) {
+  const [drag, setDrag] = useState<Drag | null>(null);
+  const [hoverIndex, setHoverIndex] = useState(0);
+  const dx = useRef(new Animated.Value(0)).current;
+
+  // The responder callbacks are created once, so they read through refs.
+  const dragRef = useRef<Drag | null>(null);
+  const hoverRef = useRef(0);
+  const countRef = useRef(clips.length);
+  const onMoveRef = useRef(onMove);
+  countRef.current = clips.length;
+  onMoveRef.current = onMove;
+
+  const endDrag = (commit: boolean) => {
+    const current = dragRef.current;
+    if (current && commit && hoverRef.current !== current.from) {
+      onMoveRef.current(current.id, hoverRef.current);
+    }
+    dragRef.current = null;
+    setDrag(null);
+    dx.setValue(0);
+  };
+
+  const panResponder = useRef(
+    PanResponder.create({
+      // Only take over the gesture once a long press has picked a clip up.
+      onMoveShouldSetPanResponderCapture: () => dragRef.current !== null,
+      onPanResponderMove: (_, g) => {
+        const current = dragRef.current;
+        if (!current) return;
+        dx.setValue(g.dx);
+        const hover = Math.max(
+          0,
+          Math.min(countRef.current - 1, current.from + Math.round(g.dx / SLOT)),
+        );
+        if (hover !== hoverRef.current) {
+          hoverRef.current = hover;
+          setHoverIndex(hover);
+        }
+      },
+      onPanResponderRelease: () => endDrag(true),
+      onPanResponderTerminate: () => endDrag(false),
+    }),
+  ).current;
+
+  const startDrag = (clip: Clip, index: number) => {
+    dragRef.current = { id: clip.id, from: index };
+    hoverRef.current = index;
+    setHoverIndex(index);
+    setDrag({ id: clip.id, from: index });
+  };
+
+  // Where a clip sits while another one is being dragged past it
+  const shiftFor = (index: number): number => {
+    if (!drag || index === drag.from) return 0;
+    if (index > drag.from && index <= hoverIndex) return -SLOT;
+    if (index < drag.from && index >= hoverIndex) return SLOT;
+    return 0;
+  };
+
+  return (
+    <View {...panResponder.panHandlers}>
+      <ScrollView
+        horizontal
+        scrollEnabled={!drag}
+        style={styles.strip}
+        contentContainerStyle={styles.stripContent}
+        showsHorizontalScrollIndicator={false}
+      >
+        {clips.map((clip, idx) => {
+          const isDragged = drag?.id === clip.id;
+          return (
+            <Animated.View
+              key={clip.id}
+              style={[
+                styles.slot,
+                isDragged && styles.slotDragged,
+                {
+                  transform: [
+                    { translateX: isDragged ? dx : shiftFor(idx) },
+                    { scale: isDragged ? 1.1 : 1 },
+                  ],
+                },
+              ]}
+            >
+              <TouchableOpacity
+                onPress={() =>
+                  idx === activeIndex ? onOpenActions(clip) : onSelect(idx)
+                }
+                onLongPress={() => startDrag(clip, idx)}
+                delayLongPress={250}
+                activeOpacity={0.8}
+                style={[styles.thumb, idx === activeIndex && styles.thumbActive]}
+              >
+                <Image source={{ uri: clip.imageUri }} style={styles.thumbImage} />
+                <Text style={styles.thumbLabel}>{idx + 1}</Text>
+              </TouchableOpacity>
+              {hasContinuityBreak(clips, idx) && (
+                <View style={styles.breakBadge}>
+                  <Ionicons name="unlink" size={10} color="#fff" />
+                </View>
+              )}
+            </Animated.View>
+          );
+        })}
+      </ScrollView>
+      <Text style={styles.hint}>
+        Hold to reorder · tap the selected clip for options
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  strip: {
+    marginTop: 12,
+    maxHeight: 56,
+    flexGrow: 0,
+  },
+  stripContent: {
+    gap: GAP,
+    paddingHorizontal: 16,
+    paddingTop: 4,
+  },
+  slot: {
+    width: THUMB_SIZE,
+    height: THUMB_SIZE,
+  },
+  slotDragged: {
+    zIndex: 10,
+    opacity: 0.9,
+  },
+  thumb: {
+    width: THUMB_SIZE,
+    height: THUMB_SIZE,
+    borderRadius: 8,
+    overflow: 'hidden',
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  thumbActive: { borderColor: '#6432ff' },
+  thumbImage: { width: '100%', height: '100%' },
+  thumbLabel: {
+    position: 'absolute',
+    bottom: 1,
+    right: 3,
+    color: '#fff',
+    fontSize: 9,
+    fontWeight: '700',
+    textShadowColor: 'rgba(0,0,0,0.8)',
+    textShadowOffset: { width: 0, height: 1 },
+    textShadowRadius: 2,
+  },
+  breakBadge: {
+    position: 'absolute',
+    top: -4,
+    left: -4,
+    width: 16,
+    height: 16,
+    borderRadius: 8,
+    backgroundColor: '#ff9500',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  hint: {
+    color: '#555',
+    fontSize: 11,
+    textAlign: 'center',
+    marginTop: 6,
+  },
+});
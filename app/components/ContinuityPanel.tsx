@@ -0,0 +1,151 @@
+import { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { ChipRow } from './AdvancedSettings';
+import {
+  CONTINUITY_STRATEGIES,
+  MAX_LAST_N,
+  MAX_STORY_BIBLE_LENGTH,
+  getStrategy,
+  type ContinuitySettings,
+} from '../services/continuity';
+
+// ---------------------------------------------------------------------------
+// Continuity panel — how the project's clips carry the story on
+// ---------------------------------------------------------------------------
+// The setting belongs to the project, so it applies to every clip in it
+// until changed.
+// ---------------------------------------------------------------------------
+
+export default function ContinuityPanel({
+  settings,
+  onChange,
+}: {
+  settings: ContinuitySettings;
+  onChange: (updates: Partial<ContinuitySettings>) => void;
+}) {
+  const [expanded, setExpanded] = useState(false);
+  const strategy = getStrategy(settings.strategy);
+
+  return (
+    <View style={styles.container}>
+      <TouchableOpacity
+        style={styles.header}
+        onPress={() => setExpanded((e) => !e)}
+        activeOpacity={0.7}
+      >
+        <Ionicons name="link-outline" size={15} color="#aaa" />
+        <Text style={styles.headerText}>Continuity</Text>
+        <Text style={styles.headerSummary} numberOfLines={1}>
+          {strategy.id === 'last-n'
+            ? `Last ${settings.lastN} clip${settings.lastN === 1 ? '' : 's'}`
+            : strategy.name}
+        </Text>
+        <Ionicons
+          name={expanded ? 'chevron-up' : 'chevron-down'}
+          size={16}
+          color="#aaa"
+        />
+      </TouchableOpacity>
+
+      {expanded && (
+        <View style={styles.body}>
+          <ChipRow
+            options={CONTINUITY_STRATEGIES.map((s) => ({
+              value: s.id,
+              label: s.name,
+            }))}
+            value={settings.strategy}
+            onChange={(strategy) => onChange({ strategy })}
+          />
+          <Text style={styles.description}>{strategy.description}</Text>
+
+          {strategy.id === 'last-n' && (
+            <View style={styles.stepper}>
+              <TouchableOpacity
+                style={styles.stepperBtn}
+                onPress={() => onChange({ lastN: settings.lastN - 1 })}
+                disabled={settings.lastN <= 1}
+              >
+                <Ionicons name="remove" size={18} color="#fff" />
+              </TouchableOpacity>
+              <Text style={styles.stepperValue}>{settings.lastN}</Text>
+              <TouchableOpacity
+                style={styles.stepperBtn}
+                onPress={() => onChange({ lastN: settings.lastN + 1 })}
+                disabled={settings.lastN >= MAX_LAST_N}
+              >
+                <Ionicons name="add" size={18} color="#fff" />
+              </TouchableOpacity>
+              <Text style={styles.stepperLabel}>previous prompts</Text>
+            </View>
+          )}
+
+          {strategy.id === 'story-bible' && (
+            <TextInput
+              style={styles.input}
+              placeholder="Characters, setting and look, e.g. Mia, a dancer in a red dress, in a 1920s ballroom lit by chandeliers"
+              placeholderTextColor="#555"
+              value={settings.storyBible}
+              onChangeText={(storyBible) => onChange({ storyBible })}
+              maxLength={MAX_STORY_BIBLE_LENGTH}
+              multiline
+              textAlignVertical="top"
+            />
+          )}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { marginBottom: 4 },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 6,
+  },
+  headerText: { color: '#aaa', fontSize: 13, fontWeight: '600' },
+  headerSummary: { flex: 1, color: '#555', fontSize: 12, textAlign: 'right' },
+  body: { paddingTop: 6, paddingBottom: 4 },
+  description: { color: '#777', fontSize: 12, marginTop: 8, marginBottom: 8 },
+  stepper: { flexDirection: 'row', alignItems: 'center', gap: 14 },
+  stepperBtn: {
+    width: 34,
+    height: 34,
+    borderRadius: 17,
+    backgroundColor: '#1c1c1e',
+    borderWidth: 1,
+    borderColor: '#333',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  stepperValue: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+    minWidth: 20,
+    textAlign: 'center',
+  },
+  stepperLabel: { color: '#777', fontSize: 12 },
+  input: {
+    backgroundColor: '#151515',
+    color: '#fff',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 14,
+    minHeight: 72,
+    maxHeight: 140,
+    borderWidth: 1,
+    borderColor: '#2a2a2a',
+  },
+});
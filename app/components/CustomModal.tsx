@@ -0,0 +1,100 @@
+import { View, Text, TouchableOpacity, StyleSheet, Modal } from 'react-native';
+
+// ---------------------------------------------------------------------------
+// Custom Modal
+// ---------------------------------------------------------------------------
+export type ModalButton = {
+  text: string;
+  onPress: () => void;
+  style?: 'cancel' | 'destructive' | 'default';
+};
+
+export type ModalState = {
+  visible: boolean;
+  title: string;
+  message?: string;
+  buttons: ModalButton[];
+};
+
+export default function CustomModal({ modal, onClose }: { modal: ModalState; onClose: () => void }) {
+  if (!modal.visible) return null;
+  return (
+    <Modal transparent visible animationType="fade" onRequestClose={onClose}>
+      <View style={modalStyles.overlay}>
+        <View style={modalStyles.content}>
+          <Text style={modalStyles.title}>{modal.title}</Text>
+          {modal.message ? (
+            <Text style={modalStyles.message}>{modal.message}</Text>
+          ) : null}
+          <View style={modalStyles.buttonRow}>
+            {modal.buttons.map((btn, i) => (
+              <TouchableOpacity
+                key={i}
+                style={[
+                  modalStyles.button,
+                  btn.style === 'destructive' && modalStyles.buttonDestructive,
+                  btn.style === 'cancel' && modalStyles.buttonCancel,
+                ]}
+                onPress={() => {
+                  onClose();
+                  btn.onPress();
+                }}
+              >
+                <Text
+                  style={[
+                    modalStyles.buttonText,
+                    btn.style === 'cancel' && modalStyles.buttonTextCancel,
+                  ]}
+                >
+                  {btn.text}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const modalStyles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.75)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 40,
+  },
+  content: {
+    backgroundColor: '#1c1c1e',
+    borderRadius: 20,
+    padding: 24,
+    width: '100%',
+    maxWidth: 320,
+  },
+  title: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: '700',
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  message: {
+    color: '#999',
+    fontSize: 14,
+    textAlign: 'center',
+    marginBottom: 22,
+    lineHeight: 20,
+  },
+  buttonRow: { gap: 10 },
+  button: {
+    backgroundColor: '#6432ff',
+    paddingVertical: 14,
+    borderRadius: 14,
+    alignItems: 'center',
+  },
+  buttonDestructive: { backgroundColor: '#ff3b30' },
+  buttonCancel: { backgroundColor: '#333' },
+  buttonText: { color: '#fff', fontSize: 15, fontWeight: '600' },
+  buttonTextCancel: { color: '#aaa' },
+});
@@ -0,0 +1,349 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  Image,
+  TouchableOpacity,
+  Modal,
+  PanResponder,
+  StyleSheet,
+  ActivityIndicator,
+  type LayoutChangeEvent,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { File } from 'expo-file-system';
+import { extractFrame, getVideoTiming } from '../services/frames';
+import type { Clip } from '../store/useClipStore';
+
+// Nudge buttons move this far
+const STEP_MS = 100;
+// Previews are small; the picked frame is taken again at full quality.
+const PREVIEW_QUALITY = 0.4;
+
+function formatTime(ms: number): string {
+  return `${(ms / 1000).toFixed(1)}s`;
+}
+
+// ---------------------------------------------------------------------------
+// Frame picker — choose where the next clip starts
+// ---------------------------------------------------------------------------
+// Scrub through a clip and pick any frame as its continuation frame
+// instead of the last one. The preview updates when the thumb is let go.
+// ---------------------------------------------------------------------------
+export default function FramePicker({
+  clip,
+  onPick,
+  onClose,
+  onError,
+}: {
+  // The clip to pick from; the picker is hidden while null
+  clip: Clip | null;
+  // `timeMs` is null when the last frame was picked
+  onPick: (frameUri: string, timeMs: number | null) => void;
+  onClose: () => void;
+  onError: (message: string) => void;
+}) {
+  const videoUri = clip?.videoUri ?? null;
+  const timing = useMemo(
+    () => (videoUri ? getVideoTiming(videoUri) : null),
+    [videoUri],
+  );
+  const durationMs =
+    timing?.durationMs ?? (clip ? clip.settings.duration * 1000 : 0);
+  const lastFrameMs = timing?.lastFrameMs ?? Math.max(0, durationMs - 100);
+
+  const [positionMs, setPositionMs] = useState(0);
+  const [previewUri, setPreviewUri] = useState<string | null>(null);
+  const [loadingPreview, setLoadingPreview] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [trackWidth, setTrackWidth] = useState(0);
+  // Preview files to clean up when the picker closes
+  const previewsRef = useRef<string[]>([]);
+  const requestRef = useRef(0);
+
+  const loadPreview = async (timeMs: number) => {
+    if (!videoUri) return;
+    const request = ++requestRef.current;
+    setLoadingPreview(true);
+    try {
+      const uri = await extractFrame(videoUri, timeMs, PREVIEW_QUALITY);
+      previewsRef.current.push(uri);
+      if (request === requestRef.current) setPreviewUri(uri);
+    } catch (err) {
+      console.warn(`No preview at ${timeMs}ms`, err);
+    } finally {
+      if (request === requestRef.current) setLoadingPreview(false);
+    }
+  };
+
+  // Open on the clip's current continuation frame
+  useEffect(() => {
+    if (!clip) return;
+    const start = clip.frameTimeMs ?? lastFrameMs;
+    setPositionMs(start);
+    setPreviewUri(clip.lastFrameUri);
+    if (!clip.lastFrameUri) loadPreview(start);
+    return () => {
+      requestRef.current++;
+      for (const uri of previewsRef.current) {
+        try {
+          new File(uri).delete();
+        } catch { /* ignore cleanup errors */ }
+      }
+      previewsRef.current = [];
+    };
+  }, [clip?.id]);
+
+  const clamp = (ms: number) => Math.min(lastFrameMs, Math.max(0, ms));
+  const seek = (ms: number) => {
+    const next = clamp(ms);
+    setPositionMs(next);
+    loadPreview(next);
+  };
+
+  // Read the latest values from the responder, which is only made once.
+  const scrubRef = useRef({ trackWidth, lastFrameMs, seek, setPositionMs });
+  scrubRef.current = { trackWidth, lastFrameMs, seek, setPositionMs };
+  const positionAt = (x: number) => {
+    const { trackWidth: width, lastFrameMs: end } = scrubRef.current;
+    return width > 0 ? Math.min(end, Math.max(0, (x / width) * end)) : 0;
+  };
+  const responder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onMoveShouldSetPanResponder: () => true,
+      onPanResponderGrant: (e) =>
+        scrubRef.current.setPositionMs(positionAt(e.nativeEvent.locationX)),
+      onPanResponderMove: (e) =>
+        scrubRef.current.setPositionMs(positionAt(e.nativeEvent.locationX)),
+      onPanResponderRelease: (e) =>
+        scrubRef.current.seek(positionAt(e.nativeEvent.locationX)),
+    }),
+  ).current;
+
+  if (!clip || !videoUri) return null;
+
+  const isLastFrame = positionMs >= lastFrameMs;
+
+  const handleUse = async () => {
+    setSaving(true);
+    try {
+      const uri = await extractFrame(videoUri, positionMs);
+      onPick(uri, isLastFrame ? null : positionMs);
+      onClose();
+    } catch (err) {
+      console.warn(`Could not take the frame at ${positionMs}ms`, err);
+      onError("That frame couldn't be read from the video. Try one a little earlier.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const progress = lastFrameMs > 0 ? positionMs / lastFrameMs : 1;
+
+  return (
+    <Modal transparent visible animationType="slide" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <TouchableOpacity style={styles.backdrop} onPress={onClose} />
+        <View style={styles.sheet}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Continuation Frame</Text>
+            <TouchableOpacity onPress={onClose} hitSlop={10}>
+              <Ionicons name="close" size={22} color="#888" />
+            </TouchableOpacity>
+          </View>
+          <Text style={styles.hint}>
+            The next clip starts from this frame.
+          </Text>
+
+          <View style={styles.preview}>
+            {previewUri ? (
+              <Image
+                source={{ uri: previewUri }}
+                style={styles.previewImage}
+                resizeMode="contain"
+              />
+            ) : null}
+            {loadingPreview && (
+              <ActivityIndicator color="#fff" style={styles.previewSpinner} />
+            )}
+          </View>
+
+          <View
+            style={styles.track}
+            onLayout={(e: LayoutChangeEvent) =>
+              setTrackWidth(e.nativeEvent.layout.width)
+            }
+            {...responder.panHandlers}
+          >
+            <View style={styles.trackLine} pointerEvents="none" />
+            <View
+              style={[styles.trackFill, { width: `${progress * 100}%` }]}
+              pointerEvents="none"
+            />
+            <View
+              style={[styles.thumb, { left: progress * trackWidth - 9 }]}
+              pointerEvents="none"
+            />
+          </View>
+
+          <View style={styles.controls}>
+            <TouchableOpacity
+              style={styles.stepBtn}
+              onPress={() => seek(positionMs - STEP_MS)}
+              disabled={positionMs <= 0}
+            >
+              <Ionicons name="chevron-back" size={18} color="#fff" />
+            </TouchableOpacity>
+            <Text style={styles.time}>
+              {formatTime(positionMs)} / {formatTime(durationMs)}
+            </Text>
+            <TouchableOpacity
+              style={styles.stepBtn}
+              onPress={() => seek(positionMs + STEP_MS)}
+              disabled={isLastFrame}
+            >
+              <Ionicons name="chevron-forward" size={18} color="#fff" />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.lastBtn, isLastFrame && styles.lastBtnActive]}
+              onPress={() => seek(lastFrameMs)}
+            >
+              <Text style={styles.lastBtnText}>Last frame</Text>
+            </TouchableOpacity>
+          </View>
+
+          <TouchableOpacity
+            style={[styles.useBtn, saving && styles.useBtnDisabled]}
+            onPress={handleUse}
+            disabled={saving}
+          >
+            {saving ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <Text style={styles.useBtnText}>Use This Frame</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0,0,0,0.6)',
+  },
+  backdrop: {
+    flex: 1,
+  },
+  sheet: {
+    backgroundColor: '#1c1c1e',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    paddingTop: 18,
+    paddingHorizontal: 16,
+    paddingBottom: 32,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  title: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  hint: {
+    color: '#777',
+    fontSize: 12,
+    marginTop: 4,
+    marginBottom: 12,
+  },
+  preview: {
+    aspectRatio: 16 / 9,
+    backgroundColor: '#000',
+    borderRadius: 12,
+    overflow: 'hidden',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  previewImage: {
+    ...StyleSheet.absoluteFillObject,
+  },
+  previewSpinner: {
+    position: 'absolute',
+  },
+  track: {
+    height: 36,
+    justifyContent: 'center',
+    marginTop: 14,
+  },
+  trackLine: {
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: '#333',
+  },
+  trackFill: {
+    position: 'absolute',
+    left: 0,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: '#6432ff',
+  },
+  thumb: {
+    position: 'absolute',
+    width: 18,
+    height: 18,
+    borderRadius: 9,
+    backgroundColor: '#fff',
+  },
+  controls: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    marginTop: 4,
+  },
+  stepBtn: {
+    width: 34,
+    height: 34,
+    borderRadius: 17,
+    backgroundColor: '#151515',
+    borderWidth: 1,
+    borderColor: '#333',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  time: {
+    color: '#ccc',
+    fontSize: 13,
+    fontVariant: ['tabular-nums'],
+    minWidth: 84,
+    textAlign: 'center',
+  },
+  lastBtn: {
+    marginLeft: 'auto',
+    paddingHorizontal: 12,
+    paddingVertical: 7,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: '#333',
+  },
+  lastBtnActive: {
+    backgroundColor: 'rgba(100,50,255,0.3)',
+    borderColor: '#6432ff',
+  },
+  lastBtnText: { color: '#ccc', fontSize: 12, fontWeight: '600' },
+  useBtn: {
+    backgroundColor: '#6432ff',
+    borderRadius: 14,
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  useBtnDisabled: { opacity: 0.6 },
+  useBtnText: { color: '#fff', fontSize: 16, fontWeight: '700' },
+});
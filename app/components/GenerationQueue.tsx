@@ -0,0 +1,146 @@
+import { View, Text, Image, TouchableOpacity, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import {
+  useGenerationQueue,
+  type GenerationJob,
+} from '../store/useGenerationQueue';
+
+// ---------------------------------------------------------------------------
+// Generation queue panel — one row per background job
+// ---------------------------------------------------------------------------
+// Running and queued jobs can be cancelled; failed ones retried or
+// dismissed, or tapped for what went wrong. Finished jobs drop out as their
+// clip lands in the timeline.
+// ---------------------------------------------------------------------------
+
+type Props = {
+  onShowError: (job: GenerationJob) => void;
+};
+
+function JobRow({ job, onShowError }: Props & { job: GenerationJob }) {
+  const { cancel, retry, dismiss } = useGenerationQueue();
+  const failed = job.status === 'failed';
+
+  return (
+    <View style={styles.row}>
+      <Image source={{ uri: job.imageUri }} style={styles.thumb} />
+      <TouchableOpacity
+        style={styles.info}
+        onPress={() => onShowError(job)}
+        disabled={!failed}
+        activeOpacity={0.7}
+      >
+        <Text style={styles.prompt} numberOfLines={1}>
+          {job.kind === 'regenerate' ? 'Regenerating: ' : ''}
+          {job.prompt}
+        </Text>
+        <Text
+          style={[styles.status, failed && styles.statusFailed]}
+          numberOfLines={2}
+        >
+          {failed
+            ? `${job.error?.title ?? 'Failed'} — tap for details`
+            : job.statusText}
+        </Text>
+        {!failed && (
+          <View style={styles.track}>
+            <View
+              style={[styles.fill, { width: `${Math.round(job.progress * 100)}%` }]}
+            />
+          </View>
+        )}
+      </TouchableOpacity>
+      {failed ? (
+        <>
+          <TouchableOpacity
+            style={styles.iconBtn}
+            onPress={() => retry(job.id)}
+            hitSlop={8}
+          >
+            <Ionicons name="refresh" size={18} color="#fff" />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.iconBtn}
+            onPress={() => dismiss(job.id)}
+            hitSlop={8}
+          >
+            <Ionicons name="close" size={18} color="#888" />
+          </TouchableOpacity>
+        </>
+      ) : (
+        <TouchableOpacity
+          style={styles.iconBtn}
+          onPress={() => cancel(job.id)}
+          hitSlop={8}
+        >
+          <Ionicons name="close" size={18} color="#888" />
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+export default function GenerationQueue({ onShowError }: Props) {
+  const jobs = useGenerationQueue((s) => s.jobs);
+  if (jobs.length === 0) return null;
+
+  return (
+    <View style={styles.panel}>
+      {jobs.map((job) => (
+        <JobRow key={job.id} job={job} onShowError={onShowError} />
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  panel: {
+    marginHorizontal: 12,
+    marginTop: 8,
+    gap: 6,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'rgba(28,28,30,0.92)',
+    borderRadius: 12,
+    padding: 8,
+    gap: 10,
+  },
+  thumb: {
+    width: 36,
+    height: 36,
+    borderRadius: 6,
+    backgroundColor: '#000',
+  },
+  info: {
+    flex: 1,
+  },
+  prompt: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  status: {
+    color: '#888',
+    fontSize: 11,
+    marginTop: 2,
+  },
+  statusFailed: {
+    color: '#ff453a',
+  },
+  track: {
+    height: 3,
+    backgroundColor: '#333',
+    borderRadius: 2,
+    marginTop: 6,
+    overflow: 'hidden',
+  },
+  fill: {
+    height: '100%',
+    backgroundColor: '#6432ff',
+  },
+  iconBtn: {
+    padding: 4,
+  },
+});
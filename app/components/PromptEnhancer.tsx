@@ -0,0 +1,198 @@
+import { useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { enhancePrompt, RateLimitError } from '../services/api';
+import type { ClipStyle } from '../services/presets';
+
+// ---------------------------------------------------------------------------
+// Prompt enhancer — a fuller prompt written by the worker's LLM
+// ---------------------------------------------------------------------------
+// Short prompts like "she dances" leave the video model guessing. Enhance
+// sends the prompt, the earlier clips' prompts and the style to the worker
+// and shows what comes back in an editable preview; nothing changes until
+// the user taps Use.
+// ---------------------------------------------------------------------------
+
+type Props = {
+  prompt: string;
+  // Prompts of the clips this one follows, oldest first
+  previousPrompts: () => string[];
+  style: ClipStyle | null;
+  disabled?: boolean;
+  onAccept: (prompt: string) => void;
+  onError: (message: string) => void;
+};
+
+export default function PromptEnhancer({
+  prompt,
+  previousPrompts,
+  style,
+  disabled,
+  onAccept,
+  onError,
+}: Props) {
+  const [loading, setLoading] = useState(false);
+  const [suggestion, setSuggestion] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const handleEnhance = async () => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setLoading(true);
+    try {
+      setSuggestion(
+        await enhancePrompt(
+          prompt.trim(),
+          previousPrompts(),
+          style,
+          controller.signal,
+        ),
+      );
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      console.warn('Prompt enhancement failed', err);
+      onError(
+        err instanceof RateLimitError
+          ? err.message
+          : err instanceof TypeError
+            ? "Couldn't reach the server. Check your connection and try again."
+            : "The prompt couldn't be enhanced right now. You can still generate with it as written.",
+      );
+    } finally {
+      if (!controller.signal.aborted) setLoading(false);
+    }
+  };
+
+  const handleAccept = () => {
+    if (!suggestion?.trim()) return;
+    onAccept(suggestion.trim());
+    setSuggestion(null);
+  };
+
+  if (suggestion !== null) {
+    return (
+      <View style={styles.preview}>
+        <View style={styles.previewHeader}>
+          <Ionicons name="sparkles" size={13} color="#a68bff" />
+          <Text style={styles.previewTitle}>Enhanced prompt</Text>
+          <Text style={styles.previewHint}>Edit before using</Text>
+        </View>
+        <TextInput
+          style={styles.previewInput}
+          value={suggestion}
+          onChangeText={setSuggestion}
+          multiline
+          textAlignVertical="top"
+        />
+        <View style={styles.previewActions}>
+          <TouchableOpacity
+            style={styles.secondaryBtn}
+            onPress={() => setSuggestion(null)}
+            activeOpacity={0.7}
+          >
+            <Text style={styles.secondaryBtnText}>Discard</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.primaryBtn, !suggestion.trim() && styles.btnDisabled]}
+            onPress={handleAccept}
+            disabled={!suggestion.trim()}
+            activeOpacity={0.7}
+          >
+            <Ionicons name="checkmark" size={15} color="#fff" />
+            <Text style={styles.primaryBtnText}>Use</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  }
+
+  const canEnhance = !!prompt.trim() && !disabled && !loading;
+
+  return (
+    <TouchableOpacity
+      style={[styles.enhanceBtn, !canEnhance && styles.btnDisabled]}
+      onPress={handleEnhance}
+      disabled={!canEnhance}
+      activeOpacity={0.7}
+    >
+      {loading ? (
+        <ActivityIndicator size="small" color="#a68bff" />
+      ) : (
+        <Ionicons name="sparkles-outline" size={14} color="#a68bff" />
+      )}
+      <Text style={styles.enhanceBtnText}>
+        {loading ? 'Enhancing…' : 'Enhance prompt'}
+      </Text>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  enhanceBtn: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 6,
+    paddingVertical: 6,
+    marginBottom: 8,
+  },
+  enhanceBtnText: { color: '#a68bff', fontSize: 13, fontWeight: '600' },
+  btnDisabled: { opacity: 0.4 },
+  preview: {
+    backgroundColor: 'rgba(100,50,255,0.08)',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: 'rgba(100,50,255,0.4)',
+    padding: 10,
+    marginBottom: 12,
+  },
+  previewHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 6,
+  },
+  previewTitle: { color: '#ccc', fontSize: 13, fontWeight: '600' },
+  previewHint: { flex: 1, color: '#666', fontSize: 12, textAlign: 'right' },
+  previewInput: {
+    color: '#fff',
+    fontSize: 14,
+    lineHeight: 20,
+    minHeight: 60,
+    maxHeight: 140,
+    padding: 0,
+  },
+  previewActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 10,
+    marginTop: 8,
+  },
+  secondaryBtn: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#333',
+  },
+  secondaryBtnText: { color: '#aaa', fontSize: 13, fontWeight: '600' },
+  primaryBtn: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: '#6432ff',
+  },
+  primaryBtnText: { color: '#fff', fontSize: 13, fontWeight: '600' },
+});
@@ -0,0 +1,307 @@
+import { useCallback, useMemo, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  Pressable,
+  StyleSheet,
+  type LayoutChangeEvent,
+} from 'react-native';
+import { Video, type AVPlaybackStatus } from 'expo-av';
+import { Ionicons } from '@expo/vector-icons';
+import { getVideoTiming } from '../services/frames';
+import {
+  LOOP_MODES,
+  PLAYBACK_RATES,
+  buildTimeline,
+  formatClock,
+  locate,
+  nextClipIndex,
+  type LoopMode,
+} from '../services/sequence';
+import type { Clip } from '../store/useClipStore';
+
+const LOOP_LABELS: Record<LoopMode, string> = {
+  sequence: 'Loop all',
+  clip: 'Loop clip',
+  off: 'No loop',
+};
+
+// ---------------------------------------------------------------------------
+// Sequence player — final playback without gaps between clips
+// ---------------------------------------------------------------------------
+// Two players take turns: one shows the current clip while the other has
+// the next one loaded and paused on its first frame. When the clip ends
+// the players swap, so the next clip is already on screen.
+// ---------------------------------------------------------------------------
+
+type Slot = 0 | 1;
+
+export default function SequencePlayer({ clips }: { clips: Clip[] }) {
+  const playerA = useRef<Video>(null);
+  const playerB = useRef<Video>(null);
+  const players = [playerA, playerB];
+
+  const [activeSlot, setActiveSlot] = useState<Slot>(0);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [playing, setPlaying] = useState(true);
+  const [positionMs, setPositionMs] = useState(0);
+  const [rate, setRate] = useState(1);
+  const [loop, setLoop] = useState<LoopMode>('sequence');
+  const [trackWidth, setTrackWidth] = useState(0);
+  // Seek to make once a clip loaded into a slot is ready
+  const pendingSeek = useRef<{ slot: Slot; offsetMs: number } | null>(null);
+  // Set when the last clip ended with looping off
+  const ended = useRef(false);
+
+  const index = Math.min(activeIndex, Math.max(0, clips.length - 1));
+  const preloadIndex = nextClipIndex(index, clips.length, loop);
+  const idleSlot: Slot = activeSlot === 0 ? 1 : 0;
+  const slotClips: (Clip | null)[] = [];
+  slotClips[activeSlot] = clips[index] ?? null;
+  slotClips[idleSlot] = preloadIndex === null ? null : clips[preloadIndex];
+
+  // Real clip lengths, read from the files, so the timeline is to scale
+  const clipKey = clips.map((c) => `${c.id}:${c.videoUri}`).join('|');
+  const timeline = useMemo(
+    () =>
+      buildTimeline(
+        clips.map(
+          (c) =>
+            (c.videoUri && getVideoTiming(c.videoUri)?.durationMs) ||
+            c.settings.duration * 1000,
+        ),
+      ),
+    [clipKey],
+  );
+
+  const seekTo = useCallback(
+    (ms: number) => {
+      const target = locate(timeline, ms);
+      ended.current = false;
+      setPositionMs(timeline.starts[target.index] + target.offsetMs);
+      if (target.index === index) {
+        players[activeSlot].current
+          ?.setPositionAsync(target.offsetMs)
+          .catch(() => {});
+      } else if (target.index === preloadIndex) {
+        // Already loaded in the other player
+        players[idleSlot].current
+          ?.setPositionAsync(target.offsetMs)
+          .catch(() => {});
+        setActiveSlot(idleSlot);
+        setActiveIndex(target.index);
+      } else {
+        pendingSeek.current = { slot: activeSlot, offsetMs: target.offsetMs };
+        setActiveIndex(target.index);
+      }
+    },
+    [timeline, index, preloadIndex, activeSlot, idleSlot],
+  );
+
+  const handleFinish = () => {
+    if (preloadIndex === null) {
+      ended.current = true;
+      setPlaying(false);
+      return;
+    }
+    // The finished player becomes the idle one; rewind it for whatever it
+    // shows next, which may be this same clip.
+    players[activeSlot].current?.setPositionAsync(0).catch(() => {});
+    setActiveSlot(idleSlot);
+    setActiveIndex(preloadIndex);
+    setPositionMs(timeline.starts[preloadIndex] ?? 0);
+  };
+
+  const handleStatus = (slot: Slot) => (status: AVPlaybackStatus) => {
+    if (!status.isLoaded || slot !== activeSlot) return;
+    if (status.didJustFinish) {
+      handleFinish();
+      return;
+    }
+    setPositionMs((timeline.starts[index] ?? 0) + status.positionMillis);
+  };
+
+  const handleLoad = (slot: Slot) => () => {
+    const seek = pendingSeek.current;
+    if (seek && seek.slot === slot) {
+      pendingSeek.current = null;
+      players[slot].current?.setPositionAsync(seek.offsetMs).catch(() => {});
+    }
+  };
+
+  const togglePlay = () => {
+    if (!playing && ended.current) seekTo(0);
+    setPlaying((p) => !p);
+  };
+
+  const cycleRate = () =>
+    setRate(PLAYBACK_RATES[(PLAYBACK_RATES.indexOf(rate) + 1) % PLAYBACK_RATES.length]);
+  const cycleLoop = () =>
+    setLoop(LOOP_MODES[(LOOP_MODES.indexOf(loop) + 1) % LOOP_MODES.length]);
+
+  const progress = timeline.totalMs > 0 ? positionMs / timeline.totalMs : 0;
+
+  return (
+    <>
+      <View style={styles.videoContainer}>
+        <Pressable onPress={togglePlay} style={styles.videoTouchable}>
+          {([0, 1] as Slot[]).map((slot) => {
+            const clip = slotClips[slot];
+            return (
+              <Video
+                key={slot}
+                ref={players[slot]}
+                source={clip?.videoUri ? { uri: clip.videoUri } : undefined}
+                style={[
+                  styles.video,
+                  slot === activeSlot ? styles.videoActive : styles.videoIdle,
+                ]}
+                resizeMode={'contain' as any}
+                shouldPlay={slot === activeSlot && playing}
+                rate={rate}
+                shouldCorrectPitch
+                progressUpdateIntervalMillis={250}
+                onLoad={handleLoad(slot)}
+                onPlaybackStatusUpdate={handleStatus(slot)}
+              />
+            );
+          })}
+          {!playing && (
+            <View style={styles.pauseOverlay}>
+              <Ionicons name="play" size={56} color="rgba(255,255,255,0.8)" />
+            </View>
+          )}
+        </Pressable>
+      </View>
+
+      <View style={styles.bottom}>
+        {/* Sequence timeline, one segment per clip */}
+        <Pressable
+          style={styles.track}
+          onLayout={(e: LayoutChangeEvent) =>
+            setTrackWidth(e.nativeEvent.layout.width)
+          }
+          onPress={(e) =>
+            trackWidth > 0 &&
+            seekTo((e.nativeEvent.locationX / trackWidth) * timeline.totalMs)
+          }
+        >
+          <View style={styles.segments} pointerEvents="none">
+            {timeline.durations.map((duration, i) => (
+              <View
+                key={clips[i].id}
+                style={[
+                  styles.segment,
+                  { flex: duration },
+                  i === index && styles.segmentActive,
+                ]}
+              />
+            ))}
+          </View>
+          <View
+            style={[styles.playhead, { left: progress * trackWidth - 1 }]}
+            pointerEvents="none"
+          />
+        </Pressable>
+
+        <View style={styles.controls}>
+          <Text style={styles.time}>
+            {formatClock(positionMs)} / {formatClock(timeline.totalMs)}
+          </Text>
+          <Text style={styles.clipLabel}>
+            Clip {index + 1} of {clips.length}
+          </Text>
+          <TouchableOpacity style={styles.controlBtn} onPress={cycleLoop}>
+            <Ionicons
+              name={loop === 'off' ? 'arrow-forward' : 'repeat'}
+              size={14}
+              color={loop === 'off' ? '#888' : '#fff'}
+            />
+            <Text style={styles.controlText}>{LOOP_LABELS[loop]}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.controlBtn} onPress={cycleRate}>
+            <Text style={styles.controlText}>{rate}×</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  videoContainer: {
+    flex: 1,
+    marginHorizontal: 8,
+    borderRadius: 16,
+    overflow: 'hidden',
+    backgroundColor: '#111',
+  },
+  videoTouchable: { flex: 1 },
+  video: { ...StyleSheet.absoluteFillObject },
+  // The idle player stays rendered underneath so its first frame is ready
+  videoActive: { zIndex: 1 },
+  videoIdle: { zIndex: 0 },
+  pauseOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    zIndex: 2,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0,0,0,0.3)',
+  },
+  bottom: {
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+    gap: 10,
+  },
+  track: {
+    height: 28,
+    justifyContent: 'center',
+  },
+  segments: {
+    flexDirection: 'row',
+    gap: 3,
+    height: 6,
+  },
+  segment: {
+    borderRadius: 3,
+    backgroundColor: '#333',
+  },
+  segmentActive: {
+    backgroundColor: 'rgba(100,50,255,0.6)',
+  },
+  playhead: {
+    position: 'absolute',
+    width: 3,
+    height: 20,
+    borderRadius: 1.5,
+    backgroundColor: '#fff',
+  },
+  controls: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  time: {
+    color: '#ccc',
+    fontSize: 13,
+    fontVariant: ['tabular-nums'],
+  },
+  clipLabel: {
+    flex: 1,
+    color: '#888',
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  controlBtn: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: '#333',
+  },
+  controlText: { color: '#ccc', fontSize: 12, fontWeight: '600' },
+});
@@ -0,0 +1,550 @@
+import { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  StyleSheet,
+  Modal,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { ChipRow } from './AdvancedSettings';
+import {
+  allPresets,
+  allTemplates,
+  usePresetStore,
+} from '../store/usePresetStore';
+import {
+  MAX_PRESET_NAME_LENGTH,
+  MAX_PRESET_PROMPT_LENGTH,
+  PresetImportError,
+  type ClipStyle,
+  type PresetSettings,
+  type PromptTemplate,
+  type StylePreset,
+} from '../services/presets';
+
+// ---------------------------------------------------------------------------
+// Style presets and motion templates on the prompt screen
+// ---------------------------------------------------------------------------
+// Tap a style to use it for the clip, or a template to add it to the
+// prompt. Long-press one to edit it; a built-in one is edited as a copy.
+// ---------------------------------------------------------------------------
+
+type Props = {
+  style: ClipStyle | null;
+  onSelectStyle: (preset: StylePreset | null) => void;
+  onInsertTemplate: (template: string) => void;
+};
+
+type Editing =
+  | { kind: 'preset'; preset: StylePreset | null }
+  | { kind: 'template'; template: PromptTemplate | null }
+  | { kind: 'import' };
+
+function Chip({
+  label,
+  active,
+  icon,
+  onPress,
+  onLongPress,
+}: {
+  label: string;
+  active?: boolean;
+  icon?: keyof typeof Ionicons.glyphMap;
+  onPress: () => void;
+  onLongPress?: () => void;
+}) {
+  return (
+    <TouchableOpacity
+      style={[styles.chip, active && styles.chipActive]}
+      onPress={onPress}
+      onLongPress={onLongPress}
+      activeOpacity={0.7}
+    >
+      {icon && <Ionicons name={icon} size={13} color="#aaa" />}
+      <Text style={[styles.chipText, active && styles.chipTextActive]}>
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+}
+
+export default function StylePicker({
+  style,
+  onSelectStyle,
+  onInsertTemplate,
+}: Props) {
+  const store = usePresetStore();
+  const presets = allPresets(store);
+  const templates = allTemplates(store);
+  const [editing, setEditing] = useState<Editing | null>(null);
+  // The clip's style may come from a preset that has since been deleted.
+  const orphaned = style && !presets.some((p) => p.id === style.id);
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>Style</Text>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.row}
+        keyboardShouldPersistTaps="handled"
+      >
+        <Chip label="None" active={!style} onPress={() => onSelectStyle(null)} />
+        {orphaned && <Chip label={style.name} active onPress={() => {}} />}
+        {presets.map((preset) => (
+          <Chip
+            key={preset.id}
+            label={preset.name}
+            active={preset.id === style?.id}
+            onPress={() => onSelectStyle(preset)}
+            onLongPress={() => setEditing({ kind: 'preset', preset })}
+          />
+        ))}
+        <Chip
+          label="New"
+          icon="add"
+          onPress={() => setEditing({ kind: 'preset', preset: null })}
+        />
+        <Chip
+          label="Import"
+          icon="download-outline"
+          onPress={() => setEditing({ kind: 'import' })}
+        />
+      </ScrollView>
+
+      <Text style={styles.label}>Motion</Text>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.row}
+        keyboardShouldPersistTaps="handled"
+      >
+        {templates.map((template) => (
+          <Chip
+            key={template.id}
+            label={template.name}
+            onPress={() => onInsertTemplate(template.template)}
+            onLongPress={() => setEditing({ kind: 'template', template })}
+          />
+        ))}
+        <Chip
+          label="New"
+          icon="add"
+          onPress={() => setEditing({ kind: 'template', template: null })}
+        />
+      </ScrollView>
+
+      {editing?.kind === 'preset' && (
+        <PresetEditor
+          preset={editing.preset}
+          onClose={() => setEditing(null)}
+          onSaved={(preset) => {
+            // Editing the style in use applies the edit to this clip.
+            if (preset.id === style?.id || editing.preset?.id === style?.id) {
+              onSelectStyle(preset);
+            }
+          }}
+          onDeleted={(id) => {
+            if (id === style?.id) onSelectStyle(null);
+          }}
+        />
+      )}
+      {editing?.kind === 'template' && (
+        <TemplateEditor
+          template={editing.template}
+          onClose={() => setEditing(null)}
+        />
+      )}
+      {editing?.kind === 'import' && (
+        <ImportModal onClose={() => setEditing(null)} />
+      )}
+    </View>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Editors
+// ---------------------------------------------------------------------------
+
+function EditorFrame({
+  title,
+  canSave,
+  saveLabel = 'Save',
+  onSave,
+  onDelete,
+  onClose,
+  children,
+}: {
+  title: string;
+  canSave: boolean;
+  saveLabel?: string;
+  onSave: () => void;
+  onDelete?: () => void;
+  onClose: () => void;
+  children: React.ReactNode;
+}) {
+  return (
+    <Modal transparent visible animationType="fade" onRequestClose={onClose}>
+      <KeyboardAvoidingView
+        style={editorStyles.overlay}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <View style={editorStyles.content}>
+          <Text style={editorStyles.title}>{title}</Text>
+          <ScrollView keyboardShouldPersistTaps="handled">{children}</ScrollView>
+          <View style={editorStyles.buttonRow}>
+            {onDelete && (
+              <TouchableOpacity
+                style={[editorStyles.button, editorStyles.buttonDestructive]}
+                onPress={() => {
+                  onDelete();
+                  onClose();
+                }}
+              >
+                <Text style={editorStyles.buttonText}>Delete</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity
+              style={[editorStyles.button, editorStyles.buttonCancel]}
+              onPress={onClose}
+            >
+              <Text style={[editorStyles.buttonText, editorStyles.buttonTextCancel]}>
+                Cancel
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[editorStyles.button, !canSave && editorStyles.buttonDisabled]}
+              onPress={onSave}
+              disabled={!canSave}
+            >
+              <Text style={editorStyles.buttonText}>{saveLabel}</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+function Field({
+  label,
+  value,
+  onChange,
+  placeholder,
+  maxLength,
+  multiline,
+}: {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  placeholder: string;
+  maxLength: number;
+  multiline?: boolean;
+}) {
+  return (
+    <>
+      <Text style={editorStyles.label}>{label}</Text>
+      <TextInput
+        style={[editorStyles.input, multiline && editorStyles.inputMultiline]}
+        value={value}
+        onChangeText={onChange}
+        placeholder={placeholder}
+        placeholderTextColor="#555"
+        maxLength={maxLength}
+        multiline={multiline}
+        textAlignVertical={multiline ? 'top' : 'center'}
+      />
+    </>
+  );
+}
+
+function PresetEditor({
+  preset,
+  onClose,
+  onSaved,
+  onDeleted,
+}: {
+  preset: StylePreset | null;
+  onClose: () => void;
+  onSaved: (preset: StylePreset) => void;
+  onDeleted: (id: string) => void;
+}) {
+  const { savePreset, deletePreset } = usePresetStore();
+  const copying = !!preset?.builtIn;
+  const [name, setName] = useState(
+    preset ? (copying ? `${preset.name} (mine)` : preset.name) : '',
+  );
+  const [prompt, setPrompt] = useState(preset?.prompt ?? '');
+  const [negativePrompt, setNegativePrompt] = useState(preset?.negativePrompt ?? '');
+  const [settings, setSettings] = useState<PresetSettings>(preset?.settings ?? {});
+  const canSave = !!name.trim() && !!prompt.trim();
+
+  const save = () => {
+    const input = {
+      name: name.trim(),
+      prompt: prompt.trim(),
+      negativePrompt: negativePrompt.trim(),
+      settings,
+    };
+    const id = savePreset(input, copying ? undefined : preset?.id);
+    onSaved({ ...input, id, builtIn: false });
+    onClose();
+  };
+
+  return (
+    <EditorFrame
+      title={!preset ? 'New Style' : copying ? 'Copy Style' : 'Edit Style'}
+      canSave={canSave}
+      onSave={save}
+      onDelete={
+        preset && !copying
+          ? () => {
+              deletePreset(preset.id);
+              onDeleted(preset.id);
+            }
+          : undefined
+      }
+      onClose={onClose}
+    >
+      <Field
+        label="Name"
+        value={name}
+        onChange={setName}
+        placeholder="e.g. Dreamy pastel"
+        maxLength={MAX_PRESET_NAME_LENGTH}
+      />
+      <Field
+        label="Added to the prompt"
+        value={prompt}
+        onChange={setPrompt}
+        placeholder="e.g. soft pastel colors, hazy light, dreamlike"
+        maxLength={MAX_PRESET_PROMPT_LENGTH}
+        multiline
+      />
+      <Field
+        label="Negative prompt"
+        value={negativePrompt}
+        onChange={setNegativePrompt}
+        placeholder="What to avoid in this style"
+        maxLength={MAX_PRESET_PROMPT_LENGTH}
+        multiline
+      />
+      <Text style={editorStyles.label}>Duration</Text>
+      <ChipRow
+        options={[
+          { value: 'any' as const, label: 'Any' },
+          { value: 5 as const, label: '5s' },
+          { value: 10 as const, label: '10s' },
+        ]}
+        value={settings.duration ?? 'any'}
+        onChange={(duration) =>
+          setSettings((s) => ({
+            ...s,
+            duration: duration === 'any' ? undefined : duration,
+          }))
+        }
+      />
+      <Text style={editorStyles.label}>Quality</Text>
+      <ChipRow
+        options={[
+          { value: 'any' as const, label: 'Any' },
+          { value: 'std' as const, label: 'Standard' },
+          { value: 'pro' as const, label: 'Pro' },
+        ]}
+        value={settings.mode ?? 'any'}
+        onChange={(mode) =>
+          setSettings((s) => ({ ...s, mode: mode === 'any' ? undefined : mode }))
+        }
+      />
+    </EditorFrame>
+  );
+}
+
+function TemplateEditor({
+  template,
+  onClose,
+}: {
+  template: PromptTemplate | null;
+  onClose: () => void;
+}) {
+  const { saveTemplate, deleteTemplate } = usePresetStore();
+  const copying = !!template?.builtIn;
+  const [name, setName] = useState(
+    template ? (copying ? `${template.name} (mine)` : template.name) : '',
+  );
+  const [text, setText] = useState(template?.template ?? '');
+  const canSave = !!name.trim() && !!text.trim();
+
+  return (
+    <EditorFrame
+      title={!template ? 'New Motion' : copying ? 'Copy Motion' : 'Edit Motion'}
+      canSave={canSave}
+      onSave={() => {
+        saveTemplate(
+          { name: name.trim(), template: text.trim() },
+          copying ? undefined : template?.id,
+        );
+        onClose();
+      }}
+      onDelete={
+        template && !copying ? () => deleteTemplate(template.id) : undefined
+      }
+      onClose={onClose}
+    >
+      <Field
+        label="Name"
+        value={name}
+        onChange={setName}
+        placeholder="e.g. Crane up"
+        maxLength={MAX_PRESET_NAME_LENGTH}
+      />
+      <Field
+        label="Template — {braces} mark what to fill in"
+        value={text}
+        onChange={setText}
+        placeholder="e.g. The camera cranes up from {subject} to reveal {scene}"
+        maxLength={MAX_PRESET_PROMPT_LENGTH}
+        multiline
+      />
+    </EditorFrame>
+  );
+}
+
+function ImportModal({ onClose }: { onClose: () => void }) {
+  const { importLibrary } = usePresetStore();
+  const [json, setJson] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleImport = () => {
+    try {
+      importLibrary(json);
+      onClose();
+    } catch (err) {
+      setError(
+        err instanceof PresetImportError ? err.message : 'The presets could not be imported.',
+      );
+    }
+  };
+
+  return (
+    <EditorFrame
+      title="Import Presets"
+      canSave={!!json.trim()}
+      saveLabel="Import"
+      onSave={handleImport}
+      onClose={onClose}
+    >
+      <Text style={editorStyles.hint}>
+        Paste a preset library: JSON with a &quot;presets&quot; and/or
+        &quot;templates&quot; list.
+      </Text>
+      <TextInput
+        style={[editorStyles.input, editorStyles.inputJson]}
+        value={json}
+        onChangeText={(value) => {
+          setJson(value);
+          setError(null);
+        }}
+        placeholder='{ "presets": [{ "name": "…", "prompt": "…" }] }'
+        placeholderTextColor="#555"
+        multiline
+        textAlignVertical="top"
+        autoCapitalize="none"
+        autoCorrect={false}
+      />
+      {error && <Text style={editorStyles.error}>{error}</Text>}
+    </EditorFrame>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { marginBottom: 8 },
+  label: {
+    color: '#777',
+    fontSize: 12,
+    fontWeight: '600',
+    marginBottom: 6,
+  },
+  row: { gap: 8, paddingBottom: 10 },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    backgroundColor: '#151515',
+    paddingHorizontal: 12,
+    paddingVertical: 7,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#2a2a2a',
+  },
+  chipActive: {
+    backgroundColor: 'rgba(100,50,255,0.3)',
+    borderColor: '#6432ff',
+  },
+  chipText: { color: '#aaa', fontSize: 13, fontWeight: '500' },
+  chipTextActive: { color: '#fff' },
+});
+
+const editorStyles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.75)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  content: {
+    backgroundColor: '#1c1c1e',
+    borderRadius: 20,
+    padding: 20,
+    width: '100%',
+    maxWidth: 360,
+    maxHeight: '85%',
+  },
+  title: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: '700',
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  label: {
+    color: '#777',
+    fontSize: 12,
+    fontWeight: '600',
+    marginTop: 12,
+    marginBottom: 6,
+  },
+  hint: { color: '#999', fontSize: 13, lineHeight: 18, marginBottom: 10 },
+  input: {
+    backgroundColor: '#111',
+    color: '#fff',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#333',
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 14,
+  },
+  inputMultiline: { minHeight: 64 },
+  inputJson: { minHeight: 160, fontSize: 12 },
+  error: { color: '#ff6b6b', fontSize: 13, marginTop: 8 },
+  buttonRow: { flexDirection: 'row', gap: 10, marginTop: 18 },
+  button: {
+    flex: 1,
+    backgroundColor: '#6432ff',
+    paddingVertical: 14,
+    borderRadius: 14,
+    alignItems: 'center',
+  },
+  buttonDestructive: { backgroundColor: '#ff3b30' },
+  buttonCancel: { backgroundColor: '#333' },
+  buttonDisabled: { opacity: 0.4 },
+  buttonText: { color: '#fff', fontSize: 15, fontWeight: '600' },
+  buttonTextCancel: { color: '#aaa' },
+});
@@ -1,4 +1,10 @@
 import { File, Paths } from 'expo-file-system';
+import {
+  createUploadTask,
+  FileSystemUploadType,
+} from 'expo-file-system/legacy';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SecureStore from 'expo-secure-store';
 
 // Use EXPO_PUBLIC_WORKER_URL if set (works in both dev and production).
 // Falls back to Android emulator localhost proxy in dev, localhost in prod.
@@ -6,17 +12,288 @@ const WORKER_URL = process.env.EXPO_PUBLIC_WORKER_URL
   || (__DEV__ ? 'http://10.0.2.2:8787' : 'http://localhost:8787');
 
 // Issue 10 (app-side): Send API key header if configured.
-// Set EXPO_PUBLIC_APP_API_KEY in your .env for production builds.
+// Set EXPO_PUBLIC_APP_API_KEY in your .env for production builds. Workers
+// with device credentials only use it to register the device.
 const APP_API_KEY = process.env.EXPO_PUBLIC_APP_API_KEY || '';
 
-function getAuthHeaders(): Record<string, string> {
-  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+// Random per-install id sent as X-Client-Id. The worker uses it to scope
+// tasks to the device that started them; it is not a credential.
+const CLIENT_ID_KEY = 'opendance-client-id';
+let clientIdPromise: Promise<string> | null = null;
+
+function getClientId(): Promise<string> {
+  if (!clientIdPromise) {
+    clientIdPromise = (async () => {
+      const stored = await AsyncStorage.getItem(CLIENT_ID_KEY);
+      if (stored) return stored;
+      const id = Array.from({ length: 4 }, () =>
+        Math.random().toString(36).slice(2, 8).padEnd(6, '0'),
+      ).join('');
+      await AsyncStorage.setItem(CLIENT_ID_KEY, id);
+      return id;
+    })();
+    // Don't cache a failed read — try again on the next request.
+    clientIdPromise.catch(() => {
+      clientIdPromise = null;
+    });
+  }
+  return clientIdPromise;
+}
+
+// ---------------------------------------------------------------------------
+// Worker errors
+// ---------------------------------------------------------------------------
+// Worker error responses carry a stable `code` next to the message; these
+// mirror worker/src/errors.ts. services/errors.ts turns them into what the
+// user is told and offered.
+// ---------------------------------------------------------------------------
+
+const ERROR_CODES = [
+  'INVALID_REQUEST',
+  'PROMPT_TOO_LONG',
+  'INVALID_IMAGE',
+  'IMAGE_TOO_LARGE',
+  'IMAGE_NOT_FOUND',
+  'INVALID_TASK_ID',
+  'TASK_NOT_FOUND',
+  'VIDEO_NOT_FOUND',
+  'UNAUTHORIZED',
+  'DEVICE_REVOKED',
+  'RATE_LIMITED',
+  'QUOTA_EXCEEDED',
+  'IDEMPOTENCY_CONFLICT',
+  'PROVIDER_RATE_LIMITED',
+  'PROVIDER_REJECTED_CONTENT',
+  'PROVIDER_ERROR',
+  'PROVIDER_UNAVAILABLE',
+  'GENERATION_FAILED',
+  'RENDER_FAILED',
+  'CLIPS_INCOMPATIBLE',
+  'NOT_FOUND',
+  'INTERNAL_ERROR',
+] as const;
+
+export type ErrorCode = (typeof ERROR_CODES)[number];
+
+const KNOWN_CODES = new Set<string>(ERROR_CODES);
+
+function isErrorCode(value: unknown): value is ErrorCode {
+  return typeof value === 'string' && KNOWN_CODES.has(value);
+}
+
+// For workers that predate error codes.
+function codeForStatus(status: number): ErrorCode {
+  if (status === 401) return 'UNAUTHORIZED';
+  if (status === 403) return 'DEVICE_REVOKED';
+  if (status === 404) return 'NOT_FOUND';
+  if (status === 413) return 'IMAGE_TOO_LARGE';
+  if (status === 429) return 'RATE_LIMITED';
+  if (status >= 500) return 'INTERNAL_ERROR';
+  return 'INVALID_REQUEST';
+}
+
+// An error response from the worker. `status` is 0 for errors raised by
+// the app itself on the worker's behalf.
+export class WorkerError extends Error {
+  constructor(
+    readonly code: ErrorCode,
+    message: string,
+    readonly status = 0,
+  ) {
+    super(message);
+    this.name = 'WorkerError';
+  }
+}
+
+type ErrorBody = { error?: string; code?: string; retryAfter?: number };
+
+async function workerError(
+  response: Response,
+  fallback: string,
+): Promise<WorkerError> {
+  if (response.status === 429) {
+    return rateLimitError(response);
+  }
+  const body = (await response.json().catch(() => ({}))) as ErrorBody;
+  if (body.code === 'PROVIDER_UNAVAILABLE') {
+    return new ProviderUnavailableError(
+      body.error ?? fallback,
+      Math.max(1, Number(response.headers.get('Retry-After')) || 30),
+    );
+  }
+  return new WorkerError(
+    isErrorCode(body.code) ? body.code : codeForStatus(response.status),
+    body.error ?? fallback,
+    response.status,
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Device credentials
+// ---------------------------------------------------------------------------
+// The device registers with the worker once and keeps the access and
+// refresh tokens it gets in SecureStore (the Android keystore). The access
+// token is refreshed shortly before it expires, or when the worker turns it
+// down. A worker without device credentials answers /register with 404;
+// the app then sends the shared API key and client id instead.
+//
+// The device id is new: tasks and videos the install started under its
+// client id stay with that id. Clips already downloaded are unaffected.
+// ---------------------------------------------------------------------------
+
+type Credentials = {
+  deviceId: string;
+  accessToken: string;
+  // Epoch ms
+  expiresAt: number;
+  refreshToken: string;
+};
+
+const CREDENTIALS_KEY = 'opendance-credentials';
+// Refresh this long before the access token runs out.
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+// The worker has blocked this device.
+export class DeviceRevokedError extends WorkerError {
+  constructor() {
+    super(
+      'DEVICE_REVOKED',
+      'This device has been blocked from using the video service.',
+      403,
+    );
+    this.name = 'DeviceRevokedError';
+  }
+}
+
+// Set once the worker turns out not to support device credentials.
+let legacyAuth = false;
+let credentialsPromise: Promise<Credentials | null> | null = null;
+
+async function loadCredentials(): Promise<Credentials | null> {
+  const stored = await SecureStore.getItemAsync(CREDENTIALS_KEY);
+  return stored ? (JSON.parse(stored) as Credentials) : null;
+}
+
+async function saveCredentials(credentials: Credentials): Promise<Credentials> {
+  await SecureStore.setItemAsync(CREDENTIALS_KEY, JSON.stringify(credentials));
+  return credentials;
+}
+
+async function register(): Promise<Credentials | null> {
+  const response = await fetch(`${WORKER_URL}/register`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(APP_API_KEY ? { 'X-API-Key': APP_API_KEY } : {}),
+    },
+  });
+
+  if (response.status === 404) {
+    legacyAuth = true;
+    return null;
+  }
+  if (response.status === 429) {
+    throw await rateLimitError(response);
+  }
+  if (!response.ok) {
+    throw await workerError(response, 'Device registration failed');
+  }
+  return saveCredentials(await response.json());
+}
+
+async function refresh(credentials: Credentials): Promise<Credentials | null> {
+  const response = await fetch(`${WORKER_URL}/refresh`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ refreshToken: credentials.refreshToken }),
+  });
+
+  if (response.status === 403) {
+    throw new DeviceRevokedError();
+  }
+  // The worker no longer knows the refresh token (the device record
+  // expired, or the worker was reset): start over.
+  if (response.status === 401 || response.status === 404) {
+    await SecureStore.deleteItemAsync(CREDENTIALS_KEY);
+    return register();
+  }
+  if (!response.ok) {
+    throw await workerError(response, 'Token refresh failed');
+  }
+  return saveCredentials(await response.json());
+}
+
+// Current credentials, registering or refreshing as needed. Concurrent
+// callers share one request. Null when the worker uses the shared key.
+function getCredentials(forceRefresh = false): Promise<Credentials | null> {
+  if (legacyAuth) return Promise.resolve(null);
+
+  const previous = credentialsPromise ?? loadCredentials();
+  const promise = previous.then((credentials) => {
+    if (legacyAuth) return null;
+    if (!credentials) return register();
+    if (forceRefresh || credentials.expiresAt - REFRESH_MARGIN_MS < Date.now()) {
+      return refresh(credentials);
+    }
+    return credentials;
+  });
+  credentialsPromise = promise;
+  // Don't cache a failure — try again on the next request.
+  promise.catch(() => {
+    if (credentialsPromise === promise) credentialsPromise = null;
+  });
+  return promise;
+}
+
+async function getAuthHeaders(
+  forceRefresh = false,
+): Promise<Record<string, string>> {
+  const credentials = await getCredentials(forceRefresh);
+  if (credentials) {
+    return { Authorization: `Bearer ${credentials.accessToken}` };
+  }
+
+  const headers: Record<string, string> = {
+    'X-Client-Id': await getClientId(),
+  };
   if (APP_API_KEY) {
     headers['X-API-Key'] = APP_API_KEY;
   }
   return headers;
 }
 
+// Sends a request with auth headers. One turned down with 401 is retried
+// once with a freshly refreshed token — the device clock may be off, or
+// the token expired mid-flight.
+async function withAuthRetry<T extends { status: number }>(
+  send: (authHeaders: Record<string, string>) => Promise<T>,
+): Promise<T> {
+  const response = await send(await getAuthHeaders(false));
+  if (response.status === 401 && !legacyAuth) {
+    return send(await getAuthHeaders(true));
+  }
+  if (response.status === 403) {
+    throw new DeviceRevokedError();
+  }
+  return response;
+}
+
+// fetch() against the worker with auth headers.
+async function workerFetch(
+  path: string,
+  init: RequestInit = {},
+): Promise<Response> {
+  return withAuthRetry((authHeaders) =>
+    fetch(`${WORKER_URL}${path}`, {
+      ...init,
+      headers: {
+        ...(init.headers as Record<string, string> | undefined),
+        ...authHeaders,
+      },
+    }),
+  );
+}
+
 // Issue 9 fix: Process in chunks to avoid O(n^2) string concatenation.
 // Each chunk builds a substring from a slice of the Uint8Array, then all
 // chunks are joined once before base64 encoding.
@@ -30,50 +307,339 @@ function uint8ArrayToBase64(bytes: Uint8Array): string {
   return btoa(chunks.join(''));
 }
 
+// Generation parameters sent to the worker's /generate `options` object.
+// The worker owns the allow-lists and defaults; these mirror them so the
+// advanced settings panel can offer valid choices.
+export type VideoDuration = 5 | 10;
+export type VideoMode = 'std' | 'pro';
+
+export type GenerationSettings = {
+  duration: VideoDuration;
+  mode: VideoMode;
+  cfgScale: number;
+  negativePrompt: string;
+  model: string;
+};
+
+export const VIDEO_MODELS = [
+  'kling-v2-6',
+  'kling-v2-5-turbo',
+  'kling-v2-1',
+  'kling-v2-1-master',
+  'kling-v1-6',
+] as const;
+
+export const DEFAULT_GENERATION_SETTINGS: GenerationSettings = {
+  duration: 5,
+  mode: 'std',
+  cfgScale: 0.5,
+  negativePrompt: '',
+  model: VIDEO_MODELS[0],
+};
+
+// With an idempotency key, a dropped connection, 5xx, or short rate-limit
+// wait is retried up to this many times. The worker maps the key to the
+// task the first attempt started, so a retry never pays for a second job.
+const GENERATE_RETRIES = 3;
+const GENERATE_RETRY_BASE_MS = 1000;
+// Longer waits (a used-up quota) are reported instead of slept through.
+const MAX_RETRY_AFTER_SECONDS = 30;
+
+// Streams the image file to the worker's /upload as the raw request body,
+// so it never has to be read into JS memory or base64-encoded. Returns the
+// image id for /generate, or null if the worker predates /upload.
+async function uploadImage(
+  imageUri: string,
+  signal?: AbortSignal,
+): Promise<string | null> {
+  const result = await withAuthRetry(async (authHeaders) => {
+    const task = createUploadTask(`${WORKER_URL}/upload`, imageUri, {
+      httpMethod: 'POST',
+      uploadType: FileSystemUploadType.BINARY_CONTENT,
+      headers: { 'Content-Type': 'application/octet-stream', ...authHeaders },
+    });
+    const onAbort = () => {
+      task.cancelAsync().catch(() => {});
+    };
+    signal?.addEventListener('abort', onAbort);
+    try {
+      const uploaded = await task.uploadAsync();
+      if (!uploaded || signal?.aborted) {
+        throw new Error('Generation cancelled');
+      }
+      return uploaded;
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+    }
+  });
+
+  if (result.status === 404) return null;
+  if (result.status < 200 || result.status >= 300) {
+    throw await workerError(
+      new Response(result.body, {
+        status: result.status,
+        headers: result.headers,
+      }),
+      'Upload failed',
+    );
+  }
+  // An older worker answers unknown paths with its status page.
+  const { imageId } = JSON.parse(result.body) as { imageId?: string };
+  return imageId ?? null;
+}
+
 export async function generateVideo(
   imageUri: string,
   prompt: string,
+  settings: GenerationSettings = DEFAULT_GENERATION_SETTINGS,
   signal?: AbortSignal,
+  // Same for every attempt at one clip — see Clip.id
+  idempotencyKey?: string,
 ): Promise<{ taskId: string }> {
-  // Read image as base64
-  const file = new File(imageUri);
-  const bytes = await file.bytes();
-  const base64 = uint8ArrayToBase64(bytes);
+  // Upload the image once; every attempt below refers to it by id. Workers
+  // without /upload get it inline as base64 instead.
+  const imageId = await uploadImage(imageUri, signal);
+  const image = imageId
+    ? { imageId }
+    : { image: uint8ArrayToBase64(await new File(imageUri).bytes()) };
 
-  const response = await fetch(`${WORKER_URL}/generate`, {
-    method: 'POST',
-    headers: getAuthHeaders(),
-    body: JSON.stringify({ image: base64, prompt }),
-    signal,
+  const body = JSON.stringify({
+    ...image,
+    prompt,
+    options: {
+      duration: settings.duration,
+      mode: settings.mode,
+      cfg_scale: settings.cfgScale,
+      negative_prompt: settings.negativePrompt || undefined,
+      model: settings.model,
+    },
   });
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+  };
+  if (idempotencyKey) {
+    headers['Idempotency-Key'] = idempotencyKey;
+  }
+
+  for (let attempt = 0; ; attempt++) {
+    const canRetry = !!idempotencyKey && attempt < GENERATE_RETRIES;
+    // Exponential backoff with jitter
+    const backoff = GENERATE_RETRY_BASE_MS * 2 ** attempt * (0.5 + Math.random());
+
+    let response: Response;
+    try {
+      response = await workerFetch('/generate', {
+        method: 'POST',
+        headers,
+        body,
+        signal,
+      });
+    } catch (error) {
+      // The request may or may not have reached the worker.
+      const networkError = error instanceof TypeError;
+      if (signal?.aborted || !networkError || !canRetry) throw error;
+      await sleep(backoff, signal);
+      if (signal?.aborted) throw new Error('Generation cancelled');
+      continue;
+    }
+
+    if (response.ok) {
+      return response.json();
+    }
+
+    const error = await workerError(response, 'Generation failed');
+    let delay = backoff;
+    if (error instanceof RateLimitError) {
+      delay = error.retryAfter * 1000;
+      if (error.retryAfter > MAX_RETRY_AFTER_SECONDS) throw error;
+    } else if (error instanceof ProviderUnavailableError) {
+      // The worker already retried; asking again now only adds to the load.
+      throw error;
+    } else {
+      // 409: an earlier attempt with this key is still being submitted.
+      const transient = response.status >= 500 || response.status === 409;
+      if (!transient) throw error;
+      const retryAfter = Number(response.headers.get('Retry-After'));
+      if (retryAfter > 0) delay = retryAfter * 1000;
+    }
+
+    if (!canRetry) throw error;
+    await sleep(delay, signal);
+    if (signal?.aborted) throw new Error('Generation cancelled');
+  }
+}
+
+// The worker turned the request away: too many requests this minute, the
+// generation quota is used up, or the provider is busy. `retryAfter` is in
+// seconds.
+export class RateLimitError extends WorkerError {
+  constructor(
+    code: ErrorCode,
+    message: string,
+    readonly retryAfter: number,
+  ) {
+    super(code, message, 429);
+    this.name = 'RateLimitError';
+  }
+}
+
+// The provider has been failing and the worker has stopped calling it for
+// `retryAfter` seconds. A running task carries on regardless.
+export class ProviderUnavailableError extends WorkerError {
+  constructor(
+    message: string,
+    readonly retryAfter: number,
+  ) {
+    super('PROVIDER_UNAVAILABLE', message, 503);
+    this.name = 'ProviderUnavailableError';
+  }
+}
+
+function formatWait(seconds: number): string {
+  if (seconds < 90) return `${seconds} seconds`;
+  if (seconds < 90 * 60) return `${Math.round(seconds / 60)} minutes`;
+  if (seconds < 36 * 60 * 60) return `${Math.round(seconds / 3600)} hours`;
+  return `${Math.round(seconds / 86400)} days`;
+}
+
+async function rateLimitError(response: Response): Promise<RateLimitError> {
+  const body = (await response.json().catch(() => ({}))) as ErrorBody;
+  const retryAfter = Math.max(1, Number(response.headers.get('Retry-After')) || 60);
+  return new RateLimitError(
+    isErrorCode(body.code) ? body.code : 'RATE_LIMITED',
+    `${body.error ?? 'Too many requests'}. Try again in ${formatWait(retryAfter)}.`,
+    retryAfter,
+  );
+}
+
+// Generations left for this client. A null limit means there is none.
+export type QuotaPeriod = {
+  limit: number | null;
+  used: number;
+  remaining: number | null;
+  resetsAt: number;
+};
+
+export type Quota = {
+  daily: QuotaPeriod;
+  monthly: QuotaPeriod;
+};
+
+export async function getQuota(signal?: AbortSignal): Promise<Quota> {
+  const response = await workerFetch('/quota', { signal });
 
   if (!response.ok) {
-    const text = await response.text();
-    throw new Error(`Generation failed: ${text}`);
+    throw await workerError(response, 'Quota check failed');
   }
 
   return response.json();
 }
 
+type StatusResult = {
+  status: string;
+  videoUrl?: string;
+  // Why a failed task failed
+  code?: ErrorCode;
+};
+
+// The worker no longer knows the task — its record expired, or it was
+// started against a different worker or client id.
+export class TaskExpiredError extends WorkerError {
+  constructor(taskId: string) {
+    super('TASK_NOT_FOUND', `Task ${taskId} has expired`, 404);
+    this.name = 'TaskExpiredError';
+  }
+}
+
+// The provider reported the generation as failed.
+export class GenerationFailedError extends WorkerError {
+  constructor(code: ErrorCode = 'GENERATION_FAILED') {
+    super(code, 'Video generation failed');
+    this.name = 'GenerationFailedError';
+  }
+}
+
 export async function checkStatus(
   taskId: string,
   signal?: AbortSignal,
-): Promise<{ status: string; videoUrl?: string }> {
-  const headers: Record<string, string> = {};
-  if (APP_API_KEY) {
-    headers['X-API-Key'] = APP_API_KEY;
+): Promise<StatusResult> {
+  const response = await workerFetch(`/status/${taskId}`, { signal });
+
+  if (response.status === 404) {
+    throw new TaskExpiredError(taskId);
+  }
+  if (!response.ok) {
+    throw await workerError(response, 'Status check failed');
   }
 
-  const response = await fetch(`${WORKER_URL}/status/${taskId}`, {
-    headers,
-    signal,
-  });
+  return response.json();
+}
+
+// Long-poll variant: the worker holds the request for up to `waitSeconds`
+// until the task finishes (it learns about completion from the provider's
+// callback). `longPoll` is false when the worker answered straight away
+// without honouring ?wait — an older worker — so the caller should fall
+// back to sleeping between calls.
+export async function waitForStatus(
+  taskId: string,
+  waitSeconds: number,
+  signal?: AbortSignal,
+): Promise<StatusResult & { longPoll: boolean }> {
+  const response = await workerFetch(
+    `/status/${taskId}?wait=${waitSeconds}`,
+    { signal },
+  );
 
+  if (response.status === 404) {
+    throw new TaskExpiredError(taskId);
+  }
   if (!response.ok) {
-    throw new Error('Status check failed');
+    throw await workerError(response, 'Status check failed');
   }
 
-  return response.json();
+  const result: StatusResult = await response.json();
+  return { ...result, longPoll: response.headers.has('X-Long-Poll') };
+}
+
+// Tells the worker the user cancelled a generation. It stops the task at
+// the provider if it can; otherwise it keeps the video should it still
+// arrive, for listCancelledTasks. A task the worker no longer knows
+// needs nothing more.
+export async function cancelTask(taskId: string): Promise<void> {
+  const response = await workerFetch(`/cancel/${taskId}`, { method: 'POST' });
+  if (!response.ok && response.status !== 404) {
+    throw await workerError(response, 'Cancel failed');
+  }
+}
+
+export type CancelledTask = {
+  taskId: string;
+  // 'completed' once the video arrived anyway
+  status: string;
+  videoUrl?: string;
+};
+
+// Tasks cancelled with cancelTask that the provider went on to run.
+export async function listCancelledTasks(
+  signal?: AbortSignal,
+): Promise<CancelledTask[]> {
+  const response = await workerFetch('/cancelled', { signal });
+  if (!response.ok) {
+    throw await workerError(response, 'Could not load cancelled clips');
+  }
+  // An older worker answers unknown paths with its status page.
+  const body: { tasks?: CancelledTask[] } = await response.json();
+  return body.tasks ?? [];
+}
+
+// Drops a task from listCancelledTasks once it is recovered or discarded.
+export async function dismissCancelledTask(taskId: string): Promise<void> {
+  const response = await workerFetch(`/cancelled/${taskId}`, {
+    method: 'DELETE',
+  });
+  if (!response.ok && response.status !== 404) {
+    throw await workerError(response, 'Could not dismiss cancelled clip');
+  }
 }
 
 export async function downloadVideo(
@@ -81,23 +647,124 @@ export async function downloadVideo(
   clipId: string,
 ): Promise<string> {
   const dest = new File(Paths.cache, `clip_${clipId}.mp4`);
-  const downloaded = await File.downloadFileAsync(videoUrl, dest);
+  // Videos archived by the worker (/videos/:id) are scoped to this client.
+  const headers = videoUrl.startsWith(WORKER_URL)
+    ? await getAuthHeaders()
+    : undefined;
+  // idempotent: overwrite a partial file left by an earlier attempt.
+  const downloaded = await File.downloadFileAsync(videoUrl, dest, {
+    headers,
+    idempotent: true,
+  });
   return downloaded.uri;
 }
 
+// Id of a video archived by the worker, from its /videos/:id URL. Clips
+// whose URL still points at the provider's CDN have none and can't be
+// rendered server-side.
+export function archivedVideoId(videoUrl: string | null): string | null {
+  if (!videoUrl?.startsWith(`${WORKER_URL}/videos/`)) return null;
+  return videoUrl.slice(`${WORKER_URL}/videos/`.length) || null;
+}
+
+// Join archived clips into one MP4 on the worker. With `trimJoins`, the
+// frame each clip shares with the previous one (its start image was that
+// clip's last frame) is dropped. `cutAtMs` ends each clip early at the
+// frame the next one starts from, if that isn't its last (see cutPoints).
+// Returns the joined video's URL.
+export async function renderSequence(
+  videoIds: string[],
+  trimJoins: boolean,
+  cutAtMs: (number | null)[],
+  signal?: AbortSignal,
+): Promise<string> {
+  const response = await workerFetch('/render', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ videoIds, trimJoins, cutAtMs }),
+    signal,
+  });
+
+  if (!response.ok) {
+    throw await workerError(response, 'Export failed');
+  }
+
+  const result: { videoUrl: string } = await response.json();
+  return result.videoUrl;
+}
+
+// Ask the worker to turn a short prompt into a fuller one, given the prompts
+// of the clips before it and the clip's style. The result is a suggestion:
+// the prompt screen shows it for the user to accept or edit.
+export async function enhancePrompt(
+  prompt: string,
+  previousPrompts: string[],
+  style: { name: string; prompt: string } | null,
+  signal?: AbortSignal,
+): Promise<string> {
+  const response = await workerFetch('/enhance-prompt', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      prompt,
+      previousPrompts,
+      style: style ? { name: style.name, prompt: style.prompt } : undefined,
+    }),
+    signal,
+  });
+
+  if (!response.ok) {
+    throw await workerError(response, 'Prompt enhancement failed');
+  }
+
+  const result: { prompt: string } = await response.json();
+  return result.prompt;
+}
+
 // Issue 3 fix: Added 5-minute timeout and AbortSignal support.
 // The polling loop now exits on timeout, cancellation, or failure instead
 // of spinning indefinitely.
 const MAX_POLL_TIMEOUT = 5 * 60 * 1000; // 5 minutes
+const LONG_POLL_WAIT_SECONDS = 25;
+
+// How long to wait for a clip before calling it timed out. MAX_POLL_TIMEOUT
+// covers a 5-second standard clip; Kling takes about twice as long for a
+// 10-second one, and twice as long again in pro mode.
+export function pollTimeoutFor(
+  settings: Pick<GenerationSettings, 'duration' | 'mode'>,
+): number {
+  return (
+    MAX_POLL_TIMEOUT * (settings.duration / 5) * (settings.mode === 'pro' ? 2 : 1)
+  );
+}
+
+// Cancellable sleep: resolves on timeout OR abort signal
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    if (signal) {
+      const onAbort = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+    }
+  });
+}
 
 export async function pollUntilDone(
   taskId: string,
   onStatusUpdate?: (status: string) => void,
   signal?: AbortSignal,
+  // See pollTimeoutFor
+  timeoutMs = MAX_POLL_TIMEOUT,
 ): Promise<string> {
   let delay = 3000; // Start at 3s
   const maxDelay = 10000; // Cap at 10s
   const startTime = Date.now();
+  // Long-poll until the worker shows it doesn't support it, then fall back
+  // to polling with exponential backoff.
+  let longPoll = true;
 
   while (true) {
     // Check cancellation before sleeping
@@ -106,28 +773,48 @@ export async function pollUntilDone(
     }
 
     // Check timeout
-    if (Date.now() - startTime > MAX_POLL_TIMEOUT) {
+    if (Date.now() - startTime > timeoutMs) {
       throw new Error('Generation timed out — please try again');
     }
 
-    // Cancellable sleep: resolves on timeout OR abort signal
-    await new Promise<void>((resolve) => {
-      const timer = setTimeout(resolve, delay);
-      if (signal) {
-        const onAbort = () => {
-          clearTimeout(timer);
-          resolve();
-        };
-        signal.addEventListener('abort', onAbort, { once: true });
-      }
-    });
+    let result: StatusResult;
 
-    // Check cancellation after sleeping
-    if (signal?.aborted) {
-      throw new Error('Generation cancelled');
+    try {
+      if (longPoll) {
+        const waited = await waitForStatus(
+          taskId,
+          LONG_POLL_WAIT_SECONDS,
+          signal,
+        );
+        longPoll = waited.longPoll;
+        result = waited;
+      } else {
+        await sleep(delay, signal);
+
+        // Check cancellation after sleeping
+        if (signal?.aborted) {
+          throw new Error('Generation cancelled');
+        }
+
+        result = await checkStatus(taskId, signal);
+
+        // Exponential backoff
+        delay = Math.min(delay * 1.3, maxDelay);
+      }
+    } catch (error) {
+      // Over the status rate limit, or the provider is unavailable: the
+      // task is still running, so wait as long as the worker asks and
+      // check again.
+      if (
+        !(error instanceof RateLimitError) &&
+        !(error instanceof ProviderUnavailableError)
+      ) {
+        throw error;
+      }
+      await sleep(error.retryAfter * 1000, signal);
+      continue;
     }
 
-    const result = await checkStatus(taskId, signal);
     onStatusUpdate?.(result.status);
 
     if (result.status === 'completed' && result.videoUrl) {
@@ -135,10 +822,12 @@ export async function pollUntilDone(
     }
 
     if (result.status === 'failed') {
-      throw new Error('Video generation failed');
+      throw new GenerationFailedError(result.code);
     }
 
-    // Exponential backoff
-    delay = Math.min(delay * 1.3, maxDelay);
+    // Stopped at the provider through cancelTask
+    if (result.status === 'cancelled') {
+      throw new Error('Generation cancelled');
+    }
   }
 }
@@ -0,0 +1,184 @@
+import type { ClipStyle } from './presets';
+
+// ---------------------------------------------------------------------------
+// Continuity strategies
+// ---------------------------------------------------------------------------
+// How a clip's prompt is wrapped in the story so far before it is sent.
+// Each project picks one:
+//   - last-n: the previous N prompts, quoted
+//   - summary: one condensed line for everything before the previous clip,
+//     plus the previous prompt in full
+//   - story-bible: a pinned description of the characters, setting and look,
+//     added to every prompt (the first one too), plus the previous prompt
+// Whatever the strategy, the user's prompt and the style line are kept
+// whole, and the context is cut down to fit PROMPT_BUDGET — oldest parts
+// first.
+// ---------------------------------------------------------------------------
+
+export type ContinuityStrategyId = 'last-n' | 'summary' | 'story-bible';
+
+export type ContinuitySettings = {
+  strategy: ContinuityStrategyId;
+  // Previous prompts quoted by last-n
+  lastN: number;
+  // Pinned by story-bible
+  storyBible: string;
+};
+
+export const DEFAULT_CONTINUITY: ContinuitySettings = {
+  strategy: 'last-n',
+  lastN: 2,
+  storyBible: '',
+};
+
+export const MAX_LAST_N = 5;
+export const MAX_STORY_BIBLE_LENGTH = 800;
+// The worker's /generate limit, which is Kling's
+export const PROMPT_BUDGET = 2500;
+
+export type ContinuityInput = {
+  prompt: string;
+  // Prompts of the clips this one follows, oldest first
+  previousPrompts: string[];
+  settings: ContinuitySettings;
+};
+
+export type ContinuityStrategy = {
+  id: ContinuityStrategyId;
+  name: string;
+  description: string;
+  // Lines to put before the current scene, at most `budget` characters
+  // joined with newlines.
+  context: (input: ContinuityInput, budget: number) => string[];
+};
+
+const CONTINUITY_LINE = 'Maintain smooth visual and motion continuity.';
+const SCENES_AGO = ['Two', 'Three', 'Four', 'Five', 'Six'];
+
+// Cuts `text` to `max` characters, marking the cut.
+function clip(text: string, max: number): string {
+  if (text.length <= max) return text;
+  return max <= 1 ? '' : text.slice(0, max - 1).trimEnd() + '…';
+}
+
+const joinedLength = (lines: string[]) =>
+  lines.reduce((sum, l) => sum + l.length, 0) + Math.max(0, lines.length - 1);
+
+// The previous prompt, shortened to fit `budget` if need be
+function previousScene(prompt: string, budget: number): string | null {
+  const label = 'Previous scene: ""';
+  if (budget < label.length + 20) return null;
+  return `Previous scene: "${clip(prompt, budget - label.length)}"`;
+}
+
+// First sentence of a prompt, for the summary
+function gist(prompt: string): string {
+  const first = prompt.trim().match(/^.*?[.!?](?=\s|$)/)?.[0] ?? prompt.trim();
+  const sentence = clip(first, 150);
+  return /[.!?…]$/.test(sentence) ? sentence : `${sentence}.`;
+}
+
+const lastN: ContinuityStrategy = {
+  id: 'last-n',
+  name: 'Last clips',
+  description: 'Quotes the prompts of the previous clips.',
+  context: ({ previousPrompts, settings }, budget) => {
+    const recent = previousPrompts.slice(-Math.max(1, settings.lastN));
+    const lines = recent.map((p, i) => {
+      const ago = recent.length - i;
+      return ago === 1
+        ? `Previous scene: "${p}"`
+        : `${SCENES_AGO[ago - 2] ?? ago} scenes ago: "${p}"`;
+    });
+    // Drop the oldest until they fit, then shorten the previous scene.
+    while (lines.length > 1 && joinedLength(lines) > budget) lines.shift();
+    if (lines.length === 1 && lines[0].length > budget) {
+      const last = previousScene(recent[recent.length - 1], budget);
+      return last ? [last] : [];
+    }
+    return lines;
+  },
+};
+
+const summary: ContinuityStrategy = {
+  id: 'summary',
+  name: 'Story so far',
+  description:
+    'Sums up every earlier clip in one line, and quotes the previous one.',
+  context: ({ previousPrompts }, budget) => {
+    const previous = previousPrompts[previousPrompts.length - 1];
+    const last = previous ? previousScene(previous, budget) : null;
+    if (!last) return [];
+
+    const parts = previousPrompts.slice(0, -1).map(gist);
+    const room = budget - last.length - 1;
+    const label = 'Story so far: ';
+    let dropped = false;
+    while (parts.length > 0 && label.length + parts.join(' ').length + 2 > room) {
+      parts.shift();
+      dropped = true;
+    }
+    if (parts.length === 0) return [last];
+    return [`${label}${dropped ? '… ' : ''}${parts.join(' ')}`, last];
+  },
+};
+
+const storyBible: ContinuityStrategy = {
+  id: 'story-bible',
+  name: 'Story bible',
+  description:
+    'Adds your description of the characters, setting and look to every clip.',
+  context: ({ previousPrompts, settings }, budget) => {
+    const bible = settings.storyBible.trim();
+    const lines: string[] = [];
+    if (bible) {
+      lines.push(clip(`Story bible: ${bible}`, budget));
+    }
+    const previous = previousPrompts[previousPrompts.length - 1];
+    if (previous) {
+      const last = previousScene(previous, budget - joinedLength(lines) - 1);
+      if (last) lines.push(last);
+    }
+    return lines;
+  },
+};
+
+export const CONTINUITY_STRATEGIES: ContinuityStrategy[] = [
+  lastN,
+  summary,
+  storyBible,
+];
+
+export function getStrategy(id: ContinuityStrategyId): ContinuityStrategy {
+  return CONTINUITY_STRATEGIES.find((s) => s.id === id) ?? lastN;
+}
+
+// The prompt sent for a clip: its own prompt in the project's continuity
+// context, with the style line repeated on every clip so the whole chain
+// keeps one look.
+export function buildContextPrompt(
+  input: ContinuityInput,
+  style: ClipStyle | null,
+): string {
+  const { prompt, previousPrompts } = input;
+  const continues = previousPrompts.length > 0;
+  const styleLine = style ? `Visual style: ${style.prompt}` : null;
+
+  const fixed = [
+    continues
+      ? `Current scene (continuing from the last frame): "${prompt}"`
+      : prompt,
+  ];
+  if (continues) fixed.push(CONTINUITY_LINE);
+  if (styleLine) fixed.push(styleLine);
+
+  const budget = PROMPT_BUDGET - joinedLength(fixed) - 1;
+  const context =
+    budget > 0 ? getStrategy(input.settings.strategy).context(input, budget) : [];
+
+  // No room left for any context: the prompt as written, which is shorter.
+  if (context.length === 0 && continues) {
+    return [prompt, ...(styleLine ? [styleLine] : [])].join('\n');
+  }
+  return [...context, ...fixed].join('\n');
+}
@@ -0,0 +1,144 @@
+import { RateLimitError, WorkerError, type ErrorCode } from './api';
+
+// ---------------------------------------------------------------------------
+// User-facing errors
+// ---------------------------------------------------------------------------
+// Maps a failed request onto what the user is told and the one thing most
+// likely to fix it, which the error modal offers as its main button.
+// ---------------------------------------------------------------------------
+
+export type RecoveryAction =
+  // Run the same request again
+  | 'retry'
+  // Go back to the prompt with the description filled in
+  | 'edit-prompt'
+  // Start over from the camera
+  | 'new-photo'
+  // Nothing to do until a limit resets
+  | 'wait'
+  | 'none';
+
+export type ErrorDescription = {
+  code: ErrorCode | 'NETWORK_ERROR' | 'UNKNOWN';
+  title: string;
+  message: string;
+  recovery: RecoveryAction;
+};
+
+type Description = Omit<ErrorDescription, 'code'>;
+
+const GENERIC: Description = {
+  title: 'Something Went Wrong',
+  message: 'The video service ran into a problem. Please try again.',
+  recovery: 'retry',
+};
+
+const DESCRIPTIONS: Partial<Record<ErrorCode, Description>> = {
+  PROMPT_TOO_LONG: {
+    title: 'Description Too Long',
+    message:
+      'With the earlier clips added for continuity, this description is over the length limit. Shorten it and try again.',
+    recovery: 'edit-prompt',
+  },
+  INVALID_IMAGE: {
+    title: "Photo Can't Be Used",
+    message:
+      "The photo is too small, too narrow, or in a format the video service doesn't accept. Try a different photo.",
+    recovery: 'new-photo',
+  },
+  IMAGE_TOO_LARGE: {
+    title: 'Photo Too Large',
+    message: 'The photo is larger than the video service accepts. Try a different photo.',
+    recovery: 'new-photo',
+  },
+  IMAGE_NOT_FOUND: {
+    title: 'Upload Expired',
+    message: 'The uploaded photo expired before the video was started. Try again to re-upload it.',
+    recovery: 'retry',
+  },
+  TASK_NOT_FOUND: {
+    title: 'Generation Lost',
+    message: 'The server no longer knows about this generation. Start it again.',
+    recovery: 'retry',
+  },
+  PROVIDER_REJECTED_CONTENT: {
+    title: 'Content Not Allowed',
+    message:
+      'The video service turned down this photo or description. Try rewording the description, or use a different photo.',
+    recovery: 'edit-prompt',
+  },
+  PROVIDER_RATE_LIMITED: {
+    title: 'Video Service Busy',
+    message: 'Too many videos are being made right now. Try again in a minute.',
+    recovery: 'retry',
+  },
+  PROVIDER_ERROR: {
+    title: 'Video Service Error',
+    message: 'The video service ran into a problem. Please try again.',
+    recovery: 'retry',
+  },
+  PROVIDER_UNAVAILABLE: {
+    title: 'Video Service Down',
+    message:
+      'The video service is having problems, so new videos are paused for a moment. Try again in a few minutes.',
+    recovery: 'retry',
+  },
+  GENERATION_FAILED: {
+    title: 'Generation Failed',
+    message: "The video service couldn't make this clip. Try again, or reword the description.",
+    recovery: 'retry',
+  },
+  CLIPS_INCOMPATIBLE: {
+    title: "Clips Can't Be Joined",
+    message:
+      'Some clips were made with a different model or quality, so they are encoded differently. Save the clips separately instead.',
+    recovery: 'none',
+  },
+  RENDER_FAILED: {
+    title: 'Export Failed',
+    message: "The clips couldn't be joined into one video. Save them separately instead.",
+    recovery: 'none',
+  },
+  DEVICE_REVOKED: {
+    title: 'Device Blocked',
+    message: 'This device has been blocked from using the video service.',
+    recovery: 'none',
+  },
+  UNAUTHORIZED: {
+    title: 'Not Authorized',
+    message: "The app couldn't sign in to the video service. Check its API key configuration.",
+    recovery: 'none',
+  },
+};
+
+export function describeError(error: unknown): ErrorDescription {
+  if (error instanceof RateLimitError && error.code !== 'PROVIDER_RATE_LIMITED') {
+    // The message already says when to try again.
+    return {
+      code: error.code,
+      title: error.code === 'QUOTA_EXCEEDED' ? 'Out of Generations' : 'Slow Down',
+      message: error.message,
+      recovery: 'wait',
+    };
+  }
+  if (error instanceof WorkerError) {
+    const description = DESCRIPTIONS[error.code];
+    return description
+      ? { code: error.code, ...description }
+      : { code: error.code, ...GENERIC, message: error.message };
+  }
+  // fetch() rejects with a TypeError when the request never got through.
+  if (error instanceof TypeError) {
+    return {
+      code: 'NETWORK_ERROR',
+      title: 'No Connection',
+      message: "Couldn't reach the video service. Check your connection and try again.",
+      recovery: 'retry',
+    };
+  }
+  return {
+    code: 'UNKNOWN',
+    ...GENERIC,
+    message: error instanceof Error ? error.message : GENERIC.message,
+  };
+}
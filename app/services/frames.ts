@@ -0,0 +1,67 @@
+import { File } from 'expo-file-system';
+import * as VideoThumbnails from 'expo-video-thumbnails';
+import { readVideoTiming, type VideoTiming } from './videoTiming';
+
+// ---------------------------------------------------------------------------
+// Frames from downloaded clips
+// ---------------------------------------------------------------------------
+// A clip's continuation frame — the image the next clip starts from — is
+// its true last frame unless the user picks another (see FramePicker).
+// Extraction can fail on a file the decoder doesn't like; a clip without a
+// frame is still a finished clip, and restoreMissingFiles tries again.
+// ---------------------------------------------------------------------------
+
+// Timing of a downloaded MP4, or null if it can't be read
+export function getVideoTiming(videoUri: string): VideoTiming | null {
+  let handle: ReturnType<File['open']> | null = null;
+  try {
+    const file = new File(videoUri);
+    handle = file.open();
+    const opened = handle;
+    const size = opened.size ?? file.size;
+    return readVideoTiming((offset, length) => {
+      opened.offset = offset;
+      return opened.readBytes(Math.max(0, Math.min(length, size - offset)));
+    }, size);
+  } catch (err) {
+    console.warn(`Could not read the timing of ${videoUri}`, err);
+    return null;
+  } finally {
+    handle?.close();
+  }
+}
+
+// Saves the frame showing at `timeMs` as an image and returns its URI.
+export async function extractFrame(
+  videoUri: string,
+  timeMs: number,
+  quality = 1,
+): Promise<string> {
+  const { uri } = await VideoThumbnails.getThumbnailAsync(videoUri, {
+    time: Math.max(0, Math.round(timeMs)),
+    quality,
+  });
+  return uri;
+}
+
+// Steps back from the end when the very last frame won't decode
+const LAST_FRAME_FALLBACK_OFFSETS_MS = [0, 100, 500];
+
+// The clip's final frame, or null if no frame near the end could be taken.
+// `nominalMs`, the length that was asked for, stands in when the file's
+// timing can't be read.
+export async function extractLastFrame(
+  videoUri: string,
+  nominalMs: number,
+): Promise<string | null> {
+  const timing = getVideoTiming(videoUri);
+  const lastFrameMs = timing ? timing.lastFrameMs : nominalMs - 100;
+  for (const back of LAST_FRAME_FALLBACK_OFFSETS_MS) {
+    try {
+      return await extractFrame(videoUri, lastFrameMs - back);
+    } catch (err) {
+      console.warn(`No frame at ${lastFrameMs - back}ms of ${videoUri}`, err);
+    }
+  }
+  return null;
+}
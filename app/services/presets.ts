@@ -0,0 +1,271 @@
+import {
+  VIDEO_MODELS,
+  type GenerationSettings,
+  type VideoDuration,
+  type VideoMode,
+} from './api';
+
+// ---------------------------------------------------------------------------
+// Style presets and prompt templates
+// ---------------------------------------------------------------------------
+// A style preset is a named look: prompt fragments added to every clip that
+// uses it, a negative prompt, and the generation settings it works best
+// with. A prompt template is a motion or camera move with {placeholders}
+// for the user to fill in. Built-in ones ship with the app; the user's own
+// are kept by usePresetStore, and can be imported as JSON:
+//   {
+//     "presets": [{ "name": "…", "prompt": "…", "negativePrompt": "…",
+//                   "settings": { "mode": "pro", "cfgScale": 0.6 } }],
+//     "templates": [{ "name": "…", "template": "… {subject} …" }]
+//   }
+// A bare array is read as a list of presets.
+// ---------------------------------------------------------------------------
+
+export type PresetSettings = Partial<
+  Pick<GenerationSettings, 'duration' | 'mode' | 'cfgScale' | 'model'>
+>;
+
+export type StylePreset = {
+  id: string;
+  name: string;
+  // Added to the prompt of every clip in this style
+  prompt: string;
+  negativePrompt: string;
+  // Generation settings picking the preset switches to
+  settings: PresetSettings;
+  builtIn: boolean;
+};
+
+export type PromptTemplate = {
+  id: string;
+  name: string;
+  template: string;
+  builtIn: boolean;
+};
+
+// What a clip keeps of its preset, so its style survives the preset being
+// edited or deleted.
+export type ClipStyle = Pick<StylePreset, 'id' | 'name' | 'prompt'>;
+
+export const MAX_PRESET_NAME_LENGTH = 40;
+export const MAX_PRESET_PROMPT_LENGTH = 300;
+
+export const BUILT_IN_PRESETS: StylePreset[] = [
+  {
+    id: 'builtin:cinematic',
+    name: 'Cinematic',
+    prompt:
+      'cinematic film look, anamorphic lens, shallow depth of field, dramatic lighting, subtle film grain',
+    negativePrompt: 'cartoon, flat lighting, oversaturated, low quality, blurry',
+    settings: { mode: 'pro', cfgScale: 0.6 },
+    builtIn: true,
+  },
+  {
+    id: 'builtin:anime',
+    name: 'Anime',
+    prompt: 'anime style, cel shading, clean line art, vibrant colors, expressive motion',
+    negativePrompt: 'photorealistic, 3d render, blurry, distorted faces',
+    settings: { cfgScale: 0.6 },
+    builtIn: true,
+  },
+  {
+    id: 'builtin:claymation',
+    name: 'Claymation',
+    prompt:
+      'claymation, stop-motion animation, handcrafted clay figures, visible fingerprints, miniature set',
+    negativePrompt: 'photorealistic, smooth CGI, motion blur',
+    settings: {},
+    builtIn: true,
+  },
+  {
+    id: 'builtin:watercolor',
+    name: 'Watercolor',
+    prompt: 'watercolor painting, soft washes, paper texture, gently bleeding colors',
+    negativePrompt: 'photorealistic, hard edges, 3d render',
+    settings: {},
+    builtIn: true,
+  },
+  {
+    id: 'builtin:documentary',
+    name: 'Documentary',
+    prompt: 'handheld documentary footage, natural light, realistic colors, 35mm',
+    negativePrompt: 'cartoon, stylized, oversaturated, artificial lighting',
+    settings: { cfgScale: 0.4 },
+    builtIn: true,
+  },
+  {
+    id: 'builtin:noir',
+    name: 'Noir',
+    prompt: 'black and white film noir, high contrast, hard shadows, 1940s atmosphere',
+    negativePrompt: 'color, bright daylight, cartoon',
+    settings: {},
+    builtIn: true,
+  },
+];
+
+export const BUILT_IN_TEMPLATES: PromptTemplate[] = [
+  {
+    id: 'builtin:pan',
+    name: 'Slow pan',
+    template: 'The camera slowly pans across {subject}',
+    builtIn: true,
+  },
+  {
+    id: 'builtin:push-in',
+    name: 'Push in',
+    template: 'The camera pushes in toward {subject}, revealing {detail}',
+    builtIn: true,
+  },
+  {
+    id: 'builtin:orbit',
+    name: 'Orbit',
+    template: 'The camera orbits around {subject} as {action}',
+    builtIn: true,
+  },
+  {
+    id: 'builtin:tracking',
+    name: 'Tracking shot',
+    template: 'Tracking shot following {subject} as they {action}',
+    builtIn: true,
+  },
+  {
+    id: 'builtin:reveal',
+    name: 'Pull-back reveal',
+    template: 'Starting close on {subject}, the camera pulls back to reveal {scene}',
+    builtIn: true,
+  },
+  {
+    id: 'builtin:timelapse',
+    name: 'Timelapse',
+    template: 'Timelapse of {scene}, the light shifting from {start} to {end}',
+    builtIn: true,
+  },
+];
+
+const PLACEHOLDER = /\{([^{}]+)\}/g;
+
+// Placeholders still to be filled in, in order of appearance
+export function placeholders(text: string): string[] {
+  return [...new Set([...text.matchAll(PLACEHOLDER)].map((m) => m[1]))];
+}
+
+// Adds a template to what the user has written so far.
+export function insertTemplate(prompt: string, template: string): string {
+  const current = prompt.trim();
+  if (!current) return template;
+  return `${current}${/[.!?]$/.test(current) ? '' : '.'} ${template}`;
+}
+
+export function toClipStyle(preset: StylePreset): ClipStyle {
+  return { id: preset.id, name: preset.name, prompt: preset.prompt };
+}
+
+// The settings update picking `preset` makes
+export function presetSettings(preset: StylePreset): Partial<GenerationSettings> {
+  return { ...preset.settings, negativePrompt: preset.negativePrompt };
+}
+
+// The settings update that undoes `applied` (from presetSettings): each
+// setting goes back to what it was `before` the preset was picked, unless
+// the user has changed it since.
+export function unapplyPresetSettings(
+  applied: Partial<GenerationSettings>,
+  before: GenerationSettings,
+  current: GenerationSettings,
+): Partial<GenerationSettings> {
+  const keys = Object.keys(applied) as (keyof GenerationSettings)[];
+  return Object.fromEntries(
+    keys
+      .filter((key) => current[key] === applied[key])
+      .map((key) => [key, before[key]]),
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Import
+// ---------------------------------------------------------------------------
+
+export class PresetImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PresetImportError';
+  }
+}
+
+export type PresetLibrary = {
+  presets: Omit<StylePreset, 'id' | 'builtIn'>[];
+  templates: Omit<PromptTemplate, 'id' | 'builtIn'>[];
+};
+
+function text(value: unknown, field: string, max: number, required = true): string {
+  if (value === undefined && !required) return '';
+  if (typeof value !== 'string' || (required && !value.trim())) {
+    throw new PresetImportError(`"${field}" must be text`);
+  }
+  if (value.trim().length > max) {
+    throw new PresetImportError(`"${field}" is longer than ${max} characters`);
+  }
+  return value.trim();
+}
+
+// Settings that aren't valid for the app are dropped rather than rejected,
+// so a library made for another model list still imports.
+function parseSettings(value: unknown): PresetSettings {
+  if (typeof value !== 'object' || value === null) return {};
+  const raw = value as Record<string, unknown>;
+  const settings: PresetSettings = {};
+  if (raw.duration === 5 || raw.duration === 10) {
+    settings.duration = raw.duration as VideoDuration;
+  }
+  if (raw.mode === 'std' || raw.mode === 'pro') {
+    settings.mode = raw.mode as VideoMode;
+  }
+  if (typeof raw.cfgScale === 'number' && raw.cfgScale >= 0 && raw.cfgScale <= 1) {
+    settings.cfgScale = raw.cfgScale;
+  }
+  if ((VIDEO_MODELS as readonly unknown[]).includes(raw.model)) {
+    settings.model = raw.model as string;
+  }
+  return settings;
+}
+
+export function parsePresetLibrary(json: string): PresetLibrary {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new PresetImportError("This isn't valid JSON.");
+  }
+
+  const root = (Array.isArray(data) ? { presets: data } : data) as {
+    presets?: unknown;
+    templates?: unknown;
+  } | null;
+  if (typeof root !== 'object' || root === null) {
+    throw new PresetImportError('Expected an object with "presets" or "templates".');
+  }
+  const list = (value: unknown, field: string): Record<string, unknown>[] => {
+    if (value === undefined) return [];
+    if (!Array.isArray(value) || value.some((v) => typeof v !== 'object' || !v)) {
+      throw new PresetImportError(`"${field}" must be a list of objects`);
+    }
+    return value;
+  };
+
+  const library: PresetLibrary = {
+    presets: list(root.presets, 'presets').map((p) => ({
+      name: text(p.name, 'name', MAX_PRESET_NAME_LENGTH),
+      prompt: text(p.prompt, 'prompt', MAX_PRESET_PROMPT_LENGTH),
+      negativePrompt: text(p.negativePrompt, 'negativePrompt', MAX_PRESET_PROMPT_LENGTH, false),
+      settings: parseSettings(p.settings),
+    })),
+    templates: list(root.templates, 'templates').map((t) => ({
+      name: text(t.name, 'name', MAX_PRESET_NAME_LENGTH),
+      template: text(t.template, 'template', MAX_PRESET_PROMPT_LENGTH),
+    })),
+  };
+  if (library.presets.length === 0 && library.templates.length === 0) {
+    throw new PresetImportError('There are no presets or templates in it.');
+  }
+  return library;
+}
@@ -0,0 +1,92 @@
+import type { GenerationSettings } from './api';
+import type { Clip } from '../store/useClipStore';
+
+// ---------------------------------------------------------------------------
+// Sequence playback — the branch's clips as one video
+// ---------------------------------------------------------------------------
+// Final playback treats the clips as a single timeline: each clip starts
+// where the one before it ends, so a time in the sequence maps to a clip
+// and a time within it.
+// ---------------------------------------------------------------------------
+
+// What happens when a clip ends: stop after the last one, repeat the clip,
+// or go round the whole sequence again.
+export type LoopMode = 'off' | 'clip' | 'sequence';
+
+export const LOOP_MODES: LoopMode[] = ['sequence', 'clip', 'off'];
+
+export const PLAYBACK_RATES = [0.5, 1, 1.5, 2];
+
+export type SequenceTimeline = {
+  // Where each clip starts in the sequence
+  starts: number[];
+  durations: number[];
+  totalMs: number;
+};
+
+export function buildTimeline(durationsMs: number[]): SequenceTimeline {
+  const starts: number[] = [];
+  let totalMs = 0;
+  for (const duration of durationsMs) {
+    starts.push(totalMs);
+    totalMs += duration;
+  }
+  return { starts, durations: durationsMs, totalMs };
+}
+
+// The clip playing at `ms` into the sequence, and how far into it
+export function locate(
+  timeline: SequenceTimeline,
+  ms: number,
+): { index: number; offsetMs: number } {
+  const { starts, durations, totalMs } = timeline;
+  if (starts.length === 0) return { index: 0, offsetMs: 0 };
+  const at = Math.min(totalMs, Math.max(0, ms));
+  let index = 0;
+  while (index + 1 < starts.length && starts[index + 1] <= at) index++;
+  return { index, offsetMs: Math.min(at - starts[index], durations[index]) };
+}
+
+// The clip to play after `index` ends, or null to stop
+export function nextClipIndex(
+  index: number,
+  count: number,
+  loop: LoopMode,
+): number | null {
+  if (count === 0) return null;
+  if (loop === 'clip') return index;
+  if (index + 1 < count) return index + 1;
+  return loop === 'sequence' ? 0 : null;
+}
+
+// 83000 → "1:23"
+export function formatClock(ms: number): string {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+// Export joins clips without re-encoding, which only works when every clip
+// was encoded alike. The model and quality mode decide the encoding: this
+// is the first clip where either differs from the first clip's, or null.
+export function firstMismatchedClip(
+  settings: Pick<GenerationSettings, 'model' | 'mode'>[],
+): number | null {
+  const [first] = settings;
+  const index = settings.findIndex(
+    (s) => s.model !== first.model || s.mode !== first.mode,
+  );
+  return index === -1 ? null : index;
+}
+
+// Where export cuts each clip: the time of the continuation frame picked
+// for it, when the next clip starts from that frame. null plays a clip to
+// its end — its last frame was used, or the next clip doesn't follow on.
+export function cutPoints(
+  clips: Pick<Clip, 'id' | 'frameTimeMs' | 'sourceClipId' | 'continuityBreak'>[],
+): (number | null)[] {
+  return clips.map((clip, i) => {
+    const next = clips[i + 1];
+    const continued = next?.sourceClipId === clip.id && !next.continuityBreak;
+    return continued ? clip.frameTimeMs : null;
+  });
+}
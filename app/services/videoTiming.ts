@@ -0,0 +1,158 @@
+// ---------------------------------------------------------------------------
+// Video timing from the MP4 itself
+// ---------------------------------------------------------------------------
+// Clips aren't always exactly the length that was asked for, so the last
+// frame can't be found from the settings. This reads the `moov` box of a
+// downloaded MP4: the video track's sample durations (`stts`) give the
+// time its last frame starts, and `mvhd` the length of the whole video.
+// Only the box headers on the way to `moov` and `moov` itself are read,
+// never the media data.
+// ---------------------------------------------------------------------------
+
+export type VideoTiming = {
+  durationMs: number;
+  // When the final video frame starts showing
+  lastFrameMs: number;
+};
+
+// Reads `length` bytes at `offset`; fewer at the end of the file.
+export type ByteReader = (offset: number, length: number) => Uint8Array;
+
+// Kling's moov is tens of kilobytes; anything far bigger isn't a clip.
+const MAX_MOOV_BYTES = 8 * 1024 * 1024;
+
+type Box = { type: string; start: number; end: number; header: number };
+
+function boxType(bytes: Uint8Array, at: number): string {
+  return String.fromCharCode(...bytes.subarray(at, at + 4));
+}
+
+// Box header at `offset` of `bytes`, or null if there isn't a whole one
+function readHeader(
+  bytes: Uint8Array,
+  offset: number,
+  limit: number,
+): { size: number; type: string; header: number } | null {
+  if (offset + 8 > bytes.length) return null;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let size = view.getUint32(offset);
+  const type = boxType(bytes, offset + 4);
+  let header = 8;
+  if (size === 1) {
+    if (offset + 16 > bytes.length) return null;
+    size = Number(view.getBigUint64(offset + 8));
+    header = 16;
+  } else if (size === 0) {
+    size = limit - offset;
+  }
+  if (size < header) return null;
+  return { size, type, header };
+}
+
+// Direct children of the box spanning [start, end) of `bytes`
+function children(bytes: Uint8Array, start: number, end: number): Box[] {
+  const boxes: Box[] = [];
+  let offset = start;
+  while (offset < end) {
+    const h = readHeader(bytes, offset, end);
+    if (!h || offset + h.size > end) break;
+    boxes.push({ type: h.type, start: offset, end: offset + h.size, header: h.header });
+    offset += h.size;
+  }
+  return boxes;
+}
+
+function child(bytes: Uint8Array, box: Box | undefined, type: string): Box | undefined {
+  if (!box) return undefined;
+  return children(bytes, box.start + box.header, box.end).find((b) => b.type === type);
+}
+
+// Timescale and duration of an mvhd or mdhd box
+function readHeaderTimes(
+  bytes: Uint8Array,
+  box: Box,
+): { timescale: number; duration: number } | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const at = box.start + box.header;
+  if (at + 4 > box.end) return null;
+  const version = bytes[at];
+  const fields = version === 1 ? at + 20 : at + 12;
+  if (fields + (version === 1 ? 12 : 8) > box.end) return null;
+  const timescale = view.getUint32(fields);
+  const duration =
+    version === 1
+      ? Number(view.getBigUint64(fields + 4))
+      : view.getUint32(fields + 4);
+  return timescale > 0 ? { timescale, duration } : null;
+}
+
+// Start of the last sample and the track's total, in its timescale
+function readStts(
+  bytes: Uint8Array,
+  box: Box,
+): { total: number; lastStart: number } | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const at = box.start + box.header;
+  if (at + 8 > box.end) return null;
+  const count = view.getUint32(at + 4);
+  if (count === 0 || at + 8 + count * 8 > box.end) return null;
+  let total = 0;
+  let lastDelta = 0;
+  for (let i = 0; i < count; i++) {
+    const samples = view.getUint32(at + 8 + i * 8);
+    const delta = view.getUint32(at + 12 + i * 8);
+    if (samples === 0) continue;
+    total += samples * delta;
+    lastDelta = delta;
+  }
+  return total > 0 ? { total, lastStart: total - lastDelta } : null;
+}
+
+// Timing of the first video track, from a whole moov box
+export function parseMoov(moov: Uint8Array): VideoTiming | null {
+  const h = readHeader(moov, 0, moov.length);
+  if (!h || h.type !== 'moov') return null;
+  const root: Box = { type: 'moov', start: 0, end: moov.length, header: h.header };
+  const mvhd = child(moov, root, 'mvhd');
+  const movie = mvhd && readHeaderTimes(moov, mvhd);
+
+  for (const trak of children(moov, root.header, root.end)) {
+    if (trak.type !== 'trak') continue;
+    const mdia = child(moov, trak, 'mdia');
+    const hdlr = child(moov, mdia, 'hdlr');
+    // Handler type follows version/flags and pre_defined
+    if (!hdlr || boxType(moov, hdlr.start + hdlr.header + 8) !== 'vide') continue;
+
+    const mdhd = child(moov, mdia, 'mdhd');
+    const media = mdhd && readHeaderTimes(moov, mdhd);
+    const stts = child(moov, child(moov, child(moov, mdia, 'minf'), 'stbl'), 'stts');
+    const samples = stts && readStts(moov, stts);
+    if (!media || !samples) return null;
+
+    const trackMs = (samples.total / media.timescale) * 1000;
+    return {
+      // A fragmented MP4 leaves the movie duration at 0
+      durationMs: movie?.duration
+        ? (movie.duration / movie.timescale) * 1000
+        : trackMs,
+      lastFrameMs: (samples.lastStart / media.timescale) * 1000,
+    };
+  }
+  return null;
+}
+
+// Finds and parses the moov box of an MP4 `size` bytes long.
+export function readVideoTiming(read: ByteReader, size: number): VideoTiming | null {
+  let offset = 0;
+  while (offset + 8 <= size) {
+    const header = read(offset, 16);
+    const h = readHeader(header, 0, size - offset);
+    if (!h) return null;
+    if (h.type === 'moov') {
+      if (h.size > MAX_MOOV_BYTES || offset + h.size > size) return null;
+      return parseMoov(read(offset, h.size));
+    }
+    offset += h.size;
+  }
+  return null;
+}
@@ -2,6 +2,24 @@ import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { File } from 'expo-file-system';
+import {
+  DEFAULT_GENERATION_SETTINGS,
+  GenerationFailedError,
+  TaskExpiredError,
+  dismissCancelledTask,
+  downloadVideo,
+  listCancelledTasks,
+  pollTimeoutFor,
+  pollUntilDone,
+  type GenerationSettings,
+} from '../services/api';
+import type { ClipStyle } from '../services/presets';
+import { extractFrame, extractLastFrame } from '../services/frames';
+import {
+  DEFAULT_CONTINUITY,
+  buildContextPrompt,
+  type ContinuitySettings,
+} from '../services/continuity';
 
 export type ClipStatus = 'pending' | 'generating' | 'done' | 'failed';
 
@@ -10,42 +28,391 @@ export type Clip = {
   imageUri: string;
   prompt: string;
   videoUri: string | null;
+  // Where the worker serves the finished video, so the local cached copy
+  // can be downloaded again if the OS evicts it.
+  remoteVideoUrl: string | null;
+  // Frame the next clip starts from: the last one, unless picked
   lastFrameUri: string | null;
+  // Where in the video the user picked it; null for the last frame
+  frameTimeMs: number | null;
   status: ClipStatus;
   klingTaskId: string | null;
+  // When generation was requested; kept so an interrupted one can resume
+  startedAt: number | null;
+  settings: GenerationSettings;
+  // Style preset it was made in; the next clip on the branch starts in it
+  style: ClipStyle | null;
+  // Clip this one follows in the story. Clips form a tree: forking from an
+  // earlier clip gives it a second child.
+  parentId: string | null;
+  // Clip whose last frame this one starts from, if any
+  sourceClipId: string | null;
+  // Set once that source clip is regenerated or deleted: this clip's
+  // start image no longer matches what plays before it.
+  continuityBreak: boolean;
 };
 
-export type Phase = 'camera' | 'prompt' | 'generating' | 'preview' | 'finalPlayback';
+export type Project = {
+  id: string;
+  name: string;
+  clips: Clip[];
+  // Last frame of the first finished clip; shown in the project gallery.
+  coverUri: string | null;
+  // Tip of the branch being viewed; the branch is its path from the root.
+  activeClipId: string | null;
+  // How each clip's prompt carries the story on (see services/continuity.ts)
+  continuity: ContinuitySettings;
+  createdAt: number;
+  updatedAt: number;
+};
+
+// What became of a generation interrupted by an app restart. `pending`
+// means the worker couldn't be reached; it is retried on the next launch.
+export type ResumeOutcome = 'completed' | 'failed' | 'expired' | 'pending';
+
+export type ResumeResult = {
+  clipId: string;
+  prompt: string;
+  outcome: ResumeOutcome;
+};
+
+// A generation the user cancelled while the provider was already running
+// it. Kept until the worker says whether its video arrived anyway, so it
+// can be recovered rather than paid for and lost.
+export type CancelledClip = {
+  taskId: string;
+  projectId: string;
+  kind: 'create' | 'regenerate';
+  // The clip as it was when its generation was cancelled
+  clip: Clip;
+  cancelledAt: number;
+  // Set once the worker reports the video finished
+  videoUrl: string | null;
+};
+
+export type Phase = 'camera' | 'prompt' | 'preview' | 'finalPlayback';
 
 type ClipStore = {
+  projects: Project[];
+  currentProjectId: string | null;
+  // Clips of the open project, mirrored from its entry in `projects` so
+  // screens can keep working with a flat list.
   clips: Clip[];
   phase: Phase;
   selectedImageUri: string | null;
+  // Advanced settings used for the next generation; kept across clips.
+  generationSettings: GenerationSettings;
+  // Outcomes of the last resumeGenerations run, until the UI has shown them
+  resumeResults: ResumeResult[];
+  cancelledClips: CancelledClip[];
 
   setPhase: (phase: Phase) => void;
   setSelectedImage: (uri: string) => void;
+  setGenerationSettings: (updates: Partial<GenerationSettings>) => void;
 
-  addClip: (imageUri: string, prompt: string) => string;
+  // Creates a project and opens it. Returns its id.
+  createProject: (name?: string) => string;
+  openProject: (id: string) => void;
+  closeProject: () => void;
+  renameProject: (id: string, name: string) => void;
+  deleteProject: (id: string) => void;
+  // Changes the open project's continuity strategy or its settings.
+  setContinuity: (updates: Partial<ContinuitySettings>) => void;
+
+  // Adds to the open project, creating one first if none is open, and
+  // makes the new clip the active branch tip.
+  addClip: (
+    imageUri: string,
+    prompt: string,
+    settings: GenerationSettings,
+    parentId: string | null,
+    style: ClipStyle | null,
+  ) => string;
   updateClip: (id: string, updates: Partial<Clip>) => void;
 
-  getLastClip: () => Clip | null;
-  getContextPrompt: (userPrompt: string) => string;
+  // Timeline editing on the active branch. `toIndex` is a position in it.
+  moveClip: (id: string, toIndex: number) => void;
+  deleteClip: (id: string) => void;
+  // Use the frame at `timeMs` (null: the last one) as the start of the
+  // next clip. Clips already continuing from the old frame are flagged.
+  setContinuationFrame: (
+    id: string,
+    frameUri: string,
+    timeMs: number | null,
+  ) => void;
+  // Swap in a regenerated video, deleting the old files.
+  replaceClipVideo: (
+    id: string,
+    updates: Pick<Clip, 'videoUri' | 'remoteVideoUrl' | 'lastFrameUri' | 'klingTaskId'>,
+  ) => void;
+
+  selectBranch: (clipId: string) => void;
+  // Finished clips from the root to the active branch tip
+  getBranch: () => Clip[];
+  // Active branch tip, counting clips still being generated — where the
+  // next clip goes.
+  getTipId: () => string | null;
+  // The clip at getTipId. Its last frame is where the next clip continues
+  // from; a clip still generating has none yet.
+  getTipClip: () => Clip | null;
+  // Context comes from `parentId` and its ancestors — the clips the new
+  // one will follow — in the open project's continuity strategy. The
+  // style's fragments are added to the end.
+  getContextPrompt: (
+    userPrompt: string,
+    parentId: string | null,
+    style: ClipStyle | null,
+  ) => string;
+  // Style a clip following `parentId` starts in: that of the clip before it
+  getBranchStyle: (parentId: string | null) => ClipStyle | null;
+  // Prompts of `parentId` and its ancestors, oldest first
+  getPreviousPrompts: (parentId: string | null) => string[];
+
+  restoreMissingFiles: () => Promise<void>;
+  // Finish generations that were still running when the app was killed.
+  resumeGenerations: () => Promise<void>;
+  clearResumeResults: () => void;
 
-  reset: () => void;
+  addCancelledClip: (
+    entry: Omit<CancelledClip, 'cancelledAt' | 'videoUrl'>,
+  ) => void;
+  // Ask the worker which cancelled generations finished anyway, forgetting
+  // the ones that failed or that it no longer knows.
+  refreshCancelledClips: () => Promise<void>;
+  // Add a finished cancelled generation to its project as a new clip.
+  recoverCancelledClip: (taskId: string) => Promise<void>;
+  discardCancelledClip: (taskId: string) => void;
 };
 
+const newId = () =>
+  Date.now().toString(36) + Math.random().toString(36).slice(2, 6);
+
+function coverFor(clips: Clip[]): string | null {
+  return clips.find((c) => c.status === 'done')?.lastFrameUri ?? null;
+}
+
+function makeProject(name: string, clips: Clip[] = []): Project {
+  const now = Date.now();
+  return {
+    id: newId(),
+    name,
+    clips,
+    coverUri: coverFor(clips),
+    activeClipId: null,
+    continuity: DEFAULT_CONTINUITY,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+// Replace one project's clips, keeping the open project's mirror in step.
+function setProjectClips(
+  state: ClipStore,
+  projectId: string,
+  clips: Clip[],
+  extra: Partial<Project> = {},
+): Pick<ClipStore, 'projects' | 'clips'> {
+  return {
+    projects: state.projects.map((p) =>
+      p.id === projectId
+        ? {
+            ...p,
+            ...extra,
+            clips,
+            coverUri: coverFor(clips),
+            updatedAt: Date.now(),
+          }
+        : p,
+    ),
+    clips: projectId === state.currentProjectId ? clips : state.clips,
+  };
+}
+
+// A project opens on its sequence if it has one, otherwise on the camera.
+function entryPhase(clips: Clip[]): Phase {
+  return clips.some((c) => c.status === 'done') ? 'preview' : 'camera';
+}
+
+// Clips currently being resumed, so a second call doesn't poll them twice.
+const resumingClipIds = new Set<string>();
+
+// Issue 17 fix: Clean up cached video and thumbnail files. A last frame
+// that a remaining clip uses as its start image (`keep`) stays.
+function deleteClipFiles(
+  clips: Pick<Clip, 'videoUri' | 'lastFrameUri'>[],
+  keep: Clip[] = [],
+) {
+  const inUse = new Set(keep.map((c) => c.imageUri));
+  for (const clip of clips) {
+    try {
+      if (clip.videoUri) new File(clip.videoUri).delete();
+    } catch { /* ignore cleanup errors */ }
+    try {
+      if (clip.lastFrameUri && !inUse.has(clip.lastFrameUri)) {
+        new File(clip.lastFrameUri).delete();
+      }
+    } catch { /* ignore cleanup errors */ }
+  }
+}
+
+// Flag every clip that starts from `sourceId`'s last frame.
+function markDependentsBroken(clips: Clip[], sourceId: string): Clip[] {
+  return clips.map((c) =>
+    c.sourceClipId === sourceId ? { ...c, continuityBreak: true } : c,
+  );
+}
+
+// Clips from the root down to `tipId`, including ones still generating;
+// failed clips are passed over. Falls back to the newest clip when the tip
+// is gone (deleted, or never set).
+export function pathTo(clips: Clip[], tipId: string | null): Clip[] {
+  const byId = new Map(clips.map((c) => [c.id, c]));
+  const live = clips.filter((c) => c.status !== 'failed');
+  let clip: Clip | undefined =
+    (tipId && byId.get(tipId)) || live[live.length - 1];
+  const path: Clip[] = [];
+  // The seen-check guards against a cycle in corrupted data.
+  const seen = new Set<string>();
+  while (clip && !seen.has(clip.id)) {
+    seen.add(clip.id);
+    if (clip.status !== 'failed') path.unshift(clip);
+    clip = clip.parentId ? byId.get(clip.parentId) : undefined;
+  }
+  return path;
+}
+
+// Finished clips from the root down to `tipId`.
+export function branchTo(clips: Clip[], tipId: string | null): Clip[] {
+  return pathTo(clips, tipId).filter((c) => c.status === 'done');
+}
+
+// Remove clips, moving their children up to the removed clip's parent.
+function withoutClips(clips: Clip[], ids: Set<string>): Clip[] {
+  const byId = new Map(clips.map((c) => [c.id, c]));
+  const survivingParent = (parentId: string | null): string | null => {
+    const seen = new Set<string>();
+    while (parentId && ids.has(parentId) && !seen.has(parentId)) {
+      seen.add(parentId);
+      parentId = byId.get(parentId)?.parentId ?? null;
+    }
+    return parentId;
+  };
+  return clips
+    .filter((c) => !ids.has(c.id))
+    .map((c) =>
+      c.parentId && ids.has(c.parentId)
+        ? { ...c, parentId: survivingParent(c.parentId) }
+        : c,
+    );
+}
+
+function projectOf(state: ClipStore, clipId: string): Project | undefined {
+  return state.projects.find((p) => p.clips.some((c) => c.id === clipId));
+}
+
+// Whether the clip at `index` of a branch doesn't continue from the one
+// before it — its source was changed, or the clips were reordered.
+export function hasContinuityBreak(branch: Clip[], index: number): boolean {
+  const clip = branch[index];
+  if (!clip?.sourceClipId) return false;
+  return clip.continuityBreak || branch[index - 1]?.id !== clip.sourceClipId;
+}
+
 export const useClipStore = create<ClipStore>()(
   persist(
     (set, get) => ({
+      projects: [],
+      currentProjectId: null,
       clips: [],
       phase: 'camera',
       selectedImageUri: null,
+      generationSettings: DEFAULT_GENERATION_SETTINGS,
+      resumeResults: [],
+      cancelledClips: [],
 
       setPhase: (phase) => set({ phase }),
       setSelectedImage: (uri) => set({ selectedImageUri: uri }),
+      setGenerationSettings: (updates) =>
+        set((state) => ({
+          generationSettings: { ...state.generationSettings, ...updates },
+        })),
+
+      createProject: (name) => {
+        const project = makeProject(
+          name?.trim() || `Project ${get().projects.length + 1}`,
+        );
+        set((state) => ({
+          projects: [project, ...state.projects],
+          currentProjectId: project.id,
+          clips: [],
+          phase: 'camera',
+          selectedImageUri: null,
+        }));
+        return project.id;
+      },
+
+      openProject: (id) => {
+        const project = get().projects.find((p) => p.id === id);
+        if (!project) return;
+        set({
+          currentProjectId: id,
+          clips: project.clips,
+          phase: entryPhase(project.clips),
+          selectedImageUri: null,
+        });
+        get().restoreMissingFiles();
+      },
+
+      closeProject: () =>
+        set({
+          currentProjectId: null,
+          clips: [],
+          phase: 'camera',
+          selectedImageUri: null,
+        }),
+
+      renameProject: (id, name) => {
+        if (!name.trim()) return;
+        set((state) => ({
+          projects: state.projects.map((p) =>
+            p.id === id ? { ...p, name: name.trim(), updatedAt: Date.now() } : p,
+          ),
+        }));
+      },
+
+      deleteProject: (id) => {
+        const project = get().projects.find((p) => p.id === id);
+        if (!project) return;
+        deleteClipFiles(project.clips);
+        set((state) => ({
+          projects: state.projects.filter((p) => p.id !== id),
+        }));
+        if (get().currentProjectId === id) {
+          get().closeProject();
+        }
+      },
 
-      addClip: (imageUri, prompt) => {
-        const id = Date.now().toString(36) + Math.random().toString(36).slice(2, 6);
+      setContinuity: (updates) => {
+        const id = get().currentProjectId;
+        if (!id) return;
+        set((state) => ({
+          projects: state.projects.map((p) =>
+            p.id === id
+              ? {
+                  ...p,
+                  continuity: { ...p.continuity, ...updates },
+                  updatedAt: Date.now(),
+                }
+              : p,
+          ),
+        }));
+      },
+
+      addClip: (imageUri, prompt, settings, parentId, style) => {
+        if (!get().currentProjectId) {
+          get().createProject();
+        }
+        const id = newId();
         // Issue 2 fix: Removed dead getContextPrompt call.
         // Prompt enrichment is handled at the call site in index.tsx.
         const clip: Clip = {
@@ -53,68 +420,352 @@ export const useClipStore = create<ClipStore>()(
           imageUri,
           prompt,
           videoUri: null,
+          remoteVideoUrl: null,
           lastFrameUri: null,
+          frameTimeMs: null,
           status: 'generating',
           klingTaskId: null,
+          startedAt: Date.now(),
+          settings,
+          style,
+          parentId,
+          sourceClipId:
+            get().clips.find((c) => c.lastFrameUri === imageUri)?.id ?? null,
+          continuityBreak: false,
         };
-        set((state) => ({ clips: [...state.clips, clip] }));
+        set((state) =>
+          setProjectClips(state, state.currentProjectId!, [...state.clips, clip], {
+            activeClipId: id,
+          }),
+        );
         return id;
       },
 
+      // Looks the clip up in every project, so a generation that finishes
+      // after the user switched projects still lands in the right one.
       updateClip: (id, updates) =>
+        set((state) => {
+          const project = projectOf(state, id);
+          if (!project) return {};
+          return setProjectClips(
+            state,
+            project.id,
+            project.clips.map((c) => (c.id === id ? { ...c, ...updates } : c)),
+          );
+        }),
+
+      // Reordering relinks the branch's parent pointers. Clips forked off
+      // a moved clip stay attached to it.
+      moveClip: (id, toIndex) =>
+        set((state) => {
+          const branch = get().getBranch();
+          const from = branch.findIndex((c) => c.id === id);
+          if (from === -1) return {};
+          const to = Math.max(0, Math.min(toIndex, branch.length - 1));
+          if (to === from) return {};
+          const reordered = [...branch];
+          const [moved] = reordered.splice(from, 1);
+          reordered.splice(to, 0, moved);
+
+          const parents = new Map(
+            reordered.map((c, i) => [
+              c.id,
+              i === 0 ? branch[0].parentId : reordered[i - 1].id,
+            ]),
+          );
+          const clips = state.clips.map((c) =>
+            parents.has(c.id) ? { ...c, parentId: parents.get(c.id)! } : c,
+          );
+          return setProjectClips(state, state.currentProjectId!, clips, {
+            activeClipId: reordered[reordered.length - 1].id,
+          });
+        }),
+
+      // The clip's children move up to its parent.
+      deleteClip: (id) => {
+        const project = projectOf(get(), id);
+        const clip = project?.clips.find((c) => c.id === id);
+        if (!project || !clip) return;
+        const remaining = markDependentsBroken(
+          withoutClips(project.clips, new Set([id])),
+          id,
+        );
+        deleteClipFiles([clip], remaining);
+        set((state) =>
+          setProjectClips(state, project.id, remaining, {
+            activeClipId:
+              project.activeClipId === id ? clip.parentId : project.activeClipId,
+          }),
+        );
+      },
+
+      setContinuationFrame: (id, frameUri, timeMs) => {
+        const project = projectOf(get(), id);
+        const clip = project?.clips.find((c) => c.id === id);
+        if (!project || !clip || clip.lastFrameUri === frameUri) return;
+        const updated = markDependentsBroken(
+          project.clips.map((c) =>
+            c.id === id ? { ...c, lastFrameUri: frameUri, frameTimeMs: timeMs } : c,
+          ),
+          id,
+        );
+        // The old frame stays while a clip still starts from it.
+        deleteClipFiles([{ videoUri: null, lastFrameUri: clip.lastFrameUri }], updated);
+        set((state) => setProjectClips(state, project.id, updated));
+      },
+
+      replaceClipVideo: (id, updates) => {
+        const project = projectOf(get(), id);
+        const clip = project?.clips.find((c) => c.id === id);
+        if (!project || !clip) return;
+        deleteClipFiles([clip], project.clips);
+        const updated = markDependentsBroken(
+          project.clips.map((c) =>
+            c.id === id ? { ...c, ...updates, frameTimeMs: null } : c,
+          ),
+          id,
+        );
+        set((state) => setProjectClips(state, project.id, updated));
+      },
+
+      selectBranch: (clipId) =>
         set((state) => ({
-          clips: state.clips.map((c) => (c.id === id ? { ...c, ...updates } : c)),
+          projects: state.projects.map((p) =>
+            p.id === state.currentProjectId ? { ...p, activeClipId: clipId } : p,
+          ),
         })),
 
-      // Issue 5 fix: Return the last clip with status 'done' instead of
-      // the last clip by array position. This ensures continuity chaining
-      // works correctly even after a failed generation.
-      getLastClip: () => {
-        const { clips } = get();
-        const doneClips = clips.filter((c) => c.status === 'done');
-        if (doneClips.length === 0) return null;
-        return doneClips[doneClips.length - 1];
+      getBranch: () => {
+        const { projects, currentProjectId, clips } = get();
+        const project = projects.find((p) => p.id === currentProjectId);
+        return branchTo(clips, project?.activeClipId ?? null);
       },
 
-      getContextPrompt: (userPrompt) => {
-        const { clips } = get();
-        const doneClips = clips.filter((c) => c.status === 'done');
+      getTipId: () => {
+        const { projects, currentProjectId, clips } = get();
+        const project = projects.find((p) => p.id === currentProjectId);
+        const path = pathTo(clips, project?.activeClipId ?? null);
+        return path[path.length - 1]?.id ?? null;
+      },
 
-        if (doneClips.length === 0) {
-          return userPrompt;
-        }
+      getTipClip: () => {
+        const tipId = get().getTipId();
+        return get().clips.find((c) => c.id === tipId) ?? null;
+      },
+
+      getContextPrompt: (userPrompt, parentId, style) => {
+        const { projects, currentProjectId } = get();
+        const project = projects.find((p) => p.id === currentProjectId);
+        return buildContextPrompt(
+          {
+            prompt: userPrompt,
+            // Clips still generating count: their prompts are part of the story.
+            previousPrompts: get().getPreviousPrompts(parentId),
+            settings: project?.continuity ?? DEFAULT_CONTINUITY,
+          },
+          style,
+        );
+      },
+
+      getBranchStyle: (parentId) => {
+        if (!parentId) return null;
+        const path = pathTo(get().clips, parentId);
+        return path[path.length - 1]?.style ?? null;
+      },
 
-        // Last 2 prompts for context
-        const recent = doneClips.slice(-2);
+      getPreviousPrompts: (parentId) =>
+        parentId ? pathTo(get().clips, parentId).map((c) => c.prompt) : [],
 
-        if (recent.length === 1) {
-          return [
-            `Previous scene: "${recent[0].prompt}"`,
-            `Current scene (continuing from the last frame): "${userPrompt}"`,
-            'Maintain smooth visual and motion continuity.',
-          ].join('\n');
+      // Cached files live in Paths.cache, which the OS may clear. Download
+      // evicted videos again from the worker and re-extract last frames.
+      restoreMissingFiles: async () => {
+        const doneClips = get().clips.filter((c) => c.status === 'done');
+        for (const clip of doneClips) {
+          try {
+            let videoUri = clip.videoUri;
+            if ((!videoUri || !new File(videoUri).exists) && clip.remoteVideoUrl) {
+              videoUri = await downloadVideo(clip.remoteVideoUrl, clip.id);
+              get().updateClip(clip.id, { videoUri });
+            }
+            if (
+              videoUri &&
+              new File(videoUri).exists &&
+              (!clip.lastFrameUri || !new File(clip.lastFrameUri).exists)
+            ) {
+              const lastFrameUri =
+                clip.frameTimeMs !== null
+                  ? await extractFrame(videoUri, clip.frameTimeMs)
+                  : await extractLastFrame(videoUri, clip.settings.duration * 1000);
+              if (lastFrameUri) get().updateClip(clip.id, { lastFrameUri });
+            }
+          } catch (err) {
+            console.warn(`Could not restore files for clip ${clip.id}`, err);
+          }
         }
+      },
+
+      resumeGenerations: async () => {
+        const pending = get()
+          .projects.flatMap((p) => p.clips)
+          .filter(
+            (c) =>
+              c.status === 'generating' &&
+              c.klingTaskId &&
+              !resumingClipIds.has(c.id),
+          );
+        if (pending.length === 0) return;
 
-        return [
-          `Two scenes ago: "${recent[0].prompt}"`,
-          `Previous scene: "${recent[1].prompt}"`,
-          `Current scene (continuing from the last frame): "${userPrompt}"`,
-          'Maintain smooth visual and motion continuity.',
-        ].join('\n');
+        const results = await Promise.all(
+          pending.map(async (clip): Promise<ResumeResult> => {
+            resumingClipIds.add(clip.id);
+            let outcome: ResumeOutcome;
+            try {
+              const videoUrl = await pollUntilDone(
+                clip.klingTaskId!,
+                undefined,
+                undefined,
+                pollTimeoutFor(clip.settings),
+              );
+              const videoUri = await downloadVideo(videoUrl, clip.id);
+              const lastFrameUri = await extractLastFrame(
+                videoUri,
+                clip.settings.duration * 1000,
+              );
+              // Its place in the tree was fixed when it was added.
+              get().updateClip(clip.id, {
+                videoUri,
+                remoteVideoUrl: videoUrl,
+                lastFrameUri,
+                status: 'done',
+              });
+              outcome = 'completed';
+            } catch (err) {
+              if (err instanceof TaskExpiredError) {
+                outcome = 'expired';
+              } else if (err instanceof GenerationFailedError) {
+                outcome = 'failed';
+              } else {
+                console.warn(`Could not resume clip ${clip.id}`, err);
+                outcome = 'pending';
+              }
+              if (outcome !== 'pending') {
+                get().updateClip(clip.id, { status: 'failed' });
+              }
+            } finally {
+              resumingClipIds.delete(clip.id);
+            }
+            return { clipId: clip.id, prompt: clip.prompt, outcome };
+          }),
+        );
+
+        set((state) => ({ resumeResults: [...state.resumeResults, ...results] }));
       },
 
-      // Issue 17 fix: Clean up cached video and thumbnail files on reset.
-      reset: () => {
-        const { clips } = get();
-        for (const clip of clips) {
-          try {
-            if (clip.videoUri) new File(clip.videoUri).delete();
-          } catch { /* ignore cleanup errors */ }
-          try {
-            if (clip.lastFrameUri) new File(clip.lastFrameUri).delete();
-          } catch { /* ignore cleanup errors */ }
+      clearResumeResults: () => set({ resumeResults: [] }),
+
+      addCancelledClip: (entry) =>
+        set((state) => ({
+          cancelledClips: [
+            ...state.cancelledClips.filter((c) => c.taskId !== entry.taskId),
+            { ...entry, cancelledAt: Date.now(), videoUrl: null },
+          ],
+        })),
+
+      refreshCancelledClips: async () => {
+        if (get().cancelledClips.length === 0) return;
+        const checkedAt = Date.now();
+        let tasks;
+        try {
+          tasks = await listCancelledTasks();
+        } catch (err) {
+          console.warn('Could not check cancelled clips', err);
+          return;
+        }
+        const byId = new Map(tasks.map((t) => [t.taskId, t]));
+        for (const task of tasks) {
+          if (task.status === 'failed' || task.status === 'cancelled') {
+            dismissCancelledTask(task.taskId).catch(() => {});
+          }
         }
-        set({ clips: [], phase: 'camera', selectedImageUri: null });
+        set((state) => ({
+          cancelledClips: state.cancelledClips.flatMap((c) => {
+            const task = byId.get(c.taskId);
+            // Cancelled while the list was loading, so not in it yet
+            if (!task) return c.cancelledAt >= checkedAt ? [c] : [];
+            if (task.status === 'failed' || task.status === 'cancelled') {
+              return [];
+            }
+            return [{ ...c, videoUrl: task.videoUrl ?? c.videoUrl }];
+          }),
+        }));
+      },
+
+      // Restored where it was in the tree if it can be: a cancelled new
+      // clip under its old parent, a cancelled regeneration as an
+      // alternative take beside the clip it would have replaced.
+      recoverCancelledClip: async (taskId) => {
+        const entry = get().cancelledClips.find((c) => c.taskId === taskId);
+        if (!entry?.videoUrl) return;
+        const project = get().projects.find((p) => p.id === entry.projectId);
+        if (!project) {
+          get().discardCancelledClip(taskId);
+          return;
+        }
+
+        const id =
+          entry.kind === 'create' &&
+          !project.clips.some((c) => c.id === entry.clip.id)
+            ? entry.clip.id
+            : newId();
+        const videoUri = await downloadVideo(entry.videoUrl, id);
+        const lastFrameUri = await extractLastFrame(
+          videoUri,
+          entry.clip.settings.duration * 1000,
+        );
+
+        set((state) => {
+          const current = state.projects.find((p) => p.id === entry.projectId);
+          if (!current) return {};
+          const exists = (clipId: string | null) =>
+            !!clipId && current.clips.some((c) => c.id === clipId);
+          const clip: Clip = {
+            ...entry.clip,
+            id,
+            videoUri,
+            remoteVideoUrl: entry.videoUrl,
+            lastFrameUri,
+            frameTimeMs: null,
+            status: 'done',
+            klingTaskId: taskId,
+            startedAt: null,
+            parentId: exists(entry.clip.parentId) ? entry.clip.parentId : null,
+            sourceClipId: exists(entry.clip.sourceClipId)
+              ? entry.clip.sourceClipId
+              : null,
+            continuityBreak:
+              exists(entry.clip.sourceClipId) && entry.clip.continuityBreak,
+          };
+          return {
+            ...setProjectClips(state, current.id, [...current.clips, clip]),
+            cancelledClips: state.cancelledClips.filter(
+              (c) => c.taskId !== taskId,
+            ),
+          };
+        });
+        dismissCancelledTask(taskId).catch((err) =>
+          console.warn(`Could not dismiss cancelled task ${taskId}`, err),
+        );
+      },
+
+      discardCancelledClip: (taskId) => {
+        set((state) => ({
+          cancelledClips: state.cancelledClips.filter(
+            (c) => c.taskId !== taskId,
+          ),
+        }));
+        dismissCancelledTask(taskId).catch((err) =>
+          console.warn(`Could not dismiss cancelled task ${taskId}`, err),
+        );
       },
     }),
     {
@@ -122,18 +773,135 @@ export const useClipStore = create<ClipStore>()(
       // app restarts and OS background kills.
       name: 'opendance-clips',
       storage: createJSONStorage(() => AsyncStorage),
-      // Only persist completed clips — generating/failed clips are transient
+      version: 9,
+      // Persist completed clips, and submitted generations so they can be
+      // resumed — failed and not-yet-submitted clips are transient.
+      // `clips` is rebuilt from the open project on rehydrate.
       partialize: (state) => ({
-        clips: state.clips.filter((c) => c.status === 'done'),
+        projects: state.projects.map((p) => ({
+          ...p,
+          clips: withoutClips(
+            p.clips,
+            new Set(
+              p.clips
+                .filter(
+                  (c) =>
+                    c.status !== 'done' &&
+                    !(c.status === 'generating' && c.klingTaskId),
+                )
+                .map((c) => c.id),
+            ),
+          ),
+        })),
+        currentProjectId: state.currentProjectId,
+        generationSettings: state.generationSettings,
+        cancelledClips: state.cancelledClips,
       }),
+      // v0 clips were all generated with the worker's fixed defaults.
+      migrate: (persisted, version) => {
+        const state = persisted as {
+          clips?: Clip[];
+          projects?: Project[];
+          currentProjectId?: string | null;
+          cancelledClips?: CancelledClip[];
+        };
+        if (version < 1 && state.clips) {
+          state.clips = state.clips.map((c) => ({
+            ...c,
+            settings: c.settings ?? DEFAULT_GENERATION_SETTINGS,
+          }));
+        }
+        if (version < 2 && state.clips) {
+          state.clips = state.clips.map((c) => ({
+            ...c,
+            remoteVideoUrl: c.remoteVideoUrl ?? null,
+          }));
+        }
+        // v3 moved the single global clip list into a default project.
+        if (version < 3) {
+          const project = state.clips?.length
+            ? makeProject('My Project', state.clips)
+            : null;
+          state.projects = project ? [project] : [];
+          state.currentProjectId = project?.id ?? null;
+          delete state.clips;
+        }
+        // v4 records which clip each clip continues from. Older clips that
+        // start on another clip's last frame were chained from it.
+        if (version < 4 && state.projects) {
+          state.projects = state.projects.map((p) => ({
+            ...p,
+            clips: p.clips.map((c) => ({
+              ...c,
+              sourceClipId:
+                c.sourceClipId ??
+                p.clips.find((o) => o.lastFrameUri === c.imageUri)?.id ??
+                null,
+              continuityBreak: c.continuityBreak ?? false,
+            })),
+          }));
+        }
+        // v5 turned the clip list into a tree; existing sequences become a
+        // single branch in their saved order.
+        if (version < 5 && state.projects) {
+          state.projects = state.projects.map((p) => {
+            const done = p.clips.filter((c) => c.status === 'done');
+            return {
+              ...p,
+              clips: p.clips.map((c) => {
+                const index = done.indexOf(c);
+                return {
+                  ...c,
+                  parentId: c.parentId ?? (index > 0 ? done[index - 1].id : null),
+                };
+              }),
+              activeClipId: p.activeClipId ?? done[done.length - 1]?.id ?? null,
+            };
+          });
+        }
+        if (version < 6 && state.projects) {
+          state.projects = state.projects.map((p) => ({
+            ...p,
+            clips: p.clips.map((c) => ({ ...c, startedAt: c.startedAt ?? null })),
+          }));
+        }
+        if (version < 7 && state.projects) {
+          state.projects = state.projects.map((p) => ({
+            ...p,
+            clips: p.clips.map((c) => ({ ...c, style: c.style ?? null })),
+          }));
+          state.cancelledClips = state.cancelledClips?.map((c) => ({
+            ...c,
+            clip: { ...c.clip, style: c.clip.style ?? null },
+          }));
+        }
+        // v8 made continuity configurable; the old behaviour was last-n.
+        if (version < 8 && state.projects) {
+          state.projects = state.projects.map((p) => ({
+            ...p,
+            continuity: p.continuity ?? DEFAULT_CONTINUITY,
+          }));
+        }
+        if (version < 9 && state.projects) {
+          state.projects = state.projects.map((p) => ({
+            ...p,
+            clips: p.clips.map((c) => ({ ...c, frameTimeMs: c.frameTimeMs ?? null })),
+          }));
+          state.cancelledClips = state.cancelledClips?.map((c) => ({
+            ...c,
+            clip: { ...c.clip, frameTimeMs: c.clip.frameTimeMs ?? null },
+          }));
+        }
+        return state as ClipStore;
+      },
       onRehydrateStorage: () => {
         return (state, error) => {
           if (!error && state) {
-            const doneClips = state.clips.filter((c) => c.status === 'done');
-            if (doneClips.length > 0) {
-              // Restore to preview phase if there are completed clips
-              useClipStore.setState({ phase: 'preview' });
+            // Reopen the project the user was last working on
+            if (state.currentProjectId) {
+              state.openProject(state.currentProjectId);
             }
+            state.resumeGenerations();
           }
         };
       },
@@ -0,0 +1,307 @@
+import { create } from 'zustand';
+import { File } from 'expo-file-system';
+import {
+  cancelTask,
+  generateVideo,
+  pollTimeoutFor,
+  pollUntilDone,
+  downloadVideo,
+  type GenerationSettings,
+} from '../services/api';
+import { describeError, type ErrorDescription } from '../services/errors';
+import { extractLastFrame } from '../services/frames';
+import { useClipStore } from './useClipStore';
+
+// ---------------------------------------------------------------------------
+// Generation queue
+// ---------------------------------------------------------------------------
+// Runs clip generations in the background, up to `maxConcurrent` at a
+// time, so the user can keep capturing and writing prompts. A `create` job
+// fills in a clip that addClip already placed in the tree; a `regenerate`
+// job swaps a new video into an existing clip.
+//
+// Jobs live in memory only. A submitted `create` job's clip is persisted
+// with its task id, so it is picked up by resumeGenerations after a restart.
+//
+// Cancelling a submitted job also cancels its task on the worker. Providers
+// that can't stop a task still deliver its video, so the clip is kept aside
+// in useClipStore's `cancelledClips` until it can be recovered or discarded.
+// ---------------------------------------------------------------------------
+
+export type JobKind = 'create' | 'regenerate';
+export type JobStatus = 'queued' | 'running' | 'failed';
+
+export type GenerationJob = {
+  id: string;
+  clipId: string;
+  kind: JobKind;
+  imageUri: string;
+  // Prompt as typed, for display
+  prompt: string;
+  // Prompt sent to the worker, with continuity context
+  fullPrompt: string;
+  settings: GenerationSettings;
+  // Sent with /generate so retries can't start a second paid job
+  idempotencyKey: string;
+  // Set once the worker has accepted the job
+  taskId: string | null;
+  status: JobStatus;
+  statusText: string;
+  // 0..1, estimated from the stage and how long generation usually takes
+  progress: number;
+  // What went wrong and how to recover, once the job has failed
+  error: ErrorDescription | null;
+  controller: AbortController;
+};
+
+export type JobInput = Pick<
+  GenerationJob,
+  'clipId' | 'kind' | 'imageUri' | 'prompt' | 'fullPrompt' | 'settings'
+>;
+
+type QueueStore = {
+  jobs: GenerationJob[];
+  maxConcurrent: number;
+
+  setMaxConcurrent: (n: number) => void;
+  enqueue: (input: JobInput) => string;
+  // Stops a queued or running job. A `create` job's clip is removed.
+  // Cancels its task on the worker, if it got that far.
+  cancel: (jobId: string) => void;
+  retry: (jobId: string) => void;
+  // Forgets a failed job, removing a `create` job's clip.
+  dismiss: (jobId: string) => void;
+};
+
+export const DEFAULT_MAX_CONCURRENT = 2;
+
+// Rough time a provider takes for a 5s clip; progress is scaled from it.
+const EXPECTED_GENERATION_MS = 60_000;
+
+// Files a cancelled job downloaded before it noticed, or that have no
+// clip left to go into
+function dropFiles(...uris: (string | null)[]) {
+  for (const uri of uris) {
+    try {
+      if (uri) new File(uri).delete();
+    } catch { /* ignore cleanup errors */ }
+  }
+}
+
+// The clip may have been deleted, or its project, while its job ran.
+const clipExists = (clipId: string) =>
+  useClipStore
+    .getState()
+    .projects.some((p) => p.clips.some((c) => c.id === clipId));
+
+const newJobId = () =>
+  'job_' + Date.now().toString(36) + Math.random().toString(36).slice(2, 6);
+
+export const useGenerationQueue = create<QueueStore>()((set, get) => {
+  const update = (jobId: string, updates: Partial<GenerationJob>) =>
+    set((state) => ({
+      jobs: state.jobs.map((j) => (j.id === jobId ? { ...j, ...updates } : j)),
+    }));
+
+  const remove = (jobId: string) =>
+    set((state) => ({ jobs: state.jobs.filter((j) => j.id !== jobId) }));
+
+  const run = async (job: GenerationJob) => {
+    const { signal } = job.controller;
+    const clips = useClipStore.getState();
+
+    try {
+      update(job.id, { statusText: 'Uploading image...', progress: 0.05 });
+      const { taskId } = await generateVideo(
+        job.imageUri,
+        job.fullPrompt,
+        job.settings,
+        signal,
+        job.idempotencyKey,
+      );
+      update(job.id, { taskId });
+      if (job.kind === 'create') {
+        // Persisted from here on, so the task survives an app restart.
+        clips.updateClip(job.clipId, { klingTaskId: taskId });
+      }
+
+      const startedAt = Date.now();
+      const expectedMs = (EXPECTED_GENERATION_MS * job.settings.duration) / 5;
+      update(job.id, { statusText: 'Generating video...', progress: 0.15 });
+      const videoUrl = await pollUntilDone(
+        taskId,
+        (status) => {
+          const elapsed = Math.min(1, (Date.now() - startedAt) / expectedMs);
+          update(job.id, {
+            statusText:
+              status === 'processing' ? 'Generating video...' : status,
+            progress: 0.15 + 0.7 * elapsed,
+          });
+        },
+        signal,
+        pollTimeoutFor(job.settings),
+      );
+
+      update(job.id, { statusText: 'Downloading video...', progress: 0.9 });
+      // A regenerated clip gets a new file so the old one can be deleted.
+      const fileId =
+        job.kind === 'create'
+          ? job.clipId
+          : `${job.clipId}_${Date.now().toString(36)}`;
+      const videoUri = await downloadVideo(videoUrl, fileId);
+      // Cancelled meanwhile: cancel() has kept the clip aside to recover,
+      // so the download must not also be swapped into it.
+      if (signal.aborted) {
+        dropFiles(videoUri);
+        return;
+      }
+
+      // The clip's true last frame, for the next one to start from. Without
+      // one the clip is still done; it just can't be continued from yet.
+      const lastFrameUri = await extractLastFrame(
+        videoUri,
+        job.settings.duration * 1000,
+      );
+      if (signal.aborted) {
+        dropFiles(videoUri, lastFrameUri);
+        return;
+      }
+      if (!clipExists(job.clipId)) {
+        dropFiles(videoUri, lastFrameUri);
+        remove(job.id);
+        return;
+      }
+
+      const video = {
+        videoUri,
+        remoteVideoUrl: videoUrl,
+        lastFrameUri,
+        klingTaskId: taskId,
+      };
+      if (job.kind === 'create') {
+        clips.updateClip(job.clipId, { ...video, status: 'done' });
+      } else {
+        clips.replaceClipVideo(job.clipId, video);
+      }
+      remove(job.id);
+    } catch (error) {
+      // cancel() has already cleaned up after an aborted job.
+      if (signal.aborted) return;
+      if (job.kind === 'create') {
+        clips.updateClip(job.clipId, { status: 'failed' });
+      }
+      update(job.id, {
+        status: 'failed',
+        statusText: 'Failed',
+        error: describeError(error),
+      });
+    } finally {
+      pump();
+    }
+  };
+
+  // Start queued jobs, oldest first, while there is room.
+  const pump = () => {
+    const { jobs, maxConcurrent } = get();
+    let running = jobs.filter((j) => j.status === 'running').length;
+    for (const job of jobs) {
+      if (running >= maxConcurrent) break;
+      if (job.status !== 'queued') continue;
+      running++;
+      update(job.id, { status: 'running' });
+      run(job);
+    }
+  };
+
+  return {
+    jobs: [],
+    maxConcurrent: DEFAULT_MAX_CONCURRENT,
+
+    setMaxConcurrent: (n) => {
+      set({ maxConcurrent: Math.max(1, Math.floor(n)) });
+      pump();
+    },
+
+    enqueue: (input) => {
+      const id = newJobId();
+      const job: GenerationJob = {
+        ...input,
+        id,
+        // A new clip is generated once, so its id is key enough. A clip can
+        // be regenerated many times, so each regeneration gets its own.
+        idempotencyKey:
+          input.kind === 'create' ? input.clipId : `${input.clipId}_${id}`,
+        taskId: null,
+        status: 'queued',
+        statusText: 'Waiting...',
+        progress: 0,
+        error: null,
+        controller: new AbortController(),
+      };
+      set((state) => ({ jobs: [...state.jobs, job] }));
+      pump();
+      return job.id;
+    },
+
+    cancel: (jobId) => {
+      const job = get().jobs.find((j) => j.id === jobId);
+      if (!job) return;
+      job.controller.abort();
+      remove(jobId);
+      const clips = useClipStore.getState();
+      if (job.taskId && job.status === 'running') {
+        const project = clips.projects.find((p) =>
+          p.clips.some((c) => c.id === job.clipId),
+        );
+        const clip = project?.clips.find((c) => c.id === job.clipId);
+        if (project && clip) {
+          clips.addCancelledClip({
+            taskId: job.taskId,
+            projectId: project.id,
+            kind: job.kind,
+            clip: { ...clip, prompt: job.prompt, settings: job.settings },
+          });
+        }
+        cancelTask(job.taskId).catch((err) =>
+          console.warn(`Could not cancel task ${job.taskId}`, err),
+        );
+      }
+      if (job.kind === 'create') {
+        clips.deleteClip(job.clipId);
+      }
+      pump();
+    },
+
+    retry: (jobId) => {
+      const job = get().jobs.find((j) => j.id === jobId);
+      if (!job || job.status !== 'failed') return;
+      if (job.kind === 'create') {
+        useClipStore
+          .getState()
+          .updateClip(job.clipId, { status: 'generating', klingTaskId: null });
+      }
+      update(jobId, {
+        // Reusing the key would only bring back the task that failed.
+        idempotencyKey: job.taskId
+          ? `${job.clipId}_${Date.now().toString(36)}`
+          : job.idempotencyKey,
+        taskId: null,
+        status: 'queued',
+        statusText: 'Waiting...',
+        progress: 0,
+        error: null,
+        controller: new AbortController(),
+      });
+      pump();
+    },
+
+    dismiss: (jobId) => {
+      const job = get().jobs.find((j) => j.id === jobId);
+      if (!job || job.status !== 'failed') return;
+      remove(jobId);
+      if (job.kind === 'create') {
+        useClipStore.getState().deleteClip(job.clipId);
+      }
+    },
+  };
+});
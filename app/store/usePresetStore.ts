@@ -0,0 +1,115 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  BUILT_IN_PRESETS,
+  BUILT_IN_TEMPLATES,
+  parsePresetLibrary,
+  type PromptTemplate,
+  type StylePreset,
+} from '../services/presets';
+
+// ---------------------------------------------------------------------------
+// Preset library
+// ---------------------------------------------------------------------------
+// The user's own style presets and prompt templates, next to the built-in
+// ones from services/presets.ts. Built-ins can't be changed; editing one
+// saves a copy.
+// ---------------------------------------------------------------------------
+
+export type PresetInput = Omit<StylePreset, 'id' | 'builtIn'>;
+export type TemplateInput = Omit<PromptTemplate, 'id' | 'builtIn'>;
+
+type PresetStore = {
+  // User-made only; see allPresets / allTemplates
+  presets: StylePreset[];
+  templates: PromptTemplate[];
+
+  // Updates the preset with `id`, or adds a new one. Returns its id.
+  savePreset: (input: PresetInput, id?: string) => string;
+  deletePreset: (id: string) => void;
+  saveTemplate: (input: TemplateInput, id?: string) => string;
+  deleteTemplate: (id: string) => void;
+  // Adds everything in a JSON library. Throws PresetImportError if it
+  // can't be read.
+  importLibrary: (json: string) => { presets: number; templates: number };
+};
+
+const newId = () =>
+  'user:' + Date.now().toString(36) + Math.random().toString(36).slice(2, 6);
+
+function upsert<T extends { id: string }>(list: T[], item: T): T[] {
+  return list.some((x) => x.id === item.id)
+    ? list.map((x) => (x.id === item.id ? item : x))
+    : [...list, item];
+}
+
+export const usePresetStore = create<PresetStore>()(
+  persist(
+    (set) => ({
+      presets: [],
+      templates: [],
+
+      savePreset: (input, id) => {
+        const preset: StylePreset = {
+          ...input,
+          id: id && !id.startsWith('builtin:') ? id : newId(),
+          builtIn: false,
+        };
+        set((state) => ({ presets: upsert(state.presets, preset) }));
+        return preset.id;
+      },
+
+      deletePreset: (id) =>
+        set((state) => ({ presets: state.presets.filter((p) => p.id !== id) })),
+
+      saveTemplate: (input, id) => {
+        const template: PromptTemplate = {
+          ...input,
+          id: id && !id.startsWith('builtin:') ? id : newId(),
+          builtIn: false,
+        };
+        set((state) => ({ templates: upsert(state.templates, template) }));
+        return template.id;
+      },
+
+      deleteTemplate: (id) =>
+        set((state) => ({
+          templates: state.templates.filter((t) => t.id !== id),
+        })),
+
+      importLibrary: (json) => {
+        const library = parsePresetLibrary(json);
+        set((state) => ({
+          presets: [
+            ...state.presets,
+            ...library.presets.map((p) => ({ ...p, id: newId(), builtIn: false })),
+          ],
+          templates: [
+            ...state.templates,
+            ...library.templates.map((t) => ({ ...t, id: newId(), builtIn: false })),
+          ],
+        }));
+        return {
+          presets: library.presets.length,
+          templates: library.templates.length,
+        };
+      },
+    }),
+    {
+      name: 'opendance-presets',
+      storage: createJSONStorage(() => AsyncStorage),
+      version: 0,
+    },
+  ),
+);
+
+export function allPresets(state: Pick<PresetStore, 'presets'>): StylePreset[] {
+  return [...BUILT_IN_PRESETS, ...state.presets];
+}
+
+export function allTemplates(
+  state: Pick<PresetStore, 'templates'>,
+): PromptTemplate[] {
+  return [...BUILT_IN_TEMPLATES, ...state.templates];
+}
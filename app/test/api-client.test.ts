@@ -0,0 +1,179 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { installFakeWorker, runUntilSettled, type FakeWorker } from './fake-worker';
+
+// The API client (services/api.ts) against test/fake-worker.ts, an
+// in-process stand-in for the worker. Expo modules resolve to test/stubs.
+
+const PHOTO = 'file:///photos/start.png';
+
+async function loadApp() {
+  // Fresh modules, so the client and its stubs start without a stored
+  // client id.
+  vi.resetModules();
+  const api = await import('../services/api');
+  const { files } = await import('./stubs/expo-file-system');
+  files.set(PHOTO, new Uint8Array(64));
+  return { api, files };
+}
+
+describe('API client', () => {
+  let worker: FakeWorker;
+  let app: Awaited<ReturnType<typeof loadApp>>;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'Date'] });
+    worker = installFakeWorker();
+    app = await loadApp();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  const submits = () =>
+    worker.requests.filter((r) => r.path === '/generate').length;
+
+  it('uploads, generates, polls and downloads a clip', async () => {
+    const { taskId } = await runUntilSettled(
+      app.api.generateVideo(PHOTO, 'a cat walks', undefined, undefined, 'clip_1'),
+    );
+    expect(taskId).toBe('task_1');
+
+    const statuses: string[] = [];
+    const videoUrl = await runUntilSettled(
+      app.api.pollUntilDone(taskId, (status) => statuses.push(status)),
+    );
+    expect(videoUrl).toMatch(/^https:\/\/worker\.test\/videos\//);
+    expect(statuses.at(-1)).toBe('completed');
+
+    const uri = await app.api.downloadVideo(videoUrl, 'clip_1');
+    expect(app.files.get(uri)?.byteLength).toBeGreaterThan(0);
+  });
+
+  it('retries a provider error with the same key and starts one task', async () => {
+    worker.failNext('server');
+
+    const { taskId } = await runUntilSettled(
+      app.api.generateVideo(PHOTO, 'a cat', undefined, undefined, 'clip_1'),
+    );
+
+    expect(taskId).toBe('task_1');
+    expect(submits()).toBe(2);
+    expect(worker.tasks.size).toBe(1);
+  });
+
+  it('gives up on a provider error without an idempotency key', async () => {
+    worker.failNext('server');
+
+    await expect(
+      runUntilSettled(app.api.generateVideo(PHOTO, 'a cat')),
+    ).rejects.toMatchObject({ code: 'PROVIDER_ERROR', status: 502 });
+    expect(submits()).toBe(1);
+  });
+
+  it('waits out a provider rate limit', async () => {
+    worker.failNext('rate-limit');
+    const startedAt = Date.now();
+
+    const { taskId } = await runUntilSettled(
+      app.api.generateVideo(PHOTO, 'a cat', undefined, undefined, 'clip_1'),
+    );
+
+    expect(taskId).toBe('task_1');
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(10_000);
+  });
+
+  it('reports a failed generation with its error code', async () => {
+    const { taskId } = await runUntilSettled(
+      app.api.generateVideo(PHOTO, 'a cat [unsafe]'),
+    );
+
+    const error = await runUntilSettled(app.api.pollUntilDone(taskId)).catch(
+      (e: unknown) => e,
+    );
+    expect(error).toBeInstanceOf(app.api.GenerationFailedError);
+    expect(error).toMatchObject({ code: 'PROVIDER_REJECTED_CONTENT' });
+  });
+
+  it('surfaces a content rejection on submit as a typed error', async () => {
+    const error = await runUntilSettled(
+      app.api.generateVideo(PHOTO, 'a cat [reject]', undefined, undefined, 'clip_1'),
+    ).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(app.api.WorkerError);
+    expect(error).toMatchObject({ code: 'PROVIDER_REJECTED_CONTENT', status: 422 });
+    expect(submits()).toBe(1);
+  });
+
+  it('treats an unknown task as expired', async () => {
+    await expect(app.api.checkStatus('task_99')).rejects.toBeInstanceOf(
+      app.api.TaskExpiredError,
+    );
+  });
+
+  it('times out a generation that never finishes', async () => {
+    const { taskId } = await runUntilSettled(
+      app.api.generateVideo(PHOTO, 'a cat [stuck]'),
+    );
+
+    await expect(runUntilSettled(app.api.pollUntilDone(taskId))).rejects.toThrow(
+      'Generation timed out',
+    );
+  });
+
+  it('waits longer for 10-second and pro clips', () => {
+    const { pollTimeoutFor } = app.api;
+    const standard = pollTimeoutFor({ duration: 5, mode: 'std' });
+
+    expect(standard).toBe(5 * 60 * 1000);
+    expect(pollTimeoutFor({ duration: 10, mode: 'std' })).toBe(2 * standard);
+    expect(pollTimeoutFor({ duration: 10, mode: 'pro' })).toBe(4 * standard);
+  });
+
+  it('stops polling when cancelled', async () => {
+    const { taskId } = await runUntilSettled(
+      app.api.generateVideo(PHOTO, 'a cat [stuck]'),
+    );
+    const controller = new AbortController();
+    const polling = app.api.pollUntilDone(taskId, undefined, controller.signal);
+    setTimeout(() => controller.abort(), 40_000);
+
+    await expect(runUntilSettled(polling)).rejects.toMatchObject({
+      name: 'AbortError',
+    });
+    const polls = worker.requests.length;
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(worker.requests.length).toBe(polls);
+  });
+
+  it('cancels an upload without submitting', async () => {
+    const controller = new AbortController();
+    const generating = app.api.generateVideo(
+      PHOTO,
+      'a cat',
+      undefined,
+      controller.signal,
+      'clip_1',
+    );
+    controller.abort();
+
+    await expect(runUntilSettled(generating)).rejects.toThrow('Generation cancelled');
+    expect(submits()).toBe(0);
+  });
+
+  it('enhances a prompt with its context', async () => {
+    const enhanced = await runUntilSettled(
+      app.api.enhancePrompt('she dances', ['a ballroom at night'], {
+        name: 'Noir',
+        prompt: 'film noir',
+      }),
+    );
+    expect(enhanced).toContain('She dances.');
+    expect(enhanced).toContain('A ballroom at night.');
+    expect(enhanced).toContain('Film noir.');
+  });
+});
@@ -0,0 +1,69 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_GENERATION_SETTINGS } from '../services/api';
+import { hasContinuityBreak, useClipStore } from '../store/useClipStore';
+
+// The clip store (app/store/useClipStore.ts): where the next clip goes and
+// which frame it continues from.
+
+vi.mock('../services/frames', () => ({
+  extractFrame: vi.fn(),
+  extractLastFrame: vi.fn(async () => null),
+}));
+
+function add(imageUri: string): string {
+  const clips = useClipStore.getState();
+  return clips.addClip(
+    imageUri,
+    'a cat walks',
+    DEFAULT_GENERATION_SETTINGS,
+    clips.getTipId(),
+    null,
+  );
+}
+
+function finish(clipId: string, lastFrameUri: string) {
+  useClipStore.getState().updateClip(clipId, {
+    status: 'done',
+    videoUri: `file:///cache/${clipId}.mp4`,
+    lastFrameUri,
+  });
+}
+
+describe('clip store', () => {
+  beforeEach(() => {
+    useClipStore.setState({
+      projects: [],
+      currentProjectId: null,
+      clips: [],
+      cancelledClips: [],
+    });
+  });
+
+  it('has no frame to continue from while the tip is generating', () => {
+    const first = add('file:///photos/start.png');
+    finish(first, 'file:///frames/first.jpg');
+    expect(useClipStore.getState().getTipClip()?.lastFrameUri).toBe(
+      'file:///frames/first.jpg',
+    );
+
+    const second = add('file:///frames/first.jpg');
+    const { getTipId, getTipClip } = useClipStore.getState();
+    // The next clip would follow `second`, not `first`.
+    expect(getTipId()).toBe(second);
+    expect(getTipClip()?.lastFrameUri).toBeNull();
+  });
+
+  it('continues from the clip it follows without a continuity break', () => {
+    const first = add('file:///photos/start.png');
+    finish(first, 'file:///frames/first.jpg');
+    const second = add('file:///frames/first.jpg');
+    finish(second, 'file:///frames/second.jpg');
+
+    const third = add(useClipStore.getState().getTipClip()!.lastFrameUri!);
+    finish(third, 'file:///frames/third.jpg');
+
+    const branch = useClipStore.getState().getBranch();
+    expect(branch.map((c) => c.id)).toEqual([first, second, third]);
+    expect(branch.some((_, i) => hasContinuityBreak(branch, i))).toBe(false);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_CONTINUITY,
+  PROMPT_BUDGET,
+  buildContextPrompt,
+  type ContinuitySettings,
+} from '../services/continuity';
+
+// The app's continuity strategies (app/services/continuity.ts).
+
+const NOIR = { id: 'builtin:noir', name: 'Noir', prompt: 'film noir' };
+
+function build(
+  prompt: string,
+  previousPrompts: string[],
+  settings: Partial<ContinuitySettings> = {},
+  style: typeof NOIR | null = null,
+) {
+  return buildContextPrompt(
+    { prompt, previousPrompts, settings: { ...DEFAULT_CONTINUITY, ...settings } },
+    style,
+  );
+}
+
+describe('buildContextPrompt', () => {
+  it('sends a first clip as written, with its style', () => {
+    expect(build('a ballroom', [])).toBe('a ballroom');
+    expect(build('a ballroom', [], {}, NOIR)).toBe(
+      'a ballroom\nVisual style: film noir',
+    );
+  });
+
+  it('quotes the last N prompts', () => {
+    const previous = ['she enters', 'she bows', 'the music starts'];
+    expect(build('she dances', previous, {}, NOIR)).toBe(
+      [
+        'Two scenes ago: "she bows"',
+        'Previous scene: "the music starts"',
+        'Current scene (continuing from the last frame): "she dances"',
+        'Maintain smooth visual and motion continuity.',
+        'Visual style: film noir',
+      ].join('\n'),
+    );
+    expect(build('she dances', previous, { lastN: 3 })).toMatch(
+      /^Three scenes ago: "she enters"\n/,
+    );
+  });
+
+  it('sums up the story so far', () => {
+    const prompt = build(
+      'she dances',
+      ['A woman walks in. The crowd parts', 'She bows', 'The music starts'],
+      { strategy: 'summary' },
+    );
+    expect(prompt.split('\n').slice(0, 2)).toEqual([
+      'Story so far: A woman walks in. She bows.',
+      'Previous scene: "The music starts"',
+    ]);
+  });
+
+  it('pins the story bible to every clip', () => {
+    const settings = { strategy: 'story-bible' as const, storyBible: 'Mia, a dancer in red' };
+    expect(build('a ballroom', [], settings)).toBe(
+      'Story bible: Mia, a dancer in red\na ballroom',
+    );
+    expect(build('she dances', ['she enters', 'she bows'], settings)).toMatch(
+      /^Story bible: Mia, a dancer in red\nPrevious scene: "she bows"\nCurrent scene/,
+    );
+  });
+
+  it.each(['last-n', 'summary', 'story-bible'] as const)(
+    '%s keeps within the budget and the prompt whole',
+    (strategy) => {
+      const long = (word: string) => `${word} `.repeat(200) + 'end.';
+      const prompt = build(
+        'she dances',
+        [long('one'), long('two'), long('three'), long('four')],
+        { strategy, lastN: 5, storyBible: long('bible') },
+        NOIR,
+      );
+      expect(prompt.length).toBeLessThanOrEqual(PROMPT_BUDGET);
+      expect(prompt).toContain('"she dances"');
+      expect(prompt).toContain('Visual style: film noir');
+      expect(prompt).toContain('Previous scene: "four');
+    },
+  );
+});
@@ -0,0 +1,191 @@
+import { vi } from 'vitest';
+
+// An in-process stand-in for the worker's HTTP API, answering the routes
+// the API client (services/api.ts) calls the way the worker does. Installed
+// as the global fetch. The worker's own behaviour is tested in its package;
+// this only has to speak the same protocol.
+//
+// Prompts steer a generation:
+//   [reject]  /generate turns it down as PROVIDER_REJECTED_CONTENT
+//   [unsafe]  the task fails with PROVIDER_REJECTED_CONTENT
+//   [stuck]   the task never finishes
+
+export const WORKER_ORIGIN = 'https://worker.test';
+
+// How long a task takes to finish
+const TASK_MS = 20_000;
+const RATE_LIMIT_RETRY_AFTER = 10;
+
+type Task = {
+  prompt: string;
+  startedAt: number;
+  cancelled: boolean;
+};
+
+type Failure = 'server' | 'rate-limit';
+
+export type FakeWorker = {
+  // Every request the client sent, in order
+  requests: { method: string; path: string }[];
+  tasks: Map<string, Task>;
+  // Turn the next `times` /generate calls away before they start a task
+  failNext(failure: Failure, times?: number): void;
+};
+
+function error(code: string, message: string, status: number, headers?: HeadersInit) {
+  return Response.json({ error: message, code }, { status, headers });
+}
+
+// Resolves after `ms`, or rejects as fetch does once `signal` aborts
+function hold(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const aborted = () =>
+      reject(new DOMException('This operation was aborted', 'AbortError'));
+    if (signal?.aborted) return aborted();
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      aborted();
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+const sentence = (text: string) => {
+  const trimmed = text.trim().replace(/\.$/, '');
+  return `${trimmed.charAt(0).toUpperCase()}${trimmed.slice(1)}.`;
+};
+
+export function installFakeWorker(): FakeWorker {
+  const tasks = new Map<string, Task>();
+  const byKey = new Map<string, string>();
+  const videos = new Set<string>();
+  const failures: Failure[] = [];
+  const requests: FakeWorker['requests'] = [];
+
+  function status(taskId: string) {
+    const task = tasks.get(taskId)!;
+    if (task.cancelled) return { status: 'cancelled' };
+    if (task.prompt.includes('[stuck]') || Date.now() - task.startedAt < TASK_MS) {
+      return { status: 'processing' };
+    }
+    if (task.prompt.includes('[unsafe]')) {
+      return { status: 'failed', code: 'PROVIDER_REJECTED_CONTENT' };
+    }
+    const videoId = `video_${taskId}`;
+    videos.add(videoId);
+    return { status: 'completed', videoUrl: `${WORKER_ORIGIN}/videos/${videoId}` };
+  }
+
+  async function generate(request: Request): Promise<Response> {
+    const key = request.headers.get('Idempotency-Key');
+    const started = key ? byKey.get(key) : undefined;
+    if (started) return Response.json({ taskId: started });
+
+    const failure = failures.shift();
+    if (failure === 'server') {
+      return error('PROVIDER_ERROR', 'Provider request failed', 502);
+    }
+    if (failure === 'rate-limit') {
+      return error('PROVIDER_RATE_LIMITED', 'Provider is busy', 429, {
+        'Retry-After': String(RATE_LIMIT_RETRY_AFTER),
+      });
+    }
+
+    const { prompt } = (await request.json()) as { prompt: string };
+    if (prompt.includes('[reject]')) {
+      return error('PROVIDER_REJECTED_CONTENT', 'Prompt rejected', 422);
+    }
+    const taskId = `task_${tasks.size + 1}`;
+    tasks.set(taskId, { prompt, startedAt: Date.now(), cancelled: false });
+    if (key) byKey.set(key, taskId);
+    return Response.json({ taskId });
+  }
+
+  async function route(request: Request, url: URL): Promise<Response> {
+    const [, route, id] = url.pathname.split('/');
+    const method = request.method;
+
+    if (method === 'POST' && route === 'upload') {
+      await request.arrayBuffer();
+      return Response.json({ imageId: `image_${requests.length}` });
+    }
+    if (method === 'POST' && route === 'generate') {
+      return generate(request);
+    }
+    if (method === 'GET' && route === 'status') {
+      if (!tasks.has(id)) return error('TASK_NOT_FOUND', 'Task not found', 404);
+      const wait = Number(url.searchParams.get('wait')) * 1000;
+      const deadline = Date.now() + wait;
+      while (status(id).status === 'processing' && Date.now() < deadline) {
+        await hold(Math.min(1000, deadline - Date.now()), request.signal);
+      }
+      return Response.json(status(id), {
+        headers: wait ? { 'X-Long-Poll': '1' } : undefined,
+      });
+    }
+    if (method === 'POST' && route === 'cancel') {
+      const task = tasks.get(id);
+      if (!task) return error('TASK_NOT_FOUND', 'Task not found', 404);
+      task.cancelled = true;
+      return Response.json({ cancelled: true });
+    }
+    if (method === 'GET' && route === 'videos' && videos.has(id)) {
+      return new Response(new Uint8Array(64), {
+        headers: { 'Content-Type': 'video/mp4' },
+      });
+    }
+    if (method === 'POST' && route === 'enhance-prompt') {
+      const body = (await request.json()) as {
+        prompt: string;
+        previousPrompts: string[];
+        style?: { prompt: string };
+      };
+      const parts = [body.prompt, ...body.previousPrompts.slice(-1)];
+      if (body.style) parts.push(body.style.prompt);
+      return Response.json({ prompt: parts.map(sentence).join(' ') });
+    }
+    // No device credentials: the client falls back to the shared key.
+    return error('NOT_FOUND', 'Not found', 404);
+  }
+
+  vi.stubGlobal('fetch', async (input: RequestInfo | URL, init?: RequestInit) => {
+    const request = new Request(input, init);
+    const url = new URL(request.url);
+    if (url.origin !== WORKER_ORIGIN) {
+      throw new TypeError(`No network in tests: ${request.url}`);
+    }
+    if (request.signal.aborted) {
+      throw new DOMException('This operation was aborted', 'AbortError');
+    }
+    requests.push({ method: request.method, path: url.pathname });
+    return route(request, url);
+  });
+
+  return {
+    requests,
+    tasks,
+    failNext(failure, times = 1) {
+      for (let i = 0; i < times; i++) failures.push(failure);
+    },
+  };
+}
+
+// Drives `promise` to completion under fake timers, skipping through the
+// fake worker's long-poll waits and the client's retry and poll sleeps.
+export async function runUntilSettled<T>(promise: Promise<T>): Promise<T> {
+  let settled = false;
+  const tracked = promise.finally(() => {
+    settled = true;
+  });
+  tracked.catch(() => {});
+  while (!settled) {
+    await vi.advanceTimersByTimeAsync(1_000);
+    // Let request and response bodies make progress too.
+    await new Promise((resolve) => setImmediate(resolve));
+  }
+  return tracked;
+}
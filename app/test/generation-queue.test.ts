@@ -0,0 +1,210 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  DEFAULT_GENERATION_SETTINGS,
+  cancelTask,
+  downloadVideo,
+  generateVideo,
+  pollUntilDone,
+} from '../services/api';
+import { extractLastFrame } from '../services/frames';
+import { useClipStore } from '../store/useClipStore';
+import {
+  DEFAULT_MAX_CONCURRENT,
+  useGenerationQueue,
+} from '../store/useGenerationQueue';
+import { files } from './stubs/expo-file-system';
+
+// The generation queue (app/store/useGenerationQueue.ts), with the worker
+// calls and frame extraction replaced so a test can hold a job at any step.
+
+vi.mock('../services/api', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../services/api')>()),
+  generateVideo: vi.fn(async () => ({ taskId: 'kling:task_1' })),
+  pollUntilDone: vi.fn(async () => 'https://worker.test/videos/new'),
+  downloadVideo: vi.fn(),
+  cancelTask: vi.fn(async () => {}),
+}));
+
+vi.mock('../services/frames', () => ({
+  extractFrame: vi.fn(),
+  extractLastFrame: vi.fn(async () => null),
+}));
+
+const OLD_VIDEO = 'file:///cache/old.mp4';
+const NEW_VIDEO = 'file:///cache/new.mp4';
+
+// A finished clip to regenerate
+function finishedClip(): string {
+  const clips = useClipStore.getState();
+  clips.createProject();
+  const clipId = clips.addClip(
+    'file:///photos/start.png',
+    'a cat walks',
+    DEFAULT_GENERATION_SETTINGS,
+    null,
+    null,
+  );
+  clips.updateClip(clipId, { status: 'done', videoUri: OLD_VIDEO });
+  files.set(OLD_VIDEO, new Uint8Array(8));
+  return clipId;
+}
+
+function regenerate(clipId: string): string {
+  return useGenerationQueue.getState().enqueue({
+    clipId,
+    kind: 'regenerate',
+    imageUri: 'file:///photos/start.png',
+    prompt: 'a cat runs',
+    fullPrompt: 'a cat runs',
+    settings: DEFAULT_GENERATION_SETTINGS,
+  });
+}
+
+// A clip placed by addClip, waiting for its `create` job
+function newClip(): string {
+  const clips = useClipStore.getState();
+  if (!clips.currentProjectId) clips.createProject();
+  return clips.addClip(
+    'file:///photos/start.png',
+    'a cat walks',
+    DEFAULT_GENERATION_SETTINGS,
+    clips.getTipId(),
+    null,
+  );
+}
+
+function create(clipId: string): string {
+  return useGenerationQueue.getState().enqueue({
+    clipId,
+    kind: 'create',
+    imageUri: 'file:///photos/start.png',
+    prompt: 'a cat walks',
+    fullPrompt: 'a cat walks',
+    settings: DEFAULT_GENERATION_SETTINGS,
+  });
+}
+
+const clip = (id: string) =>
+  useClipStore.getState().clips.find((c) => c.id === id);
+
+// Holds the next download until `finish` is called
+function holdDownload() {
+  let finish!: () => void;
+  vi.mocked(downloadVideo).mockImplementationOnce(
+    () =>
+      new Promise((resolve) => {
+        finish = () => {
+          files.set(NEW_VIDEO, new Uint8Array(8));
+          resolve(NEW_VIDEO);
+        };
+      }),
+  );
+  return () => finish();
+}
+
+// Holds the next submit until `fail` is called
+function holdSubmit() {
+  let fail!: () => void;
+  vi.mocked(generateVideo).mockImplementationOnce(
+    () =>
+      new Promise((_, reject) => {
+        fail = () => reject(new Error('Generation failed'));
+      }),
+  );
+  return () => fail();
+}
+
+describe('generation queue', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    files.clear();
+    useClipStore.setState({
+      projects: [],
+      currentProjectId: null,
+      clips: [],
+      cancelledClips: [],
+    });
+    useGenerationQueue.setState({ jobs: [], maxConcurrent: DEFAULT_MAX_CONCURRENT });
+  });
+
+  it('swaps a regenerated video into its clip', async () => {
+    const clipId = finishedClip();
+    const finish = holdDownload();
+    regenerate(clipId);
+
+    await vi.waitFor(() => expect(downloadVideo).toHaveBeenCalled());
+    finish();
+
+    await vi.waitFor(() => expect(clip(clipId)?.videoUri).toBe(NEW_VIDEO));
+    expect(useGenerationQueue.getState().jobs).toHaveLength(0);
+    expect(files.has(OLD_VIDEO)).toBe(false);
+  });
+
+  it('keeps a clip cancelled while downloading as it was', async () => {
+    const clipId = finishedClip();
+    const finish = holdDownload();
+    const jobId = regenerate(clipId);
+
+    await vi.waitFor(() => expect(downloadVideo).toHaveBeenCalled());
+    useGenerationQueue.getState().cancel(jobId);
+    finish();
+
+    // The late download is dropped, not swapped in.
+    await vi.waitFor(() => expect(files.has(NEW_VIDEO)).toBe(false));
+    expect(extractLastFrame).not.toHaveBeenCalled();
+    expect(clip(clipId)?.videoUri).toBe(OLD_VIDEO);
+    expect(files.has(OLD_VIDEO)).toBe(true);
+    // Kept aside once, to recover from the worker later
+    expect(useClipStore.getState().cancelledClips).toMatchObject([
+      { taskId: 'kling:task_1', kind: 'regenerate' },
+    ]);
+  });
+
+  it('drops the video of a clip deleted while it was regenerated', async () => {
+    const clipId = finishedClip();
+    const finish = holdDownload();
+    regenerate(clipId);
+
+    await vi.waitFor(() => expect(downloadVideo).toHaveBeenCalled());
+    useClipStore.getState().deleteClip(clipId);
+    finish();
+
+    await vi.waitFor(() => expect(useGenerationQueue.getState().jobs).toHaveLength(0));
+    expect(files.has(NEW_VIDEO)).toBe(false);
+    expect(clip(clipId)).toBeUndefined();
+  });
+
+  it('runs at most maxConcurrent jobs, starting the next as one ends', async () => {
+    useGenerationQueue.getState().setMaxConcurrent(1);
+    const failFirst = holdSubmit();
+    holdSubmit();
+    const first = create(newClip());
+    const second = create(newClip());
+
+    expect(generateVideo).toHaveBeenCalledTimes(1);
+    const status = (id: string) =>
+      useGenerationQueue.getState().jobs.find((j) => j.id === id)?.status;
+    expect(status(second)).toBe('queued');
+
+    failFirst();
+    await vi.waitFor(() => expect(generateVideo).toHaveBeenCalledTimes(2));
+    expect(status(first)).toBe('failed');
+    expect(status(second)).toBe('running');
+  });
+
+  it('cancels a create job, removing its clip and stopping its task', async () => {
+    const clipId = newClip();
+    vi.mocked(pollUntilDone).mockImplementationOnce(() => new Promise(() => {}));
+    const jobId = create(clipId);
+
+    await vi.waitFor(() => expect(pollUntilDone).toHaveBeenCalled());
+    useGenerationQueue.getState().cancel(jobId);
+
+    expect(useGenerationQueue.getState().jobs).toHaveLength(0);
+    expect(clip(clipId)).toBeUndefined();
+    expect(cancelTask).toHaveBeenCalledWith('kling:task_1');
+    expect(useClipStore.getState().cancelledClips).toMatchObject([
+      { taskId: 'kling:task_1', kind: 'create', clip: { id: clipId } },
+    ]);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import {
+  BUILT_IN_PRESETS,
+  PresetImportError,
+  insertTemplate,
+  parsePresetLibrary,
+  placeholders,
+  presetSettings,
+  unapplyPresetSettings,
+} from '../services/presets';
+import { DEFAULT_GENERATION_SETTINGS } from '../services/api';
+
+// The app's preset helpers (app/services/presets.ts).
+
+describe('prompt templates', () => {
+  it('lists the placeholders left to fill in, once each', () => {
+    expect(
+      placeholders('Orbit {subject} as {action}, then back to {subject}'),
+    ).toEqual(['subject', 'action']);
+    expect(placeholders('Orbit the lighthouse as waves crash')).toEqual([]);
+  });
+
+  it('adds a template after what was already written', () => {
+    expect(insertTemplate('', 'Slow pan across {subject}')).toBe(
+      'Slow pan across {subject}',
+    );
+    expect(insertTemplate('A foggy harbour', 'Slow pan across {subject}')).toBe(
+      'A foggy harbour. Slow pan across {subject}',
+    );
+  });
+});
+
+describe('parsePresetLibrary', () => {
+  it('reads presets and templates', () => {
+    const library = parsePresetLibrary(
+      JSON.stringify({
+        presets: [
+          {
+            name: 'Pastel',
+            prompt: 'soft pastel colors',
+            settings: { mode: 'pro', duration: 10, cfgScale: 0.7 },
+          },
+        ],
+        templates: [{ name: 'Crane', template: 'Crane up to {scene}' }],
+      }),
+    );
+
+    expect(library.presets).toEqual([
+      {
+        name: 'Pastel',
+        prompt: 'soft pastel colors',
+        negativePrompt: '',
+        settings: { mode: 'pro', duration: 10, cfgScale: 0.7 },
+      },
+    ]);
+    expect(library.templates).toEqual([
+      { name: 'Crane', template: 'Crane up to {scene}' },
+    ]);
+  });
+
+  it('reads a bare list as presets and drops settings the app lacks', () => {
+    const library = parsePresetLibrary(
+      JSON.stringify([
+        {
+          name: 'Retro',
+          prompt: 'VHS look',
+          settings: { model: 'some-other-model', duration: 7, mode: 'pro' },
+        },
+      ]),
+    );
+
+    expect(library.presets[0].settings).toEqual({ mode: 'pro' });
+    expect(library.templates).toEqual([]);
+  });
+
+  it.each([
+    ['not json', "This isn't valid JSON."],
+    ['{}', 'There are no presets or templates in it.'],
+    ['{"presets": {}}', '"presets" must be a list of objects'],
+    ['[{"name": "No prompt"}]', '"prompt" must be text'],
+    [`[{"name": "${'x'.repeat(41)}", "prompt": "p"}]`, '"name" is longer than 40 characters'],
+  ])('rejects %s', (json, message) => {
+    expect(() => parsePresetLibrary(json)).toThrow(PresetImportError);
+    expect(() => parsePresetLibrary(json)).toThrow(message);
+  });
+});
+
+describe('preset settings', () => {
+  // Cinematic: pro mode, a higher cfg scale and its own negative prompt
+  const preset = BUILT_IN_PRESETS[0];
+  const before = DEFAULT_GENERATION_SETTINGS;
+
+  it('puts back what picking a preset changed', () => {
+    const applied = presetSettings(preset);
+    const current = { ...before, ...applied };
+
+    expect({ ...current, ...unapplyPresetSettings(applied, before, current) }).toEqual(
+      before,
+    );
+  });
+
+  it('keeps settings changed after the preset was picked', () => {
+    const applied = presetSettings(preset);
+    const current = { ...before, ...applied, negativePrompt: 'text, watermark' };
+
+    expect(unapplyPresetSettings(applied, before, current)).not.toHaveProperty(
+      'negativePrompt',
+    );
+  });
+});
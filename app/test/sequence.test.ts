@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildTimeline,
+  cutPoints,
+  firstMismatchedClip,
+  formatClock,
+  locate,
+  nextClipIndex,
+} from '../services/sequence';
+
+// The app's sequence timeline (app/services/sequence.ts).
+
+describe('sequence timeline', () => {
+  const timeline = buildTimeline([5000, 10000, 5040]);
+
+  it('lays clips end to end', () => {
+    expect(timeline.starts).toEqual([0, 5000, 15000]);
+    expect(timeline.totalMs).toBe(20040);
+  });
+
+  it('maps a sequence time to a clip', () => {
+    expect(locate(timeline, 0)).toEqual({ index: 0, offsetMs: 0 });
+    expect(locate(timeline, 4999)).toEqual({ index: 0, offsetMs: 4999 });
+    expect(locate(timeline, 5000)).toEqual({ index: 1, offsetMs: 0 });
+    expect(locate(timeline, 16000)).toEqual({ index: 2, offsetMs: 1000 });
+    expect(locate(timeline, -50)).toEqual({ index: 0, offsetMs: 0 });
+    expect(locate(timeline, 99999)).toEqual({ index: 2, offsetMs: 5040 });
+    expect(locate(buildTimeline([]), 100)).toEqual({ index: 0, offsetMs: 0 });
+  });
+
+  it('picks the next clip for each loop mode', () => {
+    expect(nextClipIndex(0, 3, 'off')).toBe(1);
+    expect(nextClipIndex(2, 3, 'off')).toBeNull();
+    expect(nextClipIndex(2, 3, 'sequence')).toBe(0);
+    expect(nextClipIndex(1, 3, 'clip')).toBe(1);
+    expect(nextClipIndex(0, 0, 'sequence')).toBeNull();
+  });
+
+  it('formats clock times', () => {
+    expect(formatClock(0)).toBe('0:00');
+    expect(formatClock(83_999)).toBe('1:23');
+  });
+});
+
+describe('sequence export', () => {
+  const std = { model: 'kling-v2-6', mode: 'std' } as const;
+
+  it('finds the first clip encoded differently from the first', () => {
+    expect(firstMismatchedClip([std, std, std])).toBeNull();
+    expect(firstMismatchedClip([std, { ...std, mode: 'pro' }, std])).toBe(1);
+    expect(firstMismatchedClip([std, std, { ...std, model: 'kling-v1-6' }])).toBe(2);
+  });
+
+  it('cuts a clip at its continuation frame where the next follows on', () => {
+    const clip = (id: string, sourceClipId: string | null, frameTimeMs: number | null) => ({
+      id,
+      sourceClipId,
+      frameTimeMs,
+      continuityBreak: false,
+    });
+
+    expect(
+      cutPoints([clip('a', null, 4000), clip('b', 'a', null), clip('c', 'b', 2500)]),
+    ).toEqual([4000, null, null]);
+    // The next clip doesn't start from the picked frame
+    expect(cutPoints([clip('a', null, 4000), clip('b', null, null)])).toEqual([null, null]);
+    expect(
+      cutPoints([clip('a', null, 4000), { ...clip('b', 'a', null), continuityBreak: true }]),
+    ).toEqual([null, null]);
+  });
+});
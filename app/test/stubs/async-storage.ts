@@ -0,0 +1,15 @@
+// In-memory AsyncStorage.
+
+const items = new Map<string, string>();
+
+export default {
+  async getItem(key: string): Promise<string | null> {
+    return items.get(key) ?? null;
+  },
+  async setItem(key: string, value: string): Promise<void> {
+    items.set(key, value);
+  },
+  async removeItem(key: string): Promise<void> {
+    items.delete(key);
+  },
+};
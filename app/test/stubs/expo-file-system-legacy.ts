@@ -0,0 +1,49 @@
+import { files } from './expo-file-system';
+
+// Stand-in for expo-file-system/legacy's upload task: sends the file's bytes
+// with fetch. Like the real one, a cancelled upload resolves to undefined.
+
+export enum FileSystemUploadType {
+  BINARY_CONTENT = 0,
+  MULTIPART = 1,
+}
+
+type UploadOptions = {
+  httpMethod?: string;
+  uploadType?: FileSystemUploadType;
+  headers?: Record<string, string>;
+};
+
+export function createUploadTask(
+  url: string,
+  fileUri: string,
+  options: UploadOptions = {},
+) {
+  const controller = new AbortController();
+  return {
+    async uploadAsync() {
+      const body = files.get(fileUri);
+      if (!body) throw new Error(`No such file: ${fileUri}`);
+      try {
+        const response = await fetch(url, {
+          method: options.httpMethod ?? 'POST',
+          headers: options.headers,
+          // Node's fetch takes bytes; React Native's types don't list them.
+          body: body as unknown as BodyInit,
+          signal: controller.signal,
+        });
+        return {
+          status: response.status,
+          headers: Object.fromEntries(response.headers),
+          body: await response.text(),
+        };
+      } catch (error) {
+        if (controller.signal.aborted) return undefined;
+        throw error;
+      }
+    },
+    async cancelAsync() {
+      controller.abort();
+    },
+  };
+}
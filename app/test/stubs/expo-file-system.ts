@@ -0,0 +1,41 @@
+// In-memory stand-in for the parts of expo-file-system the app's API
+// client uses. Tests put input images in `files`; downloads land there too.
+
+export const files = new Map<string, Uint8Array>();
+
+export const Paths = { cache: 'file:///cache' };
+
+export class File {
+  readonly uri: string;
+
+  constructor(...parts: string[]) {
+    this.uri = parts.join('/');
+  }
+
+  get exists(): boolean {
+    return files.has(this.uri);
+  }
+
+  async bytes(): Promise<Uint8Array> {
+    const data = files.get(this.uri);
+    if (!data) throw new Error(`No such file: ${this.uri}`);
+    return data;
+  }
+
+  delete(): void {
+    files.delete(this.uri);
+  }
+
+  static async downloadFileAsync(
+    url: string,
+    destination: File,
+    options: { headers?: Record<string, string>; idempotent?: boolean } = {},
+  ): Promise<File> {
+    const response = await fetch(url, { headers: options.headers });
+    if (!response.ok) {
+      throw new Error(`Download failed with status ${response.status}`);
+    }
+    files.set(destination.uri, new Uint8Array(await response.arrayBuffer()));
+    return destination;
+  }
+}
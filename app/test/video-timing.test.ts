@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { readVideoTiming } from '../services/videoTiming';
+
+// The app's MP4 timing reader (app/services/videoTiming.ts), on a minimal
+// MP4 built here: just the boxes the reader walks, with no media.
+
+function box(type: string, ...payload: Uint8Array[]): Uint8Array {
+  const size = 8 + payload.reduce((n, p) => n + p.length, 0);
+  const bytes = new Uint8Array(size);
+  new DataView(bytes.buffer).setUint32(0, size);
+  bytes.set([...type].map((c) => c.charCodeAt(0)), 4);
+  let offset = 8;
+  for (const p of payload) {
+    bytes.set(p, offset);
+    offset += p.length;
+  }
+  return bytes;
+}
+
+function words(...values: number[]): Uint8Array {
+  const bytes = new Uint8Array(values.length * 4);
+  values.forEach((v, i) => new DataView(bytes.buffer).setUint32(i * 4, v));
+  return bytes;
+}
+
+const ascii = (text: string) => new TextEncoder().encode(text);
+
+// Version 0 mvhd/mdhd: version and flags, creation and modification times,
+// then timescale and duration
+const times = (type: string, timescale: number, duration: number) =>
+  box(type, words(0, 0, 0, timescale, duration));
+
+// A video track of `frames` frames at 10 fps, after an audio track
+function mp4(frames = 100, movieDuration = frames * 100): Uint8Array {
+  const track = (handler: string, stts: Uint8Array) =>
+    box(
+      'trak',
+      box(
+        'mdia',
+        times('mdhd', 10_240, frames * 1024),
+        box('hdlr', words(0, 0), ascii(handler)),
+        box('minf', box('stbl', stts)),
+      ),
+    );
+  const moov = box(
+    'moov',
+    times('mvhd', 1000, movieDuration),
+    track('soun', box('stts', words(0, 1, 500, 1024))),
+    track('vide', box('stts', words(0, 1, frames, 1024))),
+  );
+  return new Uint8Array([
+    ...box('ftyp', ascii('isom')),
+    ...box('mdat', new Uint8Array(32)),
+    ...moov,
+  ]);
+}
+
+function timingOf(bytes: Uint8Array) {
+  return readVideoTiming((offset, length) => bytes.subarray(offset, offset + length), bytes.length);
+}
+
+describe('readVideoTiming', () => {
+  it('reads the duration and last frame of the video track', () => {
+    expect(timingOf(mp4())).toEqual({ durationMs: 10_000, lastFrameMs: 9900 });
+  });
+
+  it('falls back to the track length without a movie duration', () => {
+    expect(timingOf(mp4(50, 0))).toEqual({
+      durationMs: 5000,
+      lastFrameMs: 4900,
+    });
+  });
+
+  it('gives up on files without a moov box', () => {
+    expect(timingOf(new TextEncoder().encode('not a video at all'))).toBeNull();
+    expect(timingOf(mp4().subarray(0, 64))).toBeNull();
+  });
+});
@@ -0,0 +1,27 @@
+import { defineConfig } from 'vitest/config';
+
+// Unit tests for the app's services and stores. They run in Node, so Expo
+// and React Native imports resolve to the in-memory stand-ins in
+// test/stubs.
+const stub = (name: string) =>
+  new URL(`./test/stubs/${name}.ts`, import.meta.url).pathname;
+
+export default defineConfig({
+  resolve: {
+    alias: [
+      { find: /^expo-file-system\/legacy$/, replacement: stub('expo-file-system-legacy') },
+      { find: /^expo-file-system$/, replacement: stub('expo-file-system') },
+      { find: /^expo-secure-store$/, replacement: stub('expo-secure-store') },
+      {
+        find: /^@react-native-async-storage\/async-storage$/,
+        replacement: stub('async-storage'),
+      },
+    ],
+  },
+  test: {
+    include: ['test/**/*.test.ts'],
+    env: {
+      EXPO_PUBLIC_WORKER_URL: 'https://worker.test',
+    },
+  },
+});
@@ -0,0 +1,320 @@
+import type { Env } from './env';
+import { errorResponse } from './errors';
+import { getClientId } from './tasks';
+import {
+  base64url,
+  fromBase64url,
+  hmacSha256,
+  randomToken,
+  secretsEqual,
+  sha256Hex,
+  timingSafeEqual,
+} from './signing';
+
+// ---------------------------------------------------------------------------
+// Device credentials
+// ---------------------------------------------------------------------------
+// Each app install registers once (POST /register) and gets:
+//   - an access token, an HS256 JWT signed with AUTH_SECRET that names the
+//     device and expires after 15 minutes, sent as `Authorization: Bearer`;
+//   - a refresh token, "<deviceId>.<random>", traded at POST /refresh for a
+//     new pair. Only its hash is stored, and every refresh replaces it.
+// The device id is also the client id that scopes tasks, videos and quotas,
+// so a device can't pass itself off as another by changing a header.
+//
+// POST /devices/:id/revoke (with X-Admin-Key) blocks a device. Every request
+// re-reads the device record, so this takes effect straight away rather
+// than when the access token expires.
+// Revoking blocks the device, not the person: a client that throws its
+// credentials away can register as a new device, within /register's
+// per-address limits.
+//
+// With AUTH_SECRET set, APP_API_KEY only gates /register. Without it the
+// worker keeps the old scheme: the shared APP_API_KEY plus X-Client-Id.
+// ---------------------------------------------------------------------------
+
+const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+// A device that doesn't refresh for this long has to register again.
+const DEVICE_TTL_SECONDS = 90 * 24 * 60 * 60;
+
+export function authEnabled(env: Env): boolean {
+  return !!env.AUTH_SECRET;
+}
+
+// ---------------------------------------------------------------------------
+// Device registry
+// ---------------------------------------------------------------------------
+
+type DeviceRecord = {
+  deviceId: string;
+  // SHA-256 of the secret half of the current refresh token
+  refreshTokenHash: string;
+  createdAt: number;
+  refreshedAt: number;
+  revokedAt?: number;
+};
+
+interface DeviceStore {
+  get(deviceId: string): Promise<DeviceRecord | null>;
+  put(record: DeviceRecord): Promise<void>;
+}
+
+const KEY_PREFIX = 'device:';
+
+class KvDeviceStore implements DeviceStore {
+  constructor(private readonly kv: KVNamespace) {}
+
+  async get(deviceId: string): Promise<DeviceRecord | null> {
+    return this.kv.get<DeviceRecord>(KEY_PREFIX + deviceId, 'json');
+  }
+
+  async put(record: DeviceRecord): Promise<void> {
+    await this.kv.put(KEY_PREFIX + record.deviceId, JSON.stringify(record), {
+      expirationTtl: DEVICE_TTL_SECONDS,
+    });
+  }
+}
+
+class MemoryDeviceStore implements DeviceStore {
+  private readonly records = new Map<string, DeviceRecord>();
+
+  async get(deviceId: string): Promise<DeviceRecord | null> {
+    const record = this.records.get(deviceId);
+    if (!record) return null;
+    if (Date.now() - record.refreshedAt > DEVICE_TTL_SECONDS * 1000) {
+      this.records.delete(deviceId);
+      return null;
+    }
+    return { ...record };
+  }
+
+  async put(record: DeviceRecord): Promise<void> {
+    this.records.set(record.deviceId, { ...record });
+  }
+}
+
+// One per isolate, so devices survive between requests handled by it.
+let memoryStore: MemoryDeviceStore | null = null;
+
+function getDeviceStore(env: Env): DeviceStore {
+  if (env.DEVICES) {
+    return new KvDeviceStore(env.DEVICES);
+  }
+  memoryStore ??= new MemoryDeviceStore();
+  return memoryStore;
+}
+
+// ---------------------------------------------------------------------------
+// Tokens
+// ---------------------------------------------------------------------------
+
+type AccessClaims = { sub: string; iat: number; exp: number };
+
+async function signAccessToken(env: Env, deviceId: string): Promise<{
+  accessToken: string;
+  expiresAt: number;
+}> {
+  const now = Math.floor(Date.now() / 1000);
+  const claims: AccessClaims = {
+    sub: deviceId,
+    iat: now,
+    exp: now + ACCESS_TOKEN_TTL_SECONDS,
+  };
+  const signingInput = `${base64url(
+    JSON.stringify({ alg: 'HS256', typ: 'JWT' }),
+  )}.${base64url(JSON.stringify(claims))}`;
+  const sig = base64url(await hmacSha256(env.AUTH_SECRET!, signingInput));
+  return { accessToken: `${signingInput}.${sig}`, expiresAt: claims.exp * 1000 };
+}
+
+type TokenCheck =
+  | { ok: true; deviceId: string }
+  | { ok: false; error: string };
+
+async function verifyAccessToken(env: Env, token: string): Promise<TokenCheck> {
+  const [header, payload, sig, ...extra] = token.split('.');
+  if (!header || !payload || !sig || extra.length > 0) {
+    return { ok: false, error: 'Invalid access token' };
+  }
+
+  const expected = base64url(
+    await hmacSha256(env.AUTH_SECRET!, `${header}.${payload}`),
+  );
+  if (!timingSafeEqual(sig, expected)) {
+    return { ok: false, error: 'Invalid access token' };
+  }
+
+  let claims: Partial<AccessClaims>;
+  try {
+    claims = JSON.parse(fromBase64url(payload) ?? '');
+  } catch {
+    return { ok: false, error: 'Invalid access token' };
+  }
+  if (typeof claims.sub !== 'string' || typeof claims.exp !== 'number') {
+    return { ok: false, error: 'Invalid access token' };
+  }
+  if (claims.exp * 1000 <= Date.now()) {
+    return { ok: false, error: 'Access token expired' };
+  }
+  return { ok: true, deviceId: claims.sub };
+}
+
+// Issue a fresh access/refresh pair, replacing the device's refresh token.
+async function issueCredentials(
+  env: Env,
+  device: Omit<DeviceRecord, 'refreshTokenHash' | 'refreshedAt'>,
+): Promise<Response> {
+  const secret = randomToken();
+  await getDeviceStore(env).put({
+    ...device,
+    refreshTokenHash: await sha256Hex(secret),
+    refreshedAt: Date.now(),
+  });
+  const { accessToken, expiresAt } = await signAccessToken(env, device.deviceId);
+  return Response.json({
+    deviceId: device.deviceId,
+    accessToken,
+    expiresAt,
+    refreshToken: `${device.deviceId}.${secret}`,
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Route handlers
+// ---------------------------------------------------------------------------
+
+// POST /register
+// Every registration gets a new device id. An install's old X-Client-Id
+// is never taken over: it was never secret, so knowing one proves nothing
+// about owning it, and letting a caller name its id would hand an unclaimed
+// id's tasks and quota to whoever guessed it first.
+export async function handleRegister(
+  request: Request,
+  env: Env,
+): Promise<Response> {
+  if (!authEnabled(env)) {
+    return errorResponse(
+      'NOT_FOUND',
+      'Device registration is not enabled',
+      404,
+    );
+  }
+  if (
+    env.APP_API_KEY &&
+    !(await secretsEqual(request.headers.get('X-API-Key') ?? '', env.APP_API_KEY))
+  ) {
+    return errorResponse('UNAUTHORIZED', 'Unauthorized', 401);
+  }
+
+  return issueCredentials(env, {
+    deviceId: crypto.randomUUID(),
+    createdAt: Date.now(),
+  });
+}
+
+// POST /refresh { refreshToken }
+export async function handleRefresh(
+  request: Request,
+  env: Env,
+): Promise<Response> {
+  if (!authEnabled(env)) {
+    return errorResponse(
+      'NOT_FOUND',
+      'Device registration is not enabled',
+      404,
+    );
+  }
+
+  const body = (await request.json().catch(() => ({}))) as {
+    refreshToken?: unknown;
+  };
+  const token = typeof body.refreshToken === 'string' ? body.refreshToken : '';
+  const dot = token.indexOf('.');
+  const device = dot > 0 ? await getDeviceStore(env).get(token.slice(0, dot)) : null;
+
+  if (
+    !device ||
+    !timingSafeEqual(await sha256Hex(token.slice(dot + 1)), device.refreshTokenHash)
+  ) {
+    return errorResponse('UNAUTHORIZED', 'Invalid refresh token', 401);
+  }
+  if (device.revokedAt) {
+    return errorResponse('DEVICE_REVOKED', 'Device revoked', 403);
+  }
+
+  return issueCredentials(env, device);
+}
+
+// POST /devices/:id/revoke, with X-Admin-Key. Only available when
+// ADMIN_KEY is set.
+export async function handleRevoke(
+  request: Request,
+  deviceId: string,
+  env: Env,
+): Promise<Response> {
+  if (!env.ADMIN_KEY) {
+    return errorResponse('NOT_FOUND', 'Not found', 404);
+  }
+  if (!(await secretsEqual(request.headers.get('X-Admin-Key') ?? '', env.ADMIN_KEY))) {
+    return errorResponse('UNAUTHORIZED', 'Unauthorized', 401);
+  }
+
+  const store = getDeviceStore(env);
+  const device = await store.get(deviceId);
+  if (!device) {
+    return errorResponse('NOT_FOUND', 'Device not found', 404);
+  }
+  await store.put({ ...device, revokedAt: device.revokedAt ?? Date.now() });
+  return Response.json({ ok: true });
+}
+
+// ---------------------------------------------------------------------------
+// Request authentication
+// ---------------------------------------------------------------------------
+
+export type AuthResult =
+  | { ok: true; clientId: string | null }
+  | { ok: false; response: Response };
+
+// Works out who is calling: the device behind the bearer token, or — in
+// the old scheme — whoever holds APP_API_KEY, identified by X-Client-Id.
+export async function authenticate(
+  request: Request,
+  env: Env,
+): Promise<AuthResult> {
+  const unauthorized = (error: string): AuthResult => ({
+    ok: false,
+    response: errorResponse('UNAUTHORIZED', error, 401),
+  });
+
+  if (!authEnabled(env)) {
+    if (
+      env.APP_API_KEY &&
+      !(await secretsEqual(request.headers.get('X-API-Key') ?? '', env.APP_API_KEY))
+    ) {
+      return unauthorized('Unauthorized');
+    }
+    return { ok: true, clientId: getClientId(request) };
+  }
+
+  const header = request.headers.get('Authorization') ?? '';
+  if (!header.startsWith('Bearer ')) {
+    return unauthorized('Access token required');
+  }
+  const check = await verifyAccessToken(env, header.slice('Bearer '.length));
+  if (!check.ok) {
+    return unauthorized(check.error);
+  }
+
+  const device = await getDeviceStore(env).get(check.deviceId);
+  if (!device) {
+    return unauthorized('Unknown device');
+  }
+  if (device.revokedAt) {
+    return {
+      ok: false,
+      response: errorResponse('DEVICE_REVOKED', 'Device revoked', 403),
+    };
+  }
+  return { ok: true, clientId: device.deviceId };
+}
@@ -0,0 +1,71 @@
+import type { Env } from './env';
+import { hmacSha256, timingSafeEqual, toHex } from './signing';
+
+// ---------------------------------------------------------------------------
+// Provider completion callbacks
+// ---------------------------------------------------------------------------
+// Kling doesn't sign its callbacks, so we sign the URL we hand it instead:
+//   <origin>/callback/<provider>/<nonce>?sig=<HMAC-SHA256(provider/nonce)>
+// Only URLs minted by this worker (with CALLBACK_SECRET) verify, so a third
+// party can't forge a "completed" result for someone's task. Each task gets
+// its own nonce, stored on its record, and a callback is only applied to
+// the task its URL was minted for — holding one valid URL doesn't let
+// anyone report results (and video URLs to fetch) for other tasks.
+//
+// Callbacks are disabled entirely when CALLBACK_SECRET is not set — the
+// worker then falls back to polling the provider.
+// ---------------------------------------------------------------------------
+
+const CALLBACK_PATH = '/callback/';
+
+async function sign(secret: string, message: string): Promise<string> {
+  return toHex(await hmacSha256(secret, message));
+}
+
+export function callbacksEnabled(env: Env): boolean {
+  return !!env.CALLBACK_SECRET;
+}
+
+// A callback URL for one task, and the nonce to store on its record.
+export async function createCallbackUrl(
+  env: Env,
+  workerOrigin: string,
+  providerName: string,
+): Promise<{ url: string; nonce: string }> {
+  const nonce = crypto.randomUUID();
+  const sig = await sign(env.CALLBACK_SECRET!, `${providerName}/${nonce}`);
+  return {
+    url: `${workerOrigin}${CALLBACK_PATH}${providerName}/${nonce}?sig=${sig}`,
+    nonce,
+  };
+}
+
+export function isCallbackPath(pathname: string): boolean {
+  return pathname.startsWith(CALLBACK_PATH);
+}
+
+// Returns the provider name and nonce if the callback URL carries a valid
+// signature.
+export async function verifyCallbackUrl(
+  env: Env,
+  url: URL,
+): Promise<{ providerName: string; nonce: string } | null> {
+  if (!env.CALLBACK_SECRET) return null;
+
+  const [providerName, nonce, ...extra] = url.pathname
+    .slice(CALLBACK_PATH.length)
+    .split('/');
+  const sig = url.searchParams.get('sig');
+  if (!providerName || !nonce || extra.length > 0 || !sig) return null;
+
+  const expected = await sign(env.CALLBACK_SECRET, `${providerName}/${nonce}`);
+  return timingSafeEqual(sig, expected) ? { providerName, nonce } : null;
+}
+
+// Whether a verified callback's nonce is the one minted for `record`.
+export function callbackMatchesTask(
+  nonce: string,
+  record: { callbackNonce?: string },
+): boolean {
+  return !!record.callbackNonce && timingSafeEqual(nonce, record.callbackNonce);
+}
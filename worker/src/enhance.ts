@@ -0,0 +1,114 @@
+import type { Env } from './env';
+import { ApiError, errorResponse } from './errors';
+import { getEnhancer } from './enhancers';
+
+// ---------------------------------------------------------------------------
+// POST /enhance-prompt — turn a short prompt into a fuller one
+// ---------------------------------------------------------------------------
+// Body: { prompt: string, previousPrompts?: string[],
+//         style?: { name: string, prompt: string } }
+// Returns { prompt, enhancer }. The app shows the result for the user to
+// accept or edit; nothing is generated here. Only the last few previous
+// prompts are passed on, which is as much continuity as a single shot needs;
+// being context, a long one is shortened rather than refused.
+// ---------------------------------------------------------------------------
+
+const MAX_INPUT_LENGTH = 1000;
+const MAX_PREVIOUS_PROMPTS = 20;
+const PREVIOUS_PROMPTS_USED = 3;
+const MAX_STYLE_LENGTH = 300;
+// No longer than an input, so an accepted result can be enhanced again.
+// That also leaves room under /generate's limit for the continuity context
+// the app adds around it.
+const MAX_OUTPUT_LENGTH = MAX_INPUT_LENGTH;
+
+const invalid = (message: string) =>
+  new ApiError('INVALID_REQUEST', message, 400);
+
+function text(value: unknown, field: string, max: number): string {
+  if (typeof value !== 'string' || !value.trim()) {
+    throw invalid(`${field} required`);
+  }
+  if (value.length > max) {
+    throw new ApiError(
+      'PROMPT_TOO_LONG',
+      `${field} must be at most ${max} characters`,
+      400,
+      { maxLength: max, length: value.length },
+    );
+  }
+  return value.trim();
+}
+
+// Cuts `value` at the last sentence end that fits in `max`
+function shorten(value: string, max: number): string {
+  if (value.length <= max) return value;
+  const cut = value.slice(0, max);
+  const end = cut.lastIndexOf('.');
+  return end > 0 ? cut.slice(0, end + 1) : cut;
+}
+
+// LLMs like to wrap their answer in quotes or a "Prompt:" label.
+export function cleanEnhancedPrompt(output: string): string {
+  const cleaned = output
+    .trim()
+    .replace(/^["'“]([\s\S]*)["'”]$/, '$1')
+    .replace(/^(?:enhanced\s+)?prompt:\s*/i, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return shorten(cleaned, MAX_OUTPUT_LENGTH);
+}
+
+export async function handleEnhancePrompt(
+  request: Request,
+  env: Env,
+): Promise<Response> {
+  const body = await request.json().catch(() => undefined);
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return errorResponse('INVALID_REQUEST', 'Body must be a JSON object', 400);
+  }
+  const { prompt, previousPrompts = [], style } = body as Record<
+    string,
+    unknown
+  >;
+
+  if (
+    !Array.isArray(previousPrompts) ||
+    previousPrompts.length > MAX_PREVIOUS_PROMPTS
+  ) {
+    throw invalid(
+      `previousPrompts must be a list of at most ${MAX_PREVIOUS_PROMPTS} prompts`,
+    );
+  }
+  if (
+    style !== undefined &&
+    (typeof style !== 'object' || style === null || Array.isArray(style))
+  ) {
+    throw invalid('style must be an object');
+  }
+  const styleFields = style as { name?: unknown; prompt?: unknown } | undefined;
+
+  const input = {
+    prompt: text(prompt, 'prompt', MAX_INPUT_LENGTH),
+    previousPrompts: previousPrompts
+      .map((p) => text(p, 'previousPrompts[]', Infinity))
+      .slice(-PREVIOUS_PROMPTS_USED)
+      .map((p) => shorten(p, MAX_INPUT_LENGTH)),
+    style: styleFields && {
+      name: text(styleFields.name, 'style.name', MAX_STYLE_LENGTH),
+      prompt: text(styleFields.prompt, 'style.prompt', MAX_STYLE_LENGTH),
+    },
+  };
+
+  const enhancer = getEnhancer(env);
+  const enhanced = cleanEnhancedPrompt(await enhancer.enhance(input, env));
+  if (!enhanced) {
+    return errorResponse(
+      'PROVIDER_ERROR',
+      'Prompt enhancer returned nothing',
+      502,
+    );
+  }
+
+  return Response.json({ prompt: enhanced, enhancer: enhancer.name });
+}
@@ -0,0 +1,43 @@
+import type { Env } from '../env';
+import { ProviderError } from '../providers/types';
+import { openAiEnhancer } from './openai';
+import { stubEnhancer } from './stub';
+import type { PromptEnhancer } from './types';
+
+export type { EnhanceInput, PromptEnhancer } from './types';
+
+// ---------------------------------------------------------------------------
+// Enhancer registry
+// ---------------------------------------------------------------------------
+// Works like the provider registry: PROMPT_ENHANCER picks a backend by
+// name, otherwise the first configured one in registration order wins and
+// the stub (always configured) goes last.
+// ---------------------------------------------------------------------------
+
+const enhancers = new Map<string, PromptEnhancer>();
+
+export function registerEnhancer(enhancer: PromptEnhancer): void {
+  enhancers.set(enhancer.name, enhancer);
+}
+
+registerEnhancer(openAiEnhancer);
+registerEnhancer(stubEnhancer);
+
+export function getEnhancer(env: Env): PromptEnhancer {
+  if (env.PROMPT_ENHANCER) {
+    const enhancer = enhancers.get(env.PROMPT_ENHANCER);
+    if (!enhancer || !enhancer.isConfigured(env)) {
+      // A deployment problem, not the client's
+      throw new ProviderError(
+        'PROVIDER_ERROR',
+        `Prompt enhancer not available: ${env.PROMPT_ENHANCER}`,
+        500,
+      );
+    }
+    return enhancer;
+  }
+  for (const enhancer of enhancers.values()) {
+    if (enhancer.isConfigured(env)) return enhancer;
+  }
+  return stubEnhancer;
+}
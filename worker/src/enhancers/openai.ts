@@ -0,0 +1,100 @@
+import type { Env } from '../env';
+import { ProviderError } from '../providers/types';
+import { upstreamFetch, type UpstreamPolicy } from '../providers/upstream';
+import type { EnhanceInput, PromptEnhancer } from './types';
+
+// ---------------------------------------------------------------------------
+// OpenAI-compatible enhancer
+// ---------------------------------------------------------------------------
+// Calls a chat completions endpoint: OpenAI itself, or anything speaking
+// the same API (Workers AI, Groq, OpenRouter, a local Ollama) through
+// LLM_BASE_URL.
+// ---------------------------------------------------------------------------
+
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+const DEFAULT_MODEL = 'gpt-4o-mini';
+
+// Enhancing is a plain text completion, safe to retry.
+const COMPLETION_POLICY: UpstreamPolicy = {
+  name: 'llm',
+  timeoutMs: 20_000,
+  retries: 1,
+  idempotent: true,
+};
+
+// Plenty for the ~120 words asked for
+const MAX_TOKENS = 300;
+
+const SYSTEM_PROMPT = `You write prompts for an image-to-video model. Rewrite the user's short idea into one vivid paragraph of at most 120 words describing a single continuous shot: the subject and its motion, the camera movement, lighting, mood and setting.
+Keep everything the user asked for and don't add new characters or plot. Stay consistent with the previous shots when they are given, and follow the visual style when one is given.
+Reply with the prompt only: no title, no quotes, no explanations.`;
+
+function userMessage({ prompt, previousPrompts, style }: EnhanceInput): string {
+  const lines: string[] = [];
+  if (previousPrompts.length > 0) {
+    lines.push('Previous shots, oldest first:');
+    previousPrompts.forEach((p, i) => lines.push(`${i + 1}. ${p}`));
+    lines.push('');
+  }
+  if (style) {
+    lines.push(`Visual style (${style.name}): ${style.prompt}`, '');
+  }
+  lines.push(`Idea for the next shot: ${prompt}`);
+  return lines.join('\n');
+}
+
+type Completion = {
+  choices?: { message?: { content?: string | null } }[];
+};
+
+export const openAiEnhancer: PromptEnhancer = {
+  name: 'openai',
+
+  isConfigured: (env: Env) => !!env.LLM_API_KEY,
+
+  async enhance(input, env) {
+    const baseUrl = (env.LLM_BASE_URL || DEFAULT_BASE_URL).replace(/\/$/, '');
+    const response = await upstreamFetch(
+      `${baseUrl}/chat/completions`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${env.LLM_API_KEY}`,
+        },
+        body: JSON.stringify({
+          model: env.LLM_MODEL || DEFAULT_MODEL,
+          max_tokens: MAX_TOKENS,
+          temperature: 0.7,
+          messages: [
+            { role: 'system', content: SYSTEM_PROMPT },
+            { role: 'user', content: userMessage(input) },
+          ],
+        }),
+      },
+      COMPLETION_POLICY,
+    );
+
+    if (!response.ok) {
+      console.error(
+        `[ENHANCE] LLM error ${response.status}: ${await response.text()}`,
+      );
+      throw response.status === 429
+        ? new ProviderError(
+            'PROVIDER_RATE_LIMITED',
+            'Prompt enhancer is busy',
+            429,
+            undefined,
+            30,
+          )
+        : new ProviderError('PROVIDER_ERROR', 'Prompt enhancer failed', 502);
+    }
+
+    const data = (await response.json().catch(() => null)) as Completion | null;
+    if (!data) {
+      console.error("[ENHANCE] LLM answered with a body that isn't JSON");
+      throw new ProviderError('PROVIDER_ERROR', 'Prompt enhancer failed', 502);
+    }
+    return data.choices?.[0]?.message?.content ?? '';
+  },
+};
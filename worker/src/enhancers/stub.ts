@@ -0,0 +1,37 @@
+import type { PromptEnhancer } from './types';
+
+// ---------------------------------------------------------------------------
+// Stub enhancer
+// ---------------------------------------------------------------------------
+// No LLM: builds the prompt from fixed phrases, so the same input always
+// gives the same output. Used when no LLM backend is configured, and by the
+// tests.
+// ---------------------------------------------------------------------------
+
+const SHOT_DETAILS =
+  'Smooth, natural motion. Consistent characters, lighting and setting. Highly detailed, sharp focus.';
+
+function sentence(text: string): string {
+  const trimmed = text.trim();
+  const capitalized = trimmed.charAt(0).toUpperCase() + trimmed.slice(1);
+  return /[.!?]$/.test(capitalized) ? capitalized : `${capitalized}.`;
+}
+
+export const stubEnhancer: PromptEnhancer = {
+  name: 'stub',
+
+  isConfigured: () => true,
+
+  async enhance({ prompt, previousPrompts, style }) {
+    const parts = [sentence(prompt)];
+    const previous = previousPrompts.at(-1);
+    if (previous) {
+      parts.push(`Continues directly from the previous shot: ${sentence(previous)}`);
+    }
+    if (style) {
+      parts.push(`Rendered in ${sentence(style.prompt)}`);
+    }
+    parts.push(SHOT_DETAILS);
+    return parts.join(' ');
+  },
+};
@@ -0,0 +1,29 @@
+import type { Env } from '../env';
+
+// ---------------------------------------------------------------------------
+// Prompt enhancer contract
+// ---------------------------------------------------------------------------
+// POST /enhance-prompt hands the user's prompt to one of these backends and
+// returns what it wrote. Like video providers, backends are registered side
+// by side (see enhancers/index.ts) and picked by a var, so a new LLM only
+// needs an implementation of this interface.
+// ---------------------------------------------------------------------------
+
+export type EnhanceInput = {
+  // What the user typed, e.g. "she dances"
+  prompt: string;
+  // Prompts of the clips leading up to this one, oldest first
+  previousPrompts: string[];
+  // The clip's style preset, if it has one
+  style?: { name: string; prompt: string };
+};
+
+export interface PromptEnhancer {
+  readonly name: string;
+
+  // Whether the backend has everything it needs (secrets, bindings) to run.
+  isConfigured(env: Env): boolean;
+
+  // Returns the enhanced prompt. Errors are thrown as ProviderError.
+  enhance(input: EnhanceInput, env: Env): Promise<string>;
+}
@@ -0,0 +1,60 @@
+export interface Env {
+  KLING_ACCESS_KEY?: string;
+  KLING_SECRET_KEY?: string;
+  // Overrides the Kling API origin, e.g. to run against the local mock
+  // (npm run mock:kling). Defaults to https://api.klingai.com.
+  KLING_BASE_URL?: string;
+  // Issue 10: Optional API key for client authentication.
+  // Set via: wrangler secret put APP_API_KEY
+  // If not set, auth is skipped (for local dev convenience). With AUTH_SECRET
+  // set, it only gates device registration.
+  APP_API_KEY?: string;
+  // Signs device access tokens (see auth.ts). When set, every request needs
+  // a token from /register. Set via: wrangler secret put AUTH_SECRET
+  AUTH_SECRET?: string;
+  // Lets an operator revoke devices. Set via: wrangler secret put ADMIN_KEY
+  ADMIN_KEY?: string;
+  // Registered devices (see auth.ts). Falls back to memory if unbound.
+  DEVICES?: KVNamespace;
+  // Name of the video provider used when a request doesn't pick one
+  // (e.g. "kling", "dummy"). If unset, the first configured provider in
+  // registration order wins — Kling when its secrets exist, dummy otherwise.
+  VIDEO_PROVIDER?: string;
+  // Task registry (see tasks.ts). Falls back to per-isolate memory if unbound.
+  TASKS?: KVNamespace;
+  // Archive of finished videos (see videos.ts). Falls back to memory if unbound.
+  VIDEOS?: R2Bucket;
+  // Uploaded start images (see uploads.ts). Falls back to memory if unbound.
+  UPLOADS?: R2Bucket;
+  // Cloudflare Images, used to downscale and re-encode uploads. Without it
+  // only images the provider already accepts can be uploaded.
+  IMAGES?: ImagesBinding;
+  // Signs provider callback URLs (see callbacks.ts). Callbacks are off when
+  // unset. Set via: wrangler secret put CALLBACK_SECRET
+  CALLBACK_SECRET?: string;
+  // Backend for /enhance-prompt ("openai", "stub"). If unset, the
+  // OpenAI-compatible one is used when LLM_API_KEY is set, otherwise the
+  // stub. See enhancers/index.ts.
+  PROMPT_ENHANCER?: string;
+  // OpenAI-compatible chat completions API. Set via:
+  // wrangler secret put LLM_API_KEY
+  LLM_API_KEY?: string;
+  // Defaults to https://api.openai.com/v1
+  LLM_BASE_URL?: string;
+  // Defaults to gpt-4o-mini
+  LLM_MODEL?: string;
+  // Per-client rate limit and quota counters (see limits.ts). Falls back to
+  // memory if unbound.
+  LIMITS?: KVNamespace;
+  // Limits per client id (and per IP address without AUTH_SECRET); "0"
+  // turns one off. Defaults are in limits.ts.
+  RATE_LIMIT_GENERATE_PER_MINUTE?: string;
+  RATE_LIMIT_UPLOAD_PER_MINUTE?: string;
+  RATE_LIMIT_STATUS_PER_MINUTE?: string;
+  RATE_LIMIT_REGISTER_PER_MINUTE?: string;
+  RATE_LIMIT_ENHANCE_PER_MINUTE?: string;
+  QUOTA_GENERATIONS_PER_DAY?: string;
+  QUOTA_GENERATIONS_PER_MONTH?: string;
+  // Per IP address
+  QUOTA_REGISTRATIONS_PER_DAY?: string;
+}
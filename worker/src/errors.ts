@@ -0,0 +1,82 @@
+// ---------------------------------------------------------------------------
+// Error responses
+// ---------------------------------------------------------------------------
+// Every error the worker returns has the same shape:
+//   { error: string, code: ErrorCode, details?: unknown, retryAfter?: number }
+// `error` is a human-readable message and may change; `code` is stable and
+// is what the app switches on. Raw provider responses never reach the
+// client — they are logged, and mapped onto a code.
+// ---------------------------------------------------------------------------
+
+export type ErrorCode =
+  // The request body, query or headers are malformed
+  | 'INVALID_REQUEST'
+  | 'PROMPT_TOO_LONG'
+  | 'INVALID_IMAGE'
+  | 'IMAGE_TOO_LARGE'
+  // An /upload id that doesn't exist, expired, or was already used
+  | 'IMAGE_NOT_FOUND'
+  | 'INVALID_TASK_ID'
+  | 'TASK_NOT_FOUND'
+  | 'VIDEO_NOT_FOUND'
+  | 'UNAUTHORIZED'
+  | 'DEVICE_REVOKED'
+  // The worker's own per-minute limits
+  | 'RATE_LIMITED'
+  // The client's daily or monthly generation quota
+  | 'QUOTA_EXCEEDED'
+  // Another request with the same Idempotency-Key is still running
+  | 'IDEMPOTENCY_CONFLICT'
+  | 'PROVIDER_RATE_LIMITED'
+  | 'PROVIDER_REJECTED_CONTENT'
+  | 'PROVIDER_ERROR'
+  // The provider has been failing, so the worker stopped calling it for a
+  // while (see providers/upstream.ts)
+  | 'PROVIDER_UNAVAILABLE'
+  // The provider accepted the task but it failed
+  | 'GENERATION_FAILED'
+  | 'RENDER_FAILED'
+  // /render was given clips encoded with different settings
+  | 'CLIPS_INCOMPATIBLE'
+  | 'NOT_FOUND'
+  | 'INTERNAL_ERROR';
+
+export function errorResponse(
+  code: ErrorCode,
+  error: string,
+  status: number,
+  extra: { details?: unknown; retryAfter?: number } = {},
+): Response {
+  const { details, retryAfter } = extra;
+  return Response.json(
+    { error, code, details, retryAfter },
+    {
+      status,
+      headers:
+        retryAfter === undefined ? undefined : { 'Retry-After': String(retryAfter) },
+    },
+  );
+}
+
+// Thrown for errors that should reach the client with a specific code and
+// HTTP status instead of a generic 500.
+export class ApiError extends Error {
+  constructor(
+    readonly code: ErrorCode,
+    message: string,
+    readonly status: number,
+    readonly details?: unknown,
+    // Seconds, for errors worth retrying after a pause
+    readonly retryAfter?: number,
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+
+  toResponse(): Response {
+    return errorResponse(this.code, this.message, this.status, {
+      details: this.details,
+      retryAfter: this.retryAfter,
+    });
+  }
+}
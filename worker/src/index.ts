@@ -1,283 +1,585 @@
-interface Env {
-  KLING_ACCESS_KEY?: string;
-  KLING_SECRET_KEY?: string;
-  // Issue 10: Optional API key for client authentication.
-  // Set via: wrangler secret put APP_API_KEY
-  // If not set, auth is skipped (for local dev convenience).
-  APP_API_KEY?: string;
-}
+import type { Env } from './env';
+import {
+  decodeTaskId,
+  encodeTaskId,
+  getDefaultProvider,
+  getProvider,
+  isValidTaskId,
+  listProviders,
+  type ProviderContext,
+  type TaskResult,
+  type Provider,
+} from './providers';
+import { DUMMY_SCENARIOS, handleDummyVideo } from './providers/dummy';
+import { parseGenerationOptions } from './options';
+import {
+  callbackMatchesTask,
+  callbacksEnabled,
+  createCallbackUrl,
+  isCallbackPath,
+  verifyCallbackUrl,
+} from './callbacks';
+import { archiveVideo, handleVideo, videoUrl } from './videos';
+import { handleRender } from './render';
+import { handleEnhancePrompt } from './enhance';
+import { getEnhancer } from './enhancers';
+import {
+  checkInlineImage,
+  deleteUpload,
+  handleUpload,
+  isValidUploadId,
+  loadUploadBase64,
+} from './uploads';
+import { ApiError, errorResponse } from './errors';
+import {
+  callerIp,
+  enforceQuota,
+  enforceRateLimit,
+  enforceRegistrationQuota,
+  handleQuota,
+  limitIds,
+  recordGeneration,
+} from './limits';
+import {
+  authenticate,
+  handleRefresh,
+  handleRegister,
+  handleRevoke,
+} from './auth';
+import {
+  applyResult,
+  getTaskStore,
+  isTerminal,
+  type TaskRecord,
+} from './tasks';
 
 // ---------------------------------------------------------------------------
-// Dummy / real mode detection
+// Provider selection
 // ---------------------------------------------------------------------------
-// If Kling credentials are not configured, the worker automatically runs in
-// dummy mode — it simulates generation with a short delay and returns a
-// public sample video. No external API calls are made.
-//
-// To switch to real Kling integration, just set the secrets:
-//   wrangler secret put KLING_ACCESS_KEY
-//   wrangler secret put KLING_SECRET_KEY
+// The provider comes from the request body's optional `provider` field, then
+// the VIDEO_PROVIDER var, then whichever provider is configured first. With
+// no Kling secrets set, that means the worker automatically runs in dummy
+// mode — see providers/dummy.ts.
 // ---------------------------------------------------------------------------
 
 function isDummyMode(env: Env): boolean {
-  return !env.KLING_ACCESS_KEY || !env.KLING_SECRET_KEY;
+  return getDefaultProvider(env).name === 'dummy';
 }
 
-// Publicly hosted sample video (Big Buck Bunny, Google CDN, ~2 MB)
-const DUMMY_VIDEO_URL =
-  'https://storage.googleapis.com/gtv-videos-bucket/sample/ForBiggerBlazes.mp4';
-
-// How long the dummy "generation" takes before returning completed (ms)
-const DUMMY_DELAY_MS = 8_000;
+// The request's provider, or the default. The dummy provider is always
+// configured, so a live worker refuses it by name: the simulator and its
+// failure scenarios are for development, not for production clients.
+function selectProvider(name: string | undefined, env: Env): Provider {
+  if (!name) return getDefaultProvider(env);
+  if (name === 'dummy' && !isDummyMode(env)) {
+    throw new ApiError(
+      'INVALID_REQUEST',
+      'The dummy provider is only available in dummy mode',
+      400,
+    );
+  }
+  return getProvider(name, env);
+}
 
 // ---------------------------------------------------------------------------
-// Dummy mode handlers
-// ---------------------------------------------------------------------------
-// The trick: encode the completion timestamp inside the taskId itself, so
-// the worker is fully stateless (no Map, no KV, no D1). Works correctly
-// even on Cloudflare's edge where each request may hit a different isolate.
+// Route handlers
 // ---------------------------------------------------------------------------
 
-async function handleGenerateDummy(request: Request): Promise<Response> {
-  const body = (await request.json()) as { image: string; prompt: string };
+// Kling's limit, and plenty for a scene description with continuity
+// context.
+const MAX_PROMPT_LENGTH = 2500;
+
+type GenerateBody = {
+  // Base64, optionally as a data URI
+  image?: string;
+  // From POST /upload, instead of `image`
+  imageId?: string;
+  prompt: string;
+  provider?: string;
+  options?: unknown;
+};
 
-  if (!body.image || !body.prompt) {
-    return Response.json(
-      { error: 'image and prompt required' },
-      { status: 400 },
-    );
-  }
+// Checks the /generate body's shape and limits, throwing an ApiError for
+// the first problem found.
+function parseGenerateBody(body: unknown): GenerateBody {
+  const invalid = (message: string) =>
+    new ApiError('INVALID_REQUEST', message, 400);
 
-  const readyAt = Date.now() + DUMMY_DELAY_MS;
-  const taskId = `dummy_${readyAt}`;
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw invalid('Body must be a JSON object');
+  }
+  const { image, imageId, prompt, provider, options } = body as Record<
+    string,
+    unknown
+  >;
 
-  console.log(
-    `[DUMMY] Generate requested — prompt="${body.prompt.slice(0, 60)}…" → taskId=${taskId}`,
-  );
+  if (typeof prompt !== 'string' || !prompt.trim()) {
+    throw invalid('prompt required');
+  }
+  if (prompt.length > MAX_PROMPT_LENGTH) {
+    throw new ApiError(
+      'PROMPT_TOO_LONG',
+      `prompt must be at most ${MAX_PROMPT_LENGTH} characters`,
+      400,
+      { maxLength: MAX_PROMPT_LENGTH, length: prompt.length },
+    );
+  }
+  if (provider !== undefined && typeof provider !== 'string') {
+    throw invalid('provider must be a string');
+  }
 
-  return Response.json({ taskId });
+  if (image !== undefined && imageId !== undefined) {
+    throw invalid('Send either image or imageId, not both');
+  }
+  if (imageId !== undefined) {
+    if (!isValidUploadId(imageId)) {
+      throw new ApiError('INVALID_IMAGE', 'Invalid imageId', 400);
+    }
+    return { imageId, prompt, provider, options };
+  }
+  if (typeof image !== 'string' || !image) {
+    throw new ApiError('INVALID_IMAGE', 'image (or imageId) required', 400);
+  }
+  checkInlineImage(image);
+  return { image, prompt, provider, options };
 }
 
-function handleStatusDummy(taskId: string, workerOrigin: string): Response {
-  if (!taskId.startsWith('dummy_')) {
-    return Response.json({ error: 'Unknown task' }, { status: 404 });
+async function handleGenerate(
+  request: Request,
+  clientId: string,
+  ctx: ProviderContext,
+): Promise<Response> {
+  const json = await request.json().catch(() => undefined);
+  if (json === undefined) {
+    return errorResponse('INVALID_REQUEST', 'Body must be valid JSON', 400);
+  }
+  const body = parseGenerateBody(json);
+
+  const image = body.image
+    ? body.image
+    : await loadUploadBase64(ctx.env, body.imageId!, clientId);
+  if (!image) {
+    return errorResponse(
+      'IMAGE_NOT_FOUND',
+      'Uploaded image not found or expired',
+      404,
+    );
   }
 
-  const readyAt = parseInt(taskId.split('dummy_')[1], 10);
+  const provider = selectProvider(body.provider, ctx.env);
+
+  const parsed = parseGenerationOptions(body.options, provider);
+  if (!parsed.ok) {
+    return errorResponse('INVALID_REQUEST', 'Invalid options', 400, {
+      details: parsed.error,
+    });
+  }
 
-  if (isNaN(readyAt)) {
-    return Response.json({ error: 'Invalid task ID' }, { status: 400 });
+  const callback =
+    provider.parseCallback && callbacksEnabled(ctx.env)
+      ? await createCallbackUrl(ctx.env, ctx.workerOrigin, provider.name)
+      : undefined;
+
+  // Claim the key first, so a retry racing this request waits for it
+  // instead of submitting a second job.
+  const store = getTaskStore(ctx.env);
+  const idempotencyKey = request.headers.get('Idempotency-Key');
+  if (idempotencyKey) {
+    await store.putIdempotency(clientId, idempotencyKey, {
+      taskId: null,
+      createdAt: Date.now(),
+    });
   }
 
-  if (Date.now() < readyAt) {
-    console.log(
-      `[DUMMY] Status check — ${Math.ceil((readyAt - Date.now()) / 1000)}s remaining`,
+  let providerTaskId: string;
+  try {
+    providerTaskId = await provider.submit(
+      {
+        image,
+        prompt: body.prompt,
+        options: parsed.options,
+        callbackUrl: callback?.url,
+      },
+      ctx,
     );
-    return Response.json({ status: 'processing' });
+  } catch (err) {
+    // Nothing was started, so a retry with the key may submit again.
+    if (idempotencyKey) {
+      await store.deleteIdempotency(clientId, idempotencyKey);
+    }
+    throw err;
+  }
+  const taskId = encodeTaskId(provider, providerTaskId);
+  await recordGeneration(ctx.env, limitIds(ctx.env, clientId, request.headers));
+  if (body.imageId) {
+    await deleteUpload(ctx.env, body.imageId);
   }
 
-  console.log('[DUMMY] Status check — completed, returning video URL');
-  return Response.json({
-    status: 'completed',
-    // Serve through the worker's own /dummy-video endpoint to avoid any
-    // potential download issues with external URLs on certain networks.
-    videoUrl: `${workerOrigin}/dummy-video`,
+  const now = Date.now();
+  if (idempotencyKey) {
+    await store.putIdempotency(clientId, idempotencyKey, {
+      taskId,
+      createdAt: now,
+    });
+  }
+  await store.put({
+    taskId,
+    clientId,
+    provider: provider.name,
+    prompt: body.prompt,
+    options: parsed.options,
+    callback: !!callback,
+    callbackNonce: callback?.nonce,
+    status: 'processing',
+    createdAt: now,
+    updatedAt: now,
   });
+
+  return Response.json({ taskId });
 }
 
-// Proxy the sample video through the worker so the app always downloads
-// from the same origin. Cloudflare streams the body — no buffering.
-async function handleDummyVideo(): Promise<Response> {
-  const upstream = await fetch(DUMMY_VIDEO_URL);
+// ---------------------------------------------------------------------------
+// Idempotent submits
+// ---------------------------------------------------------------------------
+// The app sends an Idempotency-Key (made from the clip id) with /generate
+// and reuses it when it retries, e.g. after the connection dropped before
+// the response arrived. A key that already started a task gets that task
+// id back instead of a second paid job. While the first request with a key
+// is still submitting, repeats get 409 and should try again shortly.
+// ---------------------------------------------------------------------------
+
+const IDEMPOTENCY_KEY_PATTERN = /^[A-Za-z0-9_-]{1,100}$/;
+// A claim this old belongs to a request that died mid-submit.
+const IDEMPOTENCY_CLAIM_TIMEOUT_MS = 2 * 60 * 1000;
 
-  if (!upstream.ok) {
+// Answers a repeated /generate from the idempotency record, or returns null
+// to let the request through.
+async function replayGeneration(
+  request: Request,
+  clientId: string,
+  env: Env,
+): Promise<Response | null> {
+  const key = request.headers.get('Idempotency-Key');
+  if (key === null) return null;
+  if (!IDEMPOTENCY_KEY_PATTERN.test(key)) {
+    return errorResponse(
+      'INVALID_REQUEST',
+      'Invalid Idempotency-Key header',
+      400,
+    );
+  }
+
+  const entry = await getTaskStore(env).getIdempotency(clientId, key);
+  if (!entry) return null;
+  if (entry.taskId) {
     return Response.json(
-      { error: 'Failed to fetch sample video' },
-      { status: 502 },
+      { taskId: entry.taskId },
+      { headers: { 'Idempotent-Replayed': 'true' } },
+    );
+  }
+  if (Date.now() - entry.createdAt < IDEMPOTENCY_CLAIM_TIMEOUT_MS) {
+    return errorResponse(
+      'IDEMPOTENCY_CONFLICT',
+      'A request with this Idempotency-Key is in progress',
+      409,
+      { retryAfter: 2 },
     );
   }
+  return null;
+}
+
+// Fold a provider result into the record, archiving the video on completion.
+async function settleTask(
+  record: TaskRecord,
+  result: TaskResult,
+  provider: Provider,
+  ctx: ProviderContext,
+): Promise<TaskRecord> {
+  const updated = applyResult(record, result);
+  return archiveVideo(updated, provider, ctx);
+}
 
-  return new Response(upstream.body, {
-    headers: {
-      'Content-Type': 'video/mp4',
-      'Cache-Control': 'public, max-age=86400',
+function statusResponse(
+  record: TaskRecord,
+  workerOrigin: string,
+  waited?: number,
+): Response {
+  const headers: Record<string, string> = {};
+  if (waited !== undefined) {
+    // Tells the app this worker honours ?wait, so it can stop sleeping
+    // between status calls.
+    headers['X-Long-Poll'] = String(waited);
+  }
+  return Response.json(
+    {
+      status: record.status,
+      videoUrl:
+        record.status !== 'completed'
+          ? undefined
+          : record.videoId
+            ? videoUrl(workerOrigin, record.videoId)
+            : record.videoUrl,
+      code: record.status === 'failed' ? record.errorCode : undefined,
     },
-  });
+    { headers },
+  );
 }
 
 // ---------------------------------------------------------------------------
-// Real Kling API handlers
+// Long-poll status
+// ---------------------------------------------------------------------------
+// GET /status/:taskId?wait=N holds the request for up to N seconds (max 30)
+// until the task is terminal. While waiting it re-reads the task registry,
+// where /callback drops provider results. The provider itself is only
+// polled as a fallback: every few seconds for tasks without a callback,
+// and for callback tasks once the callback looks overdue (lost, or KV not
+// yet consistent in this location).
 // ---------------------------------------------------------------------------
 
-const KLING_BASE = 'https://api.klingai.com';
+const MAX_WAIT_SECONDS = 30;
+const STORE_CHECK_INTERVAL_MS = 1_500;
+const PROVIDER_POLL_INTERVAL_MS = 5_000;
+const CALLBACK_GRACE_MS = 2 * 60 * 1000;
 
-function base64url(data: ArrayBuffer | string): string {
-  const str =
-    typeof data === 'string'
-      ? btoa(data)
-      : btoa(String.fromCharCode(...new Uint8Array(data)));
-  return str.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
-}
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
 
-async function generateJWT(
-  accessKey: string,
-  secretKey: string,
-): Promise<string> {
-  const header = base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
-  const now = Math.floor(Date.now() / 1000);
-  const payload = base64url(
-    JSON.stringify({ iss: accessKey, exp: now + 1800, iat: now - 5 }),
-  );
+async function handleStatus(
+  id: string,
+  clientId: string,
+  waitSeconds: number | undefined,
+  ctx: ProviderContext,
+): Promise<Response> {
+  const store = getTaskStore(ctx.env);
+  let record = await store.get(id);
 
-  const signingInput = `${header}.${payload}`;
+  // Unknown and foreign tasks look the same from outside, so a caller
+  // can't probe for other clients' task ids.
+  if (!record || record.clientId !== clientId) {
+    return errorResponse('TASK_NOT_FOUND', 'Task not found', 404);
+  }
 
-  const key = await crypto.subtle.importKey(
-    'raw',
-    new TextEncoder().encode(secretKey),
-    { name: 'HMAC', hash: 'SHA-256' },
-    false,
-    ['sign'],
-  );
+  const startedAt = Date.now();
+  const deadline = startedAt + Math.min(waitSeconds ?? 0, MAX_WAIT_SECONDS) * 1000;
+  const { provider, taskId } = decodeTaskId(id, ctx.env);
+  let lastProviderPoll = 0;
+
+  const respond = (r: TaskRecord) =>
+    statusResponse(
+      r,
+      ctx.workerOrigin,
+      waitSeconds === undefined
+        ? undefined
+        : Math.round((Date.now() - startedAt) / 1000),
+    );
 
-  const sig = await crypto.subtle.sign(
-    'HMAC',
-    key,
-    new TextEncoder().encode(signingInput),
-  );
+  while (true) {
+    if (isTerminal(record.status)) {
+      return respond(record);
+    }
 
-  return `${signingInput}.${base64url(sig)}`;
-}
+    const shouldPollProvider =
+      (!record.callback || Date.now() - record.createdAt > CALLBACK_GRACE_MS) &&
+      Date.now() - lastProviderPoll >= PROVIDER_POLL_INTERVAL_MS;
+
+    // A plain (non-waiting) status call always asks the provider, as before.
+    if (shouldPollProvider || waitSeconds === undefined) {
+      lastProviderPoll = Date.now();
+      const updated = await settleTask(
+        record,
+        await provider.pollStatus(taskId, ctx),
+        provider,
+        ctx,
+      );
+      if (updated.status !== record.status) {
+        await store.put(updated);
+      }
+      record = updated;
+      if (isTerminal(record.status)) {
+        return respond(record);
+      }
+    }
 
-function ensureDataUri(base64Image: string): string {
-  if (base64Image.startsWith('data:')) {
-    return base64Image;
-  }
+    if (Date.now() + STORE_CHECK_INTERVAL_MS > deadline) {
+      return respond(record);
+    }
 
-  let mimeType = 'image/jpeg';
-  if (base64Image.startsWith('iVBOR')) {
-    mimeType = 'image/png';
-  } else if (base64Image.startsWith('R0lGOD')) {
-    mimeType = 'image/gif';
-  } else if (base64Image.startsWith('UklGR')) {
-    mimeType = 'image/webp';
+    await sleep(STORE_CHECK_INTERVAL_MS);
+    record = (await store.get(id)) ?? record;
   }
-
-  return `data:${mimeType};base64,${base64Image}`;
 }
 
-async function handleGenerateReal(
-  request: Request,
-  env: Env,
-): Promise<Response> {
-  const body = (await request.json()) as { image: string; prompt: string };
+// ---------------------------------------------------------------------------
+// Cancellation
+// ---------------------------------------------------------------------------
+// POST /cancel/:taskId stops the task at the provider when it has a cancel
+// API. Otherwise the task keeps running (and billing) upstream, so it is
+// marked abandoned instead: if its video still arrives, it is archived as
+// usual and listed by GET /cancelled until the app recovers or dismisses
+// it (DELETE /cancelled/:taskId).
+// ---------------------------------------------------------------------------
 
-  if (!body.image || !body.prompt) {
-    return Response.json(
-      { error: 'image and prompt required' },
-      { status: 400 },
-    );
+// Provider status checks one GET /cancelled may make
+const MAX_CANCELLED_REFRESHES = 10;
+
+async function handleCancel(
+  id: string,
+  clientId: string,
+  ctx: ProviderContext,
+): Promise<Response> {
+  const store = getTaskStore(ctx.env);
+  let record = await store.get(id);
+  if (!record || record.clientId !== clientId) {
+    return errorResponse('TASK_NOT_FOUND', 'Task not found', 404);
   }
 
-  const token = await generateJWT(env.KLING_ACCESS_KEY!, env.KLING_SECRET_KEY!);
-  const imageData = ensureDataUri(body.image);
+  if (record.cancelledAt === undefined) {
+    const now = Date.now();
+    record = { ...record, cancelledAt: now, updatedAt: now };
+    const { provider, taskId } = decodeTaskId(id, ctx.env);
+
+    if (!isTerminal(record.status) && provider.cancel) {
+      try {
+        await provider.cancel(taskId, ctx);
+        record = { ...record, status: 'cancelled', completedAt: now };
+      } catch (err) {
+        console.log(`[CANCEL] ${provider.name} could not cancel ${id}: ${err}`);
+      }
+    }
+
+    await store.put(record);
+    // A failed task has nothing to recover; anything else might.
+    if (record.status === 'processing' || record.status === 'completed') {
+      await store.addAbandoned(clientId, id);
+    }
+  }
 
-  const klingResponse = await fetch(`${KLING_BASE}/v1/videos/image2video`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      Authorization: `Bearer ${token}`,
-    },
-    body: JSON.stringify({
-      model_name: 'kling-v2-6',
-      image: imageData,
-      prompt: body.prompt,
-      duration: '5',
-      mode: 'std',
-      cfg_scale: 0.5,
-    }),
+  return Response.json({
+    taskId: id,
+    status: record.status,
+    abandoned: record.status === 'processing',
   });
+}
 
-  if (!klingResponse.ok) {
-    const err = await klingResponse.text();
-    return Response.json(
-      { error: 'Kling API error', details: err },
-      { status: klingResponse.status },
-    );
-  }
+async function handleListCancelled(
+  clientId: string,
+  ctx: ProviderContext,
+): Promise<Response> {
+  const store = getTaskStore(ctx.env);
+  let refreshes = 0;
+  const tasks = [];
+
+  for (const id of await store.listAbandoned(clientId)) {
+    let record = await store.get(id);
+    if (!record || record.clientId !== clientId) {
+      await store.removeAbandoned(clientId, id);
+      continue;
+    }
 
-  const result = (await klingResponse.json()) as {
-    data?: { task_id: string };
-    code?: number;
-    message?: string;
-  };
+    // Nobody polls an abandoned task, so check on it here — unless a
+    // callback is due to report it.
+    if (
+      !isTerminal(record.status) &&
+      !record.callback &&
+      refreshes < MAX_CANCELLED_REFRESHES
+    ) {
+      refreshes++;
+      const { provider, taskId } = decodeTaskId(id, ctx.env);
+      try {
+        const updated = await settleTask(
+          record,
+          await provider.pollStatus(taskId, ctx),
+          provider,
+          ctx,
+        );
+        if (updated.status !== record.status) {
+          await store.put(updated);
+        }
+        record = updated;
+      } catch (err) {
+        console.log(`[CANCEL] Could not refresh ${id}: ${err}`);
+      }
+    }
 
-  if (!result.data?.task_id) {
-    return Response.json(
-      { error: 'No task_id returned', details: result },
-      { status: 500 },
-    );
+    tasks.push({
+      taskId: id,
+      prompt: record.prompt,
+      status: record.status,
+      videoUrl:
+        record.status !== 'completed'
+          ? undefined
+          : record.videoId
+            ? videoUrl(ctx.workerOrigin, record.videoId)
+            : record.videoUrl,
+      cancelledAt: record.cancelledAt,
+    });
   }
 
-  return Response.json({ taskId: result.data.task_id });
+  return Response.json({ tasks });
 }
 
-async function handleStatusReal(
-  taskId: string,
+async function handleDismissCancelled(
+  id: string,
+  clientId: string,
   env: Env,
 ): Promise<Response> {
-  const token = await generateJWT(env.KLING_ACCESS_KEY!, env.KLING_SECRET_KEY!);
+  await getTaskStore(env).removeAbandoned(clientId, id);
+  return new Response(null, { status: 204 });
+}
 
-  const klingResponse = await fetch(
-    `${KLING_BASE}/v1/videos/image2video/${taskId}`,
-    {
-      headers: { Authorization: `Bearer ${token}` },
-    },
-  );
+// ---------------------------------------------------------------------------
+// Provider callback
+// ---------------------------------------------------------------------------
 
-  if (!klingResponse.ok) {
-    const err = await klingResponse.text();
-    return Response.json({ error: err }, { status: klingResponse.status });
+async function handleCallback(
+  request: Request,
+  url: URL,
+  ctx: ProviderContext,
+): Promise<Response> {
+  const signed = await verifyCallbackUrl(ctx.env, url);
+  if (!signed) {
+    return errorResponse('UNAUTHORIZED', 'Invalid signature', 401);
   }
 
-  const result = (await klingResponse.json()) as {
-    data?: {
-      task_status: string;
-      task_result?: { videos?: { url: string }[] };
-    };
-  };
-
-  const status = result.data?.task_status ?? 'unknown';
-  const videoUrl = result.data?.task_result?.videos?.[0]?.url;
-
-  let simpleStatus: string;
-  switch (status) {
-    case 'succeed':
-      simpleStatus = 'completed';
-      break;
-    case 'failed':
-      simpleStatus = 'failed';
-      break;
-    default:
-      simpleStatus = 'processing';
+  const provider = getProvider(signed.providerName, ctx.env);
+  const body = await request.json().catch(() => undefined);
+  if (body === undefined) {
+    return errorResponse('INVALID_REQUEST', 'Body must be valid JSON', 400);
+  }
+  const parsed = provider.parseCallback?.(body);
+  if (!parsed) {
+    return errorResponse('INVALID_REQUEST', 'Malformed callback', 400);
   }
 
-  return Response.json({
-    status: simpleStatus,
-    videoUrl: simpleStatus === 'completed' ? videoUrl : undefined,
-  });
-}
+  const id = encodeTaskId(provider, parsed.taskId);
+  const store = getTaskStore(ctx.env);
+  const record = await store.get(id);
 
-// ---------------------------------------------------------------------------
-// API Key Validation
-// ---------------------------------------------------------------------------
+  // A callback can race the /generate response that creates the record;
+  // the status endpoint's provider fallback covers that case.
+  if (!record) {
+    console.log(`[CALLBACK] No record for ${id} — ignoring`);
+    return Response.json({ ok: true });
+  }
+  if (!callbackMatchesTask(signed.nonce, record)) {
+    return errorResponse(
+      'UNAUTHORIZED',
+      'Callback URL was not issued for this task',
+      401,
+    );
+  }
 
-function validateApiKey(request: Request, env: Env): Response | null {
-  if (!env.APP_API_KEY) return null;
-  const key = request.headers.get('X-API-Key');
-  if (key !== env.APP_API_KEY) {
-    return Response.json({ error: 'Unauthorized' }, { status: 401 });
+  if (!isTerminal(record.status)) {
+    await store.put(
+      await settleTask(
+        record,
+        parsed.result,
+        provider,
+        ctx,
+      ),
+    );
   }
-  return null;
+
+  return Response.json({ ok: true });
 }
 
 // ---------------------------------------------------------------------------
@@ -288,8 +590,11 @@ export default {
   async fetch(request: Request, env: Env): Promise<Response> {
     const corsHeaders = {
       'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type, X-API-Key',
+      'Access-Control-Allow-Methods': 'GET, HEAD, POST, DELETE, OPTIONS',
+      'Access-Control-Allow-Headers':
+        'Content-Type, Authorization, Idempotency-Key, X-API-Key, X-Client-Id, X-Admin-Key, X-Dummy-Scenario, Range',
+      'Access-Control-Expose-Headers':
+        'X-Long-Poll, Content-Range, Accept-Ranges, Retry-After, Idempotent-Replayed',
     };
 
     if (request.method === 'OPTIONS') {
@@ -297,45 +602,155 @@ export default {
     }
 
     const url = new URL(request.url);
-    const dummy = isDummyMode(env);
-    const workerOrigin = url.origin;
+    const ctx: ProviderContext = {
+      env,
+      workerOrigin: url.origin,
+      requestHeaders: request.headers,
+    };
 
     let response: Response;
 
     try {
-      const authError = validateApiKey(request, env);
-
-      if (authError) {
-        response = authError;
+      // Provider callbacks carry their own signature, and registration and
+      // revocation their own keys, so they skip the auth check.
+      const isCallback =
+        isCallbackPath(url.pathname) && request.method === 'POST';
+      const revokeMatch = url.pathname.match(/^\/devices\/([^/]+)\/revoke$/);
+      const isCredentials =
+        request.method === 'POST' &&
+        (url.pathname === '/register' ||
+          url.pathname === '/refresh' ||
+          !!revokeMatch);
+      const auth =
+        isCallback || isCredentials
+          ? null
+          : await authenticate(request, env);
+      const clientId = auth?.ok ? auth.clientId : null;
+      const limitedAs = clientId ? limitIds(env, clientId, request.headers) : [];
+      const needsClientId =
+        url.pathname === '/generate' ||
+        url.pathname === '/upload' ||
+        url.pathname.startsWith('/status/') ||
+        url.pathname.startsWith('/cancel/') ||
+        url.pathname === '/cancelled' ||
+        url.pathname.startsWith('/cancelled/') ||
+        url.pathname.startsWith('/videos/') ||
+        url.pathname === '/render' ||
+        url.pathname === '/enhance-prompt' ||
+        url.pathname === '/quota';
+
+      if (isCallback) {
+        response = await handleCallback(request, url, ctx);
+      } else if (url.pathname === '/register' && isCredentials) {
+        const ip = callerIp(request.headers);
+        response =
+          (await enforceRateLimit(env, 'register', [ip])) ??
+          (await enforceRegistrationQuota(env, ip)) ??
+          (await handleRegister(request, env));
+      } else if (url.pathname === '/refresh' && isCredentials) {
+        response = await handleRefresh(request, env);
+      } else if (revokeMatch && isCredentials) {
+        response = await handleRevoke(
+          request,
+          decodeURIComponent(revokeMatch[1]),
+          env,
+        );
+      } else if (auth && !auth.ok) {
+        response = auth.response;
+      } else if (needsClientId && !clientId) {
+        response = errorResponse(
+          'INVALID_REQUEST',
+          'Valid X-Client-Id header required',
+          400,
+        );
       } else if (url.pathname === '/generate' && request.method === 'POST') {
-        response = dummy
-          ? await handleGenerateDummy(request)
-          : await handleGenerateReal(request, env);
+        // A replay isn't a new generation, so it skips the quota check.
+        response =
+          (await enforceRateLimit(env, 'generate', limitedAs)) ??
+          (await replayGeneration(request, clientId!, env)) ??
+          (await enforceQuota(env, limitedAs)) ??
+          (await handleGenerate(request, clientId!, ctx));
+      } else if (url.pathname === '/upload' && request.method === 'POST') {
+        response =
+          (await enforceRateLimit(env, 'upload', limitedAs)) ??
+          (await handleUpload(request, clientId!, env));
       } else if (url.pathname.startsWith('/status/')) {
-        const taskId = url.pathname.split('/status/')[1];
-        if (!taskId) {
-          response = Response.json(
-            { error: 'taskId required' },
-            { status: 400 },
-          );
+        const taskId = decodeURIComponent(url.pathname.split('/status/')[1]);
+        if (!isValidTaskId(taskId)) {
+          response = errorResponse('INVALID_TASK_ID', 'Invalid taskId', 400);
         } else {
-          response = dummy
-            ? handleStatusDummy(taskId, workerOrigin)
-            : await handleStatusReal(taskId, env);
+          const wait = url.searchParams.get('wait');
+          response =
+            (await enforceRateLimit(env, 'status', limitedAs)) ??
+            (await handleStatus(
+              taskId,
+              clientId!,
+              wait === null ? undefined : Math.max(0, Number(wait) || 0),
+              ctx,
+            ));
         }
-      } else if (url.pathname === '/dummy-video' && dummy) {
-        response = await handleDummyVideo();
+      } else if (
+        url.pathname.startsWith('/cancel/') &&
+        request.method === 'POST'
+      ) {
+        const taskId = decodeURIComponent(
+          url.pathname.slice('/cancel/'.length),
+        );
+        response = isValidTaskId(taskId)
+          ? await handleCancel(taskId, clientId!, ctx)
+          : errorResponse('INVALID_TASK_ID', 'Invalid taskId', 400);
+      } else if (url.pathname === '/cancelled' && request.method === 'GET') {
+        // It may poll the provider, like a status call.
+        response =
+          (await enforceRateLimit(env, 'status', limitedAs)) ??
+          (await handleListCancelled(clientId!, ctx));
+      } else if (
+        url.pathname.startsWith('/cancelled/') &&
+        request.method === 'DELETE'
+      ) {
+        const taskId = decodeURIComponent(
+          url.pathname.slice('/cancelled/'.length),
+        );
+        response = isValidTaskId(taskId)
+          ? await handleDismissCancelled(taskId, clientId!, env)
+          : errorResponse('INVALID_TASK_ID', 'Invalid taskId', 400);
+      } else if (
+        url.pathname.startsWith('/videos/') &&
+        (request.method === 'GET' || request.method === 'HEAD')
+      ) {
+        const videoId = url.pathname.slice('/videos/'.length);
+        response = await handleVideo(request, videoId, clientId!, env);
+      } else if (url.pathname === '/render' && request.method === 'POST') {
+        response = await handleRender(request, clientId!, env, url.origin);
+      } else if (
+        url.pathname === '/enhance-prompt' &&
+        request.method === 'POST'
+      ) {
+        response =
+          (await enforceRateLimit(env, 'enhance', limitedAs)) ??
+          (await handleEnhancePrompt(request, env));
+      } else if (url.pathname === '/quota' && request.method === 'GET') {
+        response = await handleQuota(env, limitedAs);
+      } else if (url.pathname === '/dummy-video' && isDummyMode(env)) {
+        response = handleDummyVideo(url);
       } else {
         response = Response.json({
           status: 'opendance worker running',
-          mode: dummy ? 'dummy' : 'live',
+          mode: isDummyMode(env) ? 'dummy' : 'live',
+          provider: getDefaultProvider(env).name,
+          providers: listProviders(env),
+          enhancer: getEnhancer(env).name,
+          // See providers/dummy.ts
+          dummyScenarios: DUMMY_SCENARIOS,
         });
       }
     } catch (err) {
-      response = Response.json(
-        { error: 'Internal error', details: String(err) },
-        { status: 500 },
-      );
+      if (err instanceof ApiError) {
+        response = err.toResponse();
+      } else {
+        console.error('[WORKER] Unhandled error', err);
+        response = errorResponse('INTERNAL_ERROR', 'Internal error', 500);
+      }
     }
 
     // Attach CORS headers to every response
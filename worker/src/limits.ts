@@ -0,0 +1,385 @@
+import { authEnabled } from './auth';
+import type { Env } from './env';
+import { errorResponse, type ErrorCode } from './errors';
+
+// ---------------------------------------------------------------------------
+// Rate limits and generation quotas
+// ---------------------------------------------------------------------------
+// Each client id gets its own budget: requests per minute on /generate,
+// /upload, /status and /enhance-prompt (an LLM call), plus daily and
+// monthly caps on generations started — every one of which is a paid
+// provider job.
+// Without AUTH_SECRET the client id is just the X-Client-Id header, so the
+// same budget is also counted per IP address, which the caller can't pick;
+// clients behind one address then share it. Deployments open to the public
+// should set AUTH_SECRET.
+// /register is limited per IP address instead, a few a minute and a cap per
+// day. That doesn't stop one address from spending more than one device's
+// quota — each new device gets its own — but it bounds how much: at most
+// the daily registration cap times the daily generation quota. The limits
+// are vars (see wrangler.toml); setting one to 0 turns it off.
+//
+// Counters are fixed UTC windows (minute, day, month) kept in the LIMITS KV
+// namespace, or in per-isolate memory when it isn't bound. KV has no atomic
+// increment, so a burst of concurrent requests can overshoot a limit by a
+// little — fine for keeping a leaked key from running up a bill.
+// ---------------------------------------------------------------------------
+
+export type RateLimitedRoute =
+  | 'generate'
+  | 'upload'
+  | 'status'
+  | 'register'
+  | 'enhance';
+
+type Limits = {
+  generatePerMinute: number;
+  uploadPerMinute: number;
+  statusPerMinute: number;
+  registerPerMinute: number;
+  enhancePerMinute: number;
+  generationsPerDay: number;
+  generationsPerMonth: number;
+  registrationsPerDay: number;
+};
+
+const DEFAULT_LIMITS: Limits = {
+  generatePerMinute: 5,
+  // One upload per generation; retries reuse it.
+  uploadPerMinute: 5,
+  // The app long-polls, so this leaves plenty of room for several clips
+  // generating at once.
+  statusPerMinute: 60,
+  registerPerMinute: 3,
+  enhancePerMinute: 10,
+  generationsPerDay: 20,
+  generationsPerMonth: 200,
+  registrationsPerDay: 10,
+};
+
+function readLimit(value: string | undefined, fallback: number): number {
+  if (value === undefined || value.trim() === '') return fallback;
+  const n = Number(value);
+  return Number.isFinite(n) && n >= 0 ? Math.floor(n) : fallback;
+}
+
+function getLimits(env: Env): Limits {
+  return {
+    generatePerMinute: readLimit(
+      env.RATE_LIMIT_GENERATE_PER_MINUTE,
+      DEFAULT_LIMITS.generatePerMinute,
+    ),
+    uploadPerMinute: readLimit(
+      env.RATE_LIMIT_UPLOAD_PER_MINUTE,
+      DEFAULT_LIMITS.uploadPerMinute,
+    ),
+    statusPerMinute: readLimit(
+      env.RATE_LIMIT_STATUS_PER_MINUTE,
+      DEFAULT_LIMITS.statusPerMinute,
+    ),
+    registerPerMinute: readLimit(
+      env.RATE_LIMIT_REGISTER_PER_MINUTE,
+      DEFAULT_LIMITS.registerPerMinute,
+    ),
+    enhancePerMinute: readLimit(
+      env.RATE_LIMIT_ENHANCE_PER_MINUTE,
+      DEFAULT_LIMITS.enhancePerMinute,
+    ),
+    generationsPerDay: readLimit(
+      env.QUOTA_GENERATIONS_PER_DAY,
+      DEFAULT_LIMITS.generationsPerDay,
+    ),
+    generationsPerMonth: readLimit(
+      env.QUOTA_GENERATIONS_PER_MONTH,
+      DEFAULT_LIMITS.generationsPerMonth,
+    ),
+    registrationsPerDay: readLimit(
+      env.QUOTA_REGISTRATIONS_PER_DAY,
+      DEFAULT_LIMITS.registrationsPerDay,
+    ),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Counter storage
+// ---------------------------------------------------------------------------
+
+interface CounterStore {
+  get(key: string): Promise<number>;
+  // Adds one and returns the new count. The counter is dropped `ttlSeconds`
+  // after its last write.
+  increment(key: string, ttlSeconds: number): Promise<number>;
+}
+
+const KEY_PREFIX = 'limit:';
+
+// KV refuses expirations shorter than this.
+const MIN_KV_TTL_SECONDS = 60;
+
+class KvCounterStore implements CounterStore {
+  constructor(private readonly kv: KVNamespace) {}
+
+  async get(key: string): Promise<number> {
+    const value = await this.kv.get(KEY_PREFIX + key);
+    return value ? Number(value) || 0 : 0;
+  }
+
+  async increment(key: string, ttlSeconds: number): Promise<number> {
+    const count = (await this.get(key)) + 1;
+    await this.kv.put(KEY_PREFIX + key, String(count), {
+      expirationTtl: Math.max(ttlSeconds, MIN_KV_TTL_SECONDS),
+    });
+    return count;
+  }
+}
+
+class MemoryCounterStore implements CounterStore {
+  private readonly counters = new Map<
+    string,
+    { count: number; expiresAt: number }
+  >();
+
+  async get(key: string): Promise<number> {
+    const counter = this.counters.get(key);
+    if (!counter) return 0;
+    if (Date.now() > counter.expiresAt) {
+      this.counters.delete(key);
+      return 0;
+    }
+    return counter.count;
+  }
+
+  async increment(key: string, ttlSeconds: number): Promise<number> {
+    const count = (await this.get(key)) + 1;
+    this.counters.set(key, {
+      count,
+      expiresAt: Date.now() + ttlSeconds * 1000,
+    });
+    return count;
+  }
+}
+
+// One per isolate, so counts survive between requests handled by it.
+let memoryStore: MemoryCounterStore | null = null;
+
+function getCounterStore(env: Env): CounterStore {
+  if (env.LIMITS) {
+    return new KvCounterStore(env.LIMITS);
+  }
+  memoryStore ??= new MemoryCounterStore();
+  return memoryStore;
+}
+
+// ---------------------------------------------------------------------------
+// Windows
+// ---------------------------------------------------------------------------
+
+type Window = {
+  // Part of the counter key; changes when the window rolls over
+  id: string;
+  resetsAt: number;
+  // How long the counter has to outlive its window
+  ttlSeconds: number;
+};
+
+function minuteWindow(now: number): Window {
+  const start = Math.floor(now / 60_000) * 60_000;
+  return { id: String(start), resetsAt: start + 60_000, ttlSeconds: 120 };
+}
+
+function dayWindow(now: number): Window {
+  const d = new Date(now);
+  return {
+    id: d.toISOString().slice(0, 10),
+    resetsAt: Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate() + 1),
+    ttlSeconds: 2 * 24 * 60 * 60,
+  };
+}
+
+function monthWindow(now: number): Window {
+  const d = new Date(now);
+  return {
+    id: d.toISOString().slice(0, 7),
+    resetsAt: Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 1, 1),
+    ttlSeconds: 32 * 24 * 60 * 60,
+  };
+}
+
+function tooManyRequests(
+  code: ErrorCode,
+  error: string,
+  resetsAt: number,
+): Response {
+  const retryAfter = Math.max(1, Math.ceil((resetsAt - Date.now()) / 1000));
+  return errorResponse(code, error, 429, { retryAfter });
+}
+
+// ---------------------------------------------------------------------------
+// Callers
+// ---------------------------------------------------------------------------
+
+// Set by Cloudflare on every request; missing only in local tests.
+export function callerIp(headers: Headers): string {
+  return headers.get('CF-Connecting-IP') ?? 'unknown';
+}
+
+// Ids a client's requests count against: its verified client id, or, when
+// the id is only a header, that and the caller's IP address.
+export function limitIds(env: Env, clientId: string, headers: Headers): string[] {
+  return authEnabled(env) ? [clientId] : [clientId, `ip:${callerIp(headers)}`];
+}
+
+// ---------------------------------------------------------------------------
+// Rate limits
+// ---------------------------------------------------------------------------
+
+// Counts the request against each of `callerIds` (see limitIds, or an IP
+// address for /register) and returns a 429 once any is over its per-minute
+// limit for the route, or null to let it through.
+export async function enforceRateLimit(
+  env: Env,
+  route: RateLimitedRoute,
+  callerIds: string[],
+): Promise<Response | null> {
+  const limits = getLimits(env);
+  const limit = {
+    generate: limits.generatePerMinute,
+    upload: limits.uploadPerMinute,
+    status: limits.statusPerMinute,
+    register: limits.registerPerMinute,
+    enhance: limits.enhancePerMinute,
+  }[route];
+  if (!limit) return null;
+
+  const window = minuteWindow(Date.now());
+  const store = getCounterStore(env);
+  const counts = await Promise.all(
+    callerIds.map((id) =>
+      store.increment(`rate:${route}:${id}:${window.id}`, window.ttlSeconds),
+    ),
+  );
+  return Math.max(...counts) > limit
+    ? tooManyRequests('RATE_LIMITED', 'Too many requests', window.resetsAt)
+    : null;
+}
+
+// ---------------------------------------------------------------------------
+// Generation quotas
+// ---------------------------------------------------------------------------
+
+export type QuotaPeriod = {
+  // null when the period has no limit
+  limit: number | null;
+  used: number;
+  remaining: number | null;
+  resetsAt: number;
+};
+
+export type QuotaUsage = {
+  daily: QuotaPeriod;
+  monthly: QuotaPeriod;
+};
+
+const quotaKey = (period: 'day' | 'month', id: string, window: Window) =>
+  `quota:${period}:${id}:${window.id}`;
+
+// Usage of the most used of `ids` (see limitIds), which is what runs out
+// first.
+export async function getQuota(env: Env, ids: string[]): Promise<QuotaUsage> {
+  const limits = getLimits(env);
+  const store = getCounterStore(env);
+  const now = Date.now();
+
+  const period = async (
+    name: 'day' | 'month',
+    window: Window,
+    limit: number,
+  ): Promise<QuotaPeriod> => {
+    const counts = await Promise.all(
+      ids.map((id) => store.get(quotaKey(name, id, window))),
+    );
+    const used = Math.max(...counts);
+    return {
+      limit: limit || null,
+      used,
+      remaining: limit ? Math.max(0, limit - used) : null,
+      resetsAt: window.resetsAt,
+    };
+  };
+
+  const [daily, monthly] = await Promise.all([
+    period('day', dayWindow(now), limits.generationsPerDay),
+    period('month', monthWindow(now), limits.generationsPerMonth),
+  ]);
+  return { daily, monthly };
+}
+
+// Returns a 429 if the client has no generations left this day or month.
+export async function enforceQuota(
+  env: Env,
+  ids: string[],
+): Promise<Response | null> {
+  const { daily, monthly } = await getQuota(env, ids);
+  if (monthly.remaining === 0) {
+    return tooManyRequests(
+      'QUOTA_EXCEEDED',
+      'Monthly generation quota reached',
+      monthly.resetsAt,
+    );
+  }
+  if (daily.remaining === 0) {
+    return tooManyRequests(
+      'QUOTA_EXCEEDED',
+      'Daily generation quota reached',
+      daily.resetsAt,
+    );
+  }
+  return null;
+}
+
+// Counts a generation the provider accepted against the client's quotas.
+export async function recordGeneration(
+  env: Env,
+  ids: string[],
+): Promise<void> {
+  const store = getCounterStore(env);
+  const now = Date.now();
+  const day = dayWindow(now);
+  const month = monthWindow(now);
+  await Promise.all(
+    ids.flatMap((id) => [
+      store.increment(quotaKey('day', id, day), day.ttlSeconds),
+      store.increment(quotaKey('month', id, month), month.ttlSeconds),
+    ]),
+  );
+}
+
+// Counts a /register request from `ip` and returns a 429 once the address
+// is over its registrations for the day.
+export async function enforceRegistrationQuota(
+  env: Env,
+  ip: string,
+): Promise<Response | null> {
+  const limit = getLimits(env).registrationsPerDay;
+  if (!limit) return null;
+
+  const window = dayWindow(Date.now());
+  const count = await getCounterStore(env).increment(
+    `quota:register:${ip}:${window.id}`,
+    window.ttlSeconds,
+  );
+  return count > limit
+    ? tooManyRequests(
+        'QUOTA_EXCEEDED',
+        'Daily registration limit reached',
+        window.resetsAt,
+      )
+    : null;
+}
+
+export async function handleQuota(
+  env: Env,
+  ids: string[],
+): Promise<Response> {
+  return Response.json(await getQuota(env, ids));
+}
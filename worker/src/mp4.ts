@@ -0,0 +1,770 @@
+// ---------------------------------------------------------------------------
+// MP4 concatenation
+// ---------------------------------------------------------------------------
+// Joins MP4 files end to end without re-encoding, by copying the sample
+// data into a single mdat and rebuilding each track's sample tables.
+// That only works when every input was produced by the same encoder
+// settings (identical stsd sample descriptions), which holds for clips
+// from one provider, model and mode — anything else is rejected with
+// Mp4IncompatibleError. Workers can't re-encode, so the app checks clip
+// settings before exporting and offers to save the clips separately.
+//
+// Scope: non-fragmented files, one or more tracks (video + optional
+// audio), stsz/stco/co64 tables. Edit lists beyond the first clip's initial
+// offset are not carried over.
+// ---------------------------------------------------------------------------
+
+export class Mp4Error extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'Mp4Error';
+  }
+}
+
+// The inputs are valid but can't be joined without re-encoding. `clip` is
+// the index of the first input that differs from the first one.
+export class Mp4IncompatibleError extends Mp4Error {
+  constructor(
+    message: string,
+    readonly clip: number,
+  ) {
+    super(message);
+    this.name = 'Mp4IncompatibleError';
+  }
+}
+
+// ---- Box parsing ----
+
+type Box = {
+  type: string;
+  start: number; // offset of the box header
+  content: number; // offset of the payload
+  end: number;
+};
+
+function readType(bytes: Uint8Array, at: number): string {
+  return String.fromCharCode(bytes[at], bytes[at + 1], bytes[at + 2], bytes[at + 3]);
+}
+
+function readU64(view: DataView, at: number): number {
+  return view.getUint32(at) * 2 ** 32 + view.getUint32(at + 4);
+}
+
+function children(bytes: Uint8Array, start: number, end: number): Box[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const boxes: Box[] = [];
+  let at = start;
+
+  while (at + 8 <= end) {
+    let size = view.getUint32(at);
+    const type = readType(bytes, at + 4);
+    let header = 8;
+
+    if (size === 1) {
+      size = readU64(view, at + 8);
+      header = 16;
+    } else if (size === 0) {
+      size = end - at;
+    }
+
+    if (size < header || at + size > end) {
+      throw new Mp4Error(`Corrupt box "${type}" at ${at}`);
+    }
+
+    boxes.push({ type, start: at, content: at + header, end: at + size });
+    at += size;
+  }
+
+  return boxes;
+}
+
+function find(boxes: Box[], type: string): Box | undefined {
+  return boxes.find((b) => b.type === type);
+}
+
+function need(boxes: Box[], type: string): Box {
+  const box = find(boxes, type);
+  if (!box) throw new Mp4Error(`Missing "${type}" box`);
+  return box;
+}
+
+// ---- Input model ----
+
+type Track = {
+  handler: string;
+  timescale: number;
+  tkhd: Uint8Array;
+  mdhd: Uint8Array;
+  hdlr: Uint8Array;
+  // minf children other than stbl (vmhd/smhd, dinf), copied as-is
+  minfExtras: Uint8Array[];
+  stsd: Uint8Array;
+  // Media time the first edit starts at (decoder delay), if any
+  editMediaTime: number | null;
+  sizes: number[];
+  offsets: number[];
+  durations: number[];
+  ctsOffsets: number[] | null;
+  // 0-based indices of sync samples; null means every sample is sync
+  sync: Set<number> | null;
+};
+
+type Movie = {
+  bytes: Uint8Array;
+  ftyp: Uint8Array;
+  mvhd: Uint8Array;
+  timescale: number;
+  tracks: Track[];
+};
+
+function fullBoxVersion(bytes: Uint8Array, box: Box): number {
+  return bytes[box.content];
+}
+
+function parseTrack(bytes: Uint8Array, view: DataView, trak: Box): Track {
+  const trakKids = children(bytes, trak.content, trak.end);
+  const tkhd = need(trakKids, 'tkhd');
+  const mdia = need(trakKids, 'mdia');
+  const mdiaKids = children(bytes, mdia.content, mdia.end);
+  const mdhd = need(mdiaKids, 'mdhd');
+  const hdlr = need(mdiaKids, 'hdlr');
+  const minf = need(mdiaKids, 'minf');
+  const minfKids = children(bytes, minf.content, minf.end);
+  const stbl = need(minfKids, 'stbl');
+  const stblKids = children(bytes, stbl.content, stbl.end);
+
+  const mdhdVersion = fullBoxVersion(bytes, mdhd);
+  const timescale = view.getUint32(mdhd.content + (mdhdVersion === 1 ? 20 : 12));
+  const handler = readType(bytes, hdlr.content + 8);
+
+  // -- Edit list: keep only the initial media offset --
+  let editMediaTime: number | null = null;
+  const edts = find(trakKids, 'edts');
+  if (edts) {
+    const elst = find(children(bytes, edts.content, edts.end), 'elst');
+    if (elst) {
+      const v = fullBoxVersion(bytes, elst);
+      const count = view.getUint32(elst.content + 4);
+      let at = elst.content + 8;
+      for (let i = 0; i < count; i++) {
+        const mediaTime =
+          v === 1
+            ? Number(view.getBigInt64(at + 8))
+            : view.getInt32(at + 4);
+        at += v === 1 ? 20 : 12;
+        if (mediaTime >= 0) {
+          editMediaTime = mediaTime;
+          break;
+        }
+      }
+    }
+  }
+
+  // -- Sample sizes --
+  const stsz = find(stblKids, 'stsz');
+  if (!stsz) throw new Mp4Error('Only stsz sample size tables are supported');
+  const fixedSize = view.getUint32(stsz.content + 4);
+  const sampleCount = view.getUint32(stsz.content + 8);
+  const sizes: number[] = [];
+  for (let i = 0; i < sampleCount; i++) {
+    sizes.push(fixedSize || view.getUint32(stsz.content + 12 + i * 4));
+  }
+
+  // -- Chunk offsets --
+  const chunkOffsets: number[] = [];
+  const stco = find(stblKids, 'stco');
+  const co64 = find(stblKids, 'co64');
+  if (stco) {
+    const count = view.getUint32(stco.content + 4);
+    for (let i = 0; i < count; i++) {
+      chunkOffsets.push(view.getUint32(stco.content + 8 + i * 4));
+    }
+  } else if (co64) {
+    const count = view.getUint32(co64.content + 4);
+    for (let i = 0; i < count; i++) {
+      chunkOffsets.push(readU64(view, co64.content + 8 + i * 8));
+    }
+  } else {
+    throw new Mp4Error('Missing chunk offset table');
+  }
+
+  // -- Sample offsets, via sample-to-chunk runs --
+  const stsc = need(stblKids, 'stsc');
+  const runCount = view.getUint32(stsc.content + 4);
+  const runs: { firstChunk: number; perChunk: number }[] = [];
+  for (let i = 0; i < runCount; i++) {
+    const at = stsc.content + 8 + i * 12;
+    runs.push({
+      firstChunk: view.getUint32(at),
+      perChunk: view.getUint32(at + 4),
+    });
+  }
+
+  const offsets: number[] = [];
+  let sample = 0;
+  for (let r = 0; r < runs.length; r++) {
+    const lastChunk =
+      r + 1 < runs.length ? runs[r + 1].firstChunk - 1 : chunkOffsets.length;
+    for (let chunk = runs[r].firstChunk; chunk <= lastChunk; chunk++) {
+      let offset = chunkOffsets[chunk - 1];
+      for (let i = 0; i < runs[r].perChunk && sample < sampleCount; i++) {
+        offsets.push(offset);
+        offset += sizes[sample++];
+      }
+    }
+  }
+  if (offsets.length !== sampleCount) {
+    throw new Mp4Error('Sample-to-chunk table does not match sample count');
+  }
+
+  // -- Decode durations --
+  const stts = need(stblKids, 'stts');
+  const durations: number[] = [];
+  const sttsCount = view.getUint32(stts.content + 4);
+  for (let i = 0; i < sttsCount; i++) {
+    const at = stts.content + 8 + i * 8;
+    const n = view.getUint32(at);
+    const delta = view.getUint32(at + 4);
+    for (let j = 0; j < n; j++) durations.push(delta);
+  }
+
+  // -- Composition offsets --
+  let ctsOffsets: number[] | null = null;
+  const ctts = find(stblKids, 'ctts');
+  if (ctts) {
+    const signed = fullBoxVersion(bytes, ctts) === 1;
+    ctsOffsets = [];
+    const count = view.getUint32(ctts.content + 4);
+    for (let i = 0; i < count; i++) {
+      const at = ctts.content + 8 + i * 8;
+      const n = view.getUint32(at);
+      const offset = signed ? view.getInt32(at + 4) : view.getUint32(at + 4);
+      for (let j = 0; j < n; j++) ctsOffsets.push(offset);
+    }
+  }
+
+  // -- Sync samples --
+  let sync: Set<number> | null = null;
+  const stss = find(stblKids, 'stss');
+  if (stss) {
+    sync = new Set();
+    const count = view.getUint32(stss.content + 4);
+    for (let i = 0; i < count; i++) {
+      sync.add(view.getUint32(stss.content + 8 + i * 4) - 1);
+    }
+  }
+
+  if (durations.length !== sampleCount) {
+    throw new Mp4Error('Time-to-sample table does not match sample count');
+  }
+
+  return {
+    handler,
+    timescale,
+    tkhd: bytes.slice(tkhd.start, tkhd.end),
+    mdhd: bytes.slice(mdhd.start, mdhd.end),
+    hdlr: bytes.slice(hdlr.start, hdlr.end),
+    minfExtras: minfKids
+      .filter((b) => b.type !== 'stbl')
+      .map((b) => bytes.slice(b.start, b.end)),
+    stsd: bytes.slice(need(stblKids, 'stsd').start, need(stblKids, 'stsd').end),
+    editMediaTime,
+    sizes,
+    offsets,
+    durations,
+    ctsOffsets,
+    sync,
+  };
+}
+
+function parseMovie(bytes: Uint8Array): Movie {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const top = children(bytes, 0, bytes.length);
+  const ftyp = need(top, 'ftyp');
+  const moov = need(top, 'moov');
+  const moovKids = children(bytes, moov.content, moov.end);
+
+  if (find(moovKids, 'mvex')) {
+    throw new Mp4Error('Fragmented MP4 is not supported');
+  }
+
+  const mvhd = need(moovKids, 'mvhd');
+  const timescale = view.getUint32(
+    mvhd.content + (fullBoxVersion(bytes, mvhd) === 1 ? 20 : 12),
+  );
+
+  return {
+    bytes,
+    ftyp: bytes.slice(ftyp.start, ftyp.end),
+    mvhd: bytes.slice(mvhd.start, mvhd.end),
+    timescale,
+    tracks: moovKids
+      .filter((b) => b.type === 'trak')
+      .map((trak) => parseTrack(bytes, view, trak)),
+  };
+}
+
+// ---- Box writing ----
+// Also used by providers/dummy-video.ts to build its sample file.
+
+export function u32(n: number): Uint8Array {
+  const out = new Uint8Array(4);
+  new DataView(out.buffer).setUint32(0, n);
+  return out;
+}
+
+function i32(n: number): Uint8Array {
+  const out = new Uint8Array(4);
+  new DataView(out.buffer).setInt32(0, n);
+  return out;
+}
+
+function u64(n: number): Uint8Array {
+  const out = new Uint8Array(8);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, Math.floor(n / 2 ** 32));
+  view.setUint32(4, n >>> 0);
+  return out;
+}
+
+// A table of big-endian u32 values as a single chunk.
+export function u32s(values: number[]): Uint8Array {
+  const out = new Uint8Array(values.length * 4);
+  const view = new DataView(out.buffer);
+  values.forEach((v, i) => view.setUint32(i * 4, v >>> 0));
+  return out;
+}
+
+export function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const size = parts.reduce((n, p) => n + p.length, 0);
+  const out = new Uint8Array(size);
+  let at = 0;
+  for (const p of parts) {
+    out.set(p, at);
+    at += p.length;
+  }
+  return out;
+}
+
+export function box(type: string, ...parts: Uint8Array[]): Uint8Array {
+  const body = concatBytes(parts);
+  const header = new Uint8Array(8);
+  new DataView(header.buffer).setUint32(0, body.length + 8);
+  for (let i = 0; i < 4; i++) header[4 + i] = type.charCodeAt(i);
+  return concatBytes([header, body]);
+}
+
+function fullBox(
+  type: string,
+  version: number,
+  ...parts: Uint8Array[]
+): Uint8Array {
+  return box(type, new Uint8Array([version, 0, 0, 0]), ...parts);
+}
+
+// Overwrite the duration field of a copied mvhd/tkhd/mdhd box.
+function patchDuration(
+  raw: Uint8Array,
+  duration: number,
+  v0Offset: number,
+  v1Offset: number,
+): Uint8Array {
+  const out = raw.slice();
+  const view = new DataView(out.buffer);
+  // 8-byte box header, then version
+  if (out[8] === 1) {
+    view.setUint32(8 + v1Offset, Math.floor(duration / 2 ** 32));
+    view.setUint32(8 + v1Offset + 4, duration >>> 0);
+  } else {
+    view.setUint32(8 + v0Offset, Math.min(duration, 0xffffffff));
+  }
+  return out;
+}
+
+// Run-length encode values into (count, value) pairs.
+function runs(values: number[]): [number, number][] {
+  const out: [number, number][] = [];
+  for (const v of values) {
+    const last = out[out.length - 1];
+    if (last && last[1] === v) last[0]++;
+    else out.push([1, v]);
+  }
+  return out;
+}
+
+// ---- Concatenation ----
+
+type Segment = {
+  track: Track;
+  bytes: Uint8Array;
+  // Number of samples kept from the start of the track
+  count: number;
+  // Composition offsets to write for the kept samples (null: no ctts)
+  cts: number[] | null;
+};
+
+function sameBytes(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  for (let i = 0; i < a.length; i++) if (a[i] !== b[i]) return false;
+  return true;
+}
+
+function indexOfType(bytes: Uint8Array, type: string): number {
+  for (let i = 4; i + 4 <= bytes.length; i++) {
+    if (readType(bytes, i) === type) return i - 4;
+  }
+  return -1;
+}
+
+// Copy of an stsd with the per-file bitrate fields zeroed: encoders write
+// the measured bitrate into btrt and the esds DecoderConfigDescriptor, so
+// those differ between otherwise identically encoded clips.
+function codecFingerprint(stsd: Uint8Array): Uint8Array {
+  const out = stsd.slice();
+
+  const btrt = indexOfType(out, 'btrt');
+  if (btrt !== -1) out.fill(0, btrt + 8, btrt + 20);
+
+  const esds = indexOfType(out, 'esds');
+  if (esds !== -1) {
+    // Skip the box and full-box headers, then walk descriptors to tag 0x04
+    let at = esds + 12;
+    const end = esds + new DataView(out.buffer).getUint32(esds);
+    while (at < end) {
+      const tag = out[at++];
+      let len = 0;
+      for (let i = 0; i < 4; i++) {
+        const b = out[at++];
+        len = (len << 7) | (b & 0x7f);
+        if (!(b & 0x80)) break;
+      }
+      if (tag === 0x03) {
+        // ES_Descriptor: ES_ID(2) + flags(1) + optional fields, then children
+        const flags = out[at + 2];
+        at += 3;
+        if (flags & 0x80) at += 2; // dependsOn_ES_ID
+        if (flags & 0x40) at += 1 + out[at]; // URL
+        if (flags & 0x20) at += 2; // OCR_ES_ID
+        continue;
+      }
+      if (tag === 0x04) {
+        // objectType(1) streamType(1) bufferSizeDB(3) maxBitrate(4) avgBitrate(4)
+        out.fill(0, at + 2, at + 13);
+        break;
+      }
+      at += len;
+    }
+  }
+
+  return out;
+}
+
+// How many trailing samples to drop so their total duration is as close
+// as possible to `seconds`.
+function samplesToDrop(track: Track, seconds: number): number {
+  const target = seconds * track.timescale;
+  let dropped = 0;
+  let total = 0;
+  for (let i = track.durations.length - 1; i > 0; i--) {
+    const d = track.durations[i];
+    if (total + d / 2 > target) break;
+    total += d;
+    dropped++;
+  }
+  return dropped;
+}
+
+// Where a clip is cut short: how many video samples are kept, in decode
+// order, and the composition offsets to write for them (null: no ctts).
+type VideoCut = { count: number; cts: number[] | null };
+
+// Cuts `track` so the frame showing at `cutAtMs` (null: the last frame) is
+// the last one presented, or with `dropCutFrame` the first one left out.
+// Null when nothing is cut.
+//
+// Samples can only be dropped from the end in decode order. With B-frames
+// that isn't presentation order, so the kept frames are given consecutive
+// presentation slots again: a frame decoded early but shown after the cut
+// moves into the place of one decoded late that was dropped.
+function cutVideo(
+  track: Track,
+  cutAtMs: number | null,
+  dropCutFrame: boolean,
+): VideoCut | null {
+  const total = track.sizes.length;
+  const dts: number[] = [];
+  const pts: number[] = [];
+  for (let s = 0, t = 0; s < total; t += track.durations[s], s++) {
+    dts.push(t);
+    pts.push(t + (track.ctsOffsets?.[s] ?? 0));
+  }
+  const order = pts.map((_, s) => s).sort((a, b) => pts[a] - pts[b]);
+  const start = pts[order[0]];
+
+  // Rank, in presentation order, of the frame showing at the cut
+  let cutFrame = total - 1;
+  if (cutAtMs !== null) {
+    const at = start + (cutAtMs / 1000) * track.timescale;
+    cutFrame = 0;
+    while (cutFrame + 1 < total && pts[order[cutFrame + 1]] <= at) cutFrame++;
+  }
+  // At least one frame stays, whatever was asked.
+  const count = Math.max(1, dropCutFrame ? cutFrame : cutFrame + 1);
+  if (count >= total) return null;
+  if (!track.ctsOffsets) return { count, cts: null };
+
+  const cts: number[] = new Array(count);
+  let slot = start;
+  for (const s of order.filter((s) => s < count)) {
+    cts[s] = slot - dts[s];
+    slot += track.durations[s];
+  }
+  return { count, cts };
+}
+
+export type ConcatOptions = {
+  // Drop the duplicated frame at each join. The next clip starts on the
+  // previous clip's last frame, so one copy is redundant. We drop the
+  // previous clip's final decoded frame rather than the next clip's first:
+  // the first frame is the keyframe everything after it is predicted from,
+  // while nothing depends on the last one in decode order. Other tracks
+  // (audio) lose the same amount of time so they stay in sync.
+  trimJoins?: boolean;
+  // Per input, the time in ms of the frame the next clip starts from, when
+  // that is an earlier frame than the last (the app's continuation frame
+  // picker). The clip ends on that frame — before it, with trimJoins — and
+  // its other tracks are cut to match. null plays a clip to its end.
+  cutAtMs?: (number | null)[];
+};
+
+export function concatMp4(
+  inputs: Uint8Array[],
+  options: ConcatOptions = {},
+): Uint8Array {
+  if (inputs.length === 0) throw new Mp4Error('No inputs');
+
+  const movies = inputs.map(parseMovie);
+  const first = movies[0];
+
+  // -- Compatibility checks --
+  movies.forEach((movie, k) => {
+    if (movie.tracks.length !== first.tracks.length) {
+      throw new Mp4IncompatibleError('Clips have different track layouts', k);
+    }
+    movie.tracks.forEach((t, i) => {
+      const ref = first.tracks[i];
+      if (
+        t.handler !== ref.handler ||
+        t.timescale !== ref.timescale ||
+        !sameBytes(codecFingerprint(t.stsd), codecFingerprint(ref.stsd))
+      ) {
+        throw new Mp4IncompatibleError(
+          'Clips were encoded with different settings',
+          k,
+        );
+      }
+    });
+  });
+
+  // -- Per clip, per track: how many samples to keep --
+  const segments: Segment[][] = movies.map((movie, k) => {
+    const isLast = k === movies.length - 1;
+    const videoIdx = movie.tracks.findIndex((t) => t.handler === 'vide');
+    const cutAtMs = options.cutAtMs?.[k] ?? null;
+    let cut: VideoCut | null = null;
+    if (!isLast && videoIdx !== -1 && (options.trimJoins || cutAtMs !== null)) {
+      cut = cutVideo(movie.tracks[videoIdx], cutAtMs, !!options.trimJoins);
+    }
+
+    let trimSeconds = 0;
+    if (cut) {
+      const video = movie.tracks[videoIdx];
+      const dropped = video.durations.slice(cut.count).reduce((a, b) => a + b, 0);
+      trimSeconds = dropped / video.timescale;
+    }
+
+    return movie.tracks.map((track, i) => {
+      if (i === videoIdx && cut) {
+        return { track, bytes: movie.bytes, count: cut.count, cts: cut.cts };
+      }
+      const drop = trimSeconds > 0 ? samplesToDrop(track, trimSeconds) : 0;
+      const count = track.sizes.length - drop;
+      const cts = track.ctsOffsets?.slice(0, count) ?? null;
+      return { track, bytes: movie.bytes, count, cts };
+    });
+  });
+
+  // -- Layout: ftyp, moov, mdat (clip by clip, track by track) --
+  const trackCount = first.tracks.length;
+  const dataSize = segments.reduce(
+    (n, clip) =>
+      n +
+      clip.reduce(
+        (m, seg) =>
+          m + seg.track.sizes.slice(0, seg.count).reduce((a, b) => a + b, 0),
+        0,
+      ),
+    0,
+  );
+  if (dataSize + 8 > 0xffffffff) {
+    throw new Mp4Error('Output too large');
+  }
+
+  const buildMoov = (mdatDataStart: number): Uint8Array => {
+    // Chunk offsets: one chunk per (clip, track), in mdat order
+    const chunkOffsets: number[][] = Array.from({ length: trackCount }, () => []);
+    let at = mdatDataStart;
+    for (const clip of segments) {
+      clip.forEach((seg, t) => {
+        chunkOffsets[t].push(at);
+        for (let i = 0; i < seg.count; i++) at += seg.track.sizes[i];
+      });
+    }
+    const use64 = at > 0xffffffff;
+
+    let movieDuration = 0;
+    const traks = first.tracks.map((ref, t) => {
+      const sizes: number[] = [];
+      const durations: number[] = [];
+      const cts: number[] = [];
+      const syncSamples: number[] = [];
+      const anyCtts = segments.some((clip) => clip[t].cts);
+      const anySync = segments.some((clip) => clip[t].track.sync);
+
+      for (const clip of segments) {
+        const { track, count, cts: segCts } = clip[t];
+        for (let i = 0; i < count; i++) {
+          sizes.push(track.sizes[i]);
+          durations.push(track.durations[i]);
+          if (anyCtts) cts.push(segCts?.[i] ?? 0);
+          if (anySync && (!track.sync || track.sync.has(i))) {
+            syncSamples.push(sizes.length); // 1-based
+          }
+        }
+      }
+
+      const mediaDuration = durations.reduce((a, b) => a + b, 0);
+      const trackDuration = Math.round(
+        (mediaDuration / ref.timescale) * first.timescale,
+      );
+      movieDuration = Math.max(movieDuration, trackDuration);
+
+      const sttsRuns = runs(durations);
+      const stbl: Uint8Array[] = [
+        ref.stsd,
+        fullBox(
+          'stts',
+          0,
+          u32(sttsRuns.length),
+          u32s(sttsRuns.flat()),
+        ),
+      ];
+
+      if (anyCtts) {
+        const cttsRuns = runs(cts);
+        const signed = cts.some((c) => c < 0);
+        stbl.push(
+          fullBox(
+            'ctts',
+            signed ? 1 : 0,
+            u32(cttsRuns.length),
+            // Negative offsets wrap to their two's-complement u32 form.
+            u32s(cttsRuns.flat()),
+          ),
+        );
+      }
+
+      if (anySync) {
+        stbl.push(
+          fullBox('stss', 0, u32(syncSamples.length), u32s(syncSamples)),
+        );
+      }
+
+      stbl.push(
+        fullBox(
+          'stsc',
+          0,
+          u32(segments.length),
+          u32s(segments.flatMap((clip, k) => [k + 1, clip[t].count, 1])),
+        ),
+        fullBox('stsz', 0, u32(0), u32(sizes.length), u32s(sizes)),
+        use64
+          ? fullBox(
+              'co64',
+              0,
+              u32(chunkOffsets[t].length),
+              concatBytes(chunkOffsets[t].map(u64)),
+            )
+          : fullBox(
+              'stco',
+              0,
+              u32(chunkOffsets[t].length),
+              u32s(chunkOffsets[t]),
+            ),
+      );
+
+      const trakParts: Uint8Array[] = [patchDuration(ref.tkhd, trackDuration, 20, 28)];
+
+      // Keep the first clip's decoder-delay offset so B-frame streams still
+      // start at presentation time zero.
+      if (ref.editMediaTime !== null) {
+        trakParts.push(
+          box(
+            'edts',
+            fullBox(
+              'elst',
+              0,
+              u32(1),
+              u32(trackDuration),
+              i32(ref.editMediaTime),
+              u32(0x00010000),
+            ),
+          ),
+        );
+      }
+
+      trakParts.push(
+        box(
+          'mdia',
+          patchDuration(ref.mdhd, mediaDuration, 16, 24),
+          ref.hdlr,
+          box('minf', ...ref.minfExtras, box('stbl', ...stbl)),
+        ),
+      );
+
+      return box('trak', ...trakParts);
+    });
+
+    return box('moov', patchDuration(first.mvhd, movieDuration, 16, 24), ...traks);
+  };
+
+  // The moov size doesn't depend on the offset values (only on whether they
+  // need 64 bits, which a first pass settles), so build it twice.
+  const probe = buildMoov(0);
+  const mdatDataStart = first.ftyp.length + probe.length + 8;
+  const moov = buildMoov(mdatDataStart);
+  if (moov.length !== probe.length) {
+    throw new Mp4Error('Internal layout error');
+  }
+
+  const out = new Uint8Array(mdatDataStart + dataSize);
+  out.set(first.ftyp, 0);
+  out.set(moov, first.ftyp.length);
+  const mdatHeader = box('mdat');
+  new DataView(mdatHeader.buffer).setUint32(0, dataSize + 8);
+  out.set(mdatHeader, first.ftyp.length + moov.length);
+
+  let at = mdatDataStart;
+  for (const clip of segments) {
+    for (const seg of clip) {
+      for (let i = 0; i < seg.count; i++) {
+        const offset = seg.track.offsets[i];
+        const size = seg.track.sizes[i];
+        out.set(seg.bytes.subarray(offset, offset + size), at);
+        at += size;
+      }
+    }
+  }
+
+  return out;
+}
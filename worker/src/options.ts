@@ -0,0 +1,114 @@
+import type { Provider } from './providers';
+
+// ---------------------------------------------------------------------------
+// Generation options
+// ---------------------------------------------------------------------------
+// /generate accepts an optional `options` object. Every field is optional
+// and falls back to the defaults below; anything outside the allow-lists is
+// rejected with a 400 rather than silently forwarded to the provider.
+//
+// Wire format (snake_case, matching Kling's own field names):
+//   { duration: 5 | 10, mode: 'std' | 'pro', cfg_scale: 0..1,
+//     negative_prompt: string, model: string }
+// ---------------------------------------------------------------------------
+
+export const DURATIONS = [5, 10] as const;
+export const MODES = ['std', 'pro'] as const;
+
+export type Duration = (typeof DURATIONS)[number];
+export type Mode = (typeof MODES)[number];
+
+export type GenerationOptions = {
+  duration: Duration;
+  mode: Mode;
+  cfgScale: number;
+  negativePrompt: string;
+  model: string;
+};
+
+const DEFAULT_DURATION: Duration = 5;
+const DEFAULT_MODE: Mode = 'std';
+const DEFAULT_CFG_SCALE = 0.5;
+const MAX_NEGATIVE_PROMPT_LENGTH = 2500;
+
+type RawOptions = {
+  duration?: unknown;
+  mode?: unknown;
+  cfg_scale?: unknown;
+  negative_prompt?: unknown;
+  model?: unknown;
+};
+
+export type ParsedOptions =
+  | { ok: true; options: GenerationOptions }
+  | { ok: false; error: string };
+
+export function parseGenerationOptions(
+  raw: unknown,
+  provider: Provider,
+): ParsedOptions {
+  if (raw !== undefined && (typeof raw !== 'object' || raw === null)) {
+    return { ok: false, error: 'options must be an object' };
+  }
+
+  const input = (raw ?? {}) as RawOptions;
+  const options: GenerationOptions = {
+    duration: DEFAULT_DURATION,
+    mode: DEFAULT_MODE,
+    cfgScale: DEFAULT_CFG_SCALE,
+    negativePrompt: '',
+    model: provider.models[0],
+  };
+
+  if (input.duration !== undefined) {
+    // Accept "5" as well as 5 — Kling itself takes the duration as a string.
+    const duration = Number(input.duration);
+    if (!DURATIONS.includes(duration as Duration)) {
+      return { ok: false, error: `duration must be one of ${DURATIONS.join(', ')}` };
+    }
+    options.duration = duration as Duration;
+  }
+
+  if (input.mode !== undefined) {
+    if (!MODES.includes(input.mode as Mode)) {
+      return { ok: false, error: `mode must be one of ${MODES.join(', ')}` };
+    }
+    options.mode = input.mode as Mode;
+  }
+
+  if (input.cfg_scale !== undefined) {
+    const cfgScale = input.cfg_scale;
+    if (typeof cfgScale !== 'number' || !(cfgScale >= 0 && cfgScale <= 1)) {
+      return { ok: false, error: 'cfg_scale must be a number between 0 and 1' };
+    }
+    options.cfgScale = cfgScale;
+  }
+
+  if (input.negative_prompt !== undefined) {
+    if (typeof input.negative_prompt !== 'string') {
+      return { ok: false, error: 'negative_prompt must be a string' };
+    }
+    if (input.negative_prompt.length > MAX_NEGATIVE_PROMPT_LENGTH) {
+      return {
+        ok: false,
+        error: `negative_prompt must be at most ${MAX_NEGATIVE_PROMPT_LENGTH} characters`,
+      };
+    }
+    options.negativePrompt = input.negative_prompt.trim();
+  }
+
+  if (input.model !== undefined) {
+    if (
+      typeof input.model !== 'string' ||
+      !provider.models.includes(input.model)
+    ) {
+      return {
+        ok: false,
+        error: `model must be one of ${provider.models.join(', ')}`,
+      };
+    }
+    options.model = input.model;
+  }
+
+  return { ok: true, options };
+}
@@ -0,0 +1,355 @@
+import { box, concatBytes, u32, u32s } from '../mp4';
+import type { Duration } from '../options';
+
+// ---------------------------------------------------------------------------
+// Synthetic sample video
+// ---------------------------------------------------------------------------
+// The dummy provider's "generated" clip, built in code so dummy mode works
+// offline. It is a real H.264 (Constrained Baseline) MP4 that phones play:
+// one keyframe per second whose macroblocks are stored uncompressed
+// (I_PCM), followed by P frames that skip every macroblock, i.e. repeat
+// the keyframe. Each second has its own background colour and a bar along
+// the bottom that fills up, so the first and last frames differ — enough
+// to see continuity and last-frame extraction at work. It runs for the
+// duration the clip was requested at.
+// ---------------------------------------------------------------------------
+
+const WIDTH = 256;
+const HEIGHT = 144;
+const FPS = 10;
+
+const MB_COLS = WIDTH / 16;
+const MB_ROWS = HEIGHT / 16;
+const TIMESCALE = 1000;
+const PROFILE_BASELINE = 66;
+const CONSTRAINED_BASELINE = 0xc0; // constraint_set0 and set1
+const LEVEL = 30;
+
+// One hue per second, as RGB
+const PALETTE: [number, number, number][] = [
+  [49, 92, 160],
+  [60, 130, 140],
+  [70, 150, 90],
+  [140, 160, 60],
+  [190, 150, 50],
+  [200, 110, 50],
+  [190, 70, 70],
+  [160, 60, 120],
+  [110, 70, 160],
+  [70, 70, 110],
+];
+const BAR: [number, number, number] = [235, 235, 235];
+
+// ---- Bitstream ----
+
+class BitWriter {
+  private readonly bytes: number[] = [];
+  private current = 0;
+  private bits = 0;
+
+  u(width: number, value: number): void {
+    for (let i = width - 1; i >= 0; i--) {
+      this.current = (this.current << 1) | ((value >>> i) & 1);
+      if (++this.bits === 8) {
+        this.bytes.push(this.current);
+        this.current = 0;
+        this.bits = 0;
+      }
+    }
+  }
+
+  // Exp-Golomb codes
+  ue(value: number): void {
+    const x = value + 1;
+    const length = 31 - Math.clz32(x);
+    this.u(length, 0);
+    this.u(length + 1, x);
+  }
+
+  se(value: number): void {
+    this.ue(value > 0 ? 2 * value - 1 : -2 * value);
+  }
+
+  align(): void {
+    while (this.bits !== 0) this.u(1, 0);
+  }
+
+  raw(data: Uint8Array): void {
+    for (const b of data) this.u(8, b);
+  }
+
+  // rbsp_trailing_bits
+  finish(): Uint8Array {
+    this.u(1, 1);
+    this.align();
+    return Uint8Array.from(this.bytes);
+  }
+}
+
+// NAL unit with emulation prevention bytes, without a start code or length.
+function nal(refIdc: number, type: number, rbsp: Uint8Array): Uint8Array {
+  const out: number[] = [(refIdc << 5) | type];
+  let zeros = 0;
+  for (const b of rbsp) {
+    if (zeros >= 2 && b <= 3) {
+      out.push(3);
+      zeros = 0;
+    }
+    out.push(b);
+    zeros = b === 0 ? zeros + 1 : 0;
+  }
+  return Uint8Array.from(out);
+}
+
+function sps(): Uint8Array {
+  const w = new BitWriter();
+  w.u(8, PROFILE_BASELINE);
+  w.u(8, CONSTRAINED_BASELINE);
+  w.u(8, LEVEL);
+  w.ue(0); // seq_parameter_set_id
+  w.ue(0); // log2_max_frame_num_minus4: frame_num fits 4 bits
+  w.ue(2); // pic_order_cnt_type: output order is decode order
+  w.ue(1); // max_num_ref_frames
+  w.u(1, 0); // gaps_in_frame_num_value_allowed_flag
+  w.ue(MB_COLS - 1);
+  w.ue(MB_ROWS - 1);
+  w.u(1, 1); // frame_mbs_only_flag
+  w.u(1, 1); // direct_8x8_inference_flag
+  w.u(1, 0); // frame_cropping_flag
+  w.u(1, 0); // vui_parameters_present_flag
+  return nal(3, 7, w.finish());
+}
+
+function pps(): Uint8Array {
+  const w = new BitWriter();
+  w.ue(0); // pic_parameter_set_id
+  w.ue(0); // seq_parameter_set_id
+  w.u(1, 0); // entropy_coding_mode_flag: CAVLC
+  w.u(1, 0); // bottom_field_pic_order_in_frame_present_flag
+  w.ue(0); // num_slice_groups_minus1
+  w.ue(0); // num_ref_idx_l0_default_active_minus1
+  w.ue(0); // num_ref_idx_l1_default_active_minus1
+  w.u(1, 0); // weighted_pred_flag
+  w.u(2, 0); // weighted_bipred_idc
+  w.se(0); // pic_init_qp_minus26
+  w.se(0); // pic_init_qs_minus26
+  w.se(0); // chroma_qp_index_offset
+  w.u(1, 1); // deblocking_filter_control_present_flag
+  w.u(1, 0); // constrained_intra_pred_flag
+  w.u(1, 0); // redundant_pic_cnt_present_flag
+  return nal(3, 8, w.finish());
+}
+
+// BT.601 limited range
+function yuv([r, g, b]: [number, number, number]): [number, number, number] {
+  return [
+    Math.round(16 + (65.481 * r + 128.553 * g + 24.966 * b) / 255),
+    Math.round(128 + (-37.797 * r - 74.203 * g + 112 * b) / 255),
+    Math.round(128 + (112 * r - 93.786 * g - 18.214 * b) / 255),
+  ];
+}
+
+// Keyframe for second `index` of `seconds`: every macroblock is I_PCM, so
+// the pixels are written out as-is.
+function keyframe(index: number, seconds: number): Uint8Array {
+  const background = yuv(PALETTE[index % PALETTE.length]);
+  const bar = yuv(BAR);
+  const barColumns = Math.round(((index + 1) * MB_COLS) / seconds);
+
+  const w = new BitWriter();
+  w.ue(0); // first_mb_in_slice
+  w.ue(7); // slice_type: I
+  w.ue(0); // pic_parameter_set_id
+  w.u(4, 0); // frame_num
+  w.ue(index); // idr_pic_id
+  w.u(1, 0); // no_output_of_prior_pics_flag
+  w.u(1, 0); // long_term_reference_flag
+  w.se(0); // slice_qp_delta
+  w.ue(1); // disable_deblocking_filter_idc
+
+  const samples = new Uint8Array(384);
+  for (let row = 0; row < MB_ROWS; row++) {
+    for (let col = 0; col < MB_COLS; col++) {
+      const [y, cb, cr] =
+        row === MB_ROWS - 1 && col < barColumns ? bar : background;
+      samples.fill(y, 0, 256);
+      samples.fill(cb, 256, 320);
+      samples.fill(cr, 320, 384);
+      w.ue(25); // mb_type: I_PCM
+      w.align(); // pcm_alignment_zero_bit
+      w.raw(samples);
+    }
+  }
+  return nal(3, 5, w.finish());
+}
+
+// P frame that repeats the previous frame: one run of skipped macroblocks.
+function repeatFrame(frameNum: number): Uint8Array {
+  const w = new BitWriter();
+  w.ue(0); // first_mb_in_slice
+  w.ue(5); // slice_type: P
+  w.ue(0); // pic_parameter_set_id
+  w.u(4, frameNum);
+  w.u(1, 0); // num_ref_idx_active_override_flag
+  w.u(1, 0); // ref_pic_list_modification_flag_l0
+  w.u(1, 0); // adaptive_ref_pic_marking_mode_flag
+  w.se(0); // slice_qp_delta
+  w.ue(1); // disable_deblocking_filter_idc
+  w.ue(MB_COLS * MB_ROWS); // mb_skip_run
+  return nal(2, 1, w.finish());
+}
+
+// ---- Container ----
+
+function lengthPrefixed(unit: Uint8Array): Uint8Array {
+  return concatBytes([u32(unit.length), unit]);
+}
+
+function u16(n: number): Uint8Array {
+  return Uint8Array.of(n >> 8, n & 0xff);
+}
+
+// Full-box version 0 with the given flags
+function header(flags = 0): Uint8Array {
+  return Uint8Array.of(0, flags >> 16, (flags >> 8) & 0xff, flags & 0xff);
+}
+
+const MATRIX = u32s([0x00010000, 0, 0, 0, 0x00010000, 0, 0, 0, 0x40000000]);
+
+function sampleEntry(spsUnit: Uint8Array, ppsUnit: Uint8Array): Uint8Array {
+  const avcC = box(
+    'avcC',
+    Uint8Array.of(1, PROFILE_BASELINE, CONSTRAINED_BASELINE, LEVEL),
+    Uint8Array.of(0xff, 0xe1), // 4-byte NAL lengths, one SPS
+    u16(spsUnit.length),
+    spsUnit,
+    Uint8Array.of(1), // one PPS
+    u16(ppsUnit.length),
+    ppsUnit,
+  );
+  return box(
+    'avc1',
+    new Uint8Array(6),
+    u16(1), // data_reference_index
+    new Uint8Array(16),
+    u16(WIDTH),
+    u16(HEIGHT),
+    u32(0x00480000), // 72 dpi
+    u32(0x00480000),
+    u32(0),
+    u16(1), // frame_count
+    new Uint8Array(32), // compressorname
+    u16(0x0018), // depth
+    u16(0xffff),
+    avcC,
+  );
+}
+
+function buildMp4(seconds: number): Uint8Array {
+  const spsUnit = sps();
+  const ppsUnit = pps();
+  const frameCount = seconds * FPS;
+  const frameDuration = TIMESCALE / FPS;
+  const duration = frameCount * frameDuration;
+
+  const samples: Uint8Array[] = [];
+  const keyframes: number[] = [];
+  for (let i = 0; i < frameCount; i++) {
+    const second = Math.floor(i / FPS);
+    if (i % FPS === 0) {
+      keyframes.push(i + 1);
+      samples.push(lengthPrefixed(keyframe(second, seconds)));
+    } else {
+      samples.push(lengthPrefixed(repeatFrame(i % FPS)));
+    }
+  }
+
+  const ftyp = box(
+    'ftyp',
+    new TextEncoder().encode('isom'),
+    u32(0x200),
+    new TextEncoder().encode('isomiso2avc1mp41'),
+  );
+
+  const moov = (mdatOffset: number) =>
+    box(
+      'moov',
+      box(
+        'mvhd',
+        header(),
+        u32s([0, 0, TIMESCALE, duration, 0x00010000]),
+        u16(0x0100), // volume
+        new Uint8Array(10),
+        MATRIX,
+        new Uint8Array(24),
+        u32(2), // next_track_ID
+      ),
+      box(
+        'trak',
+        box(
+          'tkhd',
+          header(3), // enabled, in movie
+          u32s([0, 0, 1, 0, duration, 0, 0]),
+          new Uint8Array(8), // layer, alternate_group, volume, reserved
+          MATRIX,
+          u32(WIDTH << 16),
+          u32(HEIGHT << 16),
+        ),
+        box(
+          'mdia',
+          box(
+            'mdhd',
+            header(),
+            u32s([0, 0, TIMESCALE, duration]),
+            u16(0x55c4), // "und"
+            u16(0),
+          ),
+          box(
+            'hdlr',
+            header(),
+            u32(0),
+            new TextEncoder().encode('vide'),
+            new Uint8Array(12),
+            new TextEncoder().encode('VideoHandler\0'),
+          ),
+          box(
+            'minf',
+            box('vmhd', header(1), new Uint8Array(8)),
+            box(
+              'dinf',
+              box('dref', header(), u32(1), box('url ', header(1))),
+            ),
+            box(
+              'stbl',
+              box('stsd', header(), u32(1), sampleEntry(spsUnit, ppsUnit)),
+              box('stts', header(), u32s([1, frameCount, frameDuration])),
+              box('stss', header(), u32s([keyframes.length, ...keyframes])),
+              box('stsc', header(), u32s([1, 1, frameCount, 1])),
+              box(
+                'stsz',
+                header(),
+                u32s([0, frameCount, ...samples.map((s) => s.length)]),
+              ),
+              box('stco', header(), u32s([1, mdatOffset])),
+            ),
+          ),
+        ),
+      ),
+    );
+
+  // moov's size doesn't depend on the offset it records.
+  const mdatOffset = ftyp.length + moov(0).length + 8;
+  return concatBytes([ftyp, moov(mdatOffset), box('mdat', ...samples)]);
+}
+
+const cached = new Map<Duration, Uint8Array>();
+
+// Built once per duration per isolate (about 50 KB a second).
+export function dummyVideoBytes(seconds: Duration): Uint8Array {
+  let bytes = cached.get(seconds);
+  if (!bytes) {
+    bytes = buildMp4(seconds);
+    cached.set(seconds, bytes);
+  }
+  return bytes;
+}
@@ -0,0 +1,222 @@
+import {
+  ProviderError,
+  type GenerateInput,
+  type ProviderContext,
+  type TaskResult,
+  type VideoProvider,
+} from './types';
+import { KLING_MODELS } from './kling';
+import { dummyVideoBytes } from './dummy-video';
+import { ApiError, errorResponse } from '../errors';
+import { DURATIONS, type Duration } from '../options';
+
+// ---------------------------------------------------------------------------
+// Dummy provider
+// ---------------------------------------------------------------------------
+// Simulates generation with a short delay and returns a synthetic sample
+// video (see dummy-video.ts). No external calls are made, so it works
+// offline. It is picked automatically when no other provider is configured.
+//
+// Scenarios exercise the app's error and timeout paths without spending
+// credits. Pick one with an `X-Dummy-Scenario: <name>` header, or with a
+// `[dummy:<name>]` marker in the prompt (it may sit anywhere, since the
+// app wraps continued clips' prompts in continuity context):
+//   slow          completes after two minutes instead of a few seconds
+//   failed        the task fails
+//   stuck         the task never leaves processing
+//   expired       the task is forgotten once it would have completed
+//   rate-limited  429 PROVIDER_RATE_LIMITED
+//   server-error  500
+//   malformed     a 200 whose body is cut-off JSON
+// The scenario a task was started with is kept in its id, so its status
+// calls follow it. A header on a status call overrides it for that call,
+// e.g. to make one poll fail with a 429.
+// ---------------------------------------------------------------------------
+
+export const DUMMY_SCENARIOS = [
+  'slow',
+  'failed',
+  'stuck',
+  'expired',
+  'rate-limited',
+  'server-error',
+  'malformed',
+] as const;
+
+export type DummyScenario = (typeof DUMMY_SCENARIOS)[number];
+
+// How long the dummy "generation" takes before returning completed (ms)
+const DUMMY_DELAY_MS = 8_000;
+const DUMMY_SLOW_DELAY_MS = 2 * 60 * 1000;
+const DUMMY_RETRY_AFTER_SECONDS = 10;
+
+// The trick: encode the completion timestamp (and scenario and clip
+// length) inside the taskId itself — dummy_<readyAt>_<seconds> or
+// dummy_<scenario>_<readyAt>_<seconds> — so the worker is fully stateless
+// (no Map, no KV, no D1). Works correctly even on Cloudflare's edge where
+// each request may hit a different isolate. Ids from before the length was
+// kept end at <readyAt>; those clips were always 10 seconds long.
+const TASK_ID_PATTERN = /^dummy_(?:([a-z-]+)_)?(\d+)(?:_(\d+))?$/;
+const LEGACY_SECONDS: Duration = 10;
+const PROMPT_MARKER = /\[dummy:([a-z-]+)\]/;
+
+type DummyRaw = {
+  readyAt: number;
+  scenario: DummyScenario | null;
+  seconds: Duration;
+  workerOrigin: string;
+};
+
+function isDuration(seconds: number): seconds is Duration {
+  return DURATIONS.includes(seconds as Duration);
+}
+
+function isScenario(name: string | null | undefined): name is DummyScenario {
+  return DUMMY_SCENARIOS.includes(name as DummyScenario);
+}
+
+function headerScenario(ctx: ProviderContext): DummyScenario | null {
+  const name = ctx.requestHeaders?.get('X-Dummy-Scenario')?.trim();
+  return isScenario(name) ? name : null;
+}
+
+// Stands in for a response the app can't parse. Thrown like any ApiError,
+// so it reaches the client through the worker's error handler.
+class MalformedResponseError extends ApiError {
+  constructor() {
+    super('INTERNAL_ERROR', 'Simulated malformed response', 200);
+    this.name = 'MalformedResponseError';
+  }
+
+  toResponse(): Response {
+    return new Response('{"status": "proc', {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
+
+// The failures that answer a request instead of shaping a task.
+function throwRequestFailure(scenario: DummyScenario | null): void {
+  switch (scenario) {
+    case 'rate-limited':
+      throw new ProviderError(
+        'PROVIDER_RATE_LIMITED',
+        'The video provider is busy',
+        429,
+        undefined,
+        DUMMY_RETRY_AFTER_SECONDS,
+      );
+    case 'server-error':
+      throw new ProviderError('PROVIDER_ERROR', 'Simulated server error', 500);
+    case 'malformed':
+      throw new MalformedResponseError();
+  }
+}
+
+export const dummyProvider: VideoProvider<DummyRaw> = {
+  name: 'dummy',
+
+  // Stands in for Kling, so it accepts the same model names.
+  models: KLING_MODELS,
+
+  isConfigured: () => true,
+
+  async submit(input: GenerateInput, ctx: ProviderContext): Promise<string> {
+    const marker = PROMPT_MARKER.exec(input.prompt)?.[1];
+    const scenario =
+      headerScenario(ctx) ?? (isScenario(marker) ? marker : null);
+    throwRequestFailure(scenario);
+
+    const readyAt =
+      Date.now() + (scenario === 'slow' ? DUMMY_SLOW_DELAY_MS : DUMMY_DELAY_MS);
+    const seconds = input.options.duration;
+    const taskId = scenario
+      ? `dummy_${scenario}_${readyAt}_${seconds}`
+      : `dummy_${readyAt}_${seconds}`;
+
+    console.log(
+      `[DUMMY] Generate requested — prompt="${input.prompt.slice(0, 60)}…" ` +
+        `${seconds}s/${input.options.mode} → taskId=${taskId}`,
+    );
+
+    return taskId;
+  },
+
+  async poll(taskId: string, ctx: ProviderContext): Promise<DummyRaw> {
+    if (!taskId.startsWith('dummy_')) {
+      throw new ProviderError('TASK_NOT_FOUND', 'Task not found', 404);
+    }
+
+    const match = TASK_ID_PATTERN.exec(taskId);
+    const seconds = match?.[3] ? parseInt(match[3], 10) : LEGACY_SECONDS;
+    if (
+      !match ||
+      (match[1] !== undefined && !isScenario(match[1])) ||
+      !isDuration(seconds)
+    ) {
+      throw new ProviderError('INVALID_TASK_ID', 'Invalid task id', 400);
+    }
+
+    const readyAt = parseInt(match[2], 10);
+    const scenario =
+      headerScenario(ctx) ?? (match[1] as DummyScenario | undefined) ?? null;
+    throwRequestFailure(scenario);
+
+    if (scenario === 'expired' && Date.now() >= readyAt) {
+      console.log('[DUMMY] Status check — simulating an expired task');
+      throw new ProviderError('TASK_NOT_FOUND', 'Task not found', 404);
+    }
+
+    return { readyAt, scenario, seconds, workerOrigin: ctx.workerOrigin };
+  },
+
+  normalizeStatus({
+    readyAt,
+    scenario,
+    seconds,
+    workerOrigin,
+  }: DummyRaw): TaskResult {
+    if (scenario === 'stuck' || Date.now() < readyAt) {
+      console.log(
+        scenario === 'stuck'
+          ? '[DUMMY] Status check — stuck, still processing'
+          : `[DUMMY] Status check — ${Math.ceil((readyAt - Date.now()) / 1000)}s remaining`,
+      );
+      return { status: 'processing' };
+    }
+
+    if (scenario === 'failed') {
+      console.log('[DUMMY] Status check — simulating a failed generation');
+      return { status: 'failed', errorCode: 'GENERATION_FAILED' };
+    }
+
+    console.log('[DUMMY] Status check — completed, returning video URL');
+    return {
+      status: 'completed',
+      // Served by the worker's own /dummy-video endpoint.
+      videoUrl: `${workerOrigin}/dummy-video?seconds=${seconds}`,
+    };
+  },
+
+  fetchVideo: async (videoUrl) => handleDummyVideo(new URL(videoUrl)),
+};
+
+// The synthetic sample video, generated in-process so nothing is fetched.
+// It is as long as the `seconds` query asks, or as a legacy clip without one.
+export function handleDummyVideo(url: URL): Response {
+  const param = url.searchParams.get('seconds');
+  const seconds = param === null ? LEGACY_SECONDS : Number(param);
+  if (!isDuration(seconds)) {
+    return errorResponse(
+      'INVALID_REQUEST',
+      `seconds must be one of ${DURATIONS.join(', ')}`,
+      400,
+    );
+  }
+  return new Response(dummyVideoBytes(seconds), {
+    headers: {
+      'Content-Type': 'video/mp4',
+      'Cache-Control': 'public, max-age=86400',
+    },
+  });
+}
@@ -0,0 +1,120 @@
+import type { Env } from '../env';
+import { dummyProvider } from './dummy';
+import { klingProvider } from './kling';
+import { ProviderError, type Provider, type VideoProvider } from './types';
+
+export { ProviderError } from './types';
+export type {
+  GenerateInput,
+  Provider,
+  ProviderContext,
+  TaskResult,
+  TaskStatus,
+  VideoProvider,
+} from './types';
+
+// ---------------------------------------------------------------------------
+// Provider registry
+// ---------------------------------------------------------------------------
+// Providers are registered side by side. Registration order doubles as the
+// fallback order when VIDEO_PROVIDER is not set: the first configured one
+// wins, and dummy (always configured) goes last.
+// ---------------------------------------------------------------------------
+
+const providers = new Map<string, Provider>();
+
+// Checked against its own raw state type here, then stored without it.
+export function registerProvider<Raw>(provider: VideoProvider<Raw>): Provider {
+  const { parseCallback } = provider;
+  const registered: Provider = {
+    name: provider.name,
+    models: provider.models,
+    isConfigured: (env) => provider.isConfigured(env),
+    submit: (input, ctx) => provider.submit(input, ctx),
+    pollStatus: async (taskId, ctx) =>
+      provider.normalizeStatus(await provider.poll(taskId, ctx)),
+    parseCallback:
+      parseCallback &&
+      ((body) => {
+        const parsed = parseCallback.call(provider, body);
+        return (
+          parsed && {
+            taskId: parsed.taskId,
+            result: provider.normalizeStatus(parsed.raw),
+          }
+        );
+      }),
+    fetchVideo: provider.fetchVideo?.bind(provider),
+    cancel: provider.cancel?.bind(provider),
+  };
+  providers.set(provider.name, registered);
+  return registered;
+}
+
+registerProvider(klingProvider);
+const dummy = registerProvider(dummyProvider);
+
+export function listProviders(env: Env): { name: string; configured: boolean }[] {
+  return [...providers.values()].map((p) => ({
+    name: p.name,
+    configured: p.isConfigured(env),
+  }));
+}
+
+export function getDefaultProvider(env: Env): Provider {
+  if (env.VIDEO_PROVIDER) {
+    return getProvider(env.VIDEO_PROVIDER, env);
+  }
+  for (const provider of providers.values()) {
+    if (provider.isConfigured(env)) return provider;
+  }
+  return dummy;
+}
+
+// Look up a provider by name, rejecting unknown or unconfigured ones.
+export function getProvider(name: string, env: Env): Provider {
+  const provider = providers.get(name);
+  if (!provider) {
+    throw new ProviderError('INVALID_REQUEST', `Unknown provider: ${name}`, 400);
+  }
+  if (!provider.isConfigured(env)) {
+    throw new ProviderError(
+      'INVALID_REQUEST',
+      `Provider not configured: ${name}`,
+      400,
+    );
+  }
+  return provider;
+}
+
+// ---------------------------------------------------------------------------
+// Task IDs
+// ---------------------------------------------------------------------------
+// The id handed to the app is "<provider>:<provider task id>" so that
+// /status can route back to whichever provider started the job, even when
+// it was picked per request. Bare ids (no prefix) go to the default provider.
+// ---------------------------------------------------------------------------
+
+const TASK_ID_PATTERN = /^(?:[a-z][a-z0-9-]{0,31}:)?[A-Za-z0-9_.-]{1,128}$/;
+
+export function isValidTaskId(id: string): boolean {
+  return TASK_ID_PATTERN.test(id);
+}
+
+export function encodeTaskId(provider: Provider, taskId: string): string {
+  return `${provider.name}:${taskId}`;
+}
+
+export function decodeTaskId(
+  id: string,
+  env: Env,
+): { provider: Provider; taskId: string } {
+  const sep = id.indexOf(':');
+  if (sep === -1) {
+    return { provider: getDefaultProvider(env), taskId: id };
+  }
+  return {
+    provider: getProvider(id.slice(0, sep), env),
+    taskId: id.slice(sep + 1),
+  };
+}
@@ -0,0 +1,303 @@
+import type { Env } from '../env';
+import { base64url, hmacSha256 } from '../signing';
+import {
+  ProviderError,
+  type GenerateInput,
+  type ProviderContext,
+  type TaskResult,
+  type VideoProvider,
+} from './types';
+import { upstreamFetch, type UpstreamPolicy } from './upstream';
+
+// ---------------------------------------------------------------------------
+// Kling provider
+// ---------------------------------------------------------------------------
+// To enable it, set the secrets:
+//   wrangler secret put KLING_ACCESS_KEY
+//   wrangler secret put KLING_SECRET_KEY
+// ---------------------------------------------------------------------------
+
+const KLING_BASE = 'https://api.klingai.com';
+
+// KLING_BASE_URL points the provider at a stand-in, such as the mock in
+// test/mock-kling.ts.
+function klingBase(env: Env): string {
+  return env.KLING_BASE_URL || KLING_BASE;
+}
+
+export const KLING_MODELS = [
+  'kling-v2-6',
+  'kling-v2-5-turbo',
+  'kling-v2-1',
+  'kling-v2-1-master',
+  'kling-v1-6',
+] as const;
+
+// Submitting uploads the whole start image, so it gets longer. Only a
+// status check is safe to repeat after a lost answer.
+const SUBMIT_POLICY: UpstreamPolicy = {
+  name: 'kling',
+  timeoutMs: 30_000,
+  retries: 2,
+  idempotent: false,
+};
+const POLL_POLICY: UpstreamPolicy = {
+  name: 'kling',
+  timeoutMs: 10_000,
+  retries: 2,
+  idempotent: true,
+};
+
+const TOKEN_TTL_SECONDS = 1800;
+// A cached token is replaced this long before it expires, so it can't
+// lapse on its way to Kling.
+const TOKEN_REFRESH_MARGIN_SECONDS = 300;
+
+export async function generateJWT(
+  accessKey: string,
+  secretKey: string,
+): Promise<string> {
+  const header = base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+  const now = Math.floor(Date.now() / 1000);
+  const payload = base64url(
+    JSON.stringify({ iss: accessKey, exp: now + TOKEN_TTL_SECONDS, iat: now - 5 }),
+  );
+
+  const signingInput = `${header}.${payload}`;
+  const sig = await hmacSha256(secretKey, signingInput);
+
+  return `${signingInput}.${base64url(sig)}`;
+}
+
+let cachedToken: {
+  accessKey: string;
+  secretKey: string;
+  token: string;
+  exp: number;
+} | null = null;
+
+// Every submit and status poll needs a token, so one is signed per isolate
+// and reused until it nears expiry.
+export async function klingToken(env: Env): Promise<string> {
+  const accessKey = env.KLING_ACCESS_KEY!;
+  const secretKey = env.KLING_SECRET_KEY!;
+  const now = Math.floor(Date.now() / 1000);
+  if (
+    cachedToken?.accessKey === accessKey &&
+    cachedToken.secretKey === secretKey &&
+    cachedToken.exp - TOKEN_REFRESH_MARGIN_SECONDS > now
+  ) {
+    return cachedToken.token;
+  }
+  const token = await generateJWT(accessKey, secretKey);
+  cachedToken = { accessKey, secretKey, token, exp: now + TOKEN_TTL_SECONDS };
+  return token;
+}
+
+// An authenticated call to the Kling API. A rejected token is dropped, so
+// the next call signs a new one.
+async function klingFetch(
+  env: Env,
+  path: string,
+  init: RequestInit,
+  policy: UpstreamPolicy,
+): Promise<Response> {
+  const headers = new Headers(init.headers);
+  headers.set('Authorization', `Bearer ${await klingToken(env)}`);
+  const response = await upstreamFetch(
+    `${klingBase(env)}${path}`,
+    { ...init, headers },
+    policy,
+  );
+  if (response.status === 401) {
+    cachedToken = null;
+  }
+  return response;
+}
+
+// Kling's business error codes, from its API reference:
+//   1201-1203  invalid request parameters
+//   1301       content safety policy triggered
+//   1302-1304  rate, concurrency or IP limits
+// Everything else (auth, billing, server errors) is our problem, not the
+// user's, so it is reported generically. The raw body only goes to the log.
+// A rate limit keeps Kling's Retry-After when it sends one.
+const KLING_RATE_LIMIT_RETRY_SECONDS = 10;
+
+function klingError(
+  status: number,
+  body: string,
+  retryAfter: string | null = null,
+): ProviderError {
+  console.error(`[KLING] ${status} ${body}`);
+  let code: number | undefined;
+  try {
+    code = (JSON.parse(body) as { code?: number }).code;
+  } catch {
+    // Not JSON — fall through on the HTTP status alone.
+  }
+
+  if (code === 1301) {
+    return new ProviderError(
+      'PROVIDER_REJECTED_CONTENT',
+      'The video provider rejected this image or prompt',
+      422,
+    );
+  }
+  if (status === 429 || (code !== undefined && code >= 1302 && code <= 1304)) {
+    return new ProviderError(
+      'PROVIDER_RATE_LIMITED',
+      'The video provider is busy',
+      429,
+      undefined,
+      Number(retryAfter) > 0
+        ? Math.ceil(Number(retryAfter))
+        : KLING_RATE_LIMIT_RETRY_SECONDS,
+    );
+  }
+  if (code !== undefined && code >= 1201 && code <= 1203) {
+    return new ProviderError(
+      'INVALID_REQUEST',
+      'The video provider rejected the request',
+      400,
+    );
+  }
+  return new ProviderError('PROVIDER_ERROR', 'Video provider error', 502);
+}
+
+// Failure messages Kling gives tasks its content review turned down.
+const CONTENT_FAILURE_PATTERN = /risk|content|sensitive|safety|violat/i;
+
+function ensureDataUri(base64Image: string): string {
+  if (base64Image.startsWith('data:')) {
+    return base64Image;
+  }
+
+  let mimeType = 'image/jpeg';
+  if (base64Image.startsWith('iVBOR')) {
+    mimeType = 'image/png';
+  } else if (base64Image.startsWith('R0lGOD')) {
+    mimeType = 'image/gif';
+  } else if (base64Image.startsWith('UklGR')) {
+    mimeType = 'image/webp';
+  }
+
+  return `data:${mimeType};base64,${base64Image}`;
+}
+
+type KlingTask = {
+  task_id?: string;
+  task_status: string;
+  task_status_msg?: string;
+  task_result?: { videos?: { url: string }[] };
+};
+
+export const klingProvider: VideoProvider<KlingTask | undefined> = {
+  name: 'kling',
+
+  models: KLING_MODELS,
+
+  isConfigured: (env: Env) => !!env.KLING_ACCESS_KEY && !!env.KLING_SECRET_KEY,
+
+  async submit(input: GenerateInput, { env }: ProviderContext): Promise<string> {
+    const imageData = ensureDataUri(input.image);
+    const { options } = input;
+
+    const klingResponse = await klingFetch(
+      env,
+      '/v1/videos/image2video',
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          model_name: options.model,
+          image: imageData,
+          prompt: input.prompt,
+          negative_prompt: options.negativePrompt || undefined,
+          duration: String(options.duration),
+          mode: options.mode,
+          cfg_scale: options.cfgScale,
+          callback_url: input.callbackUrl,
+        }),
+      },
+      SUBMIT_POLICY,
+    );
+
+    if (!klingResponse.ok) {
+      throw klingError(
+        klingResponse.status,
+        await klingResponse.text(),
+        klingResponse.headers.get('Retry-After'),
+      );
+    }
+
+    const result = (await klingResponse.json().catch(() => null)) as {
+      data?: { task_id: string };
+      code?: number;
+      message?: string;
+    } | null;
+
+    if (!result?.data?.task_id) {
+      console.error('[KLING] No task_id returned', JSON.stringify(result));
+      throw new ProviderError('PROVIDER_ERROR', 'No task_id returned', 502);
+    }
+
+    return result.data.task_id;
+  },
+
+  async poll(
+    taskId: string,
+    { env }: ProviderContext,
+  ): Promise<KlingTask | undefined> {
+    const klingResponse = await klingFetch(
+      env,
+      `/v1/videos/image2video/${taskId}`,
+      {},
+      POLL_POLICY,
+    );
+
+    if (!klingResponse.ok) {
+      throw klingError(
+        klingResponse.status,
+        await klingResponse.text(),
+        klingResponse.headers.get('Retry-After'),
+      );
+    }
+
+    const result = (await klingResponse.json().catch(() => null)) as {
+      data?: KlingTask;
+    } | null;
+    if (!result) {
+      console.error('[KLING] Malformed status response');
+      throw new ProviderError('PROVIDER_ERROR', 'Video provider error', 502);
+    }
+    return result.data;
+  },
+
+  normalizeStatus(raw: KlingTask | undefined): TaskResult {
+    const status = raw?.task_status ?? 'unknown';
+    const videoUrl = raw?.task_result?.videos?.[0]?.url;
+
+    switch (status) {
+      case 'succeed':
+        return { status: 'completed', videoUrl };
+      case 'failed':
+        return {
+          status: 'failed',
+          errorCode: CONTENT_FAILURE_PATTERN.test(raw?.task_status_msg ?? '')
+            ? 'PROVIDER_REJECTED_CONTENT'
+            : 'GENERATION_FAILED',
+        };
+      default:
+        return { status: 'processing' };
+    }
+  },
+
+  // Kling POSTs the same task object the status endpoint returns under
+  // `data`, at the top level.
+  parseCallback(body: unknown) {
+    const task = body as KlingTask | null;
+    if (!task?.task_id || typeof task.task_status !== 'string') return null;
+    return { taskId: task.task_id, raw: task };
+  },
+};
@@ -0,0 +1,105 @@
+import type { Env } from '../env';
+import type { GenerationOptions } from '../options';
+import { ApiError, type ErrorCode } from '../errors';
+
+// ---------------------------------------------------------------------------
+// Video provider contract
+// ---------------------------------------------------------------------------
+// Every image-to-video backend (Kling, the dummy simulator, …) implements
+// this interface. The worker routes only talk to providers through it, so
+// the `{ status, videoUrl }` shape the app's checkStatus expects is the same
+// no matter which backend produced the video.
+// ---------------------------------------------------------------------------
+
+// `cancelled`: stopped at the provider through /cancel.
+export type TaskStatus = 'processing' | 'completed' | 'failed' | 'cancelled';
+
+export type TaskResult = {
+  status: TaskStatus;
+  videoUrl?: string;
+  // Why a failed task failed, when the provider says
+  errorCode?: ErrorCode;
+};
+
+export type GenerateInput = {
+  image: string;
+  prompt: string;
+  // Already validated against the provider's allow-lists, defaults filled in.
+  options: GenerationOptions;
+  // Signed URL the provider should POST the result to, when it supports
+  // completion callbacks and they are enabled (see callbacks.ts).
+  callbackUrl?: string;
+};
+
+export type ProviderContext = {
+  env: Env;
+  // Origin of the incoming request, for providers that serve media through
+  // the worker itself.
+  workerOrigin: string;
+  // Headers of the incoming request, for provider-specific switches such
+  // as the dummy provider's X-Dummy-Scenario.
+  requestHeaders?: Headers;
+};
+
+export interface VideoProvider<Raw = unknown> {
+  readonly name: string;
+
+  // Model names this provider accepts; the first one is the default.
+  readonly models: readonly string[];
+
+  // Whether the provider has everything it needs (secrets, bindings) to run.
+  isConfigured(env: Env): boolean;
+
+  // Start a generation job and return the provider's own task id.
+  submit(input: GenerateInput, ctx: ProviderContext): Promise<string>;
+
+  // Fetch the provider's raw task state.
+  poll(taskId: string, ctx: ProviderContext): Promise<Raw>;
+
+  // Map the raw task state onto the shared status shape. A property rather
+  // than a method, so its parameter is checked strictly against Raw.
+  normalizeStatus: (raw: Raw) => TaskResult;
+
+  // Extract the provider task id and raw state from a completion callback
+  // body. Providers without callback support leave this out.
+  parseCallback?: (body: unknown) => { taskId: string; raw: Raw } | null;
+
+  // Download a finished video for archiving. Defaults to a plain fetch of
+  // the URL; providers that serve videos through the worker itself override
+  // it, since a worker can't reliably fetch its own origin.
+  fetchVideo?(videoUrl: string, ctx: ProviderContext): Promise<Response>;
+
+  // Stop a running task so it isn't billed. Providers without a cancel
+  // API (Kling has none) leave this out; /cancel then only marks the task
+  // abandoned in the task registry.
+  cancel?(taskId: string, ctx: ProviderContext): Promise<void>;
+}
+
+// A registered provider, its raw task state type hidden (see
+// registerProvider). Raw state only ever travels from a provider's poll or
+// parseCallback to its own normalizeStatus, so the registry pairs those up
+// and the routes only see the shared TaskResult.
+export type Provider = Pick<
+  VideoProvider,
+  'name' | 'models' | 'isConfigured' | 'submit' | 'fetchVideo' | 'cancel'
+> & {
+  // poll, then normalizeStatus
+  pollStatus(taskId: string, ctx: ProviderContext): Promise<TaskResult>;
+  // parseCallback, then normalizeStatus
+  parseCallback?(body: unknown): { taskId: string; result: TaskResult } | null;
+};
+
+// Thrown by providers for errors that should reach the client with a
+// specific code and HTTP status instead of a generic 500.
+export class ProviderError extends ApiError {
+  constructor(
+    code: ErrorCode,
+    message: string,
+    status: number,
+    details?: unknown,
+    retryAfter?: number,
+  ) {
+    super(code, message, status, details, retryAfter);
+    this.name = 'ProviderError';
+  }
+}
@@ -0,0 +1,177 @@
+import { ProviderError } from './types';
+
+// ---------------------------------------------------------------------------
+// Upstream calls
+// ---------------------------------------------------------------------------
+// Providers reach their APIs through upstreamFetch, which gives every call:
+//   - a timeout per attempt
+//   - retries with jittered exponential backoff on 429 and 5xx, waiting
+//     out a short enough Retry-After instead
+//   - a circuit breaker per upstream. After BREAKER_THRESHOLD failed calls
+//     in a row (5xx, timeouts, dropped connections) it opens, and calls
+//     fail fast with PROVIDER_UNAVAILABLE for BREAKER_COOLDOWN_MS. Then one
+//     trial call goes through: success closes the breaker, failure opens
+//     it again.
+// Breaker state is per isolate. Each isolate finds out about an outage on
+// its own, which is enough to stop piling requests onto it.
+// ---------------------------------------------------------------------------
+
+export type UpstreamPolicy = {
+  // Calls with the same name share a breaker
+  name: string;
+  timeoutMs: number;
+  // Attempts after the first
+  retries: number;
+  // A request that creates something upstream may have gone through even
+  // if its answer was lost. Unless it is idempotent, it is only retried
+  // when the upstream certainly turned it away (429, 503).
+  idempotent: boolean;
+};
+
+const RETRY_BASE_MS = 300;
+// A longer Retry-After is passed on to the client instead of waited out.
+const MAX_RETRY_AFTER_MS = 5_000;
+
+const BREAKER_THRESHOLD = 5;
+const BREAKER_COOLDOWN_MS = 30_000;
+
+type Breaker = {
+  failures: number;
+  // When the breaker last opened; null while closed
+  openedAt: number | null;
+  // A trial call is in flight after the cooldown
+  probing: boolean;
+};
+
+const breakers = new Map<string, Breaker>();
+
+function breakerFor(name: string): Breaker {
+  let breaker = breakers.get(name);
+  if (!breaker) {
+    breaker = { failures: 0, openedAt: null, probing: false };
+    breakers.set(name, breaker);
+  }
+  return breaker;
+}
+
+// Throws PROVIDER_UNAVAILABLE while the breaker is open, and lets a single
+// trial call through once the cooldown is over.
+function admit(name: string): void {
+  const breaker = breakerFor(name);
+  if (breaker.openedAt === null) return;
+
+  const remaining = breaker.openedAt + BREAKER_COOLDOWN_MS - Date.now();
+  if (remaining > 0 || breaker.probing) {
+    throw new ProviderError(
+      'PROVIDER_UNAVAILABLE',
+      `Upstream ${name} is unavailable`,
+      503,
+      undefined,
+      Math.max(1, Math.ceil(remaining / 1000)),
+    );
+  }
+  breaker.probing = true;
+}
+
+function record(name: string, failed: boolean): void {
+  const breaker = breakerFor(name);
+  breaker.probing = false;
+  if (!failed) {
+    breaker.failures = 0;
+    breaker.openedAt = null;
+    return;
+  }
+  breaker.failures++;
+  if (breaker.openedAt !== null || breaker.failures >= BREAKER_THRESHOLD) {
+    if (breaker.openedAt === null) {
+      console.error(`[UPSTREAM] ${name} failing, breaker open`);
+    }
+    breaker.openedAt = Date.now();
+  }
+}
+
+// Seconds or an HTTP date, in ms from now
+function retryAfterMs(response: Response): number | null {
+  const header = response.headers.get('Retry-After');
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+function backoffMs(attempt: number): number {
+  return RETRY_BASE_MS * 2 ** attempt * (0.5 + Math.random());
+}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+class TimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Timed out after ${timeoutMs}ms`);
+    this.name = 'TimeoutError';
+  }
+}
+
+async function attempt(
+  url: string,
+  init: RequestInit,
+  timeoutMs: number,
+): Promise<Response> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } catch (err) {
+    throw controller.signal.aborted ? new TimeoutError(timeoutMs) : err;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// Returns the upstream's last response, successful or not, for the caller
+// to map onto an error. Throws PROVIDER_UNAVAILABLE when the breaker is
+// open, and PROVIDER_ERROR when no response arrived at all.
+export async function upstreamFetch(
+  url: string,
+  init: RequestInit,
+  policy: UpstreamPolicy,
+): Promise<Response> {
+  admit(policy.name);
+
+  for (let i = 0; ; i++) {
+    const canRetry = i < policy.retries;
+    let response: Response;
+    try {
+      response = await attempt(url, init, policy.timeoutMs);
+    } catch (err) {
+      if (canRetry && policy.idempotent) {
+        console.log(`[UPSTREAM] ${policy.name} attempt ${i + 1}: ${err}`);
+        await sleep(backoffMs(i));
+        continue;
+      }
+      record(policy.name, true);
+      console.error(`[UPSTREAM] ${policy.name} unreachable: ${err}`);
+      throw err instanceof TimeoutError
+        ? new ProviderError('PROVIDER_ERROR', 'Video provider timed out', 504)
+        : new ProviderError('PROVIDER_ERROR', 'Video provider unreachable', 502);
+    }
+
+    const { status } = response;
+    const turnedAway = status === 429 || status === 503;
+    const retryable = turnedAway || (status >= 500 && policy.idempotent);
+    if (retryable && canRetry) {
+      const wait = retryAfterMs(response) ?? backoffMs(i);
+      if (wait <= MAX_RETRY_AFTER_MS) {
+        // The body is never read; let the connection go.
+        await response.body?.cancel();
+        await sleep(wait);
+        continue;
+      }
+    }
+
+    record(policy.name, status >= 500);
+    return response;
+  }
+}
+
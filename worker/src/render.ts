@@ -0,0 +1,129 @@
+import type { Env } from './env';
+import { errorResponse } from './errors';
+import { Mp4Error, Mp4IncompatibleError, concatMp4 } from './mp4';
+import { getVideoStore, videoUrl } from './videos';
+
+// ---------------------------------------------------------------------------
+// POST /render — stitch stored clips into one MP4
+// ---------------------------------------------------------------------------
+// Body: { videoIds: string[], trimJoins?: boolean, cutAtMs?: (number|null)[] }
+// Every id must be an archived video (see videos.ts) owned by the caller.
+// cutAtMs gives, per clip, the time of the frame the next one continues
+// from when that isn't the last (see ConcatOptions).
+// The joined file is stored like any other video and returned as
+// { videoId, videoUrl }. Concatenation copies samples without re-encoding,
+// so it is fast enough to run inline — and only works for clips encoded
+// alike; others get 422 CLIPS_INCOMPATIBLE naming the first that differs.
+// ---------------------------------------------------------------------------
+
+const MAX_RENDER_CLIPS = 20;
+// Inputs and output are both held in memory (isolates get 128 MB).
+const MAX_RENDER_BYTES = 48 * 1024 * 1024;
+
+export async function handleRender(
+  request: Request,
+  clientId: string,
+  env: Env,
+  workerOrigin: string,
+): Promise<Response> {
+  const body = (await request.json().catch(() => ({}))) as {
+    videoIds?: unknown;
+    trimJoins?: unknown;
+    cutAtMs?: unknown;
+  };
+
+  const ids = body.videoIds;
+  if (
+    !Array.isArray(ids) ||
+    ids.length === 0 ||
+    !ids.every((id) => typeof id === 'string' && id)
+  ) {
+    return errorResponse(
+      'INVALID_REQUEST',
+      'videoIds must be a non-empty array of video ids',
+      400,
+    );
+  }
+  if (ids.length > MAX_RENDER_CLIPS) {
+    return errorResponse(
+      'INVALID_REQUEST',
+      `At most ${MAX_RENDER_CLIPS} clips can be joined`,
+      400,
+    );
+  }
+
+  const cutAtMs = body.cutAtMs;
+  if (
+    cutAtMs !== undefined &&
+    !(
+      Array.isArray(cutAtMs) &&
+      cutAtMs.length === ids.length &&
+      cutAtMs.every((t) => t === null || (Number.isFinite(t) && t >= 0))
+    )
+  ) {
+    return errorResponse(
+      'INVALID_REQUEST',
+      'cutAtMs must have a time in ms or null for each video',
+      400,
+    );
+  }
+
+  const store = getVideoStore(env);
+  let totalBytes = 0;
+  for (const id of ids as string[]) {
+    const meta = await store.head(id);
+    if (!meta || meta.clientId !== clientId) {
+      return errorResponse('VIDEO_NOT_FOUND', `Video not found: ${id}`, 404);
+    }
+    totalBytes += meta.size;
+  }
+  if (totalBytes > MAX_RENDER_BYTES) {
+    return errorResponse('RENDER_FAILED', 'Clips too large to join', 413);
+  }
+
+  const inputs: Uint8Array[] = [];
+  for (const id of ids as string[]) {
+    const stream = await store.get(id);
+    if (!stream) {
+      return errorResponse('VIDEO_NOT_FOUND', `Video not found: ${id}`, 404);
+    }
+    inputs.push(new Uint8Array(await new Response(stream).arrayBuffer()));
+  }
+
+  let output: Uint8Array;
+  try {
+    output = concatMp4(inputs, {
+      trimJoins: body.trimJoins === true,
+      cutAtMs: cutAtMs as (number | null)[] | undefined,
+    });
+  } catch (err) {
+    if (err instanceof Mp4IncompatibleError) {
+      return errorResponse(
+        'CLIPS_INCOMPATIBLE',
+        `Clip ${err.clip + 1} was encoded differently from clip 1`,
+        422,
+        { details: { clip: err.clip, reason: err.message } },
+      );
+    }
+    if (err instanceof Mp4Error) {
+      return errorResponse('RENDER_FAILED', 'Cannot join clips', 422, {
+        details: err.message,
+      });
+    }
+    throw err;
+  }
+
+  const videoId = crypto.randomUUID();
+  // concatMp4 allocates the output exactly, so its buffer is the whole file.
+  await store.put(videoId, output.buffer as ArrayBuffer, {
+    size: output.byteLength,
+    contentType: 'video/mp4',
+    clientId,
+  });
+
+  console.log(
+    `[RENDER] Joined ${ids.length} clips (${output.byteLength} bytes) → ${videoId}`,
+  );
+
+  return Response.json({ videoId, videoUrl: videoUrl(workerOrigin, videoId) });
+}
@@ -0,0 +1,75 @@
+// ---------------------------------------------------------------------------
+// Signing helpers
+// ---------------------------------------------------------------------------
+// HMAC-SHA256, hashing and constant-time comparison, shared by signed
+// callback URLs (callbacks.ts), device credentials (auth.ts) and Kling's
+// API tokens (providers/kling.ts).
+// ---------------------------------------------------------------------------
+
+const encoder = new TextEncoder();
+
+export function toHex(buf: ArrayBuffer): string {
+  return [...new Uint8Array(buf)]
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+export function base64url(input: string | ArrayBuffer): string {
+  const bytes =
+    typeof input === 'string' ? encoder.encode(input) : new Uint8Array(input);
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+// Decodes to a string, or null if the input isn't valid base64url.
+export function fromBase64url(input: string): string | null {
+  try {
+    const binary = atob(input.replace(/-/g, '+').replace(/_/g, '/'));
+    const bytes = Uint8Array.from(binary, (c) => c.charCodeAt(0));
+    return new TextDecoder().decode(bytes);
+  } catch {
+    return null;
+  }
+}
+
+export async function hmacSha256(
+  secret: string,
+  message: string,
+): Promise<ArrayBuffer> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  );
+  return crypto.subtle.sign('HMAC', key, encoder.encode(message));
+}
+
+export async function sha256Hex(message: string): Promise<string> {
+  return toHex(await crypto.subtle.digest('SHA-256', encoder.encode(message)));
+}
+
+export function randomToken(byteLength = 32): string {
+  return base64url(crypto.getRandomValues(new Uint8Array(byteLength)).buffer);
+}
+
+// Compare without bailing out at the first differing character.
+export function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+// For secrets whose length shouldn't leak either: both sides are hashed to
+// the same length before the constant-time comparison.
+export async function secretsEqual(a: string, b: string): Promise<boolean> {
+  const [ha, hb] = await Promise.all([sha256Hex(a), sha256Hex(b)]);
+  return timingSafeEqual(ha, hb);
+}
@@ -0,0 +1,243 @@
+import type { Env } from './env';
+import type { GenerationOptions } from './options';
+import type { TaskResult, TaskStatus } from './providers';
+import type { ErrorCode } from './errors';
+
+// ---------------------------------------------------------------------------
+// Task registry
+// ---------------------------------------------------------------------------
+// Records who started which task, with what prompt and parameters, and the
+// last known status. /status uses it to refuse tasks owned by another
+// client, and to answer from cache once a task is terminal instead of
+// asking the provider again.
+//
+// Tasks cancelled through /cancel that the provider couldn't stop are
+// kept in a per-client abandoned list, so a video that arrives anyway can
+// still be recovered from GET /cancelled.
+//
+// Backed by the TASKS KV namespace when bound (wrangler dev gives you a
+// local Miniflare-backed one), otherwise by an in-memory map. The memory
+// store only lives as long as the isolate, so bind KV in production:
+//   wrangler kv namespace create TASKS
+// ---------------------------------------------------------------------------
+
+export type TaskRecord = {
+  // Public task id as handed to the app ("<provider>:<provider task id>")
+  taskId: string;
+  clientId: string;
+  provider: string;
+  prompt: string;
+  options: GenerationOptions;
+  // Whether the provider was given a callback URL for this task
+  callback: boolean;
+  // Nonce in that callback URL; only callbacks carrying it apply to the task
+  callbackNonce?: string;
+  status: TaskStatus;
+  // Provider's own (expiring) video URL
+  videoUrl?: string;
+  // Id of the archived copy in the video store (see videos.ts)
+  videoId?: string;
+  // Why the task failed
+  errorCode?: ErrorCode;
+  createdAt: number;
+  updatedAt: number;
+  completedAt?: number;
+  // When the client cancelled the task
+  cancelledAt?: number;
+};
+
+// What an Idempotency-Key on /generate led to. `taskId` is null while the
+// first request with the key is still submitting to the provider.
+export type IdempotencyEntry = {
+  taskId: string | null;
+  createdAt: number;
+};
+
+export interface TaskStore {
+  get(taskId: string): Promise<TaskRecord | null>;
+  put(record: TaskRecord): Promise<void>;
+  getIdempotency(clientId: string, key: string): Promise<IdempotencyEntry | null>;
+  putIdempotency(
+    clientId: string,
+    key: string,
+    entry: IdempotencyEntry,
+  ): Promise<void>;
+  deleteIdempotency(clientId: string, key: string): Promise<void>;
+  addAbandoned(clientId: string, taskId: string): Promise<void>;
+  listAbandoned(clientId: string): Promise<string[]>;
+  removeAbandoned(clientId: string, taskId: string): Promise<void>;
+}
+
+// Records are kept for a week — well past any provider's own retention.
+const TASK_TTL_SECONDS = 7 * 24 * 60 * 60;
+// Retries come within minutes; a day leaves room for an app that was offline.
+const IDEMPOTENCY_TTL_SECONDS = 24 * 60 * 60;
+
+const KEY_PREFIX = 'task:';
+const IDEMPOTENCY_PREFIX = 'idem:';
+const ABANDONED_PREFIX = 'abandoned:';
+
+const idempotencyKey = (clientId: string, key: string) =>
+  `${IDEMPOTENCY_PREFIX}${clientId}:${key}`;
+
+const abandonedPrefix = (clientId: string) =>
+  `${ABANDONED_PREFIX}${clientId}:`;
+
+export class KvTaskStore implements TaskStore {
+  constructor(private readonly kv: KVNamespace) {}
+
+  async get(taskId: string): Promise<TaskRecord | null> {
+    return this.kv.get<TaskRecord>(KEY_PREFIX + taskId, 'json');
+  }
+
+  async put(record: TaskRecord): Promise<void> {
+    await this.kv.put(KEY_PREFIX + record.taskId, JSON.stringify(record), {
+      expirationTtl: TASK_TTL_SECONDS,
+    });
+  }
+
+  async getIdempotency(
+    clientId: string,
+    key: string,
+  ): Promise<IdempotencyEntry | null> {
+    return this.kv.get<IdempotencyEntry>(idempotencyKey(clientId, key), 'json');
+  }
+
+  async putIdempotency(
+    clientId: string,
+    key: string,
+    entry: IdempotencyEntry,
+  ): Promise<void> {
+    await this.kv.put(idempotencyKey(clientId, key), JSON.stringify(entry), {
+      expirationTtl: IDEMPOTENCY_TTL_SECONDS,
+    });
+  }
+
+  async deleteIdempotency(clientId: string, key: string): Promise<void> {
+    await this.kv.delete(idempotencyKey(clientId, key));
+  }
+
+  // One key per task, so concurrent cancels don't overwrite each other.
+  async addAbandoned(clientId: string, taskId: string): Promise<void> {
+    await this.kv.put(abandonedPrefix(clientId) + taskId, '', {
+      expirationTtl: TASK_TTL_SECONDS,
+    });
+  }
+
+  async listAbandoned(clientId: string): Promise<string[]> {
+    const prefix = abandonedPrefix(clientId);
+    const { keys } = await this.kv.list({ prefix });
+    return keys.map((k) => k.name.slice(prefix.length));
+  }
+
+  async removeAbandoned(clientId: string, taskId: string): Promise<void> {
+    await this.kv.delete(abandonedPrefix(clientId) + taskId);
+  }
+}
+
+export class MemoryTaskStore implements TaskStore {
+  private readonly records = new Map<string, TaskRecord>();
+  private readonly idempotency = new Map<string, IdempotencyEntry>();
+  // Client id → abandoned task ids, in the order they were cancelled
+  private readonly abandoned = new Map<string, Set<string>>();
+
+  async get(taskId: string): Promise<TaskRecord | null> {
+    const record = this.records.get(taskId);
+    if (!record) return null;
+    if (Date.now() - record.updatedAt > TASK_TTL_SECONDS * 1000) {
+      this.records.delete(taskId);
+      return null;
+    }
+    return { ...record };
+  }
+
+  async put(record: TaskRecord): Promise<void> {
+    this.records.set(record.taskId, { ...record });
+  }
+
+  async getIdempotency(
+    clientId: string,
+    key: string,
+  ): Promise<IdempotencyEntry | null> {
+    const entry = this.idempotency.get(idempotencyKey(clientId, key));
+    if (!entry) return null;
+    if (Date.now() - entry.createdAt > IDEMPOTENCY_TTL_SECONDS * 1000) {
+      this.idempotency.delete(idempotencyKey(clientId, key));
+      return null;
+    }
+    return { ...entry };
+  }
+
+  async putIdempotency(
+    clientId: string,
+    key: string,
+    entry: IdempotencyEntry,
+  ): Promise<void> {
+    this.idempotency.set(idempotencyKey(clientId, key), { ...entry });
+  }
+
+  async deleteIdempotency(clientId: string, key: string): Promise<void> {
+    this.idempotency.delete(idempotencyKey(clientId, key));
+  }
+
+  async addAbandoned(clientId: string, taskId: string): Promise<void> {
+    const ids = this.abandoned.get(clientId) ?? new Set<string>();
+    ids.add(taskId);
+    this.abandoned.set(clientId, ids);
+  }
+
+  async listAbandoned(clientId: string): Promise<string[]> {
+    return [...(this.abandoned.get(clientId) ?? [])];
+  }
+
+  async removeAbandoned(clientId: string, taskId: string): Promise<void> {
+    this.abandoned.get(clientId)?.delete(taskId);
+  }
+}
+
+// One per isolate, so records survive between requests handled by it.
+let memoryStore: MemoryTaskStore | null = null;
+
+export function getTaskStore(env: Env): TaskStore {
+  if (env.TASKS) {
+    return new KvTaskStore(env.TASKS);
+  }
+  memoryStore ??= new MemoryTaskStore();
+  return memoryStore;
+}
+
+export function isTerminal(status: TaskStatus): boolean {
+  return status !== 'processing';
+}
+
+// Fold a fresh provider result into the record.
+export function applyResult(record: TaskRecord, result: TaskResult): TaskRecord {
+  const now = Date.now();
+  return {
+    ...record,
+    status: result.status,
+    videoUrl: result.status === 'completed' ? result.videoUrl : undefined,
+    errorCode:
+      result.status === 'failed'
+        ? (result.errorCode ?? 'GENERATION_FAILED')
+        : undefined,
+    updatedAt: now,
+    completedAt: isTerminal(result.status) ? now : undefined,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Client identity
+// ---------------------------------------------------------------------------
+// Scopes tasks to the device that started them. With device credentials
+// (see auth.ts) it is the device id from the access token; otherwise each
+// app install sends a random, persistent id in X-Client-Id, which is not a
+// credential (APP_API_KEY is).
+// ---------------------------------------------------------------------------
+
+const CLIENT_ID_PATTERN = /^[A-Za-z0-9_-]{8,64}$/;
+
+export function getClientId(request: Request): string | null {
+  const id = request.headers.get('X-Client-Id');
+  return id && CLIENT_ID_PATTERN.test(id) ? id : null;
+}
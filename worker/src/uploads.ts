@@ -0,0 +1,455 @@
+import type { Env } from './env';
+import { ApiError } from './errors';
+
+// ---------------------------------------------------------------------------
+// Image uploads
+// ---------------------------------------------------------------------------
+// POST /upload takes the start image as raw bytes (any Content-Type) or as
+// the `image` field of a multipart form, and returns an id that /generate
+// accepts instead of a base64 `image`. That saves the app base64's ~33%
+// overhead and holding the whole encoded photo in JS memory.
+//
+// The type is sniffed from the bytes, never trusted from headers. Images
+// the provider can't take as they are — too large, too big a file, or not
+// JPEG/PNG — are re-encoded to JPEG through the IMAGES (Cloudflare Images)
+// binding. Without the binding only images that already fit are accepted.
+//
+// Uploads are kept in the UPLOADS R2 bucket when bound, otherwise in
+// per-isolate memory for an hour, up to MEMORY_MAX_BYTES in all — the
+// oldest make way for new ones. /generate deletes an upload once the
+// provider has accepted the job; give the bucket a lifecycle rule to clear
+// out ones that were never used.
+// ---------------------------------------------------------------------------
+
+// Anything bigger is refused before it is even looked at.
+const MAX_UPLOAD_BYTES = 20 * 1024 * 1024;
+// Refused outright — decoding would take too much memory.
+const MAX_INPUT_DIMENSION = 12_000;
+
+// What Kling accepts: JPEG or PNG up to 10MB, at least 300px on each side,
+// aspect ratio between 1:2.5 and 2.5:1.
+const PROVIDER_TYPES = ['image/jpeg', 'image/png'];
+const PROVIDER_MAX_BYTES = 10 * 1024 * 1024;
+const MIN_DIMENSION = 300;
+const MAX_ASPECT_RATIO = 2.5;
+
+// Longer sides are scaled down to this — well above the output video's
+// resolution, so nothing is lost.
+const TARGET_DIMENSION = 2048;
+const REENCODE_QUALITY = 85;
+
+const MEMORY_TTL_MS = 60 * 60 * 1000;
+// Isolates have 128MB; leave most of it for handling requests.
+const MEMORY_MAX_BYTES = 32 * 1024 * 1024;
+
+type ImageType = 'image/jpeg' | 'image/png' | 'image/webp' | 'image/gif';
+
+type ImageInfo = { type: ImageType; width: number; height: number };
+
+// ---------------------------------------------------------------------------
+// Sniffing
+// ---------------------------------------------------------------------------
+
+function sniffType(bytes: Uint8Array): ImageType | null {
+  const ascii = (at: number, length: number) =>
+    String.fromCharCode(...bytes.subarray(at, at + length));
+
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) {
+    return 'image/jpeg';
+  }
+  if (ascii(0, 8) === '\x89PNG\r\n\x1a\n') return 'image/png';
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 4) === 'WEBP') return 'image/webp';
+  if (ascii(0, 4) === 'GIF8') return 'image/gif';
+  return null;
+}
+
+// Pixel size from the image header, or null if it can't be found.
+function readDimensions(
+  bytes: Uint8Array,
+  type: ImageType,
+): { width: number; height: number } | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const fits = (at: number, length: number) => at + length <= bytes.length;
+
+  switch (type) {
+    case 'image/png':
+      // IHDR is always the first chunk.
+      if (!fits(16, 8)) return null;
+      return { width: view.getUint32(16), height: view.getUint32(20) };
+
+    case 'image/gif':
+      if (!fits(6, 4)) return null;
+      return {
+        width: view.getUint16(6, true),
+        height: view.getUint16(8, true),
+      };
+
+    case 'image/webp': {
+      if (!fits(12, 18)) return null;
+      const chunk = String.fromCharCode(...bytes.subarray(12, 16));
+      if (chunk === 'VP8 ') {
+        return {
+          width: view.getUint16(26, true) & 0x3fff,
+          height: view.getUint16(28, true) & 0x3fff,
+        };
+      }
+      if (chunk === 'VP8L') {
+        const b1 = bytes[22];
+        const b2 = bytes[23];
+        const b3 = bytes[24];
+        return {
+          width: 1 + (((b1 & 0x3f) << 8) | bytes[21]),
+          height: 1 + (((b3 & 0x0f) << 10) | (b2 << 2) | ((b1 & 0xc0) >> 6)),
+        };
+      }
+      if (chunk === 'VP8X') {
+        const u24 = (at: number) =>
+          bytes[at] | (bytes[at + 1] << 8) | (bytes[at + 2] << 16);
+        return { width: 1 + u24(24), height: 1 + u24(27) };
+      }
+      return null;
+    }
+
+    case 'image/jpeg': {
+      // Walk the segments up to the first start-of-frame marker.
+      let at = 2;
+      while (fits(at, 9)) {
+        if (bytes[at] !== 0xff) return null;
+        const marker = bytes[at + 1];
+        if (marker === 0xff) {
+          // Fill byte
+          at++;
+          continue;
+        }
+        if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd8)) {
+          // Markers without a length
+          at += 2;
+          continue;
+        }
+        const isFrame =
+          marker >= 0xc0 &&
+          marker <= 0xcf &&
+          marker !== 0xc4 &&
+          marker !== 0xc8 &&
+          marker !== 0xcc;
+        if (isFrame) {
+          return {
+            height: view.getUint16(at + 5),
+            width: view.getUint16(at + 7),
+          };
+        }
+        at += 2 + view.getUint16(at + 2);
+      }
+      return null;
+    }
+  }
+}
+
+function inspect(bytes: Uint8Array): ImageInfo | null {
+  const type = sniffType(bytes);
+  if (!type) return null;
+  const size = readDimensions(bytes, type);
+  return size && size.width > 0 && size.height > 0 ? { type, ...size } : null;
+}
+
+// ---------------------------------------------------------------------------
+// Upload store
+// ---------------------------------------------------------------------------
+
+type StoredUpload = {
+  clientId: string;
+  contentType: string;
+};
+
+interface UploadStore {
+  put(id: string, data: Uint8Array, meta: StoredUpload): Promise<void>;
+  get(id: string): Promise<{ data: Uint8Array; meta: StoredUpload } | null>;
+  delete(id: string): Promise<void>;
+}
+
+const KEY_PREFIX = 'uploads/';
+
+class R2UploadStore implements UploadStore {
+  constructor(private readonly bucket: R2Bucket) {}
+
+  async put(id: string, data: Uint8Array, meta: StoredUpload): Promise<void> {
+    await this.bucket.put(KEY_PREFIX + id, data, {
+      httpMetadata: { contentType: meta.contentType },
+      customMetadata: { clientId: meta.clientId },
+    });
+  }
+
+  async get(
+    id: string,
+  ): Promise<{ data: Uint8Array; meta: StoredUpload } | null> {
+    const obj = await this.bucket.get(KEY_PREFIX + id);
+    if (!obj) return null;
+    return {
+      data: new Uint8Array(await obj.arrayBuffer()),
+      meta: {
+        clientId: obj.customMetadata?.clientId ?? '',
+        contentType: obj.httpMetadata?.contentType ?? 'image/jpeg',
+      },
+    };
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.bucket.delete(KEY_PREFIX + id);
+  }
+}
+
+class MemoryUploadStore implements UploadStore {
+  private readonly uploads = new Map<
+    string,
+    { data: Uint8Array; meta: StoredUpload; storedAt: number }
+  >();
+
+  private bytes = 0;
+
+  async put(id: string, data: Uint8Array, meta: StoredUpload): Promise<void> {
+    // Drop expired uploads as we go; nothing else would. Map keeps
+    // insertion order, so the oldest come first.
+    for (const [key, upload] of this.uploads) {
+      const expired = Date.now() - upload.storedAt > MEMORY_TTL_MS;
+      if (!expired && this.bytes + data.length <= MEMORY_MAX_BYTES) break;
+      await this.delete(key);
+    }
+    this.uploads.set(id, { data, meta, storedAt: Date.now() });
+    this.bytes += data.length;
+  }
+
+  async get(
+    id: string,
+  ): Promise<{ data: Uint8Array; meta: StoredUpload } | null> {
+    const upload = this.uploads.get(id);
+    if (!upload || Date.now() - upload.storedAt > MEMORY_TTL_MS) return null;
+    return { data: upload.data, meta: upload.meta };
+  }
+
+  async delete(id: string): Promise<void> {
+    const upload = this.uploads.get(id);
+    if (!upload) return;
+    this.uploads.delete(id);
+    this.bytes -= upload.data.length;
+  }
+}
+
+// One per isolate, so uploads survive until the /generate that uses them.
+let memoryStore: MemoryUploadStore | null = null;
+
+function getUploadStore(env: Env): UploadStore {
+  if (env.UPLOADS) {
+    return new R2UploadStore(env.UPLOADS);
+  }
+  memoryStore ??= new MemoryUploadStore();
+  return memoryStore;
+}
+
+// ---------------------------------------------------------------------------
+// POST /upload
+// ---------------------------------------------------------------------------
+
+const tooLarge = () => new ApiError('IMAGE_TOO_LARGE', 'Image too large', 413);
+
+// The whole request body, refused as soon as it passes MAX_UPLOAD_BYTES.
+// Content-Length may be missing or wrong (a chunked body has none), so the
+// bytes are counted as they arrive.
+async function readLimited(request: Request): Promise<Uint8Array> {
+  const declared = Number(request.headers.get('Content-Length'));
+  if (declared > MAX_UPLOAD_BYTES) throw tooLarge();
+  if (!request.body) return new Uint8Array(0);
+
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  const reader = request.body.getReader();
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    length += value.length;
+    if (length > MAX_UPLOAD_BYTES) {
+      await reader.cancel();
+      throw tooLarge();
+    }
+    chunks.push(value);
+  }
+
+  const body = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return body;
+}
+
+async function readBody(request: Request): Promise<Uint8Array> {
+  let data = await readLimited(request);
+  const contentType = request.headers.get('Content-Type') ?? '';
+  if (contentType.startsWith('multipart/form-data')) {
+    // Parsed from the bytes already read, so the limit holds for forms too.
+    const form = await new Response(data, {
+      headers: { 'Content-Type': contentType },
+    }).formData();
+    // Typed as string for older compatibility dates; files come back as File.
+    const image = form.get('image') as File | string | null;
+    if (!image || typeof image === 'string') {
+      throw new ApiError(
+        'INVALID_REQUEST',
+        'Multipart upload needs an "image" file field',
+        400,
+      );
+    }
+    data = new Uint8Array(await image.arrayBuffer());
+  }
+
+  if (data.byteLength === 0) {
+    throw new ApiError('INVALID_REQUEST', 'Image required', 400);
+  }
+  return data;
+}
+
+// Refuse images no amount of re-encoding would make usable.
+function checkDimensions({ width, height }: ImageInfo): void {
+  if (Math.max(width, height) > MAX_INPUT_DIMENSION) {
+    throw new ApiError(
+      'IMAGE_TOO_LARGE',
+      `Image too large (max ${MAX_INPUT_DIMENSION}px per side)`,
+      413,
+    );
+  }
+  if (Math.min(width, height) < MIN_DIMENSION) {
+    throw new ApiError(
+      'INVALID_IMAGE',
+      `Image too small (min ${MIN_DIMENSION}px per side)`,
+      422,
+    );
+  }
+  if (Math.max(width, height) / Math.min(width, height) > MAX_ASPECT_RATIO) {
+    throw new ApiError(
+      'INVALID_IMAGE',
+      `Image too narrow (aspect ratio must be within 1:${MAX_ASPECT_RATIO})`,
+      422,
+    );
+  }
+}
+
+// Bring the image within what the provider takes, re-encoding if needed.
+async function prepareImage(
+  bytes: Uint8Array,
+  env: Env,
+): Promise<{ bytes: Uint8Array; info: ImageInfo }> {
+  const info = inspect(bytes);
+  if (!info) {
+    throw new ApiError('INVALID_IMAGE', 'Unsupported or unreadable image', 415);
+  }
+  checkDimensions(info);
+
+  const { width, height } = info;
+  const accepted =
+    PROVIDER_TYPES.includes(info.type) && bytes.length <= PROVIDER_MAX_BYTES;
+  const oversized = Math.max(width, height) > TARGET_DIMENSION;
+  if (accepted && (!oversized || !env.IMAGES)) {
+    return { bytes, info };
+  }
+  if (!env.IMAGES) {
+    throw PROVIDER_TYPES.includes(info.type)
+      ? tooLarge()
+      : new ApiError(
+          'INVALID_IMAGE',
+          'Only JPEG and PNG images are supported',
+          415,
+        );
+  }
+
+  const result = await env.IMAGES.input(new Blob([bytes]).stream())
+    .transform({
+      width: TARGET_DIMENSION,
+      height: TARGET_DIMENSION,
+      fit: 'scale-down',
+    })
+    .output({ format: 'image/jpeg', quality: REENCODE_QUALITY });
+  const encoded = new Uint8Array(await result.response().arrayBuffer());
+  const encodedInfo = inspect(encoded);
+  if (!encodedInfo || encoded.length > PROVIDER_MAX_BYTES) {
+    throw new ApiError('INVALID_IMAGE', 'Image could not be converted', 422);
+  }
+  return { bytes: encoded, info: encodedInfo };
+}
+
+export async function handleUpload(
+  request: Request,
+  clientId: string,
+  env: Env,
+): Promise<Response> {
+  const { bytes, info } = await prepareImage(await readBody(request), env);
+  const imageId = crypto.randomUUID();
+  await getUploadStore(env).put(imageId, bytes, {
+    clientId,
+    contentType: info.type,
+  });
+  return Response.json({
+    imageId,
+    contentType: info.type,
+    width: info.width,
+    height: info.height,
+    size: bytes.length,
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Use by /generate
+// ---------------------------------------------------------------------------
+
+const UPLOAD_ID_PATTERN = /^[0-9a-f-]{36}$/;
+
+export function isValidUploadId(id: unknown): id is string {
+  return typeof id === 'string' && UPLOAD_ID_PATTERN.test(id);
+}
+
+// Checks a base64 `image` sent inline to /generate. Nothing is re-encoded
+// on this path, so it has to be something the provider takes as it is.
+export function checkInlineImage(image: string): void {
+  const base64 = image.replace(/^data:[^,]*,/, '');
+  // Four base64 characters per three bytes
+  if ((base64.length * 3) / 4 > PROVIDER_MAX_BYTES) {
+    throw tooLarge();
+  }
+
+  let bytes: Uint8Array;
+  try {
+    bytes = Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+  } catch {
+    throw new ApiError('INVALID_IMAGE', 'image must be base64', 400);
+  }
+  const info = inspect(bytes);
+  if (!info || !PROVIDER_TYPES.includes(info.type)) {
+    throw new ApiError(
+      'INVALID_IMAGE',
+      'Only JPEG and PNG images are supported',
+      415,
+    );
+  }
+  checkDimensions(info);
+}
+
+// The upload as base64 for the provider, or null if it doesn't exist (or
+// expired) or belongs to another client.
+export async function loadUploadBase64(
+  env: Env,
+  imageId: string,
+  clientId: string,
+): Promise<string | null> {
+  const upload = await getUploadStore(env).get(imageId);
+  if (!upload || upload.meta.clientId !== clientId) return null;
+
+  let binary = '';
+  const CHUNK_SIZE = 8192;
+  for (let i = 0; i < upload.data.length; i += CHUNK_SIZE) {
+    binary += String.fromCharCode(...upload.data.subarray(i, i + CHUNK_SIZE));
+  }
+  return btoa(binary);
+}
+
+export async function deleteUpload(env: Env, imageId: string): Promise<void> {
+  await getUploadStore(env).delete(imageId);
+}
@@ -0,0 +1,226 @@
+import type { Env } from './env';
+import { errorResponse } from './errors';
+import type { Provider, ProviderContext } from './providers';
+import { upstreamFetch, type UpstreamPolicy } from './providers/upstream';
+import type { TaskRecord } from './tasks';
+
+// ---------------------------------------------------------------------------
+// Video archive
+// ---------------------------------------------------------------------------
+// Provider CDN URLs expire (Kling's after a few days), so every finished
+// video is copied into our own object store and served from
+// /videos/:id instead. The app can then re-download a clip whenever its
+// cached file has been evicted.
+//
+// Backed by the VIDEOS R2 bucket when bound — under `wrangler dev` that is
+// Miniflare's local, file-backed R2 in .wrangler/state — otherwise by an
+// in-memory map that only lives as long as the isolate.
+// ---------------------------------------------------------------------------
+
+export type StoredVideo = {
+  size: number;
+  contentType: string;
+  // Client that owns the task the video came from
+  clientId: string;
+};
+
+export type ByteRange = { offset: number; length: number };
+
+export interface VideoStore {
+  put(id: string, data: ArrayBuffer, meta: StoredVideo): Promise<void>;
+  head(id: string): Promise<StoredVideo | null>;
+  get(id: string, range?: ByteRange): Promise<ReadableStream | null>;
+}
+
+const KEY_PREFIX = 'videos/';
+
+export class R2VideoStore implements VideoStore {
+  constructor(private readonly bucket: R2Bucket) {}
+
+  async put(id: string, data: ArrayBuffer, meta: StoredVideo): Promise<void> {
+    await this.bucket.put(KEY_PREFIX + id, data, {
+      httpMetadata: { contentType: meta.contentType },
+      customMetadata: { clientId: meta.clientId },
+    });
+  }
+
+  async head(id: string): Promise<StoredVideo | null> {
+    const obj = await this.bucket.head(KEY_PREFIX + id);
+    if (!obj) return null;
+    return {
+      size: obj.size,
+      contentType: obj.httpMetadata?.contentType ?? 'video/mp4',
+      clientId: obj.customMetadata?.clientId ?? '',
+    };
+  }
+
+  async get(id: string, range?: ByteRange): Promise<ReadableStream | null> {
+    const obj = await this.bucket.get(KEY_PREFIX + id, range ? { range } : {});
+    return obj?.body ?? null;
+  }
+}
+
+export class MemoryVideoStore implements VideoStore {
+  private readonly videos = new Map<
+    string,
+    { data: ArrayBuffer; meta: StoredVideo }
+  >();
+
+  async put(id: string, data: ArrayBuffer, meta: StoredVideo): Promise<void> {
+    this.videos.set(id, { data, meta });
+  }
+
+  async head(id: string): Promise<StoredVideo | null> {
+    return this.videos.get(id)?.meta ?? null;
+  }
+
+  async get(id: string, range?: ByteRange): Promise<ReadableStream | null> {
+    const video = this.videos.get(id);
+    if (!video) return null;
+    const bytes = range
+      ? video.data.slice(range.offset, range.offset + range.length)
+      : video.data;
+    return new Response(bytes).body;
+  }
+}
+
+let memoryStore: MemoryVideoStore | null = null;
+
+export function getVideoStore(env: Env): VideoStore {
+  if (env.VIDEOS) {
+    return new R2VideoStore(env.VIDEOS);
+  }
+  memoryStore ??= new MemoryVideoStore();
+  return memoryStore;
+}
+
+// Provider CDNs are fetched like their APIs (see providers/upstream.ts),
+// with more time to answer.
+const DOWNLOAD_POLICY: UpstreamPolicy = {
+  name: 'video-download',
+  timeoutMs: 60_000,
+  retries: 2,
+  idempotent: true,
+};
+
+export function videoUrl(workerOrigin: string, videoId: string): string {
+  return `${workerOrigin}/videos/${videoId}`;
+}
+
+// Copy a completed task's provider video into the store. Returns the record
+// with `videoId` set, or unchanged if there is nothing to copy or the copy
+// failed — the provider URL keeps working until it expires.
+export async function archiveVideo(
+  record: TaskRecord,
+  provider: Provider,
+  ctx: ProviderContext,
+): Promise<TaskRecord> {
+  if (record.status !== 'completed' || record.videoId || !record.videoUrl) {
+    return record;
+  }
+
+  try {
+    const upstream = provider.fetchVideo
+      ? await provider.fetchVideo(record.videoUrl, ctx)
+      : await upstreamFetch(record.videoUrl, {}, DOWNLOAD_POLICY);
+    if (!upstream.ok) {
+      console.log(
+        `[VIDEOS] Archive failed for ${record.taskId}: upstream ${upstream.status}`,
+      );
+      return record;
+    }
+
+    const data = await upstream.arrayBuffer();
+    const videoId = crypto.randomUUID();
+    await getVideoStore(ctx.env).put(videoId, data, {
+      size: data.byteLength,
+      contentType: upstream.headers.get('Content-Type') ?? 'video/mp4',
+      clientId: record.clientId,
+    });
+
+    return { ...record, videoId };
+  } catch (err) {
+    console.log(`[VIDEOS] Archive failed for ${record.taskId}: ${err}`);
+    return record;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// GET /videos/:id — with single-range support so players can seek
+// ---------------------------------------------------------------------------
+
+// Parse a single "bytes=" range against the object size. Returns undefined
+// for no (or an unsupported multi-) range, null when unsatisfiable.
+function parseRange(
+  header: string | null,
+  size: number,
+): ByteRange | null | undefined {
+  if (!header) return undefined;
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!match) return undefined;
+
+  const [, startStr, endStr] = match;
+  let start: number;
+  let end: number;
+
+  if (startStr === '') {
+    // Suffix range: the last N bytes
+    const suffix = parseInt(endStr, 10);
+    if (!suffix) return null;
+    start = Math.max(0, size - suffix);
+    end = size - 1;
+  } else {
+    start = parseInt(startStr, 10);
+    end = endStr === '' ? size - 1 : Math.min(parseInt(endStr, 10), size - 1);
+  }
+
+  if (isNaN(start) || isNaN(end) || start > end || start >= size) {
+    return null;
+  }
+  return { offset: start, length: end - start + 1 };
+}
+
+export async function handleVideo(
+  request: Request,
+  videoId: string,
+  clientId: string,
+  env: Env,
+): Promise<Response> {
+  const store = getVideoStore(env);
+  const meta = await store.head(videoId);
+
+  if (!meta || meta.clientId !== clientId) {
+    return errorResponse('VIDEO_NOT_FOUND', 'Video not found', 404);
+  }
+
+  const range = parseRange(request.headers.get('Range'), meta.size);
+  if (range === null) {
+    return new Response(null, {
+      status: 416,
+      headers: { 'Content-Range': `bytes */${meta.size}` },
+    });
+  }
+
+  const isHead = request.method === 'HEAD';
+  const body = isHead ? null : await store.get(videoId, range);
+  if (!isHead && !body) {
+    return errorResponse('VIDEO_NOT_FOUND', 'Video not found', 404);
+  }
+
+  const headers: Record<string, string> = {
+    'Content-Type': meta.contentType,
+    'Accept-Ranges': 'bytes',
+    'Cache-Control': 'private, max-age=86400',
+    'Content-Length': String(range ? range.length : meta.size),
+  };
+
+  if (range) {
+    headers['Content-Range'] =
+      `bytes ${range.offset}-${range.offset + range.length - 1}/${meta.size}`;
+  }
+
+  return new Response(body, {
+    status: range ? 206 : 200,
+    headers,
+  });
+}
@@ -0,0 +1,292 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  KLING_ORIGIN,
+  base64,
+  createHarness,
+  json,
+  pngHeader,
+  type Harness,
+} from './harness';
+
+const IMAGE = base64(pngHeader());
+
+function post(h: Harness, path: string, body: object, headers: Record<string, string> = {}) {
+  return h.call(path, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+  });
+}
+
+function generate(h: Harness, headers: Record<string, string> = {}, clientId?: string) {
+  return h.call(
+    '/generate',
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify({ image: IMAGE, prompt: 'a cat walks' }),
+    },
+    clientId,
+  );
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+// ---------------------------------------------------------------------------
+// Device credentials
+// ---------------------------------------------------------------------------
+
+describe('device credentials', () => {
+  const AUTH = { AUTH_SECRET: 'test-auth-secret', APP_API_KEY: 'app-key', ADMIN_KEY: 'admin-key' };
+
+  async function register(h: Harness, body: object = {}) {
+    const response = await post(h, '/register', body, { 'X-API-Key': 'app-key' });
+    expect(response.status).toBe(200);
+    return json(response);
+  }
+
+  const bearer = (token: string) => ({ headers: { Authorization: `Bearer ${token}` } });
+
+  it('is off without AUTH_SECRET', async () => {
+    const h = await createHarness();
+    const response = await post(h, '/register', {});
+
+    expect(response.status).toBe(404);
+  });
+
+  it('registers only with the app key', async () => {
+    const h = await createHarness({ env: AUTH });
+    const response = await post(h, '/register', {}, { 'X-API-Key': 'wrong' });
+
+    expect(response.status).toBe(401);
+    expect(await register(h)).toMatchObject({
+      deviceId: expect.any(String),
+      accessToken: expect.any(String),
+      refreshToken: expect.stringMatching(/\./),
+    });
+  });
+
+  it('never hands out a client id the caller names', async () => {
+    const h = await createHarness({ env: AUTH });
+    const clientId = 'a1b2c3d4-e5f6-4a7b-8c9d-0e1f2a3b4c5d';
+    const { deviceId } = await register(h, { clientId });
+    expect(deviceId).not.toBe(clientId);
+    expect((await register(h, { clientId })).deviceId).not.toBe(deviceId);
+  });
+
+  it('needs an access token, and ignores X-Client-Id', async () => {
+    const h = await createHarness({ env: AUTH });
+    const { deviceId, accessToken } = await register(h);
+
+    expect((await h.call('/quota')).status).toBe(401);
+    expect((await h.call('/quota', bearer('not.a.token'))).status).toBe(401);
+    expect((await h.call('/quota', bearer(accessToken))).status).toBe(200);
+
+    const response = await generate(h, { Authorization: `Bearer ${accessToken}` }, 'someone-else');
+    const { taskId } = await json(response);
+    const status = await h.call(`/status/${taskId}`, bearer(accessToken), deviceId);
+    expect(status.status).toBe(200);
+  });
+
+  it('rotates the refresh token on every refresh', async () => {
+    const h = await createHarness({ env: AUTH });
+    const { refreshToken } = await register(h);
+
+    const refreshed = await post(h, '/refresh', { refreshToken });
+    expect(refreshed.status).toBe(200);
+    const next = await json(refreshed);
+    expect(next.refreshToken).not.toBe(refreshToken);
+
+    const reused = await post(h, '/refresh', { refreshToken });
+    expect(reused.status).toBe(401);
+    expect((await post(h, '/refresh', { refreshToken: 'nonsense' })).status).toBe(401);
+    expect((await post(h, '/refresh', { refreshToken: next.refreshToken })).status).toBe(200);
+  });
+
+  it('revokes a device straight away', async () => {
+    const h = await createHarness({ env: AUTH });
+    const { deviceId, accessToken, refreshToken } = await register(h);
+    const revoke = (key: string) =>
+      post(h, `/devices/${deviceId}/revoke`, {}, { 'X-Admin-Key': key });
+
+    expect((await revoke('wrong')).status).toBe(401);
+    expect((await revoke('admin-key')).status).toBe(200);
+
+    const response = await h.call('/quota', bearer(accessToken));
+    expect(response.status).toBe(403);
+    expect((await json(response)).code).toBe('DEVICE_REVOKED');
+    expect((await post(h, '/refresh', { refreshToken })).status).toBe(403);
+  });
+
+  it('has no revoke route without ADMIN_KEY', async () => {
+    const h = await createHarness({ env: { AUTH_SECRET: 'test-auth-secret' } });
+    const { deviceId } = await json(await post(h, '/register', {}));
+    const response = await post(h, `/devices/${deviceId}/revoke`, {}, { 'X-Admin-Key': '' });
+
+    expect(response.status).toBe(404);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Rate limits and quotas
+// ---------------------------------------------------------------------------
+
+describe('limits', () => {
+  it('rate limits each client on its own', async () => {
+    const h = await createHarness({ env: { RATE_LIMIT_GENERATE_PER_MINUTE: '1' } });
+    const from = (ip: string) => ({ 'CF-Connecting-IP': ip });
+
+    expect((await generate(h, from('10.0.0.1'))).status).toBe(200);
+    const limited = await generate(h, from('10.0.0.1'));
+    expect(limited.status).toBe(429);
+    expect((await json(limited)).code).toBe('RATE_LIMITED');
+    expect(Number(limited.headers.get('Retry-After'))).toBeGreaterThan(0);
+    expect((await generate(h, from('10.0.0.2'), 'client-b')).status).toBe(200);
+  });
+
+  it('also counts an unverified client per IP address', async () => {
+    const h = await createHarness({
+      env: { QUOTA_GENERATIONS_PER_DAY: '1', RATE_LIMIT_GENERATE_PER_MINUTE: '0' },
+    });
+    const from = { 'CF-Connecting-IP': '10.0.0.1' };
+
+    expect((await generate(h, from)).status).toBe(200);
+    // A new X-Client-Id doesn't bring a new budget.
+    const renamed = await generate(h, from, 'client-b');
+    expect(renamed.status).toBe(429);
+    expect((await json(renamed)).code).toBe('QUOTA_EXCEEDED');
+  });
+
+  it('counts registered devices on their own, whatever their address', async () => {
+    const h = await createHarness({
+      env: { AUTH_SECRET: 'test-auth-secret', RATE_LIMIT_GENERATE_PER_MINUTE: '1' },
+    });
+    const tokens = await Promise.all(
+      [1, 2].map(async () => (await json(await post(h, '/register', {}))).accessToken),
+    );
+
+    for (const token of tokens) {
+      const response = await generate(h, { Authorization: `Bearer ${token}` });
+      expect(response.status).toBe(200);
+    }
+  });
+
+  it('limits registrations per IP address', async () => {
+    const h = await createHarness({
+      env: { AUTH_SECRET: 'test-auth-secret', RATE_LIMIT_REGISTER_PER_MINUTE: '2' },
+    });
+    const from = (ip: string) => post(h, '/register', {}, { 'CF-Connecting-IP': ip });
+
+    expect((await from('10.0.0.1')).status).toBe(200);
+    expect((await from('10.0.0.1')).status).toBe(200);
+    expect((await from('10.0.0.1')).status).toBe(429);
+    expect((await from('10.0.0.2')).status).toBe(200);
+  });
+
+  it('caps registrations per IP address per day', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-01-01T12:00:00Z'));
+    const h = await createHarness({
+      env: { AUTH_SECRET: 'test-auth-secret', QUOTA_REGISTRATIONS_PER_DAY: '2' },
+    });
+    const from = (ip: string) => post(h, '/register', {}, { 'CF-Connecting-IP': ip });
+
+    expect((await from('10.0.0.1')).status).toBe(200);
+    // Past the per-minute limit
+    vi.advanceTimersByTime(60_000);
+    expect((await from('10.0.0.1')).status).toBe(200);
+    vi.advanceTimersByTime(60_000);
+    const over = await from('10.0.0.1');
+    expect(over.status).toBe(429);
+    expect((await json(over)).code).toBe('QUOTA_EXCEEDED');
+    expect((await from('10.0.0.2')).status).toBe(200);
+  });
+
+  it('stops generations at the daily quota and reports usage', async () => {
+    const h = await createHarness({
+      env: { QUOTA_GENERATIONS_PER_DAY: '1', RATE_LIMIT_GENERATE_PER_MINUTE: '0' },
+    });
+
+    expect((await generate(h)).status).toBe(200);
+    const over = await generate(h);
+    expect(over.status).toBe(429);
+    expect((await json(over)).code).toBe('QUOTA_EXCEEDED');
+    expect(await json(await h.call('/quota'))).toMatchObject({
+      daily: { limit: 1, used: 1, remaining: 0 },
+    });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Provider callbacks
+// ---------------------------------------------------------------------------
+
+describe('callbacks', () => {
+  async function startWithCallback() {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const h = await createHarness({ env: { CALLBACK_SECRET: 'test-callback-secret' } });
+    const { taskId } = await json(await generate(h));
+    const task = h.kling.tasks.get(taskId.slice('kling:'.length))!;
+    expect(task.callbackUrl).toMatch(/\/callback\/kling\/[^/]+\?sig=/);
+    return { h, taskId, task };
+  }
+
+  const succeeded = (id: string) => ({
+    task_id: id,
+    task_status: 'succeed',
+    task_status_msg: '',
+    task_result: { videos: [{ id, url: `${KLING_ORIGIN}/videos/${id}.mp4`, duration: '5' }] },
+  });
+
+  const send = (url: string, body: unknown) =>
+    fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: typeof body === 'string' ? body : JSON.stringify(body),
+    });
+
+  it('completes a task from a signed callback', async () => {
+    const { h, taskId, task } = await startWithCallback();
+    task.status = 'succeed';
+
+    const response = await send(task.callbackUrl!, succeeded(task.id));
+    expect(response.status).toBe(200);
+    const status = await json(await h.call(`/status/${taskId}`));
+    expect(status.status).toBe('completed');
+  });
+
+  it('rejects a callback without a valid signature', async () => {
+    const { task } = await startWithCallback();
+    const url = new URL(task.callbackUrl!);
+
+    url.searchParams.set('sig', '0'.repeat(64));
+    expect((await send(url.toString(), succeeded(task.id))).status).toBe(401);
+    url.searchParams.delete('sig');
+    expect((await send(url.toString(), succeeded(task.id))).status).toBe(401);
+  });
+
+  it("won't apply one task's callback URL to another task", async () => {
+    const { h, task } = await startWithCallback();
+    const { taskId: otherId } = await json(await generate(h));
+    const other = h.kling.tasks.get(otherId.slice('kling:'.length))!;
+    other.status = 'succeed';
+
+    const response = await send(task.callbackUrl!, succeeded(other.id));
+    expect(response.status).toBe(401);
+    expect((await json(await h.call(`/status/${otherId}?wait=0`))).status).toBe(
+      'processing',
+    );
+  });
+
+  it('answers a callback body that isn’t JSON with 400', async () => {
+    const { task } = await startWithCallback();
+    const response = await send(task.callbackUrl!, '<html>nope</html>');
+
+    expect(response.status).toBe(400);
+    expect((await json(response)).code).toBe('INVALID_REQUEST');
+  });
+});
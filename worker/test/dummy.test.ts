@@ -0,0 +1,160 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  base64,
+  createHarness,
+  json,
+  pngHeader,
+  type Harness,
+} from './harness';
+
+const IMAGE = base64(pngHeader());
+
+// Movie duration in seconds, from a version 0 mvhd
+function durationSeconds(bytes: Uint8Array): number {
+  const text = new TextDecoder('latin1').decode(bytes);
+  const view = new DataView(bytes.buffer, bytes.byteOffset);
+  const content = text.indexOf('mvhd') + 4;
+  return view.getUint32(content + 16) / view.getUint32(content + 12);
+}
+
+describe('dummy provider', () => {
+  let h: Harness;
+
+  const generate = (
+    prompt: string,
+    headers: Record<string, string> = {},
+    options?: Record<string, unknown>,
+  ) =>
+    h.call('/generate', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify({ image: IMAGE, prompt, options }),
+    });
+
+  const start = async (prompt: string, options?: Record<string, unknown>) => {
+    const response = await generate(prompt, {}, options);
+    expect(response.status).toBe(200);
+    return (await json(response)).taskId as string;
+  };
+
+  // Status once the simulated generation time has passed
+  const statusLater = async (taskId: string, ms = 10_000) => {
+    await vi.advanceTimersByTimeAsync(ms);
+    return h.call(`/status/${taskId}`);
+  };
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.useFakeTimers({ toFake: ['Date'] });
+    h = await createHarness({
+      env: {
+        VIDEO_PROVIDER: 'dummy',
+        RATE_LIMIT_GENERATE_PER_MINUTE: '0',
+        RATE_LIMIT_STATUS_PER_MINUTE: '0',
+      },
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('completes with the synthetic video, without network access', async () => {
+    const taskId = await start('a cat');
+    const first = await json(await h.call(`/status/${taskId}`));
+    expect(first.status).toBe('processing');
+
+    const done = await json(await statusLater(taskId));
+    expect(done.status).toBe('completed');
+
+    const { pathname, search } = new URL(done.videoUrl);
+    const video = await h.call(pathname + search);
+    const bytes = new Uint8Array(await video.arrayBuffer());
+    expect(video.headers.get('Content-Type')).toBe('video/mp4');
+    expect(new TextDecoder().decode(bytes.slice(4, 8))).toBe('ftyp');
+    expect(h.kling.requests).toHaveLength(0);
+  });
+
+  it('makes the video as long as the clip was asked to be', async () => {
+    const lengthOf = async (taskId: string) => {
+      const done = await json(await statusLater(taskId));
+      const { pathname, search } = new URL(done.videoUrl);
+      const video = await h.call(pathname + search);
+      return durationSeconds(new Uint8Array(await video.arrayBuffer()));
+    };
+
+    expect(await lengthOf(await start('a cat', { duration: 5 }))).toBe(5);
+    expect(await lengthOf(await start('a cat', { duration: 10 }))).toBe(10);
+    // Video URLs from before the length was kept served 10s clips.
+    const legacy = await h.call('/dummy-video');
+    expect(durationSeconds(new Uint8Array(await legacy.arrayBuffer()))).toBe(10);
+
+    const invalid = await h.call('/dummy-video?seconds=7');
+    expect(invalid.status).toBe(400);
+    expect((await json(invalid)).code).toBe('INVALID_REQUEST');
+  });
+
+  it('takes a scenario from a prompt marker and keeps it in the task id', async () => {
+    const taskId = await start(
+      'Previous scene: "a dog"\nCurrent scene: "[dummy:failed] a cat"',
+    );
+    expect(taskId).toMatch(/^dummy:dummy_failed_\d+_5$/);
+
+    expect(await json(await statusLater(taskId))).toMatchObject({
+      status: 'failed',
+      code: 'GENERATION_FAILED',
+    });
+  });
+
+  it('keeps a slow task processing past the usual delay', async () => {
+    const taskId = await start('[dummy:slow] a cat');
+    expect((await json(await statusLater(taskId))).status).toBe('processing');
+    expect((await json(await statusLater(taskId, 2 * 60_000))).status).toBe(
+      'completed',
+    );
+  });
+
+  it('never finishes a stuck task', async () => {
+    const taskId = await start('[dummy:stuck] a cat');
+    expect((await json(await statusLater(taskId, 60 * 60_000))).status).toBe(
+      'processing',
+    );
+  });
+
+  it('forgets an expired task once it would have completed', async () => {
+    const taskId = await start('[dummy:expired] a cat');
+    const response = await statusLater(taskId);
+
+    expect(response.status).toBe(404);
+    expect((await json(response)).code).toBe('TASK_NOT_FOUND');
+  });
+
+  it('answers /generate with a simulated 429, 500 or malformed body', async () => {
+    const limited = await generate('a cat', {
+      'X-Dummy-Scenario': 'rate-limited',
+    });
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get('Retry-After')).toBe('10');
+    expect((await json(limited)).code).toBe('PROVIDER_RATE_LIMITED');
+
+    const failed = await generate('[dummy:server-error] a cat');
+    expect(failed.status).toBe(500);
+
+    const malformed = await generate('[dummy:malformed] a cat');
+    expect(malformed.status).toBe(200);
+    await expect(malformed.json()).rejects.toThrow();
+  });
+
+  it('lets a header override the scenario for one status call', async () => {
+    const taskId = await start('a cat');
+
+    const limited = await h.call(`/status/${taskId}`, {
+      headers: { 'X-Dummy-Scenario': 'rate-limited' },
+    });
+    expect(limited.status).toBe(429);
+    expect((await json(await statusLater(taskId))).status).toBe('completed');
+  });
+});
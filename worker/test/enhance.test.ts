@@ -0,0 +1,150 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createHarness, json, type Harness } from './harness';
+
+const LLM_ORIGIN = 'https://llm.test';
+
+function enhance(h: Harness, body: unknown) {
+  return h.call('/enhance-prompt', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+describe('/enhance-prompt', () => {
+  let h: Harness;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    h = await createHarness();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('uses the stub without an LLM key, deterministically', async () => {
+    const body = {
+      prompt: 'she dances',
+      previousPrompts: ['a woman walks into a ballroom'],
+      style: { name: 'Noir', prompt: 'black and white film noir' },
+    };
+
+    const first = await json(await enhance(h, body));
+    expect(first).toEqual({
+      enhancer: 'stub',
+      prompt:
+        'She dances. Continues directly from the previous shot: A woman walks into a ballroom. ' +
+        'Rendered in Black and white film noir. Smooth, natural motion. ' +
+        'Consistent characters, lighting and setting. Highly detailed, sharp focus.',
+    });
+    expect(await json(await enhance(h, body))).toEqual(first);
+  });
+
+  it.each([
+    [{}, 'INVALID_REQUEST'],
+    [{ prompt: '  ' }, 'INVALID_REQUEST'],
+    [{ prompt: 'x'.repeat(1001) }, 'PROMPT_TOO_LONG'],
+    [{ prompt: 'p', previousPrompts: 'a' }, 'INVALID_REQUEST'],
+    [{ prompt: 'p', previousPrompts: [3] }, 'INVALID_REQUEST'],
+    [{ prompt: 'p', style: { name: 'Noir' } }, 'INVALID_REQUEST'],
+  ])('rejects %j', async (body, code) => {
+    const response = await enhance(h, body);
+    expect(response.status).toBe(400);
+    expect((await json(response)).code).toBe(code);
+  });
+
+  it('accepts its own result as the next input', async () => {
+    // Long enough that the stub's additions take it past the input limit
+    const long = 'The camera drifts over the harbour at dawn. '.repeat(22);
+    const first = await json(await enhance(h, { prompt: long }));
+    expect(first.prompt.length).toBeLessThanOrEqual(1000);
+
+    const again = await enhance(h, {
+      prompt: first.prompt,
+      previousPrompts: [first.prompt],
+    });
+    expect(again.status).toBe(200);
+  });
+
+  it('shortens a long previous prompt instead of refusing it', async () => {
+    const response = await enhance(h, {
+      prompt: 'she dances',
+      previousPrompts: ['A ballroom at night. '.repeat(60)],
+    });
+    expect(response.status).toBe(200);
+  });
+
+  it('is rate limited per client', async () => {
+    h = await createHarness({ env: { RATE_LIMIT_ENHANCE_PER_MINUTE: '1' } });
+    expect((await enhance(h, { prompt: 'a' })).status).toBe(200);
+    const limited = await enhance(h, { prompt: 'b' });
+    expect(limited.status).toBe(429);
+    expect((await json(limited)).code).toBe('RATE_LIMITED');
+  });
+
+  describe('openai backend', () => {
+    let requests: any[];
+    let reply: (body: any) => Response;
+
+    beforeEach(async () => {
+      h = await createHarness({
+        env: { LLM_API_KEY: 'test-llm-key', LLM_BASE_URL: `${LLM_ORIGIN}/v1/` },
+      });
+      requests = [];
+      reply = () =>
+        Response.json({
+          choices: [{ message: { content: '"Prompt: A dancer spins."' } }],
+        });
+
+      const workerFetch = globalThis.fetch;
+      vi.stubGlobal('fetch', async (input: RequestInfo | URL, init?: RequestInit) => {
+        const request = new Request(input, init);
+        if (new URL(request.url).origin !== LLM_ORIGIN) {
+          return workerFetch(input, init);
+        }
+        expect(request.url).toBe(`${LLM_ORIGIN}/v1/chat/completions`);
+        expect(request.headers.get('Authorization')).toBe('Bearer test-llm-key');
+        const body = await request.json();
+        requests.push(body);
+        return reply(body);
+      });
+    });
+
+    it('sends the prompt with its context and cleans up the answer', async () => {
+      const response = await enhance(h, {
+        prompt: 'she dances',
+        previousPrompts: ['one', 'two', 'three', 'four'],
+        style: { name: 'Noir', prompt: 'film noir' },
+      });
+
+      expect(await json(response)).toEqual({
+        prompt: 'A dancer spins.',
+        enhancer: 'openai',
+      });
+      const user = requests[0].messages[1].content as string;
+      expect(user).not.toContain('one');
+      expect(user).toContain('1. two\n2. three\n3. four');
+      expect(user).toContain('Visual style (Noir): film noir');
+      expect(user).toContain('Idea for the next shot: she dances');
+    });
+
+    it('maps LLM failures onto provider errors', async () => {
+      reply = () => new Response('overloaded', { status: 400 });
+      const failed = await enhance(h, { prompt: 'she dances' });
+      expect(failed.status).toBe(502);
+      expect((await json(failed)).code).toBe('PROVIDER_ERROR');
+
+      reply = () => Response.json({ choices: [{ message: { content: '  ' } }] });
+      const empty = await enhance(h, { prompt: 'she dances' });
+      expect(empty.status).toBe(502);
+
+      reply = () => new Response('{"choices": [', { status: 200 });
+      const truncated = await enhance(h, { prompt: 'she dances' });
+      expect(truncated.status).toBe(502);
+      expect((await json(truncated)).code).toBe('PROVIDER_ERROR');
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import { setTimeout as realSleep } from 'node:timers/promises';
+import { vi } from 'vitest';
+import type { Env } from '../src/env';
+import { MockKling, type MockKlingOptions } from './mock-kling';
+
+// ---------------------------------------------------------------------------
+// Test harness
+// ---------------------------------------------------------------------------
+// Wires a fresh worker (its memory stores are per module instance) to a
+// MockKling through a global fetch that routes by origin: the tests' calls
+// to the worker, and its own calls to Kling, never leave the process.
+// Anything else fails like an unreachable host.
+// ---------------------------------------------------------------------------
+
+export const WORKER_ORIGIN = 'https://worker.test';
+export const KLING_ORIGIN = 'https://kling.test';
+
+export type Harness = {
+  kling: MockKling;
+  env: Env;
+  // Request to the worker as client `clientId`
+  call: (path: string, init?: RequestInit, clientId?: string) => Promise<Response>;
+};
+
+export async function createHarness(
+  options: { kling?: MockKlingOptions; env?: Partial<Env> } = {},
+): Promise<Harness> {
+  vi.resetModules();
+  const { default: worker } = await import('../src/index');
+  const kling = new MockKling(options.kling);
+  const env: Env = {
+    KLING_ACCESS_KEY: 'test-access-key',
+    KLING_SECRET_KEY: 'test-secret-key',
+    KLING_BASE_URL: KLING_ORIGIN,
+    ...options.env,
+  };
+
+  vi.stubGlobal(
+    'fetch',
+    async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+      const request = new Request(input, init);
+      const { origin } = new URL(request.url);
+      const handle =
+        origin === WORKER_ORIGIN
+          ? (r: Request) => worker.fetch(r, env)
+          : origin === KLING_ORIGIN
+            ? kling.fetch
+            : null;
+      if (!handle) {
+        throw new TypeError(`fetch failed: no route to ${origin}`);
+      }
+      return abortable(handle(request), init?.signal ?? undefined);
+    },
+  );
+
+  return {
+    kling,
+    env,
+    call: (path, init = {}, clientId = 'client-a') => {
+      const headers = new Headers(init.headers);
+      headers.set('X-Client-Id', clientId);
+      return fetch(`${WORKER_ORIGIN}${path}`, { ...init, headers });
+    },
+  };
+}
+
+// Rejects as soon as `signal` aborts, as a real fetch would. The handler
+// itself runs to completion either way.
+function abortable(
+  response: Promise<Response>,
+  signal: AbortSignal | undefined,
+): Promise<Response> {
+  if (!signal) return response;
+  const abortError = () => new DOMException('The operation was aborted', 'AbortError');
+  if (signal.aborted) {
+    response.catch(() => {});
+    return Promise.reject(abortError());
+  }
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(abortError());
+    signal.addEventListener('abort', onAbort, { once: true });
+    response.then(resolve, reject).finally(() => {
+      signal.removeEventListener('abort', onAbort);
+    });
+  });
+}
+
+// Drives `promise` to completion under fake timers, skipping through the
+// worker's long-poll waits and the app's retry and poll sleeps.
+export async function runUntilSettled<T>(promise: Promise<T>): Promise<T> {
+  let settled = false;
+  const tracked = promise.finally(() => {
+    settled = true;
+  });
+  tracked.catch(() => {});
+  while (!settled) {
+    await vi.advanceTimersByTimeAsync(1_000);
+    // Let real I/O (WebCrypto, Response bodies) make progress too. A real
+    // pause rather than a single tick, so a busy machine can't push fake
+    // time past the worker's upstream timeouts before a mock answers.
+    await realSleep(1);
+  }
+  return tracked;
+}
+
+// Smallest PNG header the upload checks accept: signature and IHDR with
+// the given size. The pixels are never decoded.
+export function pngHeader(width = 512, height = 512): Uint8Array {
+  const bytes = new Uint8Array(33);
+  bytes.set([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+  const view = new DataView(bytes.buffer);
+  view.setUint32(8, 13);
+  bytes.set([0x49, 0x48, 0x44, 0x52], 12);
+  view.setUint32(16, width);
+  view.setUint32(20, height);
+  bytes.set([8, 6, 0, 0, 0], 24);
+  return bytes;
+}
+
+// Response.json() is typed `unknown` under workers-types.
+export const json = (response: Response): Promise<any> => response.json();
+
+export function base64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
@@ -0,0 +1,95 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { Env } from '../src/env';
+import { generateJWT, klingToken } from '../src/providers/kling';
+import { json } from './harness';
+import { MockKling } from './mock-kling';
+
+const decode = (part: string) =>
+  JSON.parse(atob(part.replace(/-/g, '+').replace(/_/g, '/')));
+
+const createTask = (kling: MockKling, token: string) =>
+  kling.fetch(
+    new Request('https://kling.test/v1/videos/image2video', {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ image: 'aW1hZ2U=', prompt: 'a cat' }),
+    }),
+  );
+
+describe('generateJWT', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('builds an HS256 token with issuer and expiry claims', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+    const now = Math.floor(Date.now() / 1000);
+
+    const [header, payload, sig] = (await generateJWT('ak', 'sk')).split('.');
+
+    expect(decode(header)).toEqual({ alg: 'HS256', typ: 'JWT' });
+    expect(decode(payload)).toEqual({ iss: 'ak', exp: now + 1800, iat: now - 5 });
+    expect(sig).toMatch(/^[A-Za-z0-9_-]{43}$/);
+  });
+
+  it('is accepted by the mock API', async () => {
+    const kling = new MockKling({ accessKey: 'ak', secretKey: 'sk' });
+    const response = await createTask(kling, await generateJWT('ak', 'sk'));
+
+    expect(response.status).toBe(200);
+    const body = await json(response);
+    expect(body.code).toBe(0);
+    expect(body.data.task_status).toBe('submitted');
+  });
+
+  it('is rejected when signed with the wrong secret', async () => {
+    const kling = new MockKling({ accessKey: 'ak', secretKey: 'sk' });
+    const response = await createTask(kling, await generateJWT('ak', 'other'));
+
+    expect(response.status).toBe(401);
+    expect((await json(response)).code).toBe(1004);
+  });
+
+  it('is rejected once expired', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const kling = new MockKling({ accessKey: 'ak', secretKey: 'sk' });
+    const token = await generateJWT('ak', 'sk');
+    vi.advanceTimersByTime(31 * 60 * 1000);
+
+    const response = await createTask(kling, token);
+    expect(response.status).toBe(401);
+  });
+});
+
+describe('klingToken', () => {
+  const env = { KLING_ACCESS_KEY: 'ak', KLING_SECRET_KEY: 'sk' } as Env;
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('reuses a token until it is close to expiring', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const first = await klingToken(env);
+
+    vi.advanceTimersByTime(20 * 60 * 1000);
+    expect(await klingToken(env)).toBe(first);
+
+    vi.advanceTimersByTime(6 * 60 * 1000);
+    const renewed = await klingToken(env);
+    expect(renewed).not.toBe(first);
+    expect(decode(renewed.split('.')[1]).exp * 1000).toBeGreaterThan(Date.now());
+  });
+
+  it('signs a new token when the keys change', async () => {
+    const first = await klingToken(env);
+    const other = await klingToken({ ...env, KLING_ACCESS_KEY: 'ak2' });
+
+    expect(other).not.toBe(first);
+    expect(decode(other.split('.')[1]).iss).toBe('ak2');
+  });
+});
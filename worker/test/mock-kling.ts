@@ -0,0 +1,304 @@
+// ---------------------------------------------------------------------------
+// Mock Kling API
+// ---------------------------------------------------------------------------
+// A local stand-in for the parts of api.klingai.com the worker uses:
+//   POST /v1/videos/image2video       create a task
+//   GET  /v1/videos/image2video/:id   task status
+//   GET  /videos/:id.mp4              the finished video
+// Requests need a JWT signed with the configured secret key, as Kling does.
+//
+// Tasks advance one step per status request: submitted → processing → …
+// → succeed after `pollsToComplete` polls. Markers anywhere in the prompt
+// pick another outcome:
+//   [fail]    the task ends as failed
+//   [unsafe]  the task fails content review
+//   [stuck]   the task stays processing forever
+//   [reject]  creation is refused by content review (HTTP 400, code 1301)
+// failNext() makes the next requests fail with a Kling-style error.
+//
+// The tests drive it in-process through `fetch`. To run the worker against
+// it locally:
+//   npm run mock:kling                       # serves it on :8788
+//   KLING_BASE_URL=http://localhost:8788     # in the worker's .dev.vars
+// It checks tokens against the same KLING_ACCESS_KEY / KLING_SECRET_KEY.
+// Completion callbacks are not sent; the worker falls back to polling.
+// Tests can send one themselves to the task's `callbackUrl`.
+// ---------------------------------------------------------------------------
+
+export type MockTaskStatus = 'submitted' | 'processing' | 'succeed' | 'failed';
+
+export type MockTask = {
+  id: string;
+  prompt: string;
+  model: string;
+  status: MockTaskStatus;
+  statusMsg: string;
+  outcome: 'succeed' | 'fail' | 'unsafe' | 'stuck';
+  polls: number;
+  createdAt: number;
+  // callback_url from the create request, if any
+  callbackUrl?: string;
+};
+
+// Kling-style failures for failNext()
+export type MockFailure =
+  | 'rate-limit' // 429, code 1302
+  | 'concurrency' // 429, code 1303
+  | 'server' // 500, code 5000
+  | 'auth' // 401, code 1004
+  | 'malformed'; // 200 with a body that isn't JSON
+
+export type MockKlingOptions = {
+  accessKey?: string;
+  secretKey?: string;
+  // Status polls a task answers before it finishes
+  pollsToComplete?: number;
+};
+
+const FAILURES: Record<
+  Exclude<MockFailure, 'malformed'>,
+  { status: number; code: number; message: string }
+> = {
+  'rate-limit': { status: 429, code: 1302, message: 'API request rate exceeded' },
+  concurrency: {
+    status: 429,
+    code: 1303,
+    message: 'Concurrent task limit exceeded',
+  },
+  server: { status: 500, code: 5000, message: 'Internal server error' },
+  auth: { status: 401, code: 1004, message: 'Authorization failed' },
+};
+
+const MAX_PROMPT_LENGTH = 2500;
+
+// Smallest box an MP4 parser recognises: enough for "is this a video".
+const SAMPLE_VIDEO = new Uint8Array([
+  0, 0, 0, 20, 0x66, 0x74, 0x79, 0x70, 0x69, 0x73, 0x6f, 0x6d, 0, 0, 2, 0,
+  0x69, 0x73, 0x6f, 0x6d,
+]);
+
+export class MockKling {
+  readonly tasks = new Map<string, MockTask>();
+  // Every request received, for assertions
+  readonly requests: { method: string; path: string }[] = [];
+
+  private readonly accessKey: string;
+  private readonly secretKey: string;
+  private readonly pollsToComplete: number;
+  private readonly failures: MockFailure[] = [];
+  private nextId = 1;
+
+  constructor(options: MockKlingOptions = {}) {
+    this.accessKey = options.accessKey ?? 'test-access-key';
+    this.secretKey = options.secretKey ?? 'test-secret-key';
+    this.pollsToComplete = options.pollsToComplete ?? 2;
+  }
+
+  // Answer the next `times` API requests with `failure`.
+  failNext(failure: MockFailure, times = 1): void {
+    for (let i = 0; i < times; i++) this.failures.push(failure);
+  }
+
+  fetch = async (request: Request): Promise<Response> => {
+    const url = new URL(request.url);
+    this.requests.push({ method: request.method, path: url.pathname });
+
+    const video = url.pathname.match(/^\/videos\/([^/]+)\.mp4$/);
+    if (video && request.method === 'GET') {
+      return this.tasks.get(video[1])?.status === 'succeed'
+        ? new Response(SAMPLE_VIDEO, {
+            headers: { 'Content-Type': 'video/mp4' },
+          })
+        : new Response('Not found', { status: 404 });
+    }
+
+    const failure = this.failures.shift();
+    if (failure === 'malformed') {
+      return new Response('<html>Bad gateway</html>', {
+        headers: { 'Content-Type': 'text/html' },
+      });
+    }
+    if (failure) {
+      const { status, code, message } = FAILURES[failure];
+      return error(status, code, message);
+    }
+
+    if (!(await this.authorized(request))) {
+      return error(401, 1004, 'Authorization failed');
+    }
+
+    if (url.pathname === '/v1/videos/image2video' && request.method === 'POST') {
+      return this.create(request, url.origin);
+    }
+    const status = url.pathname.match(/^\/v1\/videos\/image2video\/([^/]+)$/);
+    if (status && request.method === 'GET') {
+      return this.status(status[1], url.origin);
+    }
+    return error(404, 1203, 'Resource not found');
+  };
+
+  private async create(request: Request, origin: string): Promise<Response> {
+    const body = (await request.json().catch(() => null)) as {
+      model_name?: string;
+      image?: string;
+      prompt?: string;
+      callback_url?: string;
+    } | null;
+    if (!body?.image) {
+      return error(400, 1201, 'image is required');
+    }
+    const prompt = body.prompt ?? '';
+    if (prompt.length > MAX_PROMPT_LENGTH) {
+      return error(400, 1201, 'prompt is too long');
+    }
+    if (prompt.includes('[reject]')) {
+      return error(
+        400,
+        1301,
+        'Trigger the content security policy of the platform',
+      );
+    }
+
+    const task: MockTask = {
+      id: `mock_${this.nextId++}`,
+      prompt,
+      model: body.model_name ?? 'kling-v1',
+      status: 'submitted',
+      statusMsg: '',
+      outcome: prompt.includes('[fail]')
+        ? 'fail'
+        : prompt.includes('[unsafe]')
+          ? 'unsafe'
+          : prompt.includes('[stuck]')
+            ? 'stuck'
+            : 'succeed',
+      polls: 0,
+      createdAt: Date.now(),
+      callbackUrl: body.callback_url,
+    };
+    this.tasks.set(task.id, task);
+    return success(taskData(task, origin));
+  }
+
+  private status(id: string, origin: string): Response {
+    const task = this.tasks.get(id);
+    if (!task) {
+      return error(404, 1203, 'Task not found');
+    }
+
+    task.polls++;
+    if (task.status === 'submitted' || task.status === 'processing') {
+      if (task.outcome === 'stuck' || task.polls < this.pollsToComplete) {
+        task.status = 'processing';
+      } else if (task.outcome === 'succeed') {
+        task.status = 'succeed';
+      } else {
+        task.status = 'failed';
+        task.statusMsg =
+          task.outcome === 'unsafe'
+            ? 'Failure to pass the risk control system'
+            : 'Video generation failed';
+      }
+    }
+    return success(taskData(task, origin));
+  }
+
+  private async authorized(request: Request): Promise<boolean> {
+    const header = request.headers.get('Authorization') ?? '';
+    const [head, payload, sig] = header.replace(/^Bearer /, '').split('.');
+    if (!head || !payload || !sig) return false;
+
+    const expected = base64url(
+      await hmacSha256(this.secretKey, `${head}.${payload}`),
+    );
+    if (sig !== expected) return false;
+
+    let claims: { iss?: string; exp?: number };
+    try {
+      claims = JSON.parse(atob(payload.replace(/-/g, '+').replace(/_/g, '/')));
+    } catch {
+      return false;
+    }
+    return (
+      claims.iss === this.accessKey &&
+      typeof claims.exp === 'number' &&
+      claims.exp * 1000 > Date.now()
+    );
+  }
+}
+
+function taskData(task: MockTask, origin: string) {
+  return {
+    task_id: task.id,
+    task_status: task.status,
+    task_status_msg: task.statusMsg,
+    created_at: task.createdAt,
+    updated_at: Date.now(),
+    task_result:
+      task.status === 'succeed'
+        ? {
+            videos: [
+              {
+                id: task.id,
+                url: `${origin}/videos/${task.id}.mp4`,
+                duration: '5',
+              },
+            ],
+          }
+        : undefined,
+  };
+}
+
+function success(data: unknown): Response {
+  return Response.json({
+    code: 0,
+    message: 'SUCCEED',
+    request_id: crypto.randomUUID(),
+    data,
+  });
+}
+
+function error(status: number, code: number, message: string): Response {
+  return Response.json(
+    { code, message, request_id: crypto.randomUUID() },
+    { status },
+  );
+}
+
+function base64url(buf: ArrayBuffer): string {
+  return btoa(String.fromCharCode(...new Uint8Array(buf)))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+async function hmacSha256(secret: string, message: string): Promise<ArrayBuffer> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  );
+  return crypto.subtle.sign('HMAC', key, encoder.encode(message));
+}
+
+// ---------------------------------------------------------------------------
+// Standalone: `wrangler dev test/mock-kling.ts` (npm run mock:kling)
+// ---------------------------------------------------------------------------
+
+let instance: MockKling | null = null;
+
+export default {
+  fetch(
+    request: Request,
+    env: { KLING_ACCESS_KEY?: string; KLING_SECRET_KEY?: string },
+  ): Promise<Response> {
+    instance ??= new MockKling({
+      accessKey: env.KLING_ACCESS_KEY,
+      secretKey: env.KLING_SECRET_KEY,
+    });
+    return instance.fetch(request);
+  },
+};
@@ -0,0 +1,161 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Mp4IncompatibleError, concatMp4 } from '../src/mp4';
+import { dummyVideoBytes } from '../src/providers/dummy-video';
+import { createHarness, json, type Harness } from './harness';
+
+// Joining clips (src/mp4.ts) and POST /render, with the dummy provider's
+// clip as the fixture.
+
+const FRAME_MS = 100; // the dummy clip runs at 10 fps
+const CLIP_SECONDS = 10;
+
+// Offset of a box's type in `bytes`, after `from`
+function find(bytes: Uint8Array, type: string, from = 0): number {
+  const code = [...type].map((c) => c.charCodeAt(0));
+  for (let i = from; i + 4 <= bytes.length; i++) {
+    if (code.every((c, j) => bytes[i + j] === c)) return i;
+  }
+  throw new Error(`No ${type} box`);
+}
+
+// Movie duration in ms, from a version 0 mvhd
+function durationMs(bytes: Uint8Array): number {
+  const view = new DataView(bytes.buffer, bytes.byteOffset);
+  const content = find(bytes, 'mvhd') + 4;
+  return (view.getUint32(content + 16) / view.getUint32(content + 12)) * 1000;
+}
+
+// The dummy clip re-labelled with another frame size, as a clip from a
+// different model or mode would be.
+function otherEncoding(): Uint8Array {
+  const bytes = dummyVideoBytes(CLIP_SECONDS).slice();
+  const avc1 = find(bytes, 'avc1', find(bytes, 'stsd'));
+  // Width follows the reserved bytes, data reference index and predefined fields
+  new DataView(bytes.buffer).setUint16(avc1 + 4 + 6 + 2 + 16, 320);
+  return bytes;
+}
+
+describe('concatMp4', () => {
+  it('joins clips encoded alike end to end', () => {
+    const clip = dummyVideoBytes(CLIP_SECONDS);
+    const joined = concatMp4([clip, clip]);
+
+    expect(durationMs(joined)).toBe(2 * CLIP_SECONDS * 1000);
+  });
+
+  it('drops the repeated frame at each join', () => {
+    const clip = dummyVideoBytes(CLIP_SECONDS);
+    const joined = concatMp4([clip, clip, clip], { trimJoins: true });
+
+    expect(durationMs(joined)).toBe(3 * CLIP_SECONDS * 1000 - 2 * FRAME_MS);
+  });
+
+  it('ends a clip on the frame the next one continues from', () => {
+    const clip = dummyVideoBytes(CLIP_SECONDS);
+    const clipMs = CLIP_SECONDS * 1000;
+
+    // Up to and including the frame showing at 4s
+    expect(durationMs(concatMp4([clip, clip], { cutAtMs: [4000, null] }))).toBe(
+      4000 + FRAME_MS + clipMs,
+    );
+    // Mid-frame times pick the frame showing then; trimJoins drops it.
+    const trimmed = concatMp4([clip, clip, clip], {
+      trimJoins: true,
+      cutAtMs: [4050, null, null],
+    });
+    expect(durationMs(trimmed)).toBe(4000 + (clipMs - FRAME_MS) + clipMs);
+  });
+
+  it('names the first clip encoded differently', () => {
+    const clip = dummyVideoBytes(CLIP_SECONDS);
+    let error: unknown;
+    try {
+      concatMp4([clip, clip, otherEncoding()]);
+    } catch (err) {
+      error = err;
+    }
+
+    expect(error).toBeInstanceOf(Mp4IncompatibleError);
+    expect(error).toMatchObject({ clip: 2 });
+  });
+});
+
+describe('POST /render', () => {
+  let h: Harness;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    h = await createHarness();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  // Archive `bytes` as a video owned by `clientId`
+  async function store(id: string, bytes: Uint8Array, clientId = 'client-a') {
+    const { getVideoStore } = await import('../src/videos');
+    await getVideoStore(h.env).put(id, bytes.slice().buffer, {
+      size: bytes.byteLength,
+      contentType: 'video/mp4',
+      clientId,
+    });
+  }
+
+  const render = (videoIds: string[], trimJoins = false, cutAtMs?: unknown) =>
+    h.call('/render', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ videoIds, trimJoins, cutAtMs }),
+    });
+
+  it('joins the caller’s clips into a new video', async () => {
+    await store('clip-1', dummyVideoBytes(CLIP_SECONDS));
+    await store('clip-2', dummyVideoBytes(CLIP_SECONDS));
+
+    const response = await render(['clip-1', 'clip-2'], true);
+    expect(response.status).toBe(200);
+    const { videoUrl } = await json(response);
+
+    const video = await h.call(new URL(videoUrl).pathname);
+    expect(video.status).toBe(200);
+    const bytes = new Uint8Array(await video.arrayBuffer());
+    expect(durationMs(bytes)).toBe(2 * CLIP_SECONDS * 1000 - FRAME_MS);
+  });
+
+  it('cuts a clip at its continuation frame', async () => {
+    await store('clip-1', dummyVideoBytes(CLIP_SECONDS));
+    await store('clip-2', dummyVideoBytes(CLIP_SECONDS));
+
+    const response = await render(['clip-1', 'clip-2'], true, [2500, null]);
+    const { videoUrl } = await json(response);
+    const video = await h.call(new URL(videoUrl).pathname);
+    const bytes = new Uint8Array(await video.arrayBuffer());
+    expect(durationMs(bytes)).toBe(2500 + CLIP_SECONDS * 1000);
+
+    const invalid = await render(['clip-1', 'clip-2'], true, [2500]);
+    expect(invalid.status).toBe(400);
+  });
+
+  it('rejects clips encoded differently, naming the clip', async () => {
+    await store('clip-1', dummyVideoBytes(CLIP_SECONDS));
+    await store('clip-2', otherEncoding());
+
+    const response = await render(['clip-1', 'clip-2']);
+    expect(response.status).toBe(422);
+    expect(await json(response)).toMatchObject({
+      code: 'CLIPS_INCOMPATIBLE',
+      details: { clip: 1 },
+    });
+  });
+
+  it('only joins the caller’s own clips', async () => {
+    await store('clip-1', dummyVideoBytes(CLIP_SECONDS));
+    await store('clip-2', dummyVideoBytes(CLIP_SECONDS), 'client-b');
+
+    const response = await render(['clip-1', 'clip-2']);
+    expect(response.status).toBe(404);
+    expect((await json(response)).code).toBe('VIDEO_NOT_FOUND');
+  });
+});
@@ -0,0 +1,385 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  base64,
+  createHarness,
+  json,
+  pngHeader,
+  runUntilSettled,
+  type Harness,
+} from './harness';
+
+const IMAGE = base64(pngHeader());
+
+function generate(h: Harness, body: object, headers: Record<string, string> = {}) {
+  return h.call('/generate', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+  });
+}
+
+async function startTask(h: Harness, prompt: string): Promise<string> {
+  const response = await generate(h, { image: IMAGE, prompt });
+  expect(response.status).toBe(200);
+  return (await json(response)).taskId;
+}
+
+// Status polls until the task leaves `processing`.
+async function settle(h: Harness, taskId: string) {
+  for (let i = 0; i < 10; i++) {
+    const body = await json(await h.call(`/status/${taskId}`));
+    if (body.status !== 'processing') return body;
+  }
+  throw new Error(`${taskId} never finished`);
+}
+
+describe('worker', () => {
+  let h: Harness;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    h = await createHarness({
+      env: { RATE_LIMIT_GENERATE_PER_MINUTE: '0', RATE_LIMIT_STATUS_PER_MINUTE: '0' },
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('reports Kling as the provider when its keys are set', async () => {
+    const body = await json(await h.call('/'));
+    expect(body).toMatchObject({ mode: 'live', provider: 'kling' });
+  });
+
+  it('submits to Kling and returns a prefixed task id', async () => {
+    const taskId = await startTask(h, 'a cat walks');
+
+    expect(taskId).toBe('kling:mock_1');
+    expect(h.kling.tasks.get('mock_1')?.prompt).toBe('a cat walks');
+  });
+
+  it('rejects an over-long prompt without calling Kling', async () => {
+    const response = await generate(h, { image: IMAGE, prompt: 'x'.repeat(2501) });
+
+    expect(response.status).toBe(400);
+    expect(await json(response)).toMatchObject({
+      code: 'PROMPT_TOO_LONG',
+      details: { maxLength: 2500, length: 2501 },
+    });
+    expect(h.kling.requests).toHaveLength(0);
+  });
+
+  it('keeps the dummy provider and its video to dummy mode', async () => {
+    const response = await generate(h, { image: IMAGE, prompt: 'a cat', provider: 'dummy' });
+
+    expect(response.status).toBe(400);
+    expect((await json(response)).code).toBe('INVALID_REQUEST');
+    const video = await h.call('/dummy-video');
+    expect(video.headers.get('Content-Type')).not.toBe('video/mp4');
+  });
+
+  it('rejects a request without an image', async () => {
+    const response = await generate(h, { prompt: 'a cat' });
+
+    expect(response.status).toBe(400);
+    expect((await json(response)).code).toBe('INVALID_IMAGE');
+  });
+
+  it('follows a task to completion and serves the archived video', async () => {
+    const taskId = await startTask(h, 'a cat walks');
+
+    const first = await json(await h.call(`/status/${taskId}`));
+    expect(first.status).toBe('processing');
+
+    const done = await settle(h, taskId);
+    expect(done.status).toBe('completed');
+    expect(done.videoUrl).toMatch(/^https:\/\/worker\.test\/videos\/[0-9a-f-]+$/);
+
+    const video = await h.call(new URL(done.videoUrl).pathname);
+    expect(video.status).toBe(200);
+    expect(video.headers.get('Content-Type')).toBe('video/mp4');
+    expect((await video.arrayBuffer()).byteLength).toBeGreaterThan(0);
+  });
+
+  it('keeps tasks and videos private to their client', async () => {
+    const taskId = await startTask(h, 'a cat walks');
+    const done = await settle(h, taskId);
+
+    const status = await h.call(`/status/${taskId}`, {}, 'client-b');
+    expect(status.status).toBe(404);
+    expect((await json(status)).code).toBe('TASK_NOT_FOUND');
+
+    const video = await h.call(new URL(done.videoUrl).pathname, {}, 'client-b');
+    expect(video.status).toBe(404);
+  });
+
+  it('reports a failed task as GENERATION_FAILED', async () => {
+    const taskId = await startTask(h, 'a cat [fail]');
+    expect(await settle(h, taskId)).toMatchObject({
+      status: 'failed',
+      code: 'GENERATION_FAILED',
+    });
+  });
+
+  it('reports a task that failed content review', async () => {
+    const taskId = await startTask(h, 'a cat [unsafe]');
+    expect(await settle(h, taskId)).toMatchObject({
+      status: 'failed',
+      code: 'PROVIDER_REJECTED_CONTENT',
+    });
+  });
+
+  it('maps a content rejection on submit to 422', async () => {
+    const response = await generate(h, { image: IMAGE, prompt: 'a cat [reject]' });
+
+    expect(response.status).toBe(422);
+    expect((await json(response)).code).toBe('PROVIDER_REJECTED_CONTENT');
+  });
+
+  it('retries a Kling rate limit before passing it on', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'Date'] });
+    h.kling.failNext('rate-limit');
+
+    const response = await runUntilSettled(generate(h, { image: IMAGE, prompt: 'a cat' }));
+    expect(response.status).toBe(200);
+    expect(h.kling.requests.filter((r) => r.method === 'POST')).toHaveLength(2);
+  });
+
+  it('passes Kling rate limits on with Retry-After', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'Date'] });
+    h.kling.failNext('rate-limit', 3);
+    const response = await runUntilSettled(generate(h, { image: IMAGE, prompt: 'a cat' }));
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get('Retry-After')).toBe('10');
+    expect(await json(response)).toMatchObject({
+      code: 'PROVIDER_RATE_LIMITED',
+      retryAfter: 10,
+    });
+  });
+
+  it.each(['server', 'auth', 'malformed'] as const)(
+    'reports a %s failure from Kling as PROVIDER_ERROR',
+    async (failure) => {
+      h.kling.failNext(failure);
+      const response = await generate(h, { image: IMAGE, prompt: 'a cat' });
+
+      expect(response.status).toBe(502);
+      expect((await json(response)).code).toBe('PROVIDER_ERROR');
+    },
+  );
+
+  it('retries a failed status check', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'Date'] });
+    const taskId = await startTask(h, 'a cat');
+    h.kling.failNext('server', 2);
+
+    const response = await runUntilSettled(h.call(`/status/${taskId}`));
+    expect(response.status).toBe(200);
+    expect((await json(response)).status).toBe('processing');
+  });
+
+  it('stops calling a failing Kling until it has had time to recover', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'Date'] });
+    const taskId = await startTask(h, 'a cat');
+    // Five status calls, each failing all three of its attempts
+    h.kling.failNext('server', 15);
+    for (let i = 0; i < 5; i++) {
+      const response = await runUntilSettled(h.call(`/status/${taskId}`));
+      expect(response.status).toBe(502);
+    }
+
+    const requests = h.kling.requests.length;
+    const open = await h.call(`/status/${taskId}`);
+    expect(open.status).toBe(503);
+    expect(open.headers.get('Retry-After')).toBe('30');
+    expect(await json(open)).toMatchObject({
+      code: 'PROVIDER_UNAVAILABLE',
+      error: 'Upstream kling is unavailable',
+    });
+    expect(h.kling.requests).toHaveLength(requests);
+
+    vi.advanceTimersByTime(30_000);
+    const recovered = await runUntilSettled(h.call(`/status/${taskId}`));
+    expect(recovered.status).toBe(200);
+    expect((await h.call(`/status/${taskId}`)).status).toBe(200);
+  });
+
+  it('reports a malformed status response as PROVIDER_ERROR', async () => {
+    const taskId = await startTask(h, 'a cat');
+    h.kling.failNext('malformed');
+
+    const response = await h.call(`/status/${taskId}`);
+    expect(response.status).toBe(502);
+    expect((await json(response)).code).toBe('PROVIDER_ERROR');
+  });
+
+  it('replays a repeated idempotency key without a second task', async () => {
+    const headers = { 'Idempotency-Key': 'clip_1' };
+    const first = await generate(h, { image: IMAGE, prompt: 'a cat' }, headers);
+    const second = await generate(h, { image: IMAGE, prompt: 'a cat' }, headers);
+
+    expect(await json(second)).toEqual(await json(first));
+    expect(second.headers.get('Idempotent-Replayed')).toBe('true');
+    expect(h.kling.tasks.size).toBe(1);
+  });
+
+  it('generates from an uploaded image', async () => {
+    const upload = await h.call('/upload', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/octet-stream' },
+      body: pngHeader(),
+    });
+    expect(upload.status).toBe(200);
+    const { imageId } = await json(upload);
+
+    const response = await generate(h, { imageId, prompt: 'a cat' });
+    expect(response.status).toBe(200);
+    // The upload is used up by the generation.
+    const again = await generate(h, { imageId, prompt: 'a cat' });
+    expect((await json(again)).code).toBe('IMAGE_NOT_FOUND');
+  });
+
+  describe('uploads', () => {
+    const upload = (body: BodyInit, init: RequestInit = {}) =>
+      h.call('/upload', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/octet-stream' },
+        body,
+        ...init,
+      });
+
+    // A PNG whose file is `size` bytes: a header padded with zeros
+    function pngOfSize(size: number): Uint8Array {
+      const bytes = new Uint8Array(size);
+      bytes.set(pngHeader());
+      return bytes;
+    }
+
+    it('refuses an oversized body without a Content-Length', async () => {
+      const chunk = new Uint8Array(1024 * 1024);
+      let sent = 0;
+      const body = new ReadableStream<Uint8Array>({
+        pull(controller) {
+          sent++;
+          controller.enqueue(sent === 1 ? pngOfSize(chunk.length) : chunk);
+          if (sent === 30) controller.close();
+        },
+      });
+
+      // A streamed body is sent chunked.
+      const response = await upload(body, { duplex: 'half' } as RequestInit);
+      expect(response.status).toBe(413);
+      expect((await json(response)).code).toBe('IMAGE_TOO_LARGE');
+      // Stopped once over the limit, not after reading it all
+      expect(sent).toBeLessThan(30);
+    });
+
+    it('makes room in memory by dropping the oldest uploads', async () => {
+      const ids: string[] = [];
+      for (let i = 0; i < 4; i++) {
+        const response = await upload(pngOfSize(9 * 1024 * 1024));
+        expect(response.status).toBe(200);
+        ids.push((await json(response)).imageId);
+      }
+
+      const oldest = await generate(h, { imageId: ids[0], prompt: 'a cat' });
+      expect((await json(oldest)).code).toBe('IMAGE_NOT_FOUND');
+      const newest = await generate(h, { imageId: ids[3], prompt: 'a cat' });
+      expect(newest.status).toBe(200);
+    });
+
+    it('is rate limited per client', async () => {
+      h = await createHarness({ env: { RATE_LIMIT_UPLOAD_PER_MINUTE: '1' } });
+
+      expect((await upload(pngHeader())).status).toBe(200);
+      const limited = await upload(pngHeader());
+      expect(limited.status).toBe(429);
+      expect((await json(limited)).code).toBe('RATE_LIMITED');
+    });
+
+    // Kling takes JPEG and PNG. /upload converts anything else through the
+    // IMAGES binding, but an inline image is sent on as it is.
+    it.each([
+      ['WebP', 'RIFF\0\0\0\0WEBPVP8X\x0a\0\0\0\0\0\0\0\xff\x01\0\xff\x01\0'],
+      ['GIF', 'GIF89a\0\x02\0\x02'],
+    ])('refuses an inline %s image', async (_, header) => {
+      const image = btoa(header);
+      const response = await generate(h, { image, prompt: 'a cat' });
+
+      expect(response.status).toBe(415);
+      expect(await json(response)).toMatchObject({
+        code: 'INVALID_IMAGE',
+        error: 'Only JPEG and PNG images are supported',
+      });
+      expect(h.kling.requests).toHaveLength(0);
+    });
+  });
+
+  it('holds a waiting status call until the task finishes', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'Date'] });
+    const taskId = await startTask(h, 'a cat');
+
+    const response = await runUntilSettled(h.call(`/status/${taskId}?wait=25`));
+    const body = await json(response);
+
+    expect(body.status).toBe('completed');
+    expect(response.headers.get('X-Long-Poll')).not.toBeNull();
+  });
+
+  describe('cancellation', () => {
+    const cancel = (taskId: string, clientId?: string) =>
+      h.call(`/cancel/${taskId}`, { method: 'POST' }, clientId);
+
+    it('keeps a cancelled Kling task and lists its video once it arrives', async () => {
+      const taskId = await startTask(h, 'a cat walks');
+
+      const response = await json(await cancel(taskId));
+      expect(response).toMatchObject({ taskId, status: 'processing', abandoned: true });
+
+      const first = await json(await h.call('/cancelled'));
+      expect(first.tasks).toMatchObject([{ taskId, status: 'processing' }]);
+
+      const second = await json(await h.call('/cancelled'));
+      expect(second.tasks).toMatchObject([{ taskId, status: 'completed' }]);
+      expect(second.tasks[0].videoUrl).toMatch(/^https:\/\/worker\.test\/videos\//);
+    });
+
+    it('forgets a task once dismissed', async () => {
+      const taskId = await startTask(h, 'a cat walks');
+      await cancel(taskId);
+
+      const dismissed = await h.call(`/cancelled/${taskId}`, { method: 'DELETE' });
+      expect(dismissed.status).toBe(204);
+      expect((await json(await h.call('/cancelled'))).tasks).toEqual([]);
+    });
+
+    it("won't cancel another client's task", async () => {
+      const taskId = await startTask(h, 'a cat walks');
+
+      const response = await cancel(taskId, 'client-b');
+      expect(response.status).toBe(404);
+      expect((await json(await h.call('/cancelled'))).tasks).toEqual([]);
+    });
+
+    it('stops the task at a provider that can cancel', async () => {
+      const { registerProvider } = await import('../src/providers');
+      const { klingProvider } = await import('../src/providers/kling');
+      const cancelAtProvider = vi.fn(async () => {});
+      registerProvider({ ...klingProvider, cancel: cancelAtProvider });
+      const taskId = await startTask(h, 'a cat walks');
+
+      const response = await json(await cancel(taskId));
+      expect(response).toMatchObject({ status: 'cancelled', abandoned: false });
+      expect(cancelAtProvider).toHaveBeenCalledWith('mock_1', expect.anything());
+
+      const status = await json(await h.call(`/status/${taskId}`));
+      expect(status.status).toBe('cancelled');
+      expect((await json(await h.call('/cancelled'))).tasks).toEqual([]);
+    });
+  });
+});